@@ -0,0 +1,64 @@
+// Migration: Add accounts table and account_id links
+// Run this with: node drizzle/add-accounts.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating accounts table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT REFERENCES users(id),
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        currency TEXT DEFAULT 'IDR',
+        opening_balance REAL NOT NULL DEFAULT 0,
+        opening_date TEXT,
+        icon TEXT,
+        color TEXT,
+        is_archived INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_accounts_user ON accounts (user_id)');
+        console.log('✅ Accounts table created');
+
+        // Add account_id to every table that can point at a source of funds
+        // (SQLite doesn't support IF NOT EXISTS for ALTER TABLE)
+        for (const table of ['transactions', 'recurring_transactions', 'receipts']) {
+            try {
+                await client.execute(
+                    `ALTER TABLE ${table} ADD COLUMN account_id TEXT REFERENCES accounts(id) ON DELETE SET NULL`
+                );
+                console.log(`✅ Added account_id column to ${table}`);
+            } catch (error) {
+                if (error.message.includes('duplicate column name')) {
+                    console.log(`⏭️  Column account_id already exists on ${table}`);
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions (account_id)');
+        console.log('✅ Index idx_transactions_account created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,52 @@
+// Migration: Add categorization_rules table (user-defined auto-categorization rules)
+// Run this with: node drizzle/add-categorization-rules.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating categorization_rules table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS categorization_rules (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        match_field TEXT NOT NULL DEFAULT 'description',
+        match_type TEXT NOT NULL DEFAULT 'contains',
+        pattern TEXT,
+        min_amount REAL,
+        max_amount REAL,
+        currency TEXT,
+        account_id TEXT REFERENCES accounts(id) ON DELETE CASCADE,
+        transaction_type TEXT,
+        set_category_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        rename_to TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ categorization_rules table created');
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority ON categorization_rules (user_id, priority)');
+        console.log('✅ Index created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
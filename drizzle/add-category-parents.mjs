@@ -0,0 +1,41 @@
+// Migration: Add parent_id to categories for nested subcategories
+// Run this with: node drizzle/add-category-parents.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding parent_id column to categories table...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE categories ADD COLUMN parent_id TEXT REFERENCES categories(id) ON DELETE SET NULL');
+            console.log('✅ Added categories.parent_id column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column categories.parent_id already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories (parent_id)');
+        console.log('✅ Index created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
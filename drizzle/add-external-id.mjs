@@ -0,0 +1,41 @@
+// Migration: Add external_id (OFX FITID) to transactions
+// Run this with: node drizzle/add-external-id.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding external_id column to transactions...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE transactions ADD COLUMN external_id TEXT');
+            console.log('✅ Added external_id column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column external_id already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transactions_user_external ON transactions (user_id, external_id)');
+        console.log('✅ Index idx_transactions_user_external created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,43 @@
+// Migration: Add import_profiles table (saved bank CSV column mappings)
+// Run this with: node drizzle/add-import-profiles.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating import_profiles table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS import_profiles (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        mapping TEXT NOT NULL,
+        account_id TEXT REFERENCES accounts(id) ON DELETE SET NULL,
+        currency TEXT DEFAULT 'IDR',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ import_profiles table created');
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_import_profiles_user ON import_profiles (user_id)');
+        console.log('✅ Index created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,44 @@
+// Migration: Add merchant_templates table (parsing hints learned from corrected receipts)
+// Run this with: node drizzle/add-merchant-templates.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating merchant_templates table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS merchant_templates (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        fingerprint TEXT NOT NULL,
+        merchant_name TEXT NOT NULL,
+        total_label TEXT,
+        date_order TEXT,
+        category_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ merchant_templates table created');
+
+        await client.execute('CREATE UNIQUE INDEX IF NOT EXISTS idx_merchant_templates_user_fingerprint ON merchant_templates (user_id, fingerprint)');
+        console.log('✅ Index created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,44 @@
+// Migration: Add users.merchants_seeded, set once the default merchants were added
+// Run this with: node drizzle/add-merchants-seeded.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding merchants_seeded column to users table...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE users ADD COLUMN merchants_seeded INTEGER DEFAULT 0');
+            console.log('✅ Added users.merchants_seeded column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column users.merchants_seeded already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        // Users with a directory already got the defaults
+        const result = await client.execute(
+            'UPDATE users SET merchants_seeded = 1 WHERE id IN (SELECT DISTINCT user_id FROM merchants)'
+        );
+        console.log(`✅ Marked ${result.rowsAffected} users as seeded`);
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,63 @@
+// Migration: Add merchants table and merchant_id links on receipts and transactions
+// Run this with: node drizzle/add-merchants.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+const LINKED_TABLES = ['receipts', 'transactions'];
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating merchants table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS merchants (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        aliases TEXT NOT NULL DEFAULT '[]',
+        pattern TEXT,
+        category_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        color TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ merchants table created');
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_merchants_user ON merchants (user_id)');
+        console.log('✅ Index created');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        for (const table of LINKED_TABLES) {
+            try {
+                await client.execute(`ALTER TABLE ${table} ADD COLUMN merchant_id TEXT REFERENCES merchants(id) ON DELETE SET NULL`);
+                console.log(`✅ Added ${table}.merchant_id column`);
+            } catch (error) {
+                if (error.message.includes('duplicate column name')) {
+                    console.log(`⏭️  Column ${table}.merchant_id already exists`);
+                } else {
+                    throw error;
+                }
+            }
+
+            await client.execute(`CREATE INDEX IF NOT EXISTS idx_${table}_merchant ON ${table}(merchant_id)`);
+            console.log(`✅ Created idx_${table}_merchant index`);
+        }
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
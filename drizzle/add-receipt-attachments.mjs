@@ -0,0 +1,51 @@
+// Migration: Add attachment columns to receipts (original PDF of PDF receipts)
+// Run this with: node drizzle/add-receipt-attachments.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+const COLUMNS = [
+    ['attachment_hash', 'TEXT'],
+    ['attachment_type', 'TEXT'],
+    ['attachment_size', 'INTEGER'],
+];
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding attachment columns to receipts...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        for (const [name, type] of COLUMNS) {
+            try {
+                await client.execute(`ALTER TABLE receipts ADD COLUMN ${name} ${type}`);
+                console.log(`✅ Added ${name} column`);
+            } catch (error) {
+                if (error.message.includes('duplicate column name')) {
+                    console.log(`⏭️  Column ${name} already exists`);
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        await client.execute(
+            'CREATE INDEX IF NOT EXISTS idx_receipts_attachment_hash ON receipts(attachment_hash)'
+        );
+        console.log('✅ Created idx_receipts_attachment_hash index');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,44 @@
+// Migration: Add file_hash and perceptual_hash to receipts (duplicate detection)
+// Perceptual hashes of existing receipts are filled in by the app (see lib/receipt-duplicates.ts)
+// Run this with: node drizzle/add-receipt-hashes.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding duplicate detection hashes to receipts...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        for (const column of ['file_hash', 'perceptual_hash']) {
+            try {
+                await client.execute(`ALTER TABLE receipts ADD COLUMN ${column} TEXT`);
+                console.log(`✅ Added ${column} column`);
+            } catch (error) {
+                if (error.message.includes('duplicate column name')) {
+                    console.log(`⏭️  Column ${column} already exists`);
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_receipts_user_file_hash ON receipts (user_id, file_hash)');
+        console.log('✅ Index idx_receipts_user_file_hash created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
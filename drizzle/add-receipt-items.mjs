@@ -0,0 +1,47 @@
+// Migration: Add receipt_items table (line items kept for price history)
+// Run this with: node drizzle/add-receipt-items.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating receipt_items table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS receipt_items (
+        id TEXT PRIMARY KEY,
+        receipt_id TEXT NOT NULL REFERENCES receipts(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id),
+        name TEXT NOT NULL,
+        normalized_name TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 1,
+        unit_price REAL NOT NULL,
+        total_price REAL NOT NULL,
+        currency TEXT DEFAULT 'IDR',
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ receipt_items table created');
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_receipt_items_receipt ON receipt_items (receipt_id)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_receipt_items_user_name ON receipt_items (user_id, normalized_name)');
+        console.log('✅ Indexes created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,38 @@
+// Migration: Add ocr_status to receipts (server-side OCR jobs)
+// Run this with: node drizzle/add-receipt-ocr-status.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding ocr_status column to receipts...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE receipts ADD COLUMN ocr_status TEXT');
+            console.log('✅ Added ocr_status column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column ocr_status already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
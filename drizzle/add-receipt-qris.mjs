@@ -0,0 +1,38 @@
+// Migration: Add receipts.has_qris, set when a QRIS code named the receipt's merchant
+// Run this with: node drizzle/add-receipt-qris.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding has_qris column to receipts table...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE receipts ADD COLUMN has_qris INTEGER DEFAULT 0');
+            console.log('✅ Added receipts.has_qris column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column receipts.has_qris already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
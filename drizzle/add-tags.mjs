@@ -0,0 +1,64 @@
+// Migration: Add tags and transaction_tags tables, and the "add tag" rule action
+// Run this with: node drizzle/add-tags.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating tags tables...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        color TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ tags table created');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS transaction_tags (
+        id TEXT PRIMARY KEY,
+        transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ transaction_tags table created');
+
+        await client.execute('CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name ON tags (user_id, name)');
+        await client.execute('CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_tags_pair ON transaction_tags (transaction_id, tag_id)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag ON transaction_tags (tag_id)');
+        console.log('✅ Indexes created');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        try {
+            await client.execute('ALTER TABLE categorization_rules ADD COLUMN add_tag_id TEXT REFERENCES tags(id) ON DELETE SET NULL');
+            console.log('✅ Added categorization_rules.add_tag_id column');
+        } catch (error) {
+            if (error.message.includes('duplicate column name')) {
+                console.log('⏭️  Column categorization_rules.add_tag_id already exists');
+            } else {
+                throw error;
+            }
+        }
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -0,0 +1,43 @@
+// Migration: Add transaction_duplicates table (likely duplicate pairs for review)
+// Run this with: node drizzle/add-transaction-duplicates.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating transaction_duplicates table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS transaction_duplicates (
+        id TEXT PRIMARY KEY,
+        user_id TEXT REFERENCES users(id),
+        transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+        duplicate_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+        score REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ transaction_duplicates table created');
+
+        await client.execute('CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_duplicates_pair ON transaction_duplicates (transaction_id, duplicate_id)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transaction_duplicates_user_status ON transaction_duplicates (user_id, status)');
+        console.log('✅ Indexes created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
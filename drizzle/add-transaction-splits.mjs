@@ -0,0 +1,42 @@
+// Migration: Add transaction_splits table
+// Run this with: node drizzle/add-transaction-splits.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+async function migrate() {
+    try {
+        console.log('🔧 Creating transaction_splits table...\n');
+
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS transaction_splits (
+        id TEXT PRIMARY KEY,
+        transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+        category_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        amount REAL NOT NULL,
+        description TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+        console.log('✅ transaction_splits table created');
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits (transaction_id)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transaction_splits_category ON transaction_splits (category_id)');
+        console.log('✅ Indexes created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
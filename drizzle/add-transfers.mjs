@@ -0,0 +1,50 @@
+// Migration: Add transfer columns to transactions
+// Run this with: node drizzle/add-transfers.mjs
+// The 'transfer' type itself needs no change: the type enum is not enforced by SQLite.
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+const columns = [
+    ['to_account_id', 'TEXT REFERENCES accounts(id) ON DELETE SET NULL'],
+    ['to_amount', 'REAL'],
+    ['transfer_id', 'TEXT REFERENCES transactions(id) ON DELETE CASCADE'],
+];
+
+async function migrate() {
+    try {
+        console.log('🔧 Adding transfer columns to transactions...\n');
+
+        // SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+        for (const [name, definition] of columns) {
+            try {
+                await client.execute(`ALTER TABLE transactions ADD COLUMN ${name} ${definition}`);
+                console.log(`✅ Added ${name} column`);
+            } catch (error) {
+                if (error.message.includes('duplicate column name')) {
+                    console.log(`⏭️  Column ${name} already exists`);
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_transactions_to_account ON transactions (to_account_id)');
+        console.log('✅ Index idx_transactions_to_account created');
+
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
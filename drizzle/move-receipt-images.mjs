@@ -0,0 +1,146 @@
+// Migration: Move receipt images out of receipts.image_base64 into the blob store
+// Uses the same BLOB_STORE / BLOB_STORE_PATH / S3_* settings as the app (see lib/blob-store.ts)
+// Run this with: node drizzle/move-receipt-images.mjs
+import { createClient } from '@libsql/client';
+import { config } from 'dotenv';
+import { createHash, createHmac } from 'crypto';
+import { mkdir, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+
+config({ path: '.env.local' });
+
+const client = createClient({
+    url: process.env.TURSO_DATABASE_URL,
+    authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+const BATCH_SIZE = 20;
+
+const sha256 = (value) => createHash('sha256').update(value).digest('hex');
+const hmac = (secret, value) => createHmac('sha256', secret).update(value).digest();
+
+async function putLocal(key, data) {
+    const root = process.env.BLOB_STORE_PATH || path.join(process.cwd(), '.data', 'blobs');
+    const file = path.join(root, key);
+    try {
+        if ((await stat(file)).isFile()) return;
+    } catch {
+        // not stored yet
+    }
+    await mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, data);
+    await rename(temp, file);
+}
+
+async function putS3(key, data, contentType) {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    const region = process.env.S3_REGION || 'us-east-1';
+    const url = S3_ENDPOINT
+        ? new URL(`${S3_ENDPOINT.replace(/\/$/, '')}/${S3_BUCKET}/${key}`)
+        : new URL(`https://${S3_BUCKET}.s3.${region}.amazonaws.com/${key}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(data);
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+        'PUT',
+        url.pathname,
+        '',
+        `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+        signedHeaders,
+        payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const res = await fetch(url, {
+        method: 'PUT',
+        body: new Uint8Array(data),
+        headers: {
+            'Content-Type': contentType,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+            Authorization: `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+    });
+    if (!res.ok) throw new Error(`S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+}
+
+// SQLite doesn't support IF NOT EXISTS for ALTER TABLE
+async function addColumn(sql, name) {
+    try {
+        await client.execute(sql);
+        console.log(`✅ Added ${name} column`);
+    } catch (error) {
+        if (!error.message.includes('duplicate column name')) throw error;
+        console.log(`⏭️  Column ${name} already exists`);
+    }
+}
+
+async function migrate() {
+    try {
+        const useS3 = process.env.BLOB_STORE === 's3';
+        console.log(`🔧 Moving receipt images to the ${useS3 ? 'S3' : 'local'} blob store...\n`);
+
+        await addColumn('ALTER TABLE receipts ADD COLUMN image_hash TEXT', 'image_hash');
+        await addColumn('ALTER TABLE receipts ADD COLUMN image_type TEXT', 'image_type');
+        await addColumn('ALTER TABLE receipts ADD COLUMN image_size INTEGER', 'image_size');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_receipts_image_hash ON receipts (image_hash)');
+        console.log('✅ Index created\n');
+
+        let moved = 0;
+        let invalid = 0;
+        let lastId = '';
+
+        // Page by id so each batch holds only a few images in memory
+        for (;;) {
+            const { rows } = await client.execute({
+                sql: `SELECT id, image_base64 FROM receipts
+                      WHERE image_hash IS NULL AND image_base64 != '' AND id > ?
+                      ORDER BY id LIMIT ?`,
+                args: [lastId, BATCH_SIZE],
+            });
+            if (rows.length === 0) break;
+
+            for (const row of rows) {
+                lastId = row.id;
+                const matches = String(row.image_base64).match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
+                if (!matches) {
+                    invalid++;
+                    console.log(`⚠️  Receipt ${row.id}: not a base64 data URL, left in place`);
+                    continue;
+                }
+
+                const data = Buffer.from(matches[2], 'base64');
+                const hash = sha256(data);
+                const key = `receipts/${hash.slice(0, 2)}/${hash}`;
+                if (useS3) {
+                    await putS3(key, data, matches[1]);
+                } else {
+                    await putLocal(key, data);
+                }
+
+                await client.execute({
+                    sql: `UPDATE receipts SET image_hash = ?, image_type = ?, image_size = ?, image_base64 = '' WHERE id = ?`,
+                    args: [hash, matches[1], data.length, row.id],
+                });
+                moved++;
+            }
+            console.log(`   ${moved} moved so far...`);
+        }
+
+        console.log(`\n✅ ${moved} receipt images moved${invalid ? `, ${invalid} left inline` : ''}`);
+        console.log('\n🎉 Migration completed successfully!');
+    } catch (error) {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    } finally {
+        client.close();
+    }
+}
+
+migrate();
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js resolves its Node worker script relative to its own files,
+  // and pdfjs-dist loads its worker the same way (e-mail ingestion reads PDFs on the server)
+  serverExternalPackages: ['tesseract.js', 'pdfjs-dist'],
 };
 
 export default nextConfig;
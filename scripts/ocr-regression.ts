@@ -0,0 +1,136 @@
+// Offline regression run of the receipt text parsers (src/lib/ocr.ts)
+// Run with: npm run test:ocr [-- <fixture name filter>]
+//
+// Each scripts/fixtures/ocr/<name>.txt is raw OCR text; expected.json holds the
+// merchant, date, total and currency it should parse to, and for e-wallet and
+// m-banking screenshots the recognizer, direction, counterpart, reference and
+// fee. An optional <name>.qris holds the payload of a QRIS code in the same
+// image, decoded as the scanner would. Fields are only checked where given. Fields listed in a fixture's
+// "knownFailures" are reported but don't fail the run, so a parser change only
+// fails when it breaks something that used to work. "learnFrom" names another
+// fixture to learn a merchant template from first (with that fixture's expected
+// merchant, date and total), as if the user had reviewed it.
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { learnReceiptTemplate, parseReceiptText, type ReceiptTemplate } from '../src/lib/ocr';
+import { parseQris } from '../src/lib/qris';
+
+type Field =
+    | 'merchant' | 'date' | 'total' | 'currency'
+    | 'recognizer' | 'direction' | 'counterpart' | 'reference' | 'fee';
+
+type Expected = Partial<Record<Field, string | number | null>> & {
+    knownFailures?: Field[];
+    learnFrom?: string;
+};
+
+const FIELDS: Field[] = ['merchant', 'date', 'total', 'currency', 'recognizer', 'direction', 'counterpart', 'reference', 'fee'];
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'ocr');
+
+// Names compare case- and spacing-insensitively: OCR casing is not the parser's doing
+function normalize(field: Field, value: string | number | null | undefined): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (field === 'merchant' || field === 'counterpart') return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+    if (field === 'total' || field === 'fee') return Math.round(Number(value) * 100) / 100;
+    return value;
+}
+
+function main() {
+    const filter = process.argv[2];
+    const expectations: Record<string, Expected> = JSON.parse(
+        readFileSync(path.join(FIXTURE_DIR, 'expected.json'), 'utf-8')
+    );
+
+    const names = readdirSync(FIXTURE_DIR)
+        .filter(file => file.endsWith('.txt'))
+        .map(file => file.slice(0, -'.txt'.length))
+        .filter(name => !filter || name.includes(filter))
+        .sort();
+
+    const passed = Object.fromEntries(FIELDS.map(field => [field, 0])) as Record<Field, number>;
+    const checked = Object.fromEntries(FIELDS.map(field => [field, 0])) as Record<Field, number>;
+    const regressions: string[] = [];
+    const knownFailures: string[] = [];
+    const fixed: string[] = [];
+
+    for (const name of names) {
+        const expected = expectations[name];
+        if (!expected) {
+            regressions.push(`${name}: no entry in expected.json`);
+            continue;
+        }
+
+        const text = readFileSync(path.join(FIXTURE_DIR, `${name}.txt`), 'utf-8');
+        const qrisFile = path.join(FIXTURE_DIR, `${name}.qris`);
+        const qris = existsSync(qrisFile) ? parseQris(readFileSync(qrisFile, 'utf-8')) : null;
+        const templates: ReceiptTemplate[] = [];
+        if (expected.learnFrom) {
+            const source = expectations[expected.learnFrom] ?? {};
+            const learned = learnReceiptTemplate(
+                readFileSync(path.join(FIXTURE_DIR, `${expected.learnFrom}.txt`), 'utf-8'),
+                {
+                    merchant: typeof source.merchant === 'string' ? source.merchant : null,
+                    date: typeof source.date === 'string' ? source.date : null,
+                    amount: typeof source.total === 'number' ? source.total : null,
+                }
+            );
+            if (learned) templates.push({ ...learned, categoryId: null });
+        }
+        const result = parseReceiptText(text, 1, templates, qris);
+        const screenshot = result.screenshot;
+        const actual: Record<Field, string | number | null> = {
+            merchant: result.merchant,
+            date: result.date,
+            total: result.amount,
+            currency: result.currency,
+            recognizer: screenshot?.recognizer ?? null,
+            direction: screenshot?.direction ?? null,
+            counterpart: screenshot?.counterpart ?? null,
+            reference: screenshot?.reference ?? null,
+            fee: screenshot?.fee ?? null,
+        };
+
+        for (const field of FIELDS) {
+            if (!(field in expected)) continue;
+            checked[field]++;
+            const ok = normalize(field, actual[field]) === normalize(field, expected[field]);
+            const known = expected.knownFailures?.includes(field) ?? false;
+            const line = `${name} ${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(actual[field])}`;
+
+            if (ok) {
+                passed[field]++;
+                if (known) fixed.push(`${name} ${field}`);
+            } else if (known) {
+                knownFailures.push(line);
+            } else {
+                regressions.push(line);
+            }
+        }
+    }
+
+    console.log(`Receipt parser regression: ${names.length} fixtures\n`);
+    for (const field of FIELDS) {
+        if (checked[field] === 0) continue;
+        const pct = (passed[field] / checked[field]) * 100;
+        console.log(`  ${field.padEnd(11)} ${String(passed[field]).padStart(3)}/${checked[field]}  ${pct.toFixed(1)}%`);
+    }
+
+    if (knownFailures.length > 0) {
+        console.log(`\nKnown failures (${knownFailures.length}):`);
+        knownFailures.forEach(line => console.log(`  ${line}`));
+    }
+    if (fixed.length > 0) {
+        console.log(`\n✅ Now passing, remove from knownFailures (${fixed.length}):`);
+        fixed.forEach(line => console.log(`  ${line}`));
+    }
+    if (regressions.length > 0) {
+        console.log(`\n❌ Regressions (${regressions.length}):`);
+        regressions.forEach(line => console.log(`  ${line}`));
+        process.exit(1);
+    }
+
+    console.log('\n🎉 No regressions');
+}
+
+main();
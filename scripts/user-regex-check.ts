@@ -0,0 +1,29 @@
+// Check of the guard on user-written regular expressions (src/lib/user-regex.ts)
+// Run with: npm run test:regex
+//
+// scripts/fixtures/user-regex/patterns.json lists patterns the guard must refuse
+// (they can backtrack exponentially) and ordinary patterns it must accept.
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { compileUserRegex } from '../src/lib/user-regex';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'user-regex', 'patterns.json');
+
+function main() {
+    const { refused, accepted }: { refused: string[]; accepted: string[] } = JSON.parse(readFileSync(FIXTURES, 'utf-8'));
+    const failures = [
+        ...refused.filter(pattern => compileUserRegex(pattern) !== null).map(pattern => `${pattern}: accepted, should be refused`),
+        ...accepted.filter(pattern => compileUserRegex(pattern) === null).map(pattern => `${pattern}: refused, should be accepted`),
+    ];
+
+    console.log(`User regex guard: ${refused.length} refused, ${accepted.length} accepted patterns`);
+    if (failures.length > 0) {
+        console.log(`\n❌ Failures (${failures.length}):`);
+        failures.forEach(line => console.log(`  ${line}`));
+        process.exit(1);
+    }
+    console.log('\n🎉 All patterns handled as expected');
+}
+
+main();
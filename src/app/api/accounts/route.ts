@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { accounts, transactions, recurringTransactions, receipts, importProfiles, categorizationRules } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { accountSchema, validateInput } from '@/lib/validation';
+import { getAccountBalances, getAccountLedger } from '@/lib/accounts';
+
+// GET /api/accounts - List accounts with balances (or one account with its ledger via ?id=)
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        const balances = await getAccountBalances(user.id);
+
+        if (id) {
+            const account = balances.find(a => a.id === id);
+            if (!account) {
+                return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+            }
+
+            const ledger = await getAccountLedger(account);
+            return NextResponse.json({ data: { ...account, ledger } });
+        }
+
+        return NextResponse.json({ data: balances });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching accounts:', error);
+        return NextResponse.json({ error: 'Failed to fetch accounts' }, { status: 500 });
+    }
+}
+
+// POST /api/accounts - Create a new account
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(accountSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const validData = validation.data;
+        const newAccount = {
+            id: uuid(),
+            userId: user.id,
+            name: validData.name,
+            type: validData.type,
+            currency: validData.currency,
+            openingBalance: validData.openingBalance,
+            openingDate: validData.openingDate || null,
+            icon: validData.icon || null,
+            color: validData.color || '#6B7280',
+            isArchived: validData.isArchived,
+        };
+
+        await db.insert(accounts).values(newAccount);
+
+        return NextResponse.json({ data: { ...newAccount, balance: newAccount.openingBalance } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating account:', error);
+        return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+    }
+}
+
+// PUT /api/accounts - Update an account
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(accounts)
+            .where(and(eq(accounts.id, id), eq(accounts.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(accountSchema.partial(), body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        // Only touch fields present in the body (partial() still fills schema defaults)
+        const validData = validation.data;
+        const updateValues: Partial<typeof accounts.$inferInsert> = {};
+        if (body.name !== undefined) updateValues.name = validData.name;
+        if (body.type !== undefined) updateValues.type = validData.type;
+        if (body.currency !== undefined) updateValues.currency = validData.currency;
+        if (body.openingBalance !== undefined) updateValues.openingBalance = validData.openingBalance;
+        if (body.openingDate !== undefined) updateValues.openingDate = validData.openingDate;
+        if (body.icon !== undefined) updateValues.icon = validData.icon;
+        if (body.color !== undefined) updateValues.color = validData.color;
+        if (body.isArchived !== undefined) updateValues.isArchived = validData.isArchived;
+
+        await db.update(accounts).set(updateValues).where(eq(accounts.id, id));
+
+        const updated = await db
+            .select()
+            .from(accounts)
+            .where(eq(accounts.id, id))
+            .limit(1);
+
+        return NextResponse.json({ data: updated[0] });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating account:', error);
+        return NextResponse.json({ error: 'Failed to update account' }, { status: 500 });
+    }
+}
+
+// DELETE /api/accounts - Delete an account (transactions keep existing, unlinked)
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(accounts)
+            .where(and(eq(accounts.id, id), eq(accounts.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        // Unlink explicitly rather than relying on SQLite FK enforcement being enabled
+        await db.update(transactions).set({ accountId: null }).where(eq(transactions.accountId, id));
+        await db.update(recurringTransactions).set({ accountId: null }).where(eq(recurringTransactions.accountId, id));
+        await db.update(receipts).set({ accountId: null }).where(eq(receipts.accountId, id));
+        await db.update(importProfiles).set({ accountId: null }).where(eq(importProfiles.accountId, id));
+        // Rules scoped to the account go with it; unscoped they would match every account
+        await db.delete(categorizationRules).where(eq(categorizationRules.accountId, id));
+
+        await db.delete(accounts).where(eq(accounts.id, id));
+
+        return NextResponse.json({ message: 'Account deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting account:', error);
+        return NextResponse.json({ error: 'Failed to delete account' }, { status: 500 });
+    }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, sessions } from '@/db/schema';
+import { users, sessions, receipts } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { requireAuth, clearSessionCookie } from '@/lib/auth';
+import { releaseReceiptImages } from '@/lib/receipt-images';
 
 /**
  * DELETE /api/auth/account
@@ -13,8 +14,15 @@ export async function DELETE(request: NextRequest) {
     try {
         const user = await requireAuth(request);
 
+        // Receipt images live outside the database; note them before the rows go
+        const images = await db
+            .select({ hash: receipts.imageHash, attachmentHash: receipts.attachmentHash })
+            .from(receipts)
+            .where(eq(receipts.userId, user.id));
+
         // Delete user (cascade will delete all related data)
         await db.delete(users).where(eq(users.id, user.id));
+        await releaseReceiptImages(images.flatMap(i => [i.hash, i.attachmentHash]));
 
         // Delete all user sessions
         await db.delete(sessions).where(eq(sessions.userId, user.id));
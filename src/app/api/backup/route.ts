@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { requireAuth } from '@/lib/auth';
+import { streamBackup } from '@/lib/backup';
+
+// GET /api/backup - Download everything as one JSON archive (receipt images included)
+// Restore it with POST /api/restore
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        return new NextResponse(streamBackup(user.id), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="dooweed-backup-${format(new Date(), 'yyyy-MM-dd')}.json"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating backup:', error);
+        return NextResponse.json({ error: 'Failed to create backup' }, { status: 500 });
+    }
+}
@@ -4,6 +4,8 @@ import { db } from '@/db';
 import { budgets, categories, transactions } from '@/db/schema';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
+import { categoryShareSql } from '@/lib/splits';
+import { getDescendantIds } from '@/lib/category-tree';
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, startOfYear, endOfYear, format } from 'date-fns';
 
 // GET /api/budgets - List all budgets with spending progress
@@ -19,6 +21,11 @@ export async function GET(request: NextRequest) {
             .leftJoin(categories, eq(budgets.categoryId, categories.id))
             .where(eq(budgets.userId, user.id));
 
+        const categoryTree = await db
+            .select({ id: categories.id, parentId: categories.parentId })
+            .from(categories)
+            .where(eq(categories.userId, user.id));
+
         // Calculate current spending for each budget
         const budgetsWithProgress = await Promise.all(
             allBudgets.map(async ({ budget, category }) => {
@@ -46,7 +53,7 @@ export async function GET(request: NextRequest) {
 
                 // Get spending for this budget period
                 // Universal budget (no categoryId) = sum ALL expenses
-                // Category budget = sum expenses for that category only
+                // Category budget = sum expenses for that category and its subcategories (including matching split lines)
                 const whereConditions = [
                     eq(transactions.userId, user.id),
                     eq(transactions.type, 'expense'),
@@ -54,14 +61,13 @@ export async function GET(request: NextRequest) {
                     lte(transactions.date, format(endDate, 'yyyy-MM-dd'))
                 ];
 
-                // Add category filter only for category budgets
-                if (budget.categoryId) {
-                    whereConditions.push(eq(transactions.categoryId, budget.categoryId));
-                }
+                const spentAmount = budget.categoryId
+                    ? categoryShareSql(getDescendantIds(categoryTree, budget.categoryId))
+                    : sql<number>`COALESCE(amount_in_base, amount)`;
 
                 const spending = await db
                     .select({
-                        total: sql<number>`SUM(COALESCE(amount_in_base, amount))`,
+                        total: sql<number>`SUM(${spentAmount})`,
                     })
                     .from(transactions)
                     .where(and(...whereConditions));
@@ -5,6 +5,23 @@ import { eq, and } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
 import { seedCategories } from '@/lib/seed';
 import { requireAuth } from '@/lib/auth';
+import { wouldCreateCycle } from '@/lib/category-tree';
+
+// A parent must be one of the user's categories of the same type, and not the category itself or below it
+async function checkParent(userId: string, parentId: string, type: string, id?: string): Promise<string | null> {
+    const userCategories = await db
+        .select({ id: categories.id, parentId: categories.parentId, type: categories.type })
+        .from(categories)
+        .where(eq(categories.userId, userId));
+
+    const parent = userCategories.find(c => c.id === parentId);
+    if (!parent) return 'Parent category not found';
+    if (parent.type !== type) return 'Parent category must have the same type';
+    if (id && wouldCreateCycle(userCategories, id, parentId)) {
+        return 'A category cannot be moved under itself or its subcategories';
+    }
+    return null;
+}
 
 // GET /api/categories - List all categories
 export async function GET(request: NextRequest) {
@@ -47,7 +64,7 @@ export async function POST(request: NextRequest) {
     try {
         const user = await requireAuth(request);
         const body = await request.json();
-        const { name, type, icon, color } = body;
+        const { name, type, icon, color, parentId } = body;
 
         if (!name || !type) {
             return NextResponse.json(
@@ -63,12 +80,20 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (parentId) {
+            const parentError = await checkParent(user.id, parentId, type);
+            if (parentError) {
+                return NextResponse.json({ error: parentError }, { status: 400 });
+            }
+        }
+
         const id = uuid();
         const newCategory = {
             id,
             userId: user.id,
             name,
             type: type as 'income' | 'expense',
+            parentId: parentId || null,
             icon: icon || '📁',
             color: color || '#6B7280',
         };
@@ -93,7 +118,7 @@ export async function PUT(request: NextRequest) {
     try {
         const user = await requireAuth(request);
         const body = await request.json();
-        const { id, name, icon, color } = body;
+        const { id, name, icon, color, parentId } = body;
 
         if (!id) {
             return NextResponse.json({ error: 'Category ID is required' }, { status: 400 });
@@ -114,6 +139,17 @@ export async function PUT(request: NextRequest) {
         if (icon) updateValues.icon = icon;
         if (color) updateValues.color = color;
 
+        // parentId: omitted = unchanged, null or '' = move to the top level
+        if (parentId !== undefined) {
+            if (parentId) {
+                const parentError = await checkParent(user.id, parentId, existing[0].type, id);
+                if (parentError) {
+                    return NextResponse.json({ error: parentError }, { status: 400 });
+                }
+            }
+            updateValues.parentId = parentId || null;
+        }
+
         await db.update(categories).set(updateValues).where(eq(categories.id, id));
 
         const updated = await db
@@ -156,6 +192,11 @@ export async function DELETE(request: NextRequest) {
             return NextResponse.json({ error: 'Category not found' }, { status: 404 });
         }
 
+        // Subcategories move up a level instead of being orphaned
+        await db
+            .update(categories)
+            .set({ parentId: existing[0].parentId })
+            .where(and(eq(categories.parentId, id), eq(categories.userId, user.id)));
         await db.delete(categories).where(eq(categories.id, id));
 
         return NextResponse.json({ message: 'Category deleted successfully' });
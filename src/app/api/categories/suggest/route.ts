@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { suggestCategories } from '@/lib/category-suggestions';
+
+const MAX_SUGGESTIONS = 10;
+
+// GET /api/categories/suggest - Ranked category suggestions for a description or merchant
+// Query: description, merchant, type (income|expense), amount, currency, accountId, limit
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const description = searchParams.get('description')?.slice(0, 500) || null;
+        const merchant = searchParams.get('merchant')?.slice(0, 200) || null;
+        const type = searchParams.get('type');
+        const amount = parseFloat(searchParams.get('amount') || '');
+        const limit = parseInt(searchParams.get('limit') || '3');
+
+        if (!description && !merchant) {
+            return NextResponse.json({ error: 'description or merchant is required' }, { status: 400 });
+        }
+        if (type !== null && type !== 'income' && type !== 'expense') {
+            return NextResponse.json({ error: 'type must be income or expense' }, { status: 400 });
+        }
+
+        const data = await suggestCategories(user.id, {
+            description,
+            merchant,
+            type,
+            amount: Number.isFinite(amount) ? Math.abs(amount) : null,
+            currency: searchParams.get('currency'),
+            accountId: searchParams.get('accountId'),
+        }, Math.min(Math.max(limit || 3, 1), MAX_SUGGESTIONS));
+
+        return NextResponse.json({ data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error suggesting categories:', error);
+        return NextResponse.json({ error: 'Failed to suggest categories' }, { status: 500 });
+    }
+}
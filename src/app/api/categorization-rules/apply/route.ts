@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { reapplyRules } from '@/lib/categorization-rules';
+import { categorizationRuleApplySchema, validateInput } from '@/lib/validation';
+
+// POST /api/categorization-rules/apply - Re-run the rules over past transactions
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(categorizationRuleApplySchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const result = await reapplyRules(user.id, validation.data);
+
+        return NextResponse.json({ data: result });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error applying categorization rules:', error);
+        return NextResponse.json({ error: 'Failed to apply rules' }, { status: 500 });
+    }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { categorizationRules } from '@/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { ownTagIds } from '@/lib/tags';
+import { getUserAccount } from '@/lib/accounts';
+import { categorizationRuleSchema, validateInput } from '@/lib/validation';
+
+// GET /api/categorization-rules - List rules in the order they run (disabled ones included)
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        const rules = await db
+            .select()
+            .from(categorizationRules)
+            .where(eq(categorizationRules.userId, user.id))
+            .orderBy(asc(categorizationRules.priority), asc(categorizationRules.createdAt));
+
+        return NextResponse.json({ data: rules });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching categorization rules:', error);
+        return NextResponse.json({ error: 'Failed to fetch rules' }, { status: 500 });
+    }
+}
+
+// POST /api/categorization-rules - Create a rule
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(categorizationRuleSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+        if (validation.data.addTagId && (await ownTagIds(user.id, [validation.data.addTagId])).length === 0) {
+            return NextResponse.json({ error: 'addTagId: Tag not found' }, { status: 400 });
+        }
+        if (validation.data.accountId && !(await getUserAccount(user.id, validation.data.accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        const newRule = {
+            id: uuid(),
+            userId: user.id,
+            ...validation.data,
+        };
+
+        await db.insert(categorizationRules).values(newRule);
+
+        return NextResponse.json({ data: newRule }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating categorization rule:', error);
+        return NextResponse.json({ error: 'Failed to create rule' }, { status: 500 });
+    }
+}
+
+// PUT /api/categorization-rules - Replace a rule
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(categorizationRules)
+            .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(categorizationRuleSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+        if (validation.data.addTagId && (await ownTagIds(user.id, [validation.data.addTagId])).length === 0) {
+            return NextResponse.json({ error: 'addTagId: Tag not found' }, { status: 400 });
+        }
+        if (validation.data.accountId && !(await getUserAccount(user.id, validation.data.accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        const updateValues = {
+            ...validation.data,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db.update(categorizationRules).set(updateValues).where(eq(categorizationRules.id, id));
+
+        return NextResponse.json({ data: { ...existing[0], ...updateValues } });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating categorization rule:', error);
+        return NextResponse.json({ error: 'Failed to update rule' }, { status: 500 });
+    }
+}
+
+// DELETE /api/categorization-rules - Delete a rule
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(categorizationRules)
+            .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+        }
+
+        await db.delete(categorizationRules).where(eq(categorizationRules.id, id));
+
+        return NextResponse.json({ message: 'Rule deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting categorization rule:', error);
+        return NextResponse.json({ error: 'Failed to delete rule' }, { status: 500 });
+    }
+}
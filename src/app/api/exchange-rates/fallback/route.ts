@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { db } from '@/db';
 import { exchangeRates } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
 import { format } from 'date-fns';
+import { completeJSON, getLLMProvider } from '@/lib/llm';
 
 /**
  * POST /api/exchange-rates/fallback
  * LLM-powered fallback exchange rate fetcher
  * 
  * Used when primary APIs (ExchangeRate-API, Frankfurter) fail
- * Leverages DeepSeek's knowledge of current exchange rates
+ * Leverages the configured LLM's knowledge of current exchange rates (lib/llm)
  * 
  * Body: { from: string, to: string }
  * Returns: { rate: number, source: 'llm', cached: boolean }
@@ -69,27 +69,22 @@ export async function POST(request: NextRequest) {
         }
 
         // Fetch from LLM
-        if (!process.env.DEEPSEEK_API_KEY) {
-            console.error('[LLM Fallback] DeepSeek API key not configured');
+        const llm = getLLMProvider();
+        if (!llm) {
+            console.error('[LLM Fallback] LLM provider not configured');
             return NextResponse.json(
                 { error: 'LLM fallback unavailable' },
                 { status: 503 }
             );
         }
 
-        console.log(`[LLM Fallback] Fetching ${from} → ${to} rate from DeepSeek...`);
+        console.log(`[LLM Fallback] Fetching ${from} → ${to} rate from ${llm.name}...`);
 
-        const deepseek = new OpenAI({
-            apiKey: process.env.DEEPSEEK_API_KEY,
-            baseURL: 'https://api.deepseek.com/v1',
-        });
-
-        const completion = await deepseek.chat.completions.create({
-            model: 'deepseek-chat',
+        const parsed = await completeJSON<{ rate?: unknown; confidence?: number; note?: string }>(llm, {
             messages: [
                 {
                     role: 'system',
-                    content: `You are an expert currency exchange rate assistant. Provide the current exchange rate for the requested currency pair as of today (January 16, 2026).
+                    content: `You are an expert currency exchange rate assistant. Provide the current exchange rate for the requested currency pair as of today (${today}).
 
 Return ONLY a JSON object with this structure:
 {
@@ -110,13 +105,11 @@ CRITICAL RULES:
                     content: `What is the current exchange rate to convert 1 ${from} to ${to}?`
                 }
             ],
-            response_format: { type: 'json_object' },
             temperature: 0.1,
-            max_tokens: 200,
+            maxTokens: 200,
         });
 
-        const parsed = JSON.parse(completion.choices[0].message.content || '{}');
-        const rate = parseFloat(parsed.rate);
+        const rate = parseFloat(String(parsed.rate));
 
         if (isNaN(rate) || rate <= 0) {
             throw new Error('Invalid rate returned by LLM');
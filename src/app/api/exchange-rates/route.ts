@@ -3,7 +3,7 @@ import { db } from '@/db';
 import { exchangeRates } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
-import OpenAI from 'openai';
+import { completeJSON, getLLMProvider } from '@/lib/llm';
 import { format, differenceInHours, differenceInMinutes } from 'date-fns';
 
 const FRANKFURTER_API = 'https://api.frankfurter.dev';
@@ -65,37 +65,32 @@ export async function GET(request: NextRequest) {
             console.warn('Frankfurter API failed:', e);
         }
 
-        // 3. If Frankfurter failed, Try LLM (DeepSeek)
-        if (!newRate && process.env.DEEPSEEK_API_KEY) {
+        // 3. If Frankfurter failed, Try LLM
+        if (!newRate) {
             try {
-                console.log(`[Exchange] Falling back to DeepSeek for ${from}->${to}`);
-                const deepseek = new OpenAI({
-                    apiKey: process.env.DEEPSEEK_API_KEY,
-                    baseURL: 'https://api.deepseek.com/v1',
-                });
-
-                const completion = await deepseek.chat.completions.create({
-                    model: 'deepseek-chat',
-                    messages: [
-                        {
-                            role: 'system',
-                            content: `You are an expert currency exchange rate assistant. Provide the current exchange rate for ${from} to ${to} as of today (${today}). Return JSON: { "rate": <number> }. CRITICAL: Rate must be exact number.`
-                        },
-                        {
-                            role: 'user',
-                            content: `1 ${from} = ? ${to}`
-                        }
-                    ],
-                    response_format: { type: 'json_object' },
-                    temperature: 0.1,
-                    max_tokens: 100,
-                });
-
-                const parsed = JSON.parse(completion.choices[0].message.content || '{}');
-                const llmRate = parseFloat(parsed.rate);
-                if (!isNaN(llmRate) && llmRate > 0) {
-                    newRate = llmRate;
-                    source = 'llm_deepseek';
+                const llm = getLLMProvider();
+                if (llm) {
+                    console.log(`[Exchange] Falling back to ${llm.name} for ${from}->${to}`);
+                    const parsed = await completeJSON<{ rate?: unknown }>(llm, {
+                        messages: [
+                            {
+                                role: 'system',
+                                content: `You are an expert currency exchange rate assistant. Provide the current exchange rate for ${from} to ${to} as of today (${today}). Return JSON: { "rate": <number> }. CRITICAL: Rate must be exact number.`
+                            },
+                            {
+                                role: 'user',
+                                content: `1 ${from} = ? ${to}`
+                            }
+                        ],
+                        temperature: 0.1,
+                        maxTokens: 100,
+                    });
+
+                    const llmRate = parseFloat(String(parsed.rate));
+                    if (!isNaN(llmRate) && llmRate > 0) {
+                        newRate = llmRate;
+                        source = `llm_${llm.name}`;
+                    }
                 }
             } catch (e) {
                 console.error('LLM Fallback failed:', e);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { mapCsvRows } from '@/lib/csv-import';
+import { runImport } from '@/lib/importer';
+import { getUserAccount } from '@/lib/accounts';
+import { scheduleDuplicateCheck } from '@/lib/transaction-duplicates';
+import { csvImportSchema, validateInput } from '@/lib/validation';
+
+const MAX_ROWS = 5000;
+
+// POST /api/import/csv - Import a bank statement CSV using a column mapping
+// With dryRun: true nothing is written; the parsed rows come back flagged as new or duplicate
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(csvImportSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const input = validation.data;
+
+        const account = input.accountId ? await getUserAccount(user.id, input.accountId) : null;
+        if (input.accountId && !account) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const { rows, errors } = mapCsvRows(input.csv, input.mapping);
+        if (rows.length > MAX_ROWS) {
+            return NextResponse.json({ error: `Too many rows (max ${MAX_ROWS} per import)` }, { status: 400 });
+        }
+
+        const currency = input.currency || account?.currency || 'IDR';
+        const newRows = rows.map(r => ({
+            id: uuid(),
+            userId: user.id,
+            type: r.type,
+            amount: r.amount,
+            currency,
+            categoryId: input.categoryId || null,
+            accountId: input.accountId || null,
+            description: r.description || null,
+            date: r.date,
+        }));
+
+        const data = await runImport(user.id, newRows, rows.map(r => r.line), errors, input);
+        if (!input.dryRun) {
+            scheduleDuplicateCheck(user.id, newRows.map(r => r.id));
+        }
+
+        return NextResponse.json({ data }, { status: input.dryRun ? 200 : 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error importing CSV:', error);
+        return NextResponse.json({ error: 'Failed to import CSV' }, { status: 500 });
+    }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { parseOfx } from '@/lib/ofx-import';
+import { runImport } from '@/lib/importer';
+import { getUserAccount } from '@/lib/accounts';
+import { scheduleDuplicateCheck } from '@/lib/transaction-duplicates';
+import { statementImportSchema, validateInput } from '@/lib/validation';
+
+const MAX_ROWS = 5000;
+
+// POST /api/import/ofx - Import an OFX or QFX statement
+// FITIDs are stored so the same statement can be imported again without duplicates
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(statementImportSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const input = validation.data;
+
+        if (input.accountId && !(await getUserAccount(user.id, input.accountId))) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const statements = parseOfx(input.content, {
+            userId: user.id,
+            accountId: input.accountId,
+            categoryId: input.categoryId,
+        });
+        if (statements.length === 0) {
+            return NextResponse.json({ error: 'No bank or credit card statement found in file' }, { status: 400 });
+        }
+
+        const rows = statements.flatMap(s => s.transactions);
+        if (rows.length > MAX_ROWS) {
+            return NextResponse.json({ error: `Too many transactions (max ${MAX_ROWS} per import)` }, { status: 400 });
+        }
+
+        const data = await runImport(user.id, rows, rows.map((_, i) => i + 1), [], input);
+        if (!input.dryRun) {
+            scheduleDuplicateCheck(user.id, rows.map(r => r.id));
+        }
+
+        return NextResponse.json({ data }, { status: input.dryRun ? 200 : 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error importing OFX:', error);
+        return NextResponse.json({ error: 'Failed to import OFX' }, { status: 500 });
+    }
+}
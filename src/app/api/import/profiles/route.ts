@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { importProfiles, type ImportProfile } from '@/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { getUserAccount } from '@/lib/accounts';
+import { importProfileSchema, validateInput } from '@/lib/validation';
+
+// Mapping is stored as JSON text
+function toResponse(profile: ImportProfile) {
+    return { ...profile, mapping: JSON.parse(profile.mapping) };
+}
+
+// GET /api/import/profiles - List saved CSV mapping profiles
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        const profiles = await db
+            .select()
+            .from(importProfiles)
+            .where(eq(importProfiles.userId, user.id))
+            .orderBy(asc(importProfiles.name));
+
+        return NextResponse.json({ data: profiles.map(toResponse) });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching import profiles:', error);
+        return NextResponse.json({ error: 'Failed to fetch import profiles' }, { status: 500 });
+    }
+}
+
+// POST /api/import/profiles - Save a mapping profile
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(importProfileSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const validData = validation.data;
+        if (validData.accountId && !(await getUserAccount(user.id, validData.accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        const newProfile = {
+            id: uuid(),
+            userId: user.id,
+            name: validData.name,
+            mapping: JSON.stringify(validData.mapping),
+            accountId: validData.accountId || null,
+            currency: validData.currency,
+        };
+
+        await db.insert(importProfiles).values(newProfile);
+
+        return NextResponse.json({ data: { ...newProfile, mapping: validData.mapping } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating import profile:', error);
+        return NextResponse.json({ error: 'Failed to create import profile' }, { status: 500 });
+    }
+}
+
+// PUT /api/import/profiles - Replace a mapping profile
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(importProfiles)
+            .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(importProfileSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const validData = validation.data;
+        if (validData.accountId && !(await getUserAccount(user.id, validData.accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        const updateValues = {
+            name: validData.name,
+            mapping: JSON.stringify(validData.mapping),
+            accountId: validData.accountId || null,
+            currency: validData.currency,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db.update(importProfiles).set(updateValues).where(eq(importProfiles.id, id));
+
+        return NextResponse.json({ data: toResponse({ ...existing[0], ...updateValues }) });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating import profile:', error);
+        return NextResponse.json({ error: 'Failed to update import profile' }, { status: 500 });
+    }
+}
+
+// DELETE /api/import/profiles - Delete a mapping profile
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(importProfiles)
+            .where(and(eq(importProfiles.id, id), eq(importProfiles.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+        }
+
+        await db.delete(importProfiles).where(eq(importProfiles.id, id));
+
+        return NextResponse.json({ message: 'Profile deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting import profile:', error);
+        return NextResponse.json({ error: 'Failed to delete import profile' }, { status: 500 });
+    }
+}
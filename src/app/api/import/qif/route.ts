@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { categories } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from '@/lib/auth';
+import { parseQif } from '@/lib/qif-import';
+import { runImport } from '@/lib/importer';
+import { getUserAccount } from '@/lib/accounts';
+import { scheduleDuplicateCheck } from '@/lib/transaction-duplicates';
+import { statementImportSchema, validateInput } from '@/lib/validation';
+
+const MAX_ROWS = 5000;
+
+// POST /api/import/qif - Import a QIF file (bank, cash and credit card sections)
+// Categories named in the file are matched to existing categories by name
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(statementImportSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const input = validation.data;
+
+        const account = input.accountId ? await getUserAccount(user.id, input.accountId) : null;
+        if (input.accountId && !account) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const userCategories = await db
+            .select({ id: categories.id, name: categories.name })
+            .from(categories)
+            .where(eq(categories.userId, user.id));
+
+        const { transactions: rows, lines, errors } = parseQif(input.content, {
+            userId: user.id,
+            accountId: input.accountId,
+            categoryId: input.categoryId,
+            currency: input.currency || account?.currency || 'IDR',
+            dateOrder: input.dateOrder,
+            categories: userCategories,
+        });
+        if (rows.length > MAX_ROWS) {
+            return NextResponse.json({ error: `Too many transactions (max ${MAX_ROWS} per import)` }, { status: 400 });
+        }
+
+        const data = await runImport(user.id, rows, lines, errors, input);
+        if (!input.dryRun) {
+            scheduleDuplicateCheck(user.id, rows.map(r => r.id));
+        }
+
+        return NextResponse.json({ data }, { status: input.dryRun ? 200 : 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error importing QIF:', error);
+        return NextResponse.json({ error: 'Failed to import QIF' }, { status: 500 });
+    }
+}
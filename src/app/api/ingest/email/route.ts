@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import {
+    MAX_EMAIL_SIZE,
+    ingestEmail,
+    scheduleEmailIngestJobs,
+    type EmailIngestJob,
+    type EmailIngestResult,
+} from '@/lib/email-ingest';
+
+// Most messages accepted per multipart upload
+const MAX_FILES = 20;
+
+// POST /api/ingest/email - Turn raw e-mails (.eml) into receipts
+// Send one message as the body (Content-Type: message/rfc822), or several as
+// multipart/form-data "file" fields. Receipts are created right away; their OCR
+// and enhancement run after the response (poll GET /api/receipts/:id/ocr).
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const contentType = request.headers.get('content-type') || '';
+
+        let messages: Buffer[];
+        if (contentType.startsWith('multipart/form-data')) {
+            const form = await request.formData();
+            const files = form.getAll('file').filter((f): f is File => f instanceof File);
+            if (files.length === 0) {
+                return NextResponse.json({ error: 'At least one .eml file is required' }, { status: 400 });
+            }
+            if (files.length > MAX_FILES) {
+                return NextResponse.json({ error: `Too many files (max ${MAX_FILES})` }, { status: 400 });
+            }
+            if (files.some(f => f.size > MAX_EMAIL_SIZE)) {
+                return NextResponse.json({ error: 'E-mail too large (max 25MB)' }, { status: 413 });
+            }
+            messages = await Promise.all(files.map(async f => Buffer.from(await f.arrayBuffer())));
+        } else {
+            const raw = Buffer.from(await request.arrayBuffer());
+            if (raw.length === 0) {
+                return NextResponse.json({ error: 'E-mail body is required' }, { status: 400 });
+            }
+            if (raw.length > MAX_EMAIL_SIZE) {
+                return NextResponse.json({ error: 'E-mail too large (max 25MB)' }, { status: 413 });
+            }
+            messages = [raw];
+        }
+
+        const data: EmailIngestResult[] = [];
+        const jobs: EmailIngestJob[] = [];
+        // One unreadable message doesn't fail the others
+        for (const message of messages) {
+            try {
+                const ingested = await ingestEmail(user.id, message);
+                data.push(ingested.result);
+                jobs.push(...ingested.jobs);
+            } catch (error) {
+                console.error('Error ingesting e-mail message:', error);
+                data.push({ messageId: null, subject: null, receiptIds: [], skipped: 0, error: 'Failed to ingest e-mail' });
+            }
+        }
+        scheduleEmailIngestJobs(user.id, jobs);
+
+        const created = data.some(d => d.receiptIds.length > 0);
+        return NextResponse.json({ data }, { status: created ? 201 : 200 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error ingesting e-mail:', error);
+        return NextResponse.json({ error: 'Failed to ingest e-mail' }, { status: 500 });
+    }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { receiptItems, receipts } from '@/db/schema';
+import { eq, and, like, gte, asc, sql } from 'drizzle-orm';
+import { format, subMonths } from 'date-fns';
+import { requireAuth } from '@/lib/auth';
+import { normalizeItemName } from '@/lib/receipt-items';
+import { validatePagination } from '@/lib/validation';
+
+interface PricePoint {
+    date: string;
+    merchant: string;
+    quantity: number;
+    unitPrice: number;
+    receiptId: string;
+}
+
+interface MerchantPrices {
+    merchant: string;
+    purchaseCount: number;
+    avgUnitPrice: number;
+    minUnitPrice: number;
+    maxUnitPrice: number;
+    lastUnitPrice: number;
+    lastDate: string;
+}
+
+function summarize(points: PricePoint[]) {
+    const prices = points.map(p => p.unitPrice);
+    const last = points[points.length - 1];
+    return {
+        purchaseCount: points.length,
+        avgUnitPrice: prices.reduce((sum, p) => sum + p, 0) / prices.length,
+        minUnitPrice: Math.min(...prices),
+        maxUnitPrice: Math.max(...prices),
+        lastUnitPrice: last.unitPrice,
+        lastDate: last.date,
+    };
+}
+
+// GET /api/items - Price history of receipt line items, grouped by product and merchant
+// ?q=milk filters products, ?name=<normalized name> adds the full history, ?months=12|all
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const q = searchParams.get('q');
+        const name = searchParams.get('name');
+        const monthsParam = searchParams.get('months') || '12';
+        const { limit, offset } = validatePagination({
+            limit: searchParams.get('limit'),
+            offset: searchParams.get('offset'),
+        });
+
+        // Purchase date: linked transaction first, then the OCR date, then upload time
+        const purchaseDate = sql<string>`COALESCE(
+            (SELECT t.date FROM transactions t WHERE t.receipt_id = ${receipts.id} LIMIT 1),
+            ${receipts.ocrDate},
+            substr(${receipts.createdAt}, 1, 10)
+        )`;
+
+        const conditions = [eq(receiptItems.userId, user.id)];
+        if (name) {
+            conditions.push(eq(receiptItems.normalizedName, name));
+        } else if (q) {
+            conditions.push(like(receiptItems.normalizedName, `%${normalizeItemName(q)}%`));
+        }
+        if (monthsParam !== 'all') {
+            const months = Math.max(1, parseInt(monthsParam) || 12);
+            conditions.push(gte(purchaseDate, format(subMonths(new Date(), months), 'yyyy-MM-dd')));
+        }
+
+        const rows = await db
+            .select({
+                receiptId: receiptItems.receiptId,
+                name: receiptItems.name,
+                normalizedName: receiptItems.normalizedName,
+                quantity: receiptItems.quantity,
+                unitPrice: receiptItems.unitPrice,
+                currency: receiptItems.currency,
+                merchant: receipts.ocrMerchant,
+                date: purchaseDate,
+            })
+            .from(receiptItems)
+            .innerJoin(receipts, eq(receiptItems.receiptId, receipts.id))
+            .where(and(...conditions))
+            .orderBy(asc(purchaseDate));
+
+        // Prices are only comparable within one currency
+        const products = new Map<string, { name: string; normalizedName: string; currency: string; points: PricePoint[] }>();
+        for (const row of rows) {
+            const currency = row.currency || 'IDR';
+            const key = `${row.normalizedName}|${currency}`;
+            if (!products.has(key)) {
+                products.set(key, { name: row.name, normalizedName: row.normalizedName, currency, points: [] });
+            }
+            const product = products.get(key)!;
+            product.name = row.name; // most recent spelling wins
+            product.points.push({
+                date: row.date,
+                merchant: row.merchant?.trim() || 'Unknown',
+                quantity: row.quantity,
+                unitPrice: row.unitPrice,
+                receiptId: row.receiptId,
+            });
+        }
+
+        const data = Array.from(products.values())
+            .map(product => {
+                const byMerchant = new Map<string, PricePoint[]>();
+                for (const point of product.points) {
+                    const merchantKey = point.merchant.toLowerCase();
+                    if (!byMerchant.has(merchantKey)) byMerchant.set(merchantKey, []);
+                    byMerchant.get(merchantKey)!.push(point);
+                }
+
+                const merchants: MerchantPrices[] = Array.from(byMerchant.values())
+                    .map(points => ({ merchant: points[points.length - 1].merchant, ...summarize(points) }))
+                    .sort((a, b) => a.avgUnitPrice - b.avgUnitPrice);
+
+                return {
+                    name: product.name,
+                    normalizedName: product.normalizedName,
+                    currency: product.currency,
+                    ...summarize(product.points),
+                    merchantCount: merchants.length,
+                    merchants,
+                    ...(name && { history: product.points }),
+                };
+            })
+            .sort((a, b) => b.purchaseCount - a.purchaseCount);
+
+        return NextResponse.json({
+            data: data.slice(offset, offset + limit),
+            count: data.length,
+        });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching item prices:', error);
+        return NextResponse.json({ error: 'Failed to fetch item prices' }, { status: 500 });
+    }
+}
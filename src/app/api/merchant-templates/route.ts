@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { deleteMerchantTemplate, getMerchantTemplates } from '@/lib/merchant-templates';
+
+// GET /api/merchant-templates - Templates learned from reviewed receipts
+// The scanner passes them to the in-browser parser (lib/ocr.ts).
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const templates = await getMerchantTemplates(user.id);
+
+        return NextResponse.json({ data: templates });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching merchant templates:', error);
+        return NextResponse.json({ error: 'Failed to fetch merchant templates' }, { status: 500 });
+    }
+}
+
+// DELETE /api/merchant-templates?id= - Forget a template
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Template ID is required' }, { status: 400 });
+        }
+
+        if (!(await deleteMerchantTemplate(user.id, id))) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message: 'Template deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting merchant template:', error);
+        return NextResponse.json({ error: 'Failed to delete merchant template' }, { status: 500 });
+    }
+}
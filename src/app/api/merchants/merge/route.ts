@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { mergeMerchants } from '@/lib/merchants';
+import { merchantMergeSchema, validateInput } from '@/lib/validation';
+
+// POST /api/merchants/merge - Fold duplicate merchants into one
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(merchantMergeSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const merged = await mergeMerchants(user.id, validation.data.keepId, validation.data.mergeIds);
+        if (!merged) {
+            return NextResponse.json({ error: 'Merchants not found' }, { status: 404 });
+        }
+        if ('error' in merged) {
+            return NextResponse.json({ error: merged.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ data: merged.data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error merging merchants:', error);
+        return NextResponse.json({ error: 'Failed to merge merchants' }, { status: 500 });
+    }
+}
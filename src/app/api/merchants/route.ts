@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { merchants, receipts, transactions } from '@/db/schema';
+import { eq, and, count, isNotNull } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { getMerchants, linkUnmatched, toMerchantEntry } from '@/lib/merchants';
+import { merchantSchema, validateInput } from '@/lib/validation';
+
+// GET /api/merchants - List the merchant directory with how often each merchant is used
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        const [directory, transactionCounts, receiptCounts] = await Promise.all([
+            getMerchants(user.id),
+            db
+                .select({ merchantId: transactions.merchantId, count: count() })
+                .from(transactions)
+                .where(and(eq(transactions.userId, user.id), isNotNull(transactions.merchantId)))
+                .groupBy(transactions.merchantId),
+            db
+                .select({ merchantId: receipts.merchantId, count: count() })
+                .from(receipts)
+                .where(and(eq(receipts.userId, user.id), isNotNull(receipts.merchantId)))
+                .groupBy(receipts.merchantId),
+        ]);
+
+        const data = directory
+            .map(merchant => ({
+                ...toMerchantEntry(merchant),
+                transactionCount: transactionCounts.find(c => c.merchantId === merchant.id)?.count ?? 0,
+                receiptCount: receiptCounts.find(c => c.merchantId === merchant.id)?.count ?? 0,
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        return NextResponse.json({ data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching merchants:', error);
+        return NextResponse.json({ error: 'Failed to fetch merchants' }, { status: 500 });
+    }
+}
+
+// POST /api/merchants - Add a merchant (unlinked receipts and transactions that match it are linked)
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(merchantSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        // Make sure the defaults exist first, or this merchant would stand in for them
+        await getMerchants(user.id);
+
+        const newMerchant = {
+            id: uuid(),
+            userId: user.id,
+            ...validation.data,
+            aliases: JSON.stringify(validation.data.aliases),
+        };
+
+        await db.insert(merchants).values(newMerchant);
+        const linked = await linkUnmatched(user.id);
+
+        return NextResponse.json({ data: { ...newMerchant, aliases: validation.data.aliases, linked } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating merchant:', error);
+        return NextResponse.json({ error: 'Failed to create merchant' }, { status: 500 });
+    }
+}
+
+// PUT /api/merchants - Replace a merchant
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Merchant ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(merchants)
+            .where(and(eq(merchants.id, id), eq(merchants.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Merchant not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(merchantSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const updateValues = {
+            ...validation.data,
+            aliases: JSON.stringify(validation.data.aliases),
+            updatedAt: new Date().toISOString(),
+        };
+
+        await db.update(merchants).set(updateValues).where(eq(merchants.id, id));
+        const linked = await linkUnmatched(user.id);
+
+        return NextResponse.json({ data: { ...existing[0], ...updateValues, aliases: validation.data.aliases, linked } });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating merchant:', error);
+        return NextResponse.json({ error: 'Failed to update merchant' }, { status: 500 });
+    }
+}
+
+// DELETE /api/merchants - Delete a merchant (its receipts and transactions are unlinked)
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Merchant ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(merchants)
+            .where(and(eq(merchants.id, id), eq(merchants.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Merchant not found' }, { status: 404 });
+        }
+
+        await db.update(transactions).set({ merchantId: null }).where(eq(transactions.merchantId, id));
+        await db.update(receipts).set({ merchantId: null }).where(eq(receipts.merchantId, id));
+        await db.delete(merchants).where(eq(merchants.id, id));
+
+        return NextResponse.json({ message: 'Merchant deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting merchant:', error);
+        return NextResponse.json({ error: 'Failed to delete merchant' }, { status: 500 });
+    }
+}
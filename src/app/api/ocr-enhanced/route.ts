@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getLLMProvider } from '@/lib/llm';
+import { getSessionUser } from '@/lib/auth';
+import { enhanceReceiptText } from '@/lib/receipt-enhancement';
 
 /**
  * POST /api/ocr-enhanced
- * Enhanced OCR endpoint using DeepSeek for semantic understanding
+ * Enhanced OCR endpoint using the configured LLM (lib/llm) for semantic understanding
  * 
  * Body: { rawText: string }
- * Returns: Structured receipt data
+ * Returns: Structured receipt data. When the signed-in user has a merchant
+ * template for this receipt, its merchant, date, total and category win; for
+ * e-wallet/m-banking screenshots the layout recognizer's fields win over the LLM.
  * 
- * NOTE: Tesseract runs CLIENT-SIDE, this endpoint only does DeepSeek processing
+ * NOTE: Tesseract runs CLIENT-SIDE, this endpoint only does LLM processing
  */
 export async function POST(request: NextRequest) {
     try {
@@ -28,90 +32,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Validate API key
-        if (!process.env.DEEPSEEK_API_KEY) {
-            console.error('[OCR Enhanced API] DeepSeek API key not configured');
+        // Validate provider configuration
+        const llm = getLLMProvider();
+        if (!llm) {
+            console.error('[OCR Enhanced API] LLM provider not configured');
             return NextResponse.json(
                 { error: 'OCR enhancement unavailable - API key not configured' },
                 { status: 503 }
             );
         }
 
-        console.log('[OCR Enhanced API] Processing with DeepSeek...');
+        console.log(`[OCR Enhanced API] Processing with ${llm.name} (${llm.model})...`);
 
-        const deepseek = new OpenAI({
-            apiKey: process.env.DEEPSEEK_API_KEY,
-            baseURL: 'https://api.deepseek.com/v1',
-        });
+        const user = await getSessionUser(request);
+        const data = await enhanceReceiptText(llm, rawText, user?.id ?? null);
 
-        const completion = await deepseek.chat.completions.create({
-            model: 'deepseek-chat',
-            messages: [
-                {
-                    role: 'system',
-                    content: `You are an expert receipt parser. Extract structured data from OCR-scanned receipt text.
-
-Return ONLY valid JSON with this exact structure:
-{
-  "merchant": "store/merchant name (null if not found)",
-  "date": "YYYY-MM-DD format (null if not found)",
-  "totalAmount": number or null,
-  "currency": "IDR" | "USD" | "EUR" | "GBP" | "SGD" | null,
-  "transactionType": "income" | "expense",
-  "items": [{"name": "string", "price": number, "quantity": number}],
-  "confidence": 0.0-1.0
-}
-
-CRITICAL RULES:
-1. **Merchant Name**:
-   - Extract the store or merchant name.
-   - If the receipt is a **Bank Transfer** or **Digital Wallet** transaction, format it as **"Platform - Destination"** (e.g., "BCA - Budi Santoso", "GoPay - Bluebird", "OVO - Kopi Kenangan").
-   - If unsure, use the most prominent business name. If it's a known franchise (Starbucks, McD, Indomaret, Alfamart), use the clean brand name. If it's a local store, use the full name excluding "PT" or legal suffixes.
-2. **LANGUAGE**: Detect if receipt is Indonesian (ID) or English (EN).
-   - ID: "Total", "Jumlah", "Kembali" (Change), "Pajak" (Tax).
-   - EN: "Total", "Subtotal", "Change", "Tax".
-3. **CURRENCY**: 
-   - IDR: Look for "Rp", "IDR", or numbers with dot thousands separators (e.g., 50.000).
-   - USD/EUR: Look for "$", "€", or numbers with comma separators (e.g., 50,000 for large, or 10.50).
-4. **AMOUNTS**:
-   - "Total Belanja", "Total Bayar", "Grand Total" = final amount.
-   - Do NOT confuse "Total Item" or "Qty" with price.
-   - Do NOT use "Kembalian" or "Change" as the total.
-5. **TRANSACTION TYPE**:
-   - Expense: Buying things, "Total Bayar", "Purchase".
-   - Income: "Gaji", "Salary", "Transfer Masuk", "Topup".
-6. **FORMATTING**:
-   - Date: Convert all to YYYY-MM-DD.
-   - Numbers: Return pure numbers (no separators).
-
-If data is ambiguous or missing, set to null. Do not guess.`
-                },
-                {
-                    role: 'user',
-                    content: `Receipt OCR Text:\n\n${rawText}\n\nParse this receipt.`
-                }
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.1,
-            max_tokens: 1000,
-        });
-
-        const parsed = JSON.parse(completion.choices[0].message.content || '{}');
-
-        return NextResponse.json({
-            success: true,
-            data: {
-                merchant: parsed.merchant || null,
-                date: parsed.date || null,
-                amount: parsed.totalAmount ?? null,
-                currency: parsed.currency || null, // Allow null if not detected, don't force IDR
-                transactionType: parsed.transactionType || 'expense',
-                items: parsed.items || [],
-                confidence: parsed.confidence ?? 0.9,
-                enhancementUsed: true,
-                enhancementSource: 'deepseek',
-            },
-        });
+        return NextResponse.json({ success: true, data });
 
     } catch (error) {
         console.error('[OCR Enhanced API] Error:', error);
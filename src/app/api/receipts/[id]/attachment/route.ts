@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { db } from '@/db';
+import { receipts } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getBlobStore, parseRangeHeader } from '@/lib/blob-store';
+import { receiptImageKey } from '@/lib/receipt-images';
+
+// GET /api/receipts/[id]/attachment - Stream the original PDF of a PDF receipt
+// Same caching as the image route: the content hash is the ETag, single byte ranges give 206.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await requireAuth(request);
+        const { id } = await params;
+
+        const result = await db
+            .select({
+                fileName: receipts.fileName,
+                attachmentHash: receipts.attachmentHash,
+                attachmentType: receipts.attachmentType,
+                attachmentSize: receipts.attachmentSize,
+            })
+            .from(receipts)
+            .where(and(eq(receipts.id, id), eq(receipts.userId, user.id)))
+            .limit(1);
+
+        const receipt = result[0];
+        if (!receipt?.attachmentHash) {
+            return new NextResponse('Not found', { status: 404 });
+        }
+
+        const size = receipt.attachmentSize ?? 0;
+        const fileName = (receipt.fileName || 'receipt.pdf').replace(/["\\\r\n]/g, '_');
+        const headers: Record<string, string> = {
+            'Content-Type': receipt.attachmentType || 'application/pdf',
+            'Content-Disposition': `inline; filename="${fileName}"`,
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'Accept-Ranges': 'bytes',
+            ETag: `"${receipt.attachmentHash}"`,
+        };
+
+        const ifNoneMatch = request.headers.get('if-none-match');
+        if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === headers.ETag)) {
+            return new NextResponse(null, { status: 304, headers });
+        }
+
+        const ifRange = request.headers.get('if-range');
+        const range = ifRange && ifRange !== headers.ETag
+            ? null
+            : parseRangeHeader(request.headers.get('range'), size);
+        if (range === 'unsatisfiable') {
+            return new NextResponse(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+        }
+
+        const body = await getBlobStore().get(receiptImageKey(receipt.attachmentHash), range ?? undefined);
+        if (!body) {
+            return new NextResponse('Attachment not found', { status: 404 });
+        }
+
+        if (range) {
+            headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+        }
+        headers['Content-Length'] = String(range ? range.end - range.start + 1 : size);
+
+        return new NextResponse(body, { status: range ? 206 : 200, headers });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error serving receipt attachment:', error);
+        return new NextResponse('Internal Server Error', { status: 500 });
+    }
+}
@@ -1,9 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
 import { requireAuth } from '@/lib/auth';
 import { db } from '@/db';
 import { receipts } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { getBlobStore, parseRangeHeader } from '@/lib/blob-store';
+import {
+    RECEIPT_IMAGE_SIZES,
+    RENDITION_CONTENT_TYPE,
+    ensureReceiptRendition,
+    parseImageDataUrl,
+    readReceiptImage,
+    receiptImageKey,
+    type ReceiptImageSize,
+} from '@/lib/receipt-images';
 
+// GET /api/receipts/[id]/image?size=thumb|preview|full - Stream the receipt image
+// The content hash is the ETag (If-None-Match gives 304); single byte ranges give 206.
+// Renditions missing from the store (older receipts) are generated on first request.
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
@@ -11,10 +25,19 @@ export async function GET(
     try {
         const user = await requireAuth(request);
         const { id } = await params;
+        const { searchParams } = new URL(request.url);
+        const requestedSize = (searchParams.get('size') || 'full') as ReceiptImageSize;
+
+        if (!RECEIPT_IMAGE_SIZES.includes(requestedSize)) {
+            return NextResponse.json({ error: 'Invalid image size' }, { status: 400 });
+        }
 
         const result = await db
             .select({
                 imageBase64: receipts.imageBase64,
+                imageHash: receipts.imageHash,
+                imageType: receipts.imageType,
+                imageSize: receipts.imageSize,
             })
             .from(receipts)
             .where(and(eq(receipts.id, id), eq(receipts.userId, user.id)))
@@ -24,25 +47,57 @@ export async function GET(
             return new NextResponse('Not found', { status: 404 });
         }
 
-        const imageBase64 = result[0].imageBase64;
+        const receipt = result[0];
 
-        // Extract content type and data
-        // Format: data:image/jpeg;base64,...
-        const matches = imageBase64.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-
-        if (!matches || matches.length !== 3) {
+        // Receipts not yet moved to the blob store still carry a data URL
+        const legacy = receipt.imageHash ? null : parseImageDataUrl(receipt.imageBase64);
+        if (!receipt.imageHash && !legacy) {
             return new NextResponse('Invalid image data', { status: 500 });
         }
 
-        const contentType = matches[1];
-        const data = Buffer.from(matches[2], 'base64');
+        const hash = receipt.imageHash || createHash('sha256').update(legacy!.data).digest('hex');
+
+        // Renditions are cached in the blob store even for inline images
+        const rendition = requestedSize === 'full'
+            ? null
+            : await ensureReceiptRendition(hash, requestedSize, async () => legacy?.data ?? readReceiptImage(hash));
+        const imageSize: ReceiptImageSize = rendition ? requestedSize : 'full';
+
+        const size = rendition ? rendition.size : legacy ? legacy.data.length : receipt.imageSize ?? 0;
+        const headers: Record<string, string> = {
+            'Content-Type': (rendition ? RENDITION_CONTENT_TYPE : legacy ? legacy.contentType : receipt.imageType) || 'image/jpeg',
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'Accept-Ranges': 'bytes',
+            ETag: `"${imageSize === 'full' ? hash : `${hash}-${imageSize}`}"`,
+        };
+
+        const ifNoneMatch = request.headers.get('if-none-match');
+        if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === headers.ETag)) {
+            return new NextResponse(null, { status: 304, headers });
+        }
+
+        // Ranges only apply while the ETag still matches (If-Range)
+        const ifRange = request.headers.get('if-range');
+        const range = ifRange && ifRange !== headers.ETag
+            ? null
+            : parseRangeHeader(request.headers.get('range'), size);
+        if (range === 'unsatisfiable') {
+            return new NextResponse(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+        }
+
+        const body = legacy && imageSize === 'full'
+            ? new Uint8Array(range ? legacy.data.subarray(range.start, range.end + 1) : legacy.data)
+            : await getBlobStore().get(receiptImageKey(hash, imageSize), range ?? undefined);
+        if (!body) {
+            return new NextResponse('Image not found', { status: 404 });
+        }
+
+        if (range) {
+            headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+        }
+        headers['Content-Length'] = String(range ? range.end - range.start + 1 : size);
 
-        return new NextResponse(data, {
-            headers: {
-                'Content-Type': contentType,
-                'Cache-Control': 'public, max-age=31536000, immutable',
-            },
-        });
+        return new NextResponse(body, { status: range ? 206 : 200, headers });
     } catch (error) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
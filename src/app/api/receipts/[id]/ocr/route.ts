@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { db } from '@/db';
+import { receipts } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { queueReceiptOcr, runReceiptOcr } from '@/lib/receipt-ocr';
+import { getReceiptItems } from '@/lib/receipt-items';
+
+async function findReceiptOcr(id: string, userId: string) {
+    const result = await db
+        .select({
+            id: receipts.id,
+            ocrStatus: receipts.ocrStatus,
+            ocrRawText: receipts.ocrRawText,
+            ocrMerchant: receipts.ocrMerchant,
+            ocrDate: receipts.ocrDate,
+            ocrAmount: receipts.ocrAmount,
+            ocrCurrency: receipts.ocrCurrency,
+            ocrConfidence: receipts.ocrConfidence,
+        })
+        .from(receipts)
+        .where(and(eq(receipts.id, id), eq(receipts.userId, userId)))
+        .limit(1);
+    return result[0] ?? null;
+}
+
+// GET /api/receipts/[id]/ocr - OCR status and results (poll after queueing)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await requireAuth(request);
+        const { id } = await params;
+
+        const receipt = await findReceiptOcr(id, user.id);
+        if (!receipt) {
+            return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ data: receipt });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching receipt OCR:', error);
+        return NextResponse.json({ error: 'Failed to fetch receipt OCR' }, { status: 500 });
+    }
+}
+
+// POST /api/receipts/[id]/ocr - Run server-side OCR on the stored image
+// Queued by default (202, poll GET); ?wait=true runs it before responding.
+// Overwrites the ocr* fields and, when the parser finds any, the line items.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await requireAuth(request);
+        const { id } = await params;
+        const { searchParams } = new URL(request.url);
+
+        const receipt = await findReceiptOcr(id, user.id);
+        if (!receipt) {
+            return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+        }
+
+        if (searchParams.get('wait') === 'true') {
+            try {
+                await runReceiptOcr(id);
+            } catch (error) {
+                console.error('Server OCR failed:', error);
+                return NextResponse.json({ error: 'OCR failed for this receipt' }, { status: 422 });
+            }
+            const updated = await findReceiptOcr(id, user.id);
+            const items = await getReceiptItems(id);
+            return NextResponse.json({ data: { ...updated, items } });
+        }
+
+        // Already waiting or running: don't queue it twice
+        if (receipt.ocrStatus !== 'pending' && receipt.ocrStatus !== 'processing') {
+            await queueReceiptOcr(id);
+        }
+
+        return NextResponse.json(
+            { data: { id, ocrStatus: receipt.ocrStatus === 'processing' ? 'processing' : 'pending' } },
+            { status: 202 }
+        );
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error running receipt OCR:', error);
+        return NextResponse.json({ error: 'Failed to run receipt OCR' }, { status: 500 });
+    }
+}
@@ -3,6 +3,16 @@ import { requireAuth } from '@/lib/auth';
 import { db } from '@/db';
 import { receipts, transactions } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { deleteSplitsForTransactions } from '@/lib/splits';
+import { deleteDuplicateCandidates } from '@/lib/transaction-duplicates';
+import { replaceReceiptItems, getReceiptItems, deleteItemsForReceipts } from '@/lib/receipt-items';
+import { releaseReceiptImages } from '@/lib/receipt-images';
+import { learnMerchantTemplate } from '@/lib/merchant-templates';
+import { linkReceiptMerchant } from '@/lib/merchants';
+import { getUserAccount } from '@/lib/accounts';
+import { deleteTagsForTransactions } from '@/lib/tags';
+import { receiptItemSchema, validateInput } from '@/lib/validation';
+import { z } from 'zod';
 
 export async function GET(
     request: NextRequest,
@@ -22,7 +32,9 @@ export async function GET(
             return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
         }
 
-        return NextResponse.json({ data: result[0] });
+        const items = await getReceiptItems(id);
+
+        return NextResponse.json({ data: { ...result[0], items } });
     } catch (error) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
@@ -40,7 +52,7 @@ export async function PATCH(
         const user = await requireAuth(request);
         const { id } = await params;
         const body = await request.json();
-        const { ocrMerchant, ocrDate, ocrAmount, ocrCurrency, verified, isAutomated } = body;
+        const { ocrMerchant, ocrDate, ocrAmount, ocrCurrency, accountId, items, verified, isAutomated, categoryId } = body;
 
         const existing = await db
             .select()
@@ -52,15 +64,53 @@ export async function PATCH(
             return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
         }
 
+        if (accountId && !(await getUserAccount(user.id, accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
         const updateValues: Partial<typeof receipts.$inferInsert> = {};
         if (ocrMerchant !== undefined) updateValues.ocrMerchant = ocrMerchant;
         if (ocrDate !== undefined) updateValues.ocrDate = ocrDate;
         if (ocrAmount !== undefined) updateValues.ocrAmount = parseFloat(ocrAmount);
         if (ocrCurrency !== undefined) updateValues.ocrCurrency = ocrCurrency;
+        if (accountId !== undefined) updateValues.accountId = accountId || null;
         if (verified !== undefined) updateValues.verified = verified;
         if (isAutomated !== undefined) updateValues.isAutomated = isAutomated;
 
-        await db.update(receipts).set(updateValues).where(eq(receipts.id, id));
+        // Items are replaced wholesale when sent
+        if (items !== undefined) {
+            const itemsValidation = validateInput(z.array(receiptItemSchema).max(200), items);
+            if (!itemsValidation.success) {
+                return NextResponse.json({ error: `items.${itemsValidation.error}` }, { status: 400 });
+            }
+            const currency = ocrCurrency !== undefined ? ocrCurrency : existing[0].ocrCurrency;
+            await replaceReceiptItems(id, user.id, itemsValidation.data, currency);
+        }
+
+        if (Object.keys(updateValues).length > 0) {
+            await db.update(receipts).set(updateValues).where(eq(receipts.id, id));
+        }
+
+        // A corrected merchant name moves the receipt (and its transactions) in the directory
+        if (ocrMerchant !== undefined && ocrMerchant !== existing[0].ocrMerchant) {
+            await linkReceiptMerchant(user.id, id, ocrMerchant);
+        }
+
+        // A reviewed receipt teaches the store's template (categoryId is only used for that),
+        // unless a QRIS code named the merchant
+        if (verified === true && existing[0].ocrRawText && !existing[0].hasQris) {
+            const reviewed = { ...existing[0], ...updateValues };
+            try {
+                await learnMerchantTemplate(user.id, existing[0].ocrRawText, {
+                    merchant: reviewed.ocrMerchant,
+                    date: reviewed.ocrDate,
+                    amount: reviewed.ocrAmount,
+                    categoryId: typeof categoryId === 'string' ? categoryId || null : undefined,
+                });
+            } catch (error) {
+                console.error('Failed to learn merchant template:', error);
+            }
+        }
 
         // Return without base64
         const updated = await db
@@ -71,6 +121,7 @@ export async function PATCH(
                 ocrAmount: receipts.ocrAmount,
                 ocrCurrency: receipts.ocrCurrency,
                 ocrConfidence: receipts.ocrConfidence,
+                merchantId: receipts.merchantId,
                 verified: receipts.verified,
             })
             .from(receipts)
@@ -105,12 +156,22 @@ export async function DELETE(
             return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
         }
 
-        // Delete associated transactions
+        // Delete associated transactions (and their split lines)
+        const linked = await db
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(eq(transactions.receiptId, id));
+        await deleteSplitsForTransactions(linked.map(t => t.id));
+        await deleteTagsForTransactions(linked.map(t => t.id));
+        await deleteDuplicateCandidates(linked.map(t => t.id));
+
         await db
             .delete(transactions)
             .where(eq(transactions.receiptId, id));
 
+        await deleteItemsForReceipts([id]);
         await db.delete(receipts).where(eq(receipts.id, id));
+        await releaseReceiptImages([existing[0].imageHash, existing[0].attachmentHash]);
 
         return NextResponse.json({ message: 'Receipt deleted successfully' });
     } catch (error) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { mergeReceipts } from '@/lib/receipt-duplicates';
+import { receiptMergeSchema, validateInput } from '@/lib/validation';
+
+// POST /api/receipts/duplicates/merge - Keep one receipt and fold its duplicates into it
+// Transactions of the duplicates are relinked to the kept receipt; the duplicates are deleted
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(receiptMergeSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const { keepId, duplicateIds } = validation.data;
+        const result = await mergeReceipts(user.id, keepId, duplicateIds);
+        if (!result) {
+            return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ data: result });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error merging receipts:', error);
+        return NextResponse.json({ error: 'Failed to merge receipts' }, { status: 500 });
+    }
+}
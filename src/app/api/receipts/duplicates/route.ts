@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import {
+    backfillPerceptualHashes,
+    findDuplicateReceiptGroups,
+    findReceiptMatches,
+} from '@/lib/receipt-duplicates';
+import { receiptDuplicateCheckSchema, validateInput } from '@/lib/validation';
+
+// GET /api/receipts/duplicates - Groups of saved receipts that are copies of one another
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        // partial: older receipts are still being hashed, so some groups may be missing
+        const partial = await backfillPerceptualHashes(user.id);
+        const groups = await findDuplicateReceiptGroups(user.id);
+
+        return NextResponse.json({ data: groups, partial });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error finding duplicate receipts:', error);
+        return NextResponse.json({ error: 'Failed to find duplicate receipts' }, { status: 500 });
+    }
+}
+
+// POST /api/receipts/duplicates - Check image fingerprints against saved receipts before OCR
+// Body: { images: [{ fileHash, perceptualHash }] }; data[i] lists the matches for images[i]
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(receiptDuplicateCheckSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        await backfillPerceptualHashes(user.id);
+        const matches = await findReceiptMatches(user.id, validation.data.images);
+
+        return NextResponse.json({ data: matches });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error checking receipt duplicates:', error);
+        return NextResponse.json({ error: 'Failed to check receipt duplicates' }, { status: 500 });
+    }
+}
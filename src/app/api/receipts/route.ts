@@ -5,8 +5,22 @@ import { db } from '@/db';
 import { receipts } from '@/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
+import { receiptItemSchema, validateInput } from '@/lib/validation';
+import { replaceReceiptItems } from '@/lib/receipt-items';
+import { storeReceiptAttachment, storeReceiptImage } from '@/lib/receipt-images';
+import { queueReceiptOcr } from '@/lib/receipt-ocr';
+import { learnMerchantTemplate } from '@/lib/merchant-templates';
+import { resolveMerchant } from '@/lib/merchants';
+import { getUserAccount } from '@/lib/accounts';
+import { z } from 'zod';
 
-// GET /api/receipts - List all receipts
+const receiptItemsSchema = z.array(receiptItemSchema).max(200, 'Too many items (max 200)');
+
+// SHA-256 of the original file, sent by the scanner for duplicate detection
+const isFileHash = (value: unknown): value is string =>
+    typeof value === 'string' && /^[a-f0-9]{64}$/.test(value);
+
+// GET /api/receipts - List all receipts (with image URLs; the list never carries image data)
 export async function GET(request: NextRequest) {
     try {
         const user = await requireAuth(request);
@@ -28,9 +42,11 @@ export async function GET(request: NextRequest) {
                 ocrCurrency: receipts.ocrCurrency,
                 ocrConfidence: receipts.ocrConfidence,
                 fileName: receipts.fileName,
+                accountId: receipts.accountId,
                 verified: receipts.verified,
                 isAutomated: receipts.isAutomated, // Auto-pilot flag
                 createdAt: receipts.createdAt,
+                attachmentHash: receipts.attachmentHash,
                 // Don't include base64 in list for performance
             })
             .from(receipts)
@@ -38,7 +54,14 @@ export async function GET(request: NextRequest) {
             .orderBy(desc(receipts.createdAt))
             .limit(limit);
 
-        return NextResponse.json({ data: result });
+        const data = result.map(({ attachmentHash, ...r }) => ({
+            ...r,
+            imageUrl: `/api/receipts/${r.id}/image`,
+            thumbnailUrl: `/api/receipts/${r.id}/image?size=thumb`,
+            attachmentUrl: attachmentHash ? `/api/receipts/${r.id}/attachment` : null,
+        }));
+
+        return NextResponse.json({ data });
     } catch (error) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
@@ -55,6 +78,7 @@ export async function POST(request: NextRequest) {
         const body = await request.json();
         const {
             imageBase64,
+            attachmentBase64, // original PDF of a PDF receipt; imageBase64 is its rendered pages
             ocrRawText,
             ocrMerchant,
             ocrDate,
@@ -62,35 +86,83 @@ export async function POST(request: NextRequest) {
             ocrCurrency,
             ocrConfidence,
             fileName,
+            fileHash,
+            accountId,
+            items,
             verified,
             isAutomated,
+            categoryId, // only used to learn the merchant template
+            hasQris, // a QRIS code names the merchant, so the receipt teaches no template
         } = body;
 
         if (!imageBase64) {
             return NextResponse.json({ error: 'Image data is required' }, { status: 400 });
         }
 
+        const itemsValidation = validateInput(receiptItemsSchema, items ?? []);
+        if (!itemsValidation.success) {
+            return NextResponse.json({ error: `items.${itemsValidation.error}` }, { status: 400 });
+        }
+
+        if (accountId && !(await getUserAccount(user.id, accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        const attachment = attachmentBase64 ? await storeReceiptAttachment(attachmentBase64) : null;
+        if (attachmentBase64 && !attachment) {
+            return NextResponse.json({ error: 'Invalid attachment data' }, { status: 400 });
+        }
+
+        const image = await storeReceiptImage(imageBase64);
+        if (!image) {
+            return NextResponse.json({ error: 'Invalid image data' }, { status: 400 });
+        }
+
+        const merchant = await resolveMerchant(user.id, ocrMerchant);
         const id = uuid();
         const newReceipt = {
             id,
             userId: user.id,
-            imageBase64,
+            ...image,
+            ...attachment,
             ocrRawText: ocrRawText || null,
             ocrMerchant: ocrMerchant || null,
             ocrDate: ocrDate || null,
             ocrAmount: ocrAmount ? parseFloat(ocrAmount) : null,
             ocrCurrency: ocrCurrency || null,
             ocrConfidence: ocrConfidence ? parseFloat(ocrConfidence) : null,
+            merchantId: merchant?.id ?? null,
+            hasQris: !!hasQris,
             fileName: fileName || null,
+            fileHash: isFileHash(fileHash) ? fileHash : null,
+            accountId: accountId || null,
             verified: verified || false,
             isAutomated: isAutomated || false,
         };
 
         await db.insert(receipts).values(newReceipt);
+        await replaceReceiptItems(id, user.id, itemsValidation.data, newReceipt.ocrCurrency);
 
-        // Return without base64 for smaller response
-        const { imageBase64: _, ...responseData } = newReceipt;
-        return NextResponse.json({ data: { ...responseData, id } }, { status: 201 });
+        // Uploads that skipped the browser scanner are OCR'd on the server
+        if (ocrRawText === undefined) {
+            await queueReceiptOcr(id);
+        }
+
+        // Receipts reviewed in the scanner teach the store's template
+        if (newReceipt.verified && newReceipt.ocrRawText && !newReceipt.hasQris) {
+            try {
+                await learnMerchantTemplate(user.id, newReceipt.ocrRawText, {
+                    merchant: newReceipt.ocrMerchant,
+                    date: newReceipt.ocrDate,
+                    amount: newReceipt.ocrAmount,
+                    categoryId: typeof categoryId === 'string' ? categoryId || null : undefined,
+                });
+            } catch (error) {
+                console.error('Failed to learn merchant template:', error);
+            }
+        }
+
+        return NextResponse.json({ data: { ...newReceipt, itemCount: itemsValidation.data.length } }, { status: 201 });
     } catch (error) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
@@ -114,20 +186,46 @@ export async function PATCH(request: NextRequest) {
         const insertedIds: string[] = [];
 
         for (const receipt of receiptData) {
+            const itemsValidation = validateInput(receiptItemsSchema, receipt.items ?? []);
+            if (!itemsValidation.success) {
+                return NextResponse.json({ error: `items.${itemsValidation.error}` }, { status: 400 });
+            }
+
+            const attachment = typeof receipt.attachmentBase64 === 'string'
+                ? await storeReceiptAttachment(receipt.attachmentBase64)
+                : null;
+            if (receipt.attachmentBase64 && !attachment) {
+                return NextResponse.json({ error: 'Invalid attachment data' }, { status: 400 });
+            }
+
+            const image = typeof receipt.imageBase64 === 'string' ? await storeReceiptImage(receipt.imageBase64) : null;
+            if (!image) {
+                return NextResponse.json({ error: 'Invalid image data' }, { status: 400 });
+            }
+
+            const merchant = await resolveMerchant(user.id, receipt.ocrMerchant);
             const id = uuid();
             await db.insert(receipts).values({
                 id,
                 userId: user.id,
-                imageBase64: receipt.imageBase64,
+                ...image,
+                ...attachment,
                 ocrRawText: receipt.ocrRawText || null,
                 ocrMerchant: receipt.ocrMerchant || null,
                 ocrDate: receipt.ocrDate || null,
                 ocrAmount: receipt.ocrAmount ? parseFloat(receipt.ocrAmount) : null,
                 ocrCurrency: receipt.ocrCurrency || null,
                 ocrConfidence: receipt.ocrConfidence ? parseFloat(receipt.ocrConfidence) : null,
+                merchantId: merchant?.id ?? null,
+                hasQris: !!receipt.hasQris,
+                fileHash: isFileHash(receipt.fileHash) ? receipt.fileHash : null,
                 verified: receipt.verified || false,
                 isAutomated: receipt.isAutomated || false,
             });
+            await replaceReceiptItems(id, user.id, itemsValidation.data, receipt.ocrCurrency || null);
+            if (receipt.ocrRawText === undefined) {
+                await queueReceiptOcr(id);
+            }
             insertedIds.push(id);
         }
 
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { db } from '@/db';
-import { recurringTransactions, transactions, categories } from '@/db/schema';
+import { recurringTransactions, transactions, categories, accounts } from '@/db/schema';
 import { eq, and, lte, desc } from 'drizzle-orm';
 import { v4 as uuid } from 'uuid';
 import { addDays, addWeeks, addMonths, addYears, format, parseISO, isBefore } from 'date-fns';
 import { convertCurrency } from '@/lib/currency';
+import { getUserAccount } from '@/lib/accounts';
 
 // GET /api/recurring - List all recurring transactions
 export async function GET(request: NextRequest) {
@@ -15,15 +16,18 @@ export async function GET(request: NextRequest) {
             .select({
                 recurring: recurringTransactions,
                 category: categories,
+                account: accounts,
             })
             .from(recurringTransactions)
             .leftJoin(categories, eq(recurringTransactions.categoryId, categories.id))
+            .leftJoin(accounts, eq(recurringTransactions.accountId, accounts.id))
             .where(eq(recurringTransactions.userId, user.id))
             .orderBy(desc(recurringTransactions.createdAt));
 
-        const data = result.map(({ recurring, category }) => ({
+        const data = result.map(({ recurring, category, account }) => ({
             ...recurring,
             category,
+            account,
         }));
 
         return NextResponse.json({ data });
@@ -46,6 +50,7 @@ export async function POST(request: NextRequest) {
             amount,
             currency = 'IDR',
             categoryId,
+            accountId,
             description,
             frequency,
             startDate,
@@ -59,6 +64,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (accountId && !(await getUserAccount(user.id, accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
         const id = uuid();
         const nextDate = startDate || format(new Date(), 'yyyy-MM-dd');
 
@@ -69,6 +78,7 @@ export async function POST(request: NextRequest) {
             amount: parseFloat(amount),
             currency,
             categoryId: categoryId || null,
+            accountId: accountId || null,
             description: description || null,
             frequency: frequency as 'daily' | 'weekly' | 'monthly' | 'yearly',
             nextDate,
@@ -93,7 +103,7 @@ export async function PUT(request: NextRequest) {
     try {
         const user = await requireAuth(request);
         const body = await request.json();
-        const { id, amount, categoryId, description, frequency, endDate, isActive } = body;
+        const { id, amount, categoryId, accountId, description, frequency, endDate, isActive } = body;
 
         if (!id) {
             return NextResponse.json({ error: 'Recurring transaction ID is required' }, { status: 400 });
@@ -109,9 +119,14 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: 'Recurring transaction not found' }, { status: 404 });
         }
 
+        if (accountId && !(await getUserAccount(user.id, accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
         const updateValues: Partial<typeof recurringTransactions.$inferInsert> = {};
         if (amount !== undefined) updateValues.amount = parseFloat(amount);
         if (categoryId !== undefined) updateValues.categoryId = categoryId;
+        if (accountId !== undefined) updateValues.accountId = accountId || null;
         if (description !== undefined) updateValues.description = description;
         if (frequency) updateValues.frequency = frequency;
         if (endDate !== undefined) updateValues.endDate = endDate;
@@ -215,6 +230,7 @@ export async function PATCH(request: NextRequest) {
                 currency: recurring.currency,
                 amountInBase,
                 categoryId: recurring.categoryId,
+                accountId: recurring.accountId,
                 description: recurring.description,
                 date: recurring.nextDate!,
                 recurringId: recurring.id,
@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { db } from '@/db';
-import { transactions, categories, receipts } from '@/db/schema';
-import { eq, and, gte, lte, sql, desc, or, isNull } from 'drizzle-orm';
+import { transactions, transactionSplits, transactionTags, tags, categories, receipts, accounts, merchants } from '@/db/schema';
+import { eq, ne, and, gte, lte, sql, desc, or, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
 import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
-import { generateTransactionCSV } from '@/lib/export';
+import {
+    generateTransactionCSV,
+    generateTransactionOFX,
+    generateTransactionQIF,
+    generateTransactionBeancount,
+    generateTransactionLedger,
+} from '@/lib/export';
+import { getAccountBalances, getBaseRates } from '@/lib/accounts';
+import { hasNoSplitsSql, splitBaseAmountSql, getSplitsByTransaction } from '@/lib/splits';
+import { getTagsByTransaction } from '@/lib/tags';
+import { rollUpCategoryRows } from '@/lib/category-tree';
 
 // GET /api/reports - Get dashboard summary data
 export async function GET(request: NextRequest) {
@@ -52,6 +63,7 @@ export async function GET(request: NextRequest) {
         }
 
         if (type === 'recent') {
+            const toAccounts = alias(accounts, 'to_accounts');
             const recentTransactions = await db
                 .select({
                     id: transactions.id,
@@ -66,10 +78,14 @@ export async function GET(request: NextRequest) {
                     categoryName: categories.name,
                     categoryColor: categories.color,
                     categoryIcon: categories.icon,
+                    accountName: accounts.name,
+                    toAccountName: toAccounts.name,
                 })
                 .from(transactions)
                 .leftJoin(categories, eq(transactions.categoryId, categories.id))
                 .leftJoin(receipts, eq(transactions.receiptId, receipts.id))
+                .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+                .leftJoin(toAccounts, eq(transactions.toAccountId, toAccounts.id))
                 .where(
                     and(
                         eq(transactions.userId, user.id),
@@ -106,6 +122,8 @@ export async function GET(request: NextRequest) {
             const expense = totals.find(t => t.type === 'expense')?.total || 0;
             const incomeCount = totals.find(t => t.type === 'income')?.count || 0;
             const expenseCount = totals.find(t => t.type === 'expense')?.count || 0;
+            // Transfers only move money between accounts: reported separately, never as income/expense
+            const transferCount = totals.find(t => t.type === 'transfer')?.count || 0;
 
             return NextResponse.json({
                 data: {
@@ -113,6 +131,7 @@ export async function GET(request: NextRequest) {
                     totalExpense: expense,
                     balance: income - expense,
                     transactionCount: incomeCount + expenseCount,
+                    transferCount,
                     period: { start: startDate, end: endDate },
                 },
             });
@@ -130,6 +149,7 @@ export async function GET(request: NextRequest) {
                 .where(
                     and(
                         eq(transactions.userId, user.id),
+                        ne(transactions.type, 'transfer'),
                         gte(transactions.date, startDate),
                         lte(transactions.date, endDate)
                     )
@@ -163,7 +183,12 @@ export async function GET(request: NextRequest) {
         }
 
         if (type === 'category') {
-            // Category breakdown
+            // Category breakdown. `level` rolls subcategories up to that depth (0 = top level);
+            // `parentId` drills into one category, broken down by its direct subcategories.
+            const levelParam = searchParams.get('level');
+            const level = levelParam !== null && /^\d+$/.test(levelParam) ? parseInt(levelParam) : undefined;
+            const drillParentId = searchParams.get('parentId') || undefined;
+
             const categoryData = await db
                 .select({
                     categoryId: transactions.categoryId,
@@ -180,18 +205,118 @@ export async function GET(request: NextRequest) {
                 .where(
                     and(
                         eq(transactions.userId, user.id),
+                        ne(transactions.type, 'transfer'),
+                        gte(transactions.date, startDate),
+                        lte(transactions.date, endDate),
+                        hasNoSplitsSql
+                    )
+                )
+                .groupBy(transactions.categoryId, categories.name, categories.color, categories.icon, transactions.type);
+
+            // Split transactions are attributed line by line
+            const splitData = await db
+                .select({
+                    categoryId: transactionSplits.categoryId,
+                    categoryName: categories.name,
+                    categoryColor: categories.color,
+                    categoryIcon: categories.icon,
+                    type: transactions.type,
+                    total: sql<number>`SUM(${splitBaseAmountSql})`,
+                    count: sql<number>`COUNT(DISTINCT ${transactions.id})`,
+                })
+                .from(transactionSplits)
+                .innerJoin(transactions, eq(transactionSplits.transactionId, transactions.id))
+                .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+                .where(
+                    and(
+                        eq(transactions.userId, user.id),
+                        ne(transactions.type, 'transfer'),
                         gte(transactions.date, startDate),
                         lte(transactions.date, endDate)
                     )
                 )
-                .groupBy(transactions.categoryId, categories.name, categories.color, categories.icon, transactions.type)
+                .groupBy(transactionSplits.categoryId, categories.name, categories.color, categories.icon, transactions.type);
+
+            const userCategories = await db
+                .select({
+                    id: categories.id,
+                    parentId: categories.parentId,
+                    name: categories.name,
+                    color: categories.color,
+                    icon: categories.icon,
+                })
+                .from(categories)
+                .where(eq(categories.userId, user.id));
+
+            const data = rollUpCategoryRows([...categoryData, ...splitData], userCategories, { level, parentId: drillParentId })
+                .sort((a, b) => b.total - a.total);
+
+            return NextResponse.json({ data });
+        }
+
+        if (type === 'merchant') {
+            // Merchant breakdown (transactions without a merchant are grouped under a null merchantId)
+            const data = await db
+                .select({
+                    merchantId: transactions.merchantId,
+                    merchantName: merchants.name,
+                    merchantColor: merchants.color,
+                    type: transactions.type,
+                    total: sql<number>`SUM(COALESCE(amount_in_base, amount))`,
+                    count: sql<number>`COUNT(*)`,
+                    lastDate: sql<string>`MAX(${transactions.date})`,
+                })
+                .from(transactions)
+                .leftJoin(merchants, eq(transactions.merchantId, merchants.id))
+                .where(
+                    and(
+                        eq(transactions.userId, user.id),
+                        ne(transactions.type, 'transfer'),
+                        gte(transactions.date, startDate),
+                        lte(transactions.date, endDate)
+                    )
+                )
+                .groupBy(transactions.merchantId, merchants.name, merchants.color, transactions.type)
                 .orderBy(desc(sql`SUM(COALESCE(amount_in_base, amount))`));
 
-            return NextResponse.json({ data: categoryData });
+            return NextResponse.json({ data });
+        }
+
+        if (type === 'tag') {
+            // Tag breakdown: a transaction with several tags counts under each of them
+            const data = await db
+                .select({
+                    tagId: tags.id,
+                    tagName: tags.name,
+                    tagColor: tags.color,
+                    type: transactions.type,
+                    total: sql<number>`SUM(COALESCE(amount_in_base, amount))`,
+                    count: sql<number>`COUNT(*)`,
+                })
+                .from(transactionTags)
+                .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+                .innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+                .where(
+                    and(
+                        eq(transactions.userId, user.id),
+                        ne(transactions.type, 'transfer'),
+                        gte(transactions.date, startDate),
+                        lte(transactions.date, endDate)
+                    )
+                )
+                .groupBy(tags.id, tags.name, tags.color, transactions.type)
+                .orderBy(desc(sql`SUM(COALESCE(amount_in_base, amount))`));
+
+            return NextResponse.json({ data });
         }
 
         if (type === 'export') {
-            // CSV export
+            // File export: ?format=csv (default), ofx, qif, beancount or ledger
+            const exportFormat = searchParams.get('format') || 'csv';
+            if (!['csv', 'ofx', 'qif', 'beancount', 'ledger'].includes(exportFormat)) {
+                return NextResponse.json({ error: 'Invalid export format' }, { status: 400 });
+            }
+
             const allTransactions = await db
                 .select()
                 .from(transactions)
@@ -209,12 +334,60 @@ export async function GET(request: NextRequest) {
                 .from(categories)
                 .where(eq(categories.userId, user.id));
 
-            const csv = generateTransactionCSV(allTransactions, allCategories);
+            const allAccounts = await db
+                .select()
+                .from(accounts)
+                .where(eq(accounts.userId, user.id));
+
+            const splits = await getSplitsByTransaction(allTransactions.map(t => t.id));
+            const transactionTagMap = await getTagsByTransaction(allTransactions.map(t => t.id));
+            const fileName = `transactions-${startDate}-${endDate}`;
+
+            if (exportFormat === 'ofx') {
+                const balances = await getAccountBalances(user.id);
+                const ofx = generateTransactionOFX(
+                    allTransactions,
+                    allAccounts,
+                    new Map(balances.map(a => [a.id, a.balance])),
+                    await getBaseRates(allAccounts.map(a => a.currency))
+                );
+                return new NextResponse(ofx, {
+                    headers: {
+                        'Content-Type': 'application/x-ofx',
+                        'Content-Disposition': `attachment; filename="${fileName}.ofx"`,
+                    },
+                });
+            }
+
+            if (exportFormat === 'qif') {
+                const baseRates = await getBaseRates(allAccounts.map(a => a.currency));
+                const qif = generateTransactionQIF(allTransactions, allCategories, allAccounts, splits, baseRates);
+                return new NextResponse(qif, {
+                    headers: {
+                        'Content-Type': 'application/qif',
+                        'Content-Disposition': `attachment; filename="${fileName}.qif"`,
+                    },
+                });
+            }
+
+            if (exportFormat === 'beancount' || exportFormat === 'ledger') {
+                const journal = exportFormat === 'beancount'
+                    ? generateTransactionBeancount(allTransactions, allCategories, allAccounts, splits)
+                    : generateTransactionLedger(allTransactions, allCategories, allAccounts, splits);
+                return new NextResponse(journal, {
+                    headers: {
+                        'Content-Type': 'text/plain; charset=utf-8',
+                        'Content-Disposition': `attachment; filename="${fileName}.${exportFormat}"`,
+                    },
+                });
+            }
+
+            const csv = generateTransactionCSV(allTransactions, allCategories, allAccounts, splits, transactionTagMap);
 
             return new NextResponse(csv, {
                 headers: {
                     'Content-Type': 'text/csv',
-                    'Content-Disposition': `attachment; filename="transactions-${startDate}-${endDate}.csv"`,
+                    'Content-Disposition': `attachment; filename="${fileName}.csv"`,
                 },
             });
         }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { restoreBackup } from '@/lib/backup';
+import { backupArchiveSchema, validateInput } from '@/lib/validation';
+
+// POST /api/restore - Re-import an archive from GET /api/backup
+// ?mode=merge (default) adds it next to existing data; ?mode=replace clears the account first
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const mode = searchParams.get('mode') || 'merge';
+
+        if (mode !== 'merge' && mode !== 'replace') {
+            return NextResponse.json({ error: 'Invalid restore mode' }, { status: 400 });
+        }
+
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ error: 'Backup file is not valid JSON' }, { status: 400 });
+        }
+
+        const validation = validateInput(backupArchiveSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const restored = await restoreBackup(user.id, validation.data, mode);
+
+        return NextResponse.json({ data: { mode, restored } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error restoring backup:', error);
+        return NextResponse.json({ error: 'Failed to restore backup' }, { status: 500 });
+    }
+}
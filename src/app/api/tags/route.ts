@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { categorizationRules, tags, transactionTags } from '@/db/schema';
+import { eq, and, asc, count, ne } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { requireAuth } from '@/lib/auth';
+import { tagSchema, validateInput } from '@/lib/validation';
+
+// Tag names are unique per user, ignoring case
+async function findTagByName(userId: string, name: string, exceptId?: string) {
+    const rows = await db
+        .select({ id: tags.id, name: tags.name })
+        .from(tags)
+        .where(exceptId ? and(eq(tags.userId, userId), ne(tags.id, exceptId)) : eq(tags.userId, userId));
+    return rows.find(t => t.name.toLowerCase() === name.toLowerCase()) || null;
+}
+
+// GET /api/tags - List tags with how many transactions carry each
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        const data = await db
+            .select({
+                id: tags.id,
+                name: tags.name,
+                color: tags.color,
+                createdAt: tags.createdAt,
+                transactionCount: count(transactionTags.id),
+            })
+            .from(tags)
+            .leftJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+            .where(eq(tags.userId, user.id))
+            .groupBy(tags.id)
+            .orderBy(asc(tags.name));
+
+        return NextResponse.json({ data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching tags:', error);
+        return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 });
+    }
+}
+
+// POST /api/tags - Create a tag (an existing tag of the same name is returned instead)
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(tagSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const existing = await findTagByName(user.id, validation.data.name);
+        if (existing) {
+            return NextResponse.json({ data: existing });
+        }
+
+        const newTag = {
+            id: uuid(),
+            userId: user.id,
+            ...validation.data,
+        };
+
+        await db.insert(tags).values(newTag);
+
+        return NextResponse.json({ data: newTag }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating tag:', error);
+        return NextResponse.json({ error: 'Failed to create tag' }, { status: 500 });
+    }
+}
+
+// PUT /api/tags - Rename or recolor a tag
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Tag ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(tags)
+            .where(and(eq(tags.id, id), eq(tags.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(tagSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        if (await findTagByName(user.id, validation.data.name, id)) {
+            return NextResponse.json({ error: 'A tag with this name already exists' }, { status: 409 });
+        }
+
+        await db.update(tags).set(validation.data).where(eq(tags.id, id));
+
+        return NextResponse.json({ data: { ...existing[0], ...validation.data } });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating tag:', error);
+        return NextResponse.json({ error: 'Failed to update tag' }, { status: 500 });
+    }
+}
+
+// DELETE /api/tags - Delete a tag (transactions keep everything else)
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Tag ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(tags)
+            .where(and(eq(tags.id, id), eq(tags.userId, user.id)))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+        }
+
+        await db.delete(transactionTags).where(eq(transactionTags.tagId, id));
+        await db.update(categorizationRules).set({ addTagId: null }).where(eq(categorizationRules.addTagId, id));
+        await db.delete(tags).where(eq(tags.id, id));
+
+        return NextResponse.json({ message: 'Tag deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting tag:', error);
+        return NextResponse.json({ error: 'Failed to delete tag' }, { status: 500 });
+    }
+}
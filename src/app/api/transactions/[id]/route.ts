@@ -3,6 +3,20 @@ import { db } from '@/db';
 import { transactions, receipts } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { convertCurrency } from '@/lib/currency';
+import { transactionSchema, transactionSplitSchema, validateInput } from '@/lib/validation';
+import {
+    splitsMatchAmount,
+    replaceTransactionSplits,
+    getSplitsByTransaction,
+    deleteSplitsForTransactions,
+} from '@/lib/splits';
+import { deleteItemsForReceipts } from '@/lib/receipt-items';
+import { releaseReceiptImages } from '@/lib/receipt-images';
+import { deleteDuplicateCandidates, scheduleDuplicateCheck } from '@/lib/transaction-duplicates';
+import { getMerchants, matchMerchant } from '@/lib/merchants';
+import { getUserAccount } from '@/lib/accounts';
+import { deleteTagsForTransactions, getTagsByTransaction, replaceTransactionTags } from '@/lib/tags';
+import { z } from 'zod';
 
 import { requireAuth } from '@/lib/auth';
 
@@ -24,7 +38,10 @@ export async function GET(
             return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
         }
 
-        return NextResponse.json({ data: result[0] });
+        const splitsMap = await getSplitsByTransaction([id]);
+        const tagsMap = await getTagsByTransaction([id]);
+
+        return NextResponse.json({ data: { ...result[0], splits: splitsMap.get(id) || [], tags: tagsMap.get(id) || [] } });
     } catch (error) {
         console.error('Error fetching transaction:', error);
         return NextResponse.json(
@@ -42,7 +59,7 @@ export async function PUT(
         const user = await requireAuth(request);
         const { id } = await params;
         const body = await request.json();
-        const { type, amount, currency, categoryId, description, date, receiptId } = body;
+        const { type, amount, currency, categoryId, accountId, description, date, receiptId, splits, tagIds } = body;
 
         // Check if transaction exists
         const existing = await db
@@ -55,6 +72,46 @@ export async function PUT(
             return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
         }
 
+        // Transfers carry two account legs and a fee row; they are edited through /api/transfers
+        if (existing[0].type === 'transfer' || (type && type !== 'income' && type !== 'expense')) {
+            return NextResponse.json(
+                { error: 'Use /api/transfers to create or edit transfers' },
+                { status: 400 }
+            );
+        }
+
+        if (accountId && !(await getUserAccount(user.id, accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        // Split lines must keep adding up to the (possibly new) amount
+        const newAmount = amount !== undefined ? parseFloat(amount) : existing[0].amount;
+        let validSplits: z.infer<typeof transactionSplitSchema>[] | undefined;
+        if (splits !== undefined) {
+            const validation = validateInput(z.array(transactionSplitSchema).max(100), splits);
+            if (!validation.success) {
+                return NextResponse.json({ error: `splits.${validation.error}` }, { status: 400 });
+            }
+            validSplits = validation.data;
+        }
+
+        let validTagIds: string[] | undefined;
+        if (tagIds !== undefined) {
+            const validation = validateInput(transactionSchema.shape.tagIds.unwrap(), tagIds);
+            if (!validation.success) {
+                return NextResponse.json({ error: `tagIds.${validation.error}` }, { status: 400 });
+            }
+            validTagIds = validation.data;
+        }
+
+        const splitsToCheck = validSplits ?? (await getSplitsByTransaction([id])).get(id) ?? [];
+        if (splitsToCheck.length > 0 && !splitsMatchAmount(splitsToCheck, newAmount)) {
+            return NextResponse.json(
+                { error: 'splits: Split amounts must add up to the transaction amount' },
+                { status: 400 }
+            );
+        }
+
         // Prepare update values
         const updateValues: Partial<typeof transactions.$inferInsert> = {};
 
@@ -62,10 +119,16 @@ export async function PUT(
         if (amount !== undefined) updateValues.amount = parseFloat(amount);
         if (currency) updateValues.currency = currency;
         if (categoryId !== undefined) updateValues.categoryId = categoryId;
+        if (accountId !== undefined) updateValues.accountId = accountId || null;
         if (description !== undefined) updateValues.description = description;
         if (date) updateValues.date = date;
         if (receiptId !== undefined) updateValues.receiptId = receiptId;
 
+        // A new description of a transaction without a receipt is matched against the directory again
+        if (description !== undefined && description !== existing[0].description && !existing[0].receiptId) {
+            updateValues.merchantId = matchMerchant(await getMerchants(user.id), description)?.id ?? null;
+        }
+
         // Recalculate base amount if currency or amount changed
         if (amount !== undefined || currency) {
             const finalAmount = amount !== undefined ? parseFloat(amount) : existing[0].amount;
@@ -89,13 +152,24 @@ export async function PUT(
             .set(updateValues)
             .where(eq(transactions.id, id));
 
+        if (validSplits) {
+            await replaceTransactionSplits(id, validSplits);
+        }
+        if (validTagIds) {
+            await replaceTransactionTags(user.id, id, validTagIds);
+        }
+
         const updated = await db
             .select()
             .from(transactions)
             .where(eq(transactions.id, id))
             .limit(1);
 
-        return NextResponse.json({ data: updated[0] });
+        const splitsMap = await getSplitsByTransaction([id]);
+        const tagsMap = await getTagsByTransaction([id]);
+        scheduleDuplicateCheck(user.id, [id]);
+
+        return NextResponse.json({ data: { ...updated[0], splits: splitsMap.get(id) || [], tags: tagsMap.get(id) || [] } });
     } catch (error) {
         console.error('Error updating transaction:', error);
         return NextResponse.json(
@@ -126,24 +200,38 @@ export async function DELETE(
 
         const transaction = existing[0];
 
-        // If transaction has a linked receipt, delete it too
+        // If transaction has a linked receipt, delete it too (deleting a transaction
+        // does not cascade to its receipt)
+        let receiptImages: (string | null)[] = [];
         if (transaction.receiptId) {
             try {
-                // Delete the receipt (cascade will handle DB constraint if reverse, but here we do it manual)
-                // Actually constraint is ON DELETE CASCADE on transactions.receiptId references receipts.id
-                // So deleting receipt deletes transaction. NOT vice versa.
-                // So we MUST delete receipt manually if we want cleanup.
-                await db.delete(receipts).where(eq(receipts.id, transaction.receiptId));
+                const receipt = await db
+                    .select({ imageHash: receipts.imageHash, attachmentHash: receipts.attachmentHash })
+                    .from(receipts)
+                    .where(and(eq(receipts.id, transaction.receiptId), eq(receipts.userId, user.id)))
+                    .limit(1);
+                if (receipt.length > 0) {
+                    await deleteItemsForReceipts([transaction.receiptId]);
+                    await db.delete(receipts).where(eq(receipts.id, transaction.receiptId));
+                    receiptImages = [receipt[0].imageHash, receipt[0].attachmentHash];
+                }
             } catch (err) {
+                // An orphaned receipt is better than a transaction that cannot be deleted
                 console.error('Failed to delete associated receipt:', err);
-                // Continue to delete transaction even if receipt delete fails?
-                // Yes, better to leave orphan receipt than fail transaction delete?
-                // Or maybe the user wants the file gone.
-                // Let's log it.
             }
         }
 
+        await deleteSplitsForTransactions([id]);
+        await deleteTagsForTransactions([id]);
+        await deleteDuplicateCandidates([id]);
+
+        // Transfers own their fee row
+        if (transaction.type === 'transfer') {
+            await db.delete(transactions).where(eq(transactions.transferId, id));
+        }
+
         await db.delete(transactions).where(eq(transactions.id, id));
+        await releaseReceiptImages(receiptImages);
 
         return NextResponse.json({ message: 'Transaction deleted successfully' });
     } catch (error) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { mergeDuplicateTransactions } from '@/lib/transaction-duplicates';
+import { transactionMergeSchema, validateInput } from '@/lib/validation';
+
+// POST /api/transactions/duplicates/merge - Keep one transaction and delete its duplicate
+// The kept transaction takes over the duplicate's receipt and fills in what it is missing
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(transactionMergeSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const { keepId, removeId } = validation.data;
+        const result = await mergeDuplicateTransactions(user.id, keepId, removeId);
+        if (!result) {
+            return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ data: result });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error merging transactions:', error);
+        return NextResponse.json({ error: 'Failed to merge transactions' }, { status: 500 });
+    }
+}
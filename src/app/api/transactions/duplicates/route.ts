@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import {
+    countDuplicateCandidates,
+    detectDuplicateTransactions,
+    dismissDuplicateCandidate,
+    listDuplicateCandidates,
+} from '@/lib/transaction-duplicates';
+
+// GET /api/transactions/duplicates - Likely duplicate transaction pairs awaiting review
+// ?summary=true returns only the count; ?scan=true checks the whole history first
+// (new and edited transactions are checked in the background as they are saved)
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+
+        if (searchParams.get('summary') === 'true') {
+            return NextResponse.json({ data: { count: await countDuplicateCandidates(user.id) } });
+        }
+
+        if (searchParams.get('scan') === 'true') {
+            await detectDuplicateTransactions(user.id);
+        }
+
+        const data = await listDuplicateCandidates(user.id);
+
+        return NextResponse.json({ data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching duplicate transactions:', error);
+        return NextResponse.json({ error: 'Failed to fetch duplicate transactions' }, { status: 500 });
+    }
+}
+
+// DELETE /api/transactions/duplicates?id= - Dismiss a pair: both transactions are real
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Duplicate ID is required' }, { status: 400 });
+        }
+
+        if (!(await dismissDuplicateCandidate(user.id, id))) {
+            return NextResponse.json({ error: 'Duplicate not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ message: 'Duplicate dismissed' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error dismissing duplicate:', error);
+        return NextResponse.json({ error: 'Failed to dismiss duplicate' }, { status: 500 });
+    }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { transactions, categories } from '@/db/schema';
+import { transactions, categories, accounts, receipts, merchants } from '@/db/schema';
 import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
 import { v4 as uuid } from 'uuid';
 import { convertCurrency } from '@/lib/currency';
+import { splitsMatchAmount, replaceTransactionSplits, getSplitsByTransaction } from '@/lib/splits';
 import { transactionSchema, validateInput, validatePagination } from '@/lib/validation';
+import { scheduleDuplicateCheck } from '@/lib/transaction-duplicates';
+import { applyRules, getActiveRules } from '@/lib/categorization-rules';
+import { getMerchants, matchMerchant } from '@/lib/merchants';
+import { getTagsByTransaction, hasTagSql, replaceTransactionTags } from '@/lib/tags';
 
 import { requireAuth } from '@/lib/auth';
+import { getUserAccount } from '@/lib/accounts';
 
 // GET /api/transactions - List transactions with optional filters
 export async function GET(request: NextRequest) {
@@ -16,6 +23,9 @@ export async function GET(request: NextRequest) {
         const startDate = searchParams.get('startDate');
         const endDate = searchParams.get('endDate');
         const categoryId = searchParams.get('categoryId');
+        const accountId = searchParams.get('accountId');
+        const merchantId = searchParams.get('merchantId');
+        const tagId = searchParams.get('tagId');
         const type = searchParams.get('type');
         const limit = parseInt(searchParams.get('limit') || '100');
         const offset = parseInt(searchParams.get('offset') || '0');
@@ -38,25 +48,49 @@ export async function GET(request: NextRequest) {
         if (categoryId) {
             conditions.push(eq(transactions.categoryId, categoryId));
         }
-        if (type && (type === 'income' || type === 'expense')) {
+        if (accountId) {
+            conditions.push(eq(transactions.accountId, accountId));
+        }
+        if (merchantId) {
+            conditions.push(eq(transactions.merchantId, merchantId));
+        }
+        if (tagId) {
+            conditions.push(hasTagSql(tagId));
+        }
+        if (type && (type === 'income' || type === 'expense' || type === 'transfer')) {
             conditions.push(eq(transactions.type, type));
         }
 
+        const toAccounts = alias(accounts, 'to_accounts');
         const results = await db
             .select({
                 transaction: transactions,
                 category: categories,
+                account: accounts,
+                toAccount: toAccounts,
+                merchant: { id: merchants.id, name: merchants.name, color: merchants.color },
             })
             .from(transactions)
             .leftJoin(categories, eq(transactions.categoryId, categories.id))
+            .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+            .leftJoin(toAccounts, eq(transactions.toAccountId, toAccounts.id))
+            .leftJoin(merchants, eq(transactions.merchantId, merchants.id))
             .where(and(...conditions))
             .orderBy(desc(transactions.date))
             .limit(safeLimit)
             .offset(safeOffset);
 
-        const data = results.map(({ transaction, category }) => ({
+        const splitsMap = await getSplitsByTransaction(results.map(r => r.transaction.id));
+        const tagsMap = await getTagsByTransaction(results.map(r => r.transaction.id));
+
+        const data = results.map(({ transaction, category, account, toAccount, merchant }) => ({
             ...transaction,
             category: category || null,
+            account: account || null,
+            toAccount: toAccount || null,
+            merchant: merchant || null,
+            splits: splitsMap.get(transaction.id) || [],
+            tags: tagsMap.get(transaction.id) || [],
         }));
 
         return NextResponse.json({ data, count: data.length });
@@ -99,6 +133,17 @@ export async function POST(request: NextRequest) {
 
         const validData = validation.data;
 
+        if (validData.accountId && !(await getUserAccount(user.id, validData.accountId))) {
+            return NextResponse.json({ error: 'accountId: Account not found' }, { status: 400 });
+        }
+
+        if (validData.splits?.length && !splitsMatchAmount(validData.splits, validData.amount)) {
+            return NextResponse.json(
+                { error: 'splits: Split amounts must add up to the transaction amount' },
+                { status: 400 }
+            );
+        }
+
         // Convert to base currency (IDR)
         let amountInBase = validData.amount;
         if (validData.currency !== 'IDR') {
@@ -116,6 +161,22 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        // Categorization rules fill in the category when none was picked, and may rename
+        const receipt = validData.receiptId
+            ? (await db
+                .select({ merchant: receipts.ocrMerchant, merchantId: receipts.merchantId })
+                .from(receipts)
+                .where(and(eq(receipts.id, validData.receiptId), eq(receipts.userId, user.id)))
+                .limit(1))[0]
+            : undefined;
+        const ruleOutcome = applyRules(await getActiveRules(user.id), { ...validData, merchant: receipt?.merchant });
+
+        // The receipt's merchant, or the directory entry named in the description;
+        // its default category comes after the rules
+        const directory = await getMerchants(user.id);
+        const merchant = directory.find(m => m.id === receipt?.merchantId)
+            ?? matchMerchant(directory, ruleOutcome.description || validData.description);
+
         const id = uuid();
         const newTransaction = {
             id,
@@ -124,16 +185,32 @@ export async function POST(request: NextRequest) {
             amount: validData.amount,
             currency: validData.currency,
             amountInBase,
-            categoryId: validData.categoryId || null,
-            description: validData.description || null,
+            categoryId: validData.categoryId || ruleOutcome.categoryId || merchant?.categoryId || null,
+            accountId: validData.accountId || null,
+            description: ruleOutcome.description || validData.description || null,
             date: validData.date,
             receiptId: validData.receiptId || null,
             recurringId: validData.recurringId || null,
+            merchantId: merchant?.id ?? null,
         };
 
         await db.insert(transactions).values(newTransaction);
 
-        return NextResponse.json({ data: newTransaction }, { status: 201 });
+        const splits = validData.splits || [];
+        if (splits.length > 0) {
+            await replaceTransactionSplits(id, splits);
+        }
+
+        // Picked tags plus those the rules add
+        const tagIds = [...(validData.tagIds || []), ...ruleOutcome.tagIds];
+        if (tagIds.length > 0) {
+            await replaceTransactionTags(user.id, id, tagIds);
+        }
+        const tags = (await getTagsByTransaction([id])).get(id) || [];
+
+        scheduleDuplicateCheck(user.id, [id]);
+
+        return NextResponse.json({ data: { ...newTransaction, splits, tags } }, { status: 201 });
     } catch (error) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
@@ -0,0 +1,264 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, type DbTransaction } from '@/db';
+import { accounts, transactions, type Account } from '@/db/schema';
+import { eq, and, desc, inArray, isNotNull } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { convertCurrency } from '@/lib/currency';
+import { requireAuth } from '@/lib/auth';
+import { transferSchema, validateInput, type TransferInput } from '@/lib/validation';
+
+/**
+ * Load both accounts of a transfer, making sure they belong to the user
+ */
+async function getTransferAccounts(userId: string, input: TransferInput) {
+    const rows = await db
+        .select()
+        .from(accounts)
+        .where(and(
+            eq(accounts.userId, userId),
+            inArray(accounts.id, [input.fromAccountId, input.toAccountId])
+        ));
+
+    const from = rows.find(a => a.id === input.fromAccountId);
+    const to = rows.find(a => a.id === input.toAccountId);
+    return from && to ? { from, to } : null;
+}
+
+async function toBase(amount: number, currency: string, date: string): Promise<number> {
+    return currency === 'IDR' ? amount : convertCurrency(amount, currency, 'IDR', date);
+}
+
+/**
+ * Build the transfer row. Amount is in the source account's currency;
+ * toAmount is the FX leg in the destination currency (converted when not given).
+ */
+async function buildTransferValues(input: TransferInput, from: Account, to: Account) {
+    const fromCurrency = from.currency || 'IDR';
+    const toCurrency = to.currency || 'IDR';
+
+    let toAmount = input.amount;
+    if (fromCurrency !== toCurrency) {
+        toAmount = input.toAmount ?? await convertCurrency(input.amount, fromCurrency, toCurrency, input.date);
+    }
+
+    return {
+        type: 'transfer' as const,
+        amount: input.amount,
+        currency: fromCurrency,
+        amountInBase: await toBase(input.amount, fromCurrency, input.date),
+        categoryId: null,
+        accountId: from.id,
+        toAccountId: to.id,
+        toAmount,
+        description: input.description || `Transfer: ${from.name} → ${to.name}`,
+        date: input.date,
+    };
+}
+
+/**
+ * Build the fee row of a transfer, or null without a fee. Fees are real spending,
+ * so they are stored as an expense on the source account rather than on the
+ * transfer itself.
+ */
+async function buildFeeValues(userId: string, transferId: string, input: TransferInput, from: Account, to: Account) {
+    if (!input.fee) return null;
+
+    const currency = from.currency || 'IDR';
+    return {
+        id: uuid(),
+        userId,
+        type: 'expense' as const,
+        amount: input.fee,
+        currency,
+        amountInBase: await toBase(input.fee, currency, input.date),
+        categoryId: null,
+        accountId: from.id,
+        description: `Transfer fee: ${from.name} → ${to.name}`,
+        date: input.date,
+        transferId,
+    };
+}
+
+/**
+ * Replace the fee row of a transfer, inside the transaction that writes the transfer
+ */
+async function syncTransferFee(
+    tx: DbTransaction,
+    transferId: string,
+    fee: Awaited<ReturnType<typeof buildFeeValues>>
+) {
+    await tx.delete(transactions).where(eq(transactions.transferId, transferId));
+    if (fee) await tx.insert(transactions).values(fee);
+}
+
+// GET /api/transfers - List transfers with their accounts and fee
+export async function GET(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+
+        const [transferRows, feeRows, userAccounts] = await Promise.all([
+            db
+                .select()
+                .from(transactions)
+                .where(and(eq(transactions.userId, user.id), eq(transactions.type, 'transfer')))
+                .orderBy(desc(transactions.date)),
+            db
+                .select({ transferId: transactions.transferId, amount: transactions.amount })
+                .from(transactions)
+                .where(and(eq(transactions.userId, user.id), isNotNull(transactions.transferId))),
+            db.select().from(accounts).where(eq(accounts.userId, user.id)),
+        ]);
+
+        const accountMap = new Map(userAccounts.map(a => [a.id, a]));
+        const feeMap = new Map(feeRows.filter(f => f.transferId).map(f => [f.transferId, f.amount]));
+
+        const data = transferRows.map(t => ({
+            ...t,
+            fromAccount: accountMap.get(t.accountId || '') || null,
+            toAccount: accountMap.get(t.toAccountId || '') || null,
+            fee: feeMap.get(t.id) || 0,
+        }));
+
+        return NextResponse.json({ data });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error fetching transfers:', error);
+        return NextResponse.json({ error: 'Failed to fetch transfers' }, { status: 500 });
+    }
+}
+
+// POST /api/transfers - Move money between two accounts
+export async function POST(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+
+        const validation = validateInput(transferSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const input = validation.data;
+        const pair = await getTransferAccounts(user.id, input);
+        if (!pair) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const newTransfer = {
+            id: uuid(),
+            userId: user.id,
+            ...(await buildTransferValues(input, pair.from, pair.to)),
+        };
+
+        // Amounts are converted first: no exchange-rate lookups while the write is open
+        const fee = await buildFeeValues(user.id, newTransfer.id, input, pair.from, pair.to);
+        await db.transaction(async (tx) => {
+            await tx.insert(transactions).values(newTransfer);
+            await syncTransferFee(tx, newTransfer.id, fee);
+        });
+
+        return NextResponse.json({ data: { ...newTransfer, fee: input.fee } }, { status: 201 });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error creating transfer:', error);
+        return NextResponse.json({ error: 'Failed to create transfer' }, { status: 500 });
+    }
+}
+
+// PUT /api/transfers - Update a transfer (and its fee)
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const body = await request.json();
+        const { id } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Transfer ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(transactions)
+            .where(and(
+                eq(transactions.id, id),
+                eq(transactions.userId, user.id),
+                eq(transactions.type, 'transfer')
+            ))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+        }
+
+        const validation = validateInput(transferSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const input = validation.data;
+        const pair = await getTransferAccounts(user.id, input);
+        if (!pair) {
+            return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+        }
+
+        const updateValues = await buildTransferValues(input, pair.from, pair.to);
+        const fee = await buildFeeValues(user.id, id, input, pair.from, pair.to);
+        await db.transaction(async (tx) => {
+            await tx.update(transactions).set(updateValues).where(eq(transactions.id, id));
+            await syncTransferFee(tx, id, fee);
+        });
+
+        return NextResponse.json({ data: { ...existing[0], ...updateValues, fee: input.fee } });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error updating transfer:', error);
+        return NextResponse.json({ error: 'Failed to update transfer' }, { status: 500 });
+    }
+}
+
+// DELETE /api/transfers - Delete a transfer and its fee
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await requireAuth(request);
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Transfer ID is required' }, { status: 400 });
+        }
+
+        const existing = await db
+            .select()
+            .from(transactions)
+            .where(and(
+                eq(transactions.id, id),
+                eq(transactions.userId, user.id),
+                eq(transactions.type, 'transfer')
+            ))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+        }
+
+        // Remove the fee explicitly rather than relying on SQLite FK enforcement being enabled
+        await db.transaction(async (tx) => {
+            await tx.delete(transactions).where(eq(transactions.transferId, id));
+            await tx.delete(transactions).where(eq(transactions.id, id));
+        });
+
+        return NextResponse.json({ message: 'Transfer deleted successfully' });
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+        }
+        console.error('Error deleting transfer:', error);
+        return NextResponse.json({ error: 'Failed to delete transfer' }, { status: 500 });
+    }
+}
@@ -6,11 +6,13 @@ import { PageHeader, EmptyState } from '@/components/Navigation';
 import { BudgetProgress } from '@/components/BudgetProgress';
 import { formatCurrency, CURRENCIES } from '@/lib/currency';
 import { cn } from '@/lib/utils';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/category-tree';
 
 interface Category {
     id: string;
     name: string;
     type: 'income' | 'expense';
+    parentId: string | null;
     icon: string;
     color: string;
 }
@@ -34,7 +36,7 @@ interface Budget {
 
 export default function BudgetsPage() {
     const [budgets, setBudgets] = useState<Budget[]>([]);
-    const [categories, setCategories] = useState<Category[]>([]);
+    const [categories, setCategories] = useState<(Category & { depth: number })[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [showModal, setShowModal] = useState(false);
     const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
@@ -70,7 +72,10 @@ export default function BudgetsPage() {
             ]);
 
             setBudgets(budgetsData.data || []);
-            setCategories((categoriesData.data || []).filter((c: Category) => c.type === 'expense'));
+            // Tree order, so subcategories are listed under their parent
+            setCategories(flattenCategoryTree(buildCategoryTree(
+                (categoriesData.data || []).filter((c: Category) => c.type === 'expense')
+            )));
         } catch (error) {
             console.error('Failed to fetch data:', error);
         } finally {
@@ -331,10 +336,11 @@ export default function BudgetsPage() {
                                         <option value="">Select category</option>
                                         {(editingBudget ? categories : categoriesWithoutBudget).map((c) => (
                                             <option key={c.id} value={c.id}>
-                                                {c.icon} {c.name}
+                                                {'\u00A0\u00A0'.repeat(c.depth)}{c.icon} {c.name}
                                             </option>
                                         ))}
                                     </select>
+                                    <p className="text-xs text-gray-500">A budget on a parent category also counts spending in its subcategories.</p>
                                 </div>
                             )}
 
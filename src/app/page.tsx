@@ -19,7 +19,11 @@ import {
   AlertCircle,
   Calendar as CalendarIcon,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  ArrowLeftRight,
+  Landmark,
+  Smartphone,
+  Banknote
 } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { PageHeader, StatCard, EmptyState } from '@/components/Navigation';
@@ -32,7 +36,7 @@ import { cn } from '@/lib/utils';
 
 interface Transaction {
   id: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   amount: number;
   amountInBase: number | null;
   currency: string;
@@ -47,6 +51,8 @@ interface Transaction {
   categoryName?: string;
   categoryColor?: string;
   categoryIcon?: string;
+  accountName?: string | null;
+  toAccountName?: string | null;
   receiptId?: string | null;
 }
 
@@ -58,6 +64,23 @@ interface Category {
   color: string;
 }
 
+interface Account {
+  id: string;
+  name: string;
+  type: 'bank' | 'ewallet' | 'cash' | 'credit_card';
+  currency: string | null;
+  color: string | null;
+  isArchived: boolean | null;
+  balance: number;
+}
+
+const accountTypeIcons = {
+  bank: Landmark,
+  ewallet: Smartphone,
+  cash: Banknote,
+  credit_card: CreditCard,
+};
+
 interface Budget {
   id: string;
   categoryId: string;
@@ -86,6 +109,7 @@ export default function DashboardPage() {
   const [categoryData, setCategoryData] = useState<any[]>([]);
   const [monthlyData, setMonthlyData] = useState<any[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
 
@@ -118,22 +142,24 @@ export default function DashboardPage() {
     setIsLoading(true);
     try {
       const monthParam = format(currentDate, 'yyyy-MM');
-      const [summaryRes, recentRes, categoriesRes, categoryRes, monthlyRes, budgetsRes] = await Promise.all([
+      const [summaryRes, recentRes, categoriesRes, categoryRes, monthlyRes, budgetsRes, accountsRes] = await Promise.all([
         fetch(`/api/reports?type=summary&month=${monthParam}`),
         fetch(`/api/reports?type=recent&month=${monthParam}`),
         fetch('/api/categories'),
-        fetch(`/api/reports?type=category&month=${monthParam}`),
+        fetch(`/api/reports?type=category&month=${monthParam}&level=0`), // subcategories roll up into their top-level category
         fetch(`/api/reports?type=monthly&months=6`), // Monthly trend usually shows last 6 months context
         fetch('/api/budgets'),
+        fetch('/api/accounts'),
       ]);
 
-      const [summaryData, recentData, categoriesData, categoryReportData, monthlyReport, budgetsData] = await Promise.all([
+      const [summaryData, recentData, categoriesData, categoryReportData, monthlyReport, budgetsData, accountsData] = await Promise.all([
         summaryRes.json(),
         recentRes.json(),
         categoriesRes.json(),
         categoryRes.json(),
         monthlyRes.json(),
         budgetsRes.json(),
+        accountsRes.json(),
       ]);
 
       setSummary(summaryData.data || { totalIncome: 0, totalExpense: 0, balance: 0, transactionCount: 0 });
@@ -153,6 +179,7 @@ export default function DashboardPage() {
 
       setMonthlyData(monthlyReport.data || []);
       setBudgets(budgetsData.data || []);
+      setAccounts(accountsData.data || []);
     } catch (error) {
       console.error('Failed to fetch dashboard data:', error);
     } finally {
@@ -247,15 +274,30 @@ export default function DashboardPage() {
 
   const handleAddTransaction = async (data: any) => {
     try {
-      const response = await fetch('/api/transactions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...data,
-          amount: parseFloat(data.amount),
-          categoryId: data.categoryId || null, // Ensure empty string becomes null
-        }),
-      });
+      const response = data.type === 'transfer'
+        ? await fetch('/api/transfers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            fromAccountId: data.accountId,
+            toAccountId: data.toAccountId,
+            amount: parseFloat(data.amount),
+            toAmount: data.toAmount ? parseFloat(data.toAmount) : null,
+            fee: data.fee ? parseFloat(data.fee) : 0,
+            description: data.description || null,
+            date: data.date,
+          }),
+        })
+        : await fetch('/api/transactions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...data,
+            amount: parseFloat(data.amount),
+            categoryId: data.categoryId || null, // Ensure empty string becomes null
+            accountId: data.accountId || null,
+          }),
+        });
 
       if (response.ok) {
         setShowAddModal(false);
@@ -284,6 +326,7 @@ export default function DashboardPage() {
   }
 
   const overBudgetCount = budgets.filter((b) => b.percentUsed > 100).length;
+  const activeAccounts = accounts.filter((a) => !a.isArchived);
 
   return (
     <div className="space-y-6">
@@ -356,6 +399,45 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Account Balances */}
+      {activeAccounts.length > 0 && (
+        <div className="p-4 sm:p-6 glass-card rounded-2xl">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white">Accounts</h2>
+            <a href="/settings" className="text-sm text-blue-400 hover:text-blue-300">
+              Manage
+            </a>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {activeAccounts.map((account) => {
+              const Icon = accountTypeIcons[account.type] || Wallet;
+              const color = account.color || '#6B7280';
+              return (
+                <div key={account.id} className="flex items-center gap-3 p-3 rounded-xl bg-gray-800/30">
+                  <div
+                    className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
+                    style={{ backgroundColor: `${color}20` }}
+                  >
+                    <Icon className="w-5 h-5" style={{ color }} />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-400 truncate">{account.name}</p>
+                    <p
+                      className={cn(
+                        'font-semibold truncate',
+                        account.balance < 0 ? 'text-red-400' : 'text-white'
+                      )}
+                    >
+                      {formatCurrency(account.balance, account.currency || 'IDR')}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Charts Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Expense by Category */}
@@ -412,7 +494,9 @@ export default function DashboardPage() {
                       className="w-10 h-10 rounded-lg flex items-center justify-center text-lg relative z-10"
                       style={{ backgroundColor: `${t.categoryColor || '#6B7280'}20` }}
                     >
-                      {t.categoryIcon ? (
+                      {t.type === 'transfer' ? (
+                        <ArrowLeftRight className="w-5 h-5 text-blue-400" />
+                      ) : t.categoryIcon ? (
                         <span dangerouslySetInnerHTML={{ __html: t.categoryIcon }} />
                       ) : (
                         <Tag className="w-5 h-5" style={{ color: t.categoryColor || '#6B7280' }} />
@@ -429,17 +513,22 @@ export default function DashboardPage() {
                     <p className="text-white font-medium truncate text-sm sm:text-base">
                       {(t.description || t.categoryName || 'Transaction')}
                     </p>
-                    <p className="text-xs text-gray-500">{format(new Date(t.date), 'MMM d')}</p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(t.date), 'MMM d')}
+                      {t.type === 'transfer' && ` · ${t.accountName || '?'} → ${t.toAccountName || '?'}`}
+                    </p>
                   </div>
                   <div className="text-right">
                     <p
                       className={cn(
                         'font-semibold flex items-center gap-1 justify-end text-sm sm:text-base',
-                        t.type === 'income' ? 'text-green-400' : 'text-red-400'
+                        t.type === 'income' ? 'text-green-400' : t.type === 'transfer' ? 'text-blue-400' : 'text-red-400'
                       )}
                     >
                       {t.type === 'income' ? (
                         <ArrowUpRight className="w-3 h-3 sm:w-4 sm:h-4" />
+                      ) : t.type === 'transfer' ? (
+                        <ArrowLeftRight className="w-3 h-3 sm:w-4 sm:h-4" />
                       ) : (
                         <ArrowDownRight className="w-3 h-3 sm:w-4 sm:h-4" />
                       )}
@@ -519,6 +608,7 @@ export default function DashboardPage() {
         isOpen={showAddModal}
         onClose={() => setShowAddModal(false)}
         categories={categories}
+        accounts={accounts}
         onSubmit={handleAddTransaction}
       />
     </div>
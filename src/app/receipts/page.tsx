@@ -1,13 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Camera, Receipt, X, Trash2, Check, ArrowUpRight, ArrowDownRight, ArrowUpDown, Zap, CheckSquare, Square } from 'lucide-react';
+import { Camera, Receipt, X, Trash2, Check, ArrowUpRight, ArrowDownRight, ArrowUpDown, Zap, CheckSquare, Square, Copy } from 'lucide-react';
 import { PageHeader, EmptyState } from '@/components/Navigation';
 import { ReceiptScanner } from '@/components/ReceiptScanner';
 import { ReceiptEditModal } from '@/components/ReceiptEditModal';
+import { DuplicateReceiptsModal } from '@/components/DuplicateReceiptsModal';
 import { format } from 'date-fns';
 import { formatCurrency, CURRENCIES } from '@/lib/currency';
 import { cn } from '@/lib/utils';
+import type { ReceiptItem } from '@/lib/ocr';
+import type { QrisPayload } from '@/lib/qris';
 
 interface Category {
     id: string;
@@ -19,6 +22,7 @@ interface Category {
 
 interface ScanResult {
     imageBase64: string;
+    attachmentBase64?: string;
     rawText: string;
     merchant: string | null;
     date: string | null;
@@ -34,12 +38,20 @@ interface ScanResult {
     editedCategoryId?: string;
     isAutomated?: boolean;
     fileName?: string;
+    fileHash?: string;
     isDuplicateWarning?: boolean;
+    qris?: QrisPayload | null;
+}
+
+// Line items worth keeping for price history (drops discount lines and blanks)
+function receiptItemsForSave(items: ReceiptItem[] | undefined): ReceiptItem[] {
+    return (items || []).filter(item => item.name?.trim() && item.price >= 0);
 }
 
 interface SavedReceipt {
     id: string;
     imageBase64?: string;
+    thumbnailUrl?: string;
     ocrMerchant: string | null;
     ocrDate: string | null;
     ocrAmount: number | null;
@@ -58,6 +70,7 @@ export default function ReceiptsPage() {
 
     // Edit modal state
     const [editingReceipt, setEditingReceipt] = useState<SavedReceipt | null>(null);
+    const [showDuplicates, setShowDuplicates] = useState(false);
 
     // Selection Mode
     const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -195,6 +208,7 @@ export default function ReceiptsPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     imageBase64: result.imageBase64,
+                    attachmentBase64: result.attachmentBase64,
                     ocrRawText: result.rawText,
                     ocrMerchant: result.editedMerchant || result.merchant,
                     ocrDate: result.editedDate || result.date,
@@ -202,6 +216,10 @@ export default function ReceiptsPage() {
                     ocrCurrency: result.currency || 'IDR',
                     ocrConfidence: result.confidence,
                     fileName: result.fileName,
+                    fileHash: result.fileHash,
+                    items: receiptItemsForSave(result.items),
+                    categoryId: result.editedCategoryId, // teaches the merchant template
+                    hasQris: !!result.qris,
                     // Auto entries that were manually edited become verified
                     // Auto entries without edits stay unverified
                     // Manual review entries are always verified
@@ -263,6 +281,15 @@ export default function ReceiptsPage() {
             <PageHeader
                 title="Receipts"
                 subtitle="Scan and manage your receipts"
+                action={
+                    <button
+                        onClick={() => setShowDuplicates(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-xl text-sm font-medium transition-colors"
+                    >
+                        <Copy className="w-4 h-4" />
+                        Find Duplicates
+                    </button>
+                }
             />
 
             {/* Scanner */}
@@ -271,7 +298,6 @@ export default function ReceiptsPage() {
                     onCreateTransaction={handleCreateTransaction}
                     onBatchComplete={fetchData}
                     categories={categories}
-                    existingReceipts={savedReceipts} // Pass existing data for dupe checking
                     onSkip={async (result) => {
                         try {
                             await fetch('/api/receipts', {
@@ -279,6 +305,7 @@ export default function ReceiptsPage() {
                                 headers: { 'Content-Type': 'application/json' },
                                 body: JSON.stringify({
                                     imageBase64: result.imageBase64,
+                                    attachmentBase64: result.attachmentBase64,
                                     ocrRawText: result.rawText,
                                     ocrMerchant: result.merchant,
                                     ocrDate: result.date,
@@ -286,6 +313,9 @@ export default function ReceiptsPage() {
                                     ocrCurrency: result.currency || 'IDR',
                                     ocrConfidence: result.confidence,
                                     fileName: result.fileName, // Pass original filename
+                                    fileHash: result.fileHash,
+                                    items: receiptItemsForSave(result.items),
+                                    hasQris: !!result.qris,
                                     verified: false, // Save as unverified
                                 }),
                             });
@@ -412,7 +442,7 @@ export default function ReceiptsPage() {
                         {/* Thumbnail */}
                         <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-900 rounded-lg overflow-hidden border border-gray-700 relative">
                             <img
-                                src={`/api/receipts/${receipt.id}/image`}
+                                src={receipt.thumbnailUrl || `/api/receipts/${receipt.id}/image?size=thumb`}
                                 alt="Receipt"
                                 className="w-full h-full object-cover"
                                 loading="lazy"
@@ -485,6 +515,12 @@ export default function ReceiptsPage() {
                     onSuccess={fetchData}
                 />
             )}
+
+            <DuplicateReceiptsModal
+                isOpen={showDuplicates}
+                onClose={() => setShowDuplicates(false)}
+                onMerged={fetchData}
+            />
         </div>
     );
 }
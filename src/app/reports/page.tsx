@@ -7,6 +7,8 @@ import { PageHeader, EmptyState } from '@/components/Navigation';
 import { MonthlyBarChart, BalanceTrendChart, ExpensePieChart, CategoryLegend } from '@/components/Charts';
 import { formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { flattenCategoryTree, getCategoryPath, rollUpCategoryRows } from '@/lib/category-tree';
 
 interface MonthlyData {
     month: string;
@@ -16,13 +18,17 @@ interface MonthlyData {
 }
 
 interface CategoryData {
-    categoryName: string;
-    categoryColor: string;
-    categoryIcon: string;
+    categoryId: string | null;
+    categoryName: string | null;
+    categoryColor: string | null;
+    categoryIcon: string | null;
     total: number;
+    count: number;
     type: string;
 }
 
+type BreakdownType = 'expense' | 'income';
+
 export default function ReportsPage() {
     const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
     const [categoryData, setCategoryData] = useState<CategoryData[]>([]);
@@ -31,6 +37,11 @@ export default function ReportsPage() {
     const [activeTab, setActiveTab] = useState<'overview' | 'income' | 'expense'>('overview');
     const [customRange, setCustomRange] = useState<{ start: string; end: string } | null>(null);
     const [availableMonths, setAvailableMonths] = useState<string[]>([]);
+    const { categories, categoryTree } = useCategories();
+    // Depth the pies roll subcategories up to ('all' = every subcategory on its own)
+    const [categoryLevel, setCategoryLevel] = useState<number | 'all'>(0);
+    // Category each pie is drilled into, if any
+    const [drill, setDrill] = useState<Record<BreakdownType, string | null>>({ expense: null, income: null });
 
     useEffect(() => {
         // Fetch available months for range limits
@@ -93,24 +104,52 @@ export default function ReportsPage() {
         { income: 0, expense: 0 }
     );
 
-    // Transform category data for pie charts
-    const expenseCategories = categoryData
-        .filter((c) => c.type === 'expense')
-        .map((c) => ({
-            name: c.categoryName || 'Uncategorized',
-            value: c.total,
-            color: c.categoryColor || '#6B7280',
-            icon: c.categoryIcon || '📁',
-        }));
+    // Transform category data for pie charts, rolled up to the chosen level or drilled into one category
+    const breakdown = (type: BreakdownType) => {
+        const parentId = drill[type];
+        const options = parentId ? { parentId } : categoryLevel === 'all' ? {} : { level: categoryLevel };
+        return rollUpCategoryRows(categoryData.filter((c) => c.type === type), categories, options)
+            .sort((a, b) => b.total - a.total)
+            .map((c) => ({
+                id: c.categoryId,
+                name: c.categoryName || 'Uncategorized',
+                value: c.total,
+                color: c.categoryColor || '#6B7280',
+                icon: c.categoryIcon || '📁',
+                hasChildren: c.hasChildren,
+            }));
+    };
+
+    const expenseCategories = breakdown('expense');
+    const incomeCategories = breakdown('income');
+    const maxDepth = Math.max(0, ...flattenCategoryTree(categoryTree).map((c) => c.depth));
 
-    const incomeCategories = categoryData
-        .filter((c) => c.type === 'income')
-        .map((c) => ({
-            name: c.categoryName || 'Uncategorized',
-            value: c.total,
-            color: c.categoryColor || '#6B7280',
-            icon: c.categoryIcon || '📁',
-        }));
+    const renderDrillPath = (type: BreakdownType) => {
+        const parentId = drill[type];
+        if (!parentId) return null;
+        return (
+            <div className="flex flex-wrap items-center gap-1 text-sm mb-2">
+                <button onClick={() => setDrill({ ...drill, [type]: null })} className="text-blue-400 hover:text-blue-300">
+                    All
+                </button>
+                {getCategoryPath(categories, parentId).map((id) => {
+                    const category = categories.find((c) => c.id === id);
+                    return (
+                        <span key={id} className="flex items-center gap-1">
+                            <span className="text-gray-600">›</span>
+                            {id === parentId ? (
+                                <span className="text-white">{category?.icon} {category?.name}</span>
+                            ) : (
+                                <button onClick={() => setDrill({ ...drill, [type]: id })} className="text-blue-400 hover:text-blue-300">
+                                    {category?.icon} {category?.name}
+                                </button>
+                            )}
+                        </span>
+                    );
+                })}
+            </div>
+        );
+    };
 
     if (isLoading) {
         return (
@@ -194,6 +233,24 @@ export default function ReportsPage() {
                         />
                     </div>
                 )}
+
+                {/* Category depth for the breakdowns */}
+                {maxDepth > 0 && (
+                    <select
+                        value={categoryLevel.toString()}
+                        onChange={(e) => {
+                            setCategoryLevel(e.target.value === 'all' ? 'all' : parseInt(e.target.value));
+                            setDrill({ expense: null, income: null });
+                        }}
+                        className="bg-gray-800 border border-gray-700 text-white px-4 py-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium"
+                    >
+                        <option value="0">Top-level categories</option>
+                        {Array.from({ length: maxDepth - 1 }, (_, i) => (
+                            <option key={i + 1} value={(i + 1).toString()}>Down to level {i + 2}</option>
+                        ))}
+                        <option value="all">All subcategories</option>
+                    </select>
+                )}
             </div>
 
             {/* Summary Cards */}
@@ -241,10 +298,11 @@ export default function ReportsPage() {
                     {/* Expense Breakdown */}
                     <div className="p-6 glass-card rounded-2xl">
                         <h2 className="text-lg font-semibold text-white mb-4">Expense Breakdown</h2>
+                        {renderDrillPath('expense')}
                         {expenseCategories.length > 0 ? (
                             <>
-                                <ExpensePieChart data={expenseCategories} />
-                                <CategoryLegend data={expenseCategories} />
+                                <ExpensePieChart data={expenseCategories} onSelect={(item) => setDrill({ ...drill, expense: item.id })} />
+                                <CategoryLegend data={expenseCategories} onSelect={(item) => setDrill({ ...drill, expense: item.id })} />
                             </>
                         ) : (
                             <div className="h-64 flex items-center justify-center text-gray-500">
@@ -256,10 +314,11 @@ export default function ReportsPage() {
                     {/* Income Breakdown */}
                     <div className="p-6 glass-card rounded-2xl">
                         <h2 className="text-lg font-semibold text-white mb-4">Income Breakdown</h2>
+                        {renderDrillPath('income')}
                         {incomeCategories.length > 0 ? (
                             <>
-                                <ExpensePieChart data={incomeCategories} />
-                                <CategoryLegend data={incomeCategories} />
+                                <ExpensePieChart data={incomeCategories} onSelect={(item) => setDrill({ ...drill, income: item.id })} />
+                                <CategoryLegend data={incomeCategories} onSelect={(item) => setDrill({ ...drill, income: item.id })} />
                             </>
                         ) : (
                             <div className="h-64 flex items-center justify-center text-gray-500">
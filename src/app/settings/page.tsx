@@ -1,30 +1,83 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Settings, Plus, Trash2, Edit2, Tag, Database, Globe, User, ArrowUp, ArrowDown, Save } from 'lucide-react';
+import { Settings, Plus, Trash2, Edit2, Tag, Database, Globe, User, ArrowUp, ArrowDown, Save, Wallet, Landmark, Smartphone, Banknote, CreditCard, Wand2, Store, Tags } from 'lucide-react';
 import { PageHeader } from '@/components/Navigation';
-import { CURRENCIES } from '@/lib/currency';
+import { CategorizationRules } from '@/components/CategorizationRules';
+import { MerchantDirectory } from '@/components/MerchantDirectory';
+import { TagManager } from '@/components/TagManager';
+import { CategoryTreeEditor } from '@/components/CategoryTreeEditor';
+import { CURRENCIES, formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCategories } from '@/contexts/CategoriesContext';
+import { flattenCategoryTree, wouldCreateCycle } from '@/lib/category-tree';
 
 interface Category {
     id: string;
     name: string;
     type: 'income' | 'expense';
+    parentId: string | null;
     icon: string;
     color: string;
 }
 
+const emptyCategoryForm = {
+    name: '',
+    type: 'expense' as 'income' | 'expense',
+    parentId: '',
+    icon: '📁',
+    color: '#6366F1',
+};
+
+type AccountType = 'bank' | 'ewallet' | 'cash' | 'credit_card';
+
+interface Account {
+    id: string;
+    name: string;
+    type: AccountType;
+    currency: string | null;
+    openingBalance: number;
+    openingDate: string | null;
+    color: string | null;
+    isArchived: boolean | null;
+    balance: number;
+    transactionCount: number;
+}
+
+const accountTypes: { value: AccountType; label: string; icon: typeof Wallet }[] = [
+    { value: 'bank', label: 'Bank', icon: Landmark },
+    { value: 'ewallet', label: 'E-Wallet', icon: Smartphone },
+    { value: 'cash', label: 'Cash', icon: Banknote },
+    { value: 'credit_card', label: 'Credit Card', icon: CreditCard },
+];
+
+const emptyAccountForm = {
+    name: '',
+    type: 'bank' as AccountType,
+    currency: 'IDR',
+    openingBalance: '0',
+    openingDate: '',
+    color: '#3B82F6',
+    isArchived: false,
+};
+
 export default function SettingsPage() {
     const { user, signOut } = useAuth();
-    const { categories, refreshCategories } = useCategories();
+    const { categories, categoryTree, refreshCategories, moveCategory } = useCategories();
     // const [categories, setCategories] = useState<Category[]>([]); // Removed local state
     // const [isLoading, setIsLoading] = useState(true); // Removed local state
-    const [activeTab, setActiveTab] = useState<'categories' | 'preferences' | 'account'>('categories');
+    const [activeTab, setActiveTab] = useState<'categories' | 'rules' | 'merchants' | 'tags' | 'wallets' | 'preferences' | 'account'>('categories');
     const [showModal, setShowModal] = useState(false);
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
 
+    // Wallets tab state
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [showAccountModal, setShowAccountModal] = useState(false);
+    const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+    const [accountForm, setAccountForm] = useState(emptyAccountForm);
+    const [accountError, setAccountError] = useState('');
+
     // Account tab state
     const [currentPassword, setCurrentPassword] = useState('');
     const [newPassword, setNewPassword] = useState('');
@@ -33,6 +86,7 @@ export default function SettingsPage() {
     const [success, setSuccess] = useState('');
     const [loading, setLoading] = useState(false);
     const [hasData, setHasData] = useState(false);
+    const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
 
     // Currency preferences state
     type FallbackMethod = 'api' | 'llm' | 'custom';
@@ -42,12 +96,8 @@ export default function SettingsPage() {
     const [currencyLoading, setCurrencyLoading] = useState(false);
     const [currencySaved, setCurrencySaved] = useState(false);
 
-    const [formData, setFormData] = useState({
-        name: '',
-        type: 'expense' as 'income' | 'expense',
-        icon: '📁',
-        color: '#6366F1',
-    });
+    const [formData, setFormData] = useState(emptyCategoryForm);
+    const [categoryError, setCategoryError] = useState('');
 
     // Common emojis for categories
     const emojiOptions = [
@@ -113,6 +163,35 @@ export default function SettingsPage() {
         }
     };
 
+    const handleRestore = async (file: File) => {
+        if (restoreMode === 'replace' && !confirm('Replace ALL your current data with this backup? This cannot be undone.')) {
+            return;
+        }
+
+        setError('');
+        setSuccess('');
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/restore?mode=${restoreMode}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: await file.text(),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to restore backup');
+            }
+
+            const { transactions, receipts, accounts } = data.data.restored;
+            setSuccess(`Restored ${transactions} transactions, ${receipts} receipts and ${accounts} accounts`);
+            checkHasData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to restore backup');
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const fetchCurrencyPreferences = async () => {
         try {
             const res = await fetch('/api/settings/currency');
@@ -223,6 +302,79 @@ export default function SettingsPage() {
         }
     };
 
+    const fetchAccounts = async () => {
+        try {
+            const res = await fetch('/api/accounts');
+            const data = await res.json();
+            setAccounts(data.data || []);
+        } catch (error) {
+            console.error('Failed to fetch accounts:', error);
+        }
+    };
+
+    // Load accounts when switching to Wallets tab (the Rules tab lists them as conditions)
+    useEffect(() => {
+        if (activeTab === 'wallets' || activeTab === 'rules') {
+            fetchAccounts();
+        }
+    }, [activeTab]);
+
+    const openAccountModal = (account?: Account) => {
+        setEditingAccount(account || null);
+        setAccountError('');
+        setAccountForm(account ? {
+            name: account.name,
+            type: account.type,
+            currency: account.currency || 'IDR',
+            openingBalance: account.openingBalance.toString(),
+            openingDate: account.openingDate || '',
+            color: account.color || '#3B82F6',
+            isArchived: !!account.isArchived,
+        } : emptyAccountForm);
+        setShowAccountModal(true);
+    };
+
+    const handleAccountSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setAccountError('');
+
+        try {
+            const response = await fetch('/api/accounts', {
+                method: editingAccount ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(editingAccount && { id: editingAccount.id }),
+                    ...accountForm,
+                    openingBalance: parseFloat(accountForm.openingBalance) || 0,
+                    openingDate: accountForm.openingDate || null,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                setAccountError(data.error || 'Failed to save account');
+                return;
+            }
+
+            setShowAccountModal(false);
+            setEditingAccount(null);
+            fetchAccounts();
+        } catch (error) {
+            console.error('Failed to save account:', error);
+        }
+    };
+
+    const handleAccountDelete = async (id: string) => {
+        if (!confirm('Delete this account? Its transactions will be kept but unlinked.')) return;
+
+        try {
+            await fetch(`/api/accounts?id=${id}`, { method: 'DELETE' });
+            fetchAccounts();
+        } catch (error) {
+            console.error('Failed to delete account:', error);
+        }
+    };
+
     // Load currency preferences when switching to Currency tab
     useEffect(() => {
         if (activeTab === 'preferences') {
@@ -240,6 +392,7 @@ export default function SettingsPage() {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        setCategoryError('');
 
         try {
             const method = editingCategory ? 'PUT' : 'POST';
@@ -252,19 +405,23 @@ export default function SettingsPage() {
                 }),
             });
 
-            if (response.ok) {
-                setShowModal(false);
-                setEditingCategory(null);
-                setFormData({ name: '', type: 'expense', icon: '📁', color: '#6366F1' });
-                refreshCategories();
+            if (!response.ok) {
+                const data = await response.json();
+                setCategoryError(data.error || 'Failed to save category');
+                return;
             }
+
+            setShowModal(false);
+            setEditingCategory(null);
+            setFormData(emptyCategoryForm);
+            refreshCategories();
         } catch (error) {
             console.error('Failed to save category:', error);
         }
     };
 
     const handleDelete = async (id: string) => {
-        if (!confirm('Delete this category? Transactions using it will become uncategorized.')) return;
+        if (!confirm('Delete this category? Transactions using it will become uncategorized and its subcategories move up a level.')) return;
 
         try {
             await fetch(`/api/categories?id=${id}`, { method: 'DELETE' });
@@ -276,23 +433,45 @@ export default function SettingsPage() {
 
     const openEditModal = (category: Category) => {
         setEditingCategory(category);
+        setCategoryError('');
         setFormData({
             name: category.name,
             type: category.type,
+            parentId: category.parentId || '',
             icon: category.icon,
             color: category.color,
         });
         setShowModal(true);
     };
 
+    const openNewCategoryModal = (parent?: Category) => {
+        setEditingCategory(null);
+        setCategoryError('');
+        setFormData(parent ? { ...emptyCategoryForm, type: parent.type, parentId: parent.id } : emptyCategoryForm);
+        setShowModal(true);
+    };
+
+    const handleMove = async (id: string, parentId: string | null) => {
+        try {
+            await moveCategory(id, parentId);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to move category');
+        }
+    };
+
     const expenseCategories = categories.filter((c) => c.type === 'expense');
     const incomeCategories = categories.filter((c) => c.type === 'income');
 
+    // Parent options: same type, and not the edited category or anything below it
+    const parentOptions = flattenCategoryTree(categoryTree).filter((c) =>
+        c.type === formData.type && !(editingCategory && wouldCreateCycle(categories, editingCategory.id, c.id))
+    );
+
     return (
         <div className="space-y-6">
             <PageHeader
                 title="Settings"
-                subtitle="Manage categories and preferences"
+                subtitle="Manage categories, rules, accounts and preferences"
             />
 
             {/* Tabs */}
@@ -307,6 +486,46 @@ export default function SettingsPage() {
                     <Tag className="w-4 h-4 mr-2 flex-shrink-0" />
                     Categories
                 </button>
+                <button
+                    onClick={() => setActiveTab('rules')}
+                    className={cn(
+                        'flex-1 sm:flex-none px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap text-sm sm:text-base flex items-center justify-center min-w-[110px]',
+                        activeTab === 'rules' ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-gray-300'
+                    )}
+                >
+                    <Wand2 className="w-4 h-4 mr-2 flex-shrink-0" />
+                    Rules
+                </button>
+                <button
+                    onClick={() => setActiveTab('merchants')}
+                    className={cn(
+                        'flex-1 sm:flex-none px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap text-sm sm:text-base flex items-center justify-center min-w-[110px]',
+                        activeTab === 'merchants' ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-gray-300'
+                    )}
+                >
+                    <Store className="w-4 h-4 mr-2 flex-shrink-0" />
+                    Merchants
+                </button>
+                <button
+                    onClick={() => setActiveTab('tags')}
+                    className={cn(
+                        'flex-1 sm:flex-none px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap text-sm sm:text-base flex items-center justify-center min-w-[110px]',
+                        activeTab === 'tags' ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-gray-300'
+                    )}
+                >
+                    <Tags className="w-4 h-4 mr-2 flex-shrink-0" />
+                    Tags
+                </button>
+                <button
+                    onClick={() => setActiveTab('wallets')}
+                    className={cn(
+                        'flex-1 sm:flex-none px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap text-sm sm:text-base flex items-center justify-center min-w-[110px]',
+                        activeTab === 'wallets' ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-gray-300'
+                    )}
+                >
+                    <Wallet className="w-4 h-4 mr-2 flex-shrink-0" />
+                    Wallets
+                </button>
                 <button
                     onClick={() => setActiveTab('preferences')}
                     className={cn(
@@ -333,85 +552,109 @@ export default function SettingsPage() {
                 <div className="space-y-6">
                     {/* Add Category Button */}
                     <button
-                        onClick={() => {
-                            setEditingCategory(null);
-                            setFormData({ name: '', type: 'expense', icon: '📁', color: '#6366F1' });
-                            setShowModal(true);
-                        }}
+                        onClick={() => openNewCategoryModal()}
                         className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
                     >
                         <Plus className="w-5 h-5" />
                         Add Category
                     </button>
 
-                    {/* Expense Categories */}
-                    <div className="glass-card rounded-2xl p-6">
-                        <h2 className="text-lg font-semibold text-white mb-4">Expense Categories</h2>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-                            {expenseCategories.map((cat) => (
-                                <div
-                                    key={cat.id}
-                                    className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl group relative overflow-hidden"
-                                >
-                                    <div
-                                        className="w-10 h-10 rounded-lg flex items-center justify-center text-xl flex-shrink-0"
-                                        style={{ backgroundColor: `${cat.color}20` }}
-                                    >
-                                        {cat.icon}
-                                    </div>
-                                    <span className="flex-1 text-sm text-white truncate min-w-0">{cat.name}</span>
-                                    <div className="opacity-100 sm:opacity-0 group-hover:opacity-100 flex gap-1 transition-opacity bg-gray-800/80 sm:bg-transparent rounded-lg p-1 sm:p-0 absolute right-2 sm:static backdrop-blur-sm sm:backdrop-blur-none border border-gray-700 sm:border-none shadow-lg sm:shadow-none">
-                                        <button
-                                            onClick={() => openEditModal(cat)}
-                                            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
-                                        >
-                                            <Edit2 className="w-3.5 h-3.5" />
-                                        </button>
-                                        <button
-                                            onClick={() => handleDelete(cat.id)}
-                                            className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
-                                        >
-                                            <Trash2 className="w-3.5 h-3.5" />
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
+                    <CategoryTreeEditor
+                        title="Expense Categories"
+                        nodes={categoryTree.filter((c) => c.type === 'expense')}
+                        categories={expenseCategories}
+                        onEdit={openEditModal}
+                        onDelete={handleDelete}
+                        onAddChild={openNewCategoryModal}
+                        onMove={handleMove}
+                    />
+
+                    <CategoryTreeEditor
+                        title="Income Categories"
+                        nodes={categoryTree.filter((c) => c.type === 'income')}
+                        categories={incomeCategories}
+                        onEdit={openEditModal}
+                        onDelete={handleDelete}
+                        onAddChild={openNewCategoryModal}
+                        onMove={handleMove}
+                    />
+                </div>
+            )}
+
+            {activeTab === 'rules' && (
+                <CategorizationRules categories={categories} accounts={accounts} />
+            )}
+
+            {activeTab === 'merchants' && (
+                <MerchantDirectory categories={categories} />
+            )}
+
+            {activeTab === 'tags' && <TagManager />}
+
+            {activeTab === 'wallets' && (
+                <div className="space-y-6">
+                    <button
+                        onClick={() => openAccountModal()}
+                        className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                    >
+                        <Plus className="w-5 h-5" />
+                        Add Account
+                    </button>
 
-                    {/* Income Categories */}
                     <div className="glass-card rounded-2xl p-6">
-                        <h2 className="text-lg font-semibold text-white mb-4">Income Categories</h2>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-                            {incomeCategories.map((cat) => (
-                                <div
-                                    key={cat.id}
-                                    className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl group relative overflow-hidden"
-                                >
-                                    <div
-                                        className="w-10 h-10 rounded-lg flex items-center justify-center text-xl flex-shrink-0"
-                                        style={{ backgroundColor: `${cat.color}20` }}
-                                    >
-                                        {cat.icon}
-                                    </div>
-                                    <span className="flex-1 text-sm text-white truncate min-w-0">{cat.name}</span>
-                                    <div className="opacity-100 sm:opacity-0 group-hover:opacity-100 flex gap-1 transition-opacity bg-gray-800/80 sm:bg-transparent rounded-lg p-1 sm:p-0 absolute right-2 sm:static backdrop-blur-sm sm:backdrop-blur-none border border-gray-700 sm:border-none shadow-lg sm:shadow-none">
-                                        <button
-                                            onClick={() => openEditModal(cat)}
-                                            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                        <h2 className="text-lg font-semibold text-white mb-4">Accounts & Wallets</h2>
+                        {accounts.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                No accounts yet. Add your bank accounts, e-wallets and cash to track balances per source of funds.
+                            </p>
+                        ) : (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                                {accounts.map((account) => {
+                                    const Icon = accountTypes.find((t) => t.value === account.type)?.icon || Wallet;
+                                    const color = account.color || '#6B7280';
+                                    return (
+                                        <div
+                                            key={account.id}
+                                            className={cn(
+                                                'flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl group relative overflow-hidden',
+                                                account.isArchived && 'opacity-50'
+                                            )}
                                         >
-                                            <Edit2 className="w-3.5 h-3.5" />
-                                        </button>
-                                        <button
-                                            onClick={() => handleDelete(cat.id)}
-                                            className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
-                                        >
-                                            <Trash2 className="w-3.5 h-3.5" />
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
+                                            <div
+                                                className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
+                                                style={{ backgroundColor: `${color}20` }}
+                                            >
+                                                <Icon className="w-5 h-5" style={{ color }} />
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm text-white truncate">
+                                                    {account.name}
+                                                    {account.isArchived && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+                                                </p>
+                                                <p className={cn('text-sm font-medium', account.balance < 0 ? 'text-red-400' : 'text-gray-300')}>
+                                                    {formatCurrency(account.balance, account.currency || 'IDR')}
+                                                </p>
+                                                <p className="text-xs text-gray-500">{account.transactionCount} transactions</p>
+                                            </div>
+                                            <div className="opacity-100 sm:opacity-0 group-hover:opacity-100 flex gap-1 transition-opacity bg-gray-800/80 sm:bg-transparent rounded-lg p-1 sm:p-0 absolute right-2 sm:static backdrop-blur-sm sm:backdrop-blur-none border border-gray-700 sm:border-none shadow-lg sm:shadow-none">
+                                                <button
+                                                    onClick={() => openAccountModal(account)}
+                                                    className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                                                >
+                                                    <Edit2 className="w-3.5 h-3.5" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleAccountDelete(account.id)}
+                                                    className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
+                                                >
+                                                    <Trash2 className="w-3.5 h-3.5" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -730,6 +973,65 @@ export default function SettingsPage() {
                             </form>
                         </div>
 
+                        {/* Backup & Restore */}
+                        <div className="glass-card rounded-2xl p-6">
+                            <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                                <Database className="w-5 h-5 text-blue-400" />
+                                Backup & Restore
+                            </h2>
+
+                            <div className="space-y-4">
+                                <div className="flex items-start justify-between pb-4 border-b border-gray-800">
+                                    <div className="flex-1">
+                                        <h3 className="font-medium text-white mb-1">Download Backup</h3>
+                                        <p className="text-sm text-gray-400">
+                                            One file with your categories, wallets, transactions, receipts (with images), budgets and recurring rules.
+                                        </p>
+                                    </div>
+                                    <a
+                                        href="/api/backup"
+                                        className="ml-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition whitespace-nowrap"
+                                    >
+                                        Download
+                                    </a>
+                                </div>
+
+                                <div className="flex items-start justify-between">
+                                    <div className="flex-1">
+                                        <h3 className="font-medium text-white mb-1">Restore Backup</h3>
+                                        <p className="text-sm text-gray-400 mb-3">
+                                            Add a backup to your current data, or replace everything with it.
+                                        </p>
+                                        <select
+                                            value={restoreMode}
+                                            onChange={(e) => setRestoreMode(e.target.value as 'merge' | 'replace')}
+                                            className="px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white"
+                                            disabled={loading}
+                                        >
+                                            <option value="merge">Add to current data</option>
+                                            <option value="replace">Replace current data</option>
+                                        </select>
+                                    </div>
+                                    <label className={cn(
+                                        "ml-4 px-4 py-2 bg-gray-800 text-gray-200 rounded-lg hover:bg-gray-700 transition whitespace-nowrap cursor-pointer",
+                                        loading && "opacity-50 pointer-events-none"
+                                    )}>
+                                        {loading ? 'Restoring...' : 'Choose File'}
+                                        <input
+                                            type="file"
+                                            accept=".json,application/json"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                                const file = e.target.files?.[0];
+                                                e.target.value = '';
+                                                if (file) handleRestore(file);
+                                            }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+                        </div>
+
                         {/* Danger Zone */}
                         <div className="glass-card rounded-2xl p-6 border-red-900/30">
                             <h2 className="text-lg font-semibold text-red-400 mb-4">Danger Zone</h2>
@@ -833,6 +1135,144 @@ export default function SettingsPage() {
                 )
             }
 
+            {/* Account Modal */}
+            {
+                showAccountModal && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+                        <div className="w-full max-w-md bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6">
+                            <h2 className="text-xl font-bold text-white mb-6">
+                                {editingAccount ? 'Edit Account' : 'New Account'}
+                            </h2>
+
+                            {accountError && (
+                                <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                    <p className="text-red-400 text-sm">{accountError}</p>
+                                </div>
+                            )}
+
+                            <form onSubmit={handleAccountSubmit} className="space-y-4">
+                                {/* Type */}
+                                <div className="grid grid-cols-4 gap-2 p-1 bg-gray-800/50 rounded-xl">
+                                    {accountTypes.map(({ value, label, icon: Icon }) => (
+                                        <button
+                                            key={value}
+                                            type="button"
+                                            onClick={() => setAccountForm({ ...accountForm, type: value })}
+                                            className={cn(
+                                                'flex flex-col items-center gap-1 py-2 rounded-lg text-xs font-medium',
+                                                accountForm.type === value ? 'bg-blue-500 text-white' : 'text-gray-400'
+                                            )}
+                                        >
+                                            <Icon className="w-4 h-4" />
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+
+                                {/* Name */}
+                                <input
+                                    type="text"
+                                    value={accountForm.name}
+                                    onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                                    placeholder="Account name (e.g. BCA, GoPay, Cash)"
+                                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    required
+                                />
+
+                                {/* Currency & Opening Balance */}
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div className="space-y-2">
+                                        <label className="text-sm text-gray-400">Currency</label>
+                                        <select
+                                            value={accountForm.currency}
+                                            onChange={(e) => setAccountForm({ ...accountForm, currency: e.target.value })}
+                                            className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                        >
+                                            {Object.keys(CURRENCIES).map((code) => (
+                                                <option key={code} value={code}>{code}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="col-span-2 space-y-2">
+                                        <label className="text-sm text-gray-400">Opening Balance</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={accountForm.openingBalance}
+                                            onChange={(e) => setAccountForm({ ...accountForm, openingBalance: e.target.value })}
+                                            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Opening Date */}
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Opening Date (optional)</label>
+                                    <input
+                                        type="date"
+                                        value={accountForm.openingDate}
+                                        onChange={(e) => setAccountForm({ ...accountForm, openingDate: e.target.value })}
+                                        className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    />
+                                    <p className="text-xs text-gray-500">Transactions before this date are not counted in the balance.</p>
+                                </div>
+
+                                {/* Color Selector */}
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Color</label>
+                                    <div className="grid grid-cols-10 gap-2">
+                                        {colorOptions.map((color) => (
+                                            <button
+                                                key={color}
+                                                type="button"
+                                                onClick={() => setAccountForm({ ...accountForm, color })}
+                                                className={cn(
+                                                    'w-8 h-8 rounded-lg transition-all',
+                                                    accountForm.color === color && 'ring-2 ring-white ring-offset-2 ring-offset-gray-900'
+                                                )}
+                                                style={{ backgroundColor: color }}
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {editingAccount && (
+                                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={accountForm.isArchived}
+                                            onChange={(e) => setAccountForm({ ...accountForm, isArchived: e.target.checked })}
+                                            className="rounded"
+                                        />
+                                        Archived (hide from dashboard and transaction form)
+                                    </label>
+                                )}
+
+                                {/* Actions */}
+                                <div className="flex gap-3 pt-4">
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            setShowAccountModal(false);
+                                            setEditingAccount(null);
+                                        }}
+                                        className="flex-1 py-3 border border-gray-700 rounded-xl text-gray-300"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                                    >
+                                        {editingAccount ? 'Update' : 'Create'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                )
+            }
+
             {/* Category Modal */}
             {
                 showModal && (
@@ -842,12 +1282,18 @@ export default function SettingsPage() {
                                 {editingCategory ? 'Edit Category' : 'New Category'}
                             </h2>
 
+                            {categoryError && (
+                                <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                    <p className="text-red-400 text-sm">{categoryError}</p>
+                                </div>
+                            )}
+
                             <form onSubmit={handleSubmit} className="space-y-4">
                                 {/* Type Toggle */}
                                 <div className="flex gap-2 p-1 bg-gray-800/50 rounded-xl">
                                     <button
                                         type="button"
-                                        onClick={() => setFormData({ ...formData, type: 'expense' })}
+                                        onClick={() => setFormData({ ...formData, type: 'expense', parentId: '' })}
                                         className={cn(
                                             'flex-1 py-2 rounded-lg font-medium',
                                             formData.type === 'expense' ? 'bg-red-500 text-white' : 'text-gray-400'
@@ -857,7 +1303,7 @@ export default function SettingsPage() {
                                     </button>
                                     <button
                                         type="button"
-                                        onClick={() => setFormData({ ...formData, type: 'income' })}
+                                        onClick={() => setFormData({ ...formData, type: 'income', parentId: '' })}
                                         className={cn(
                                             'flex-1 py-2 rounded-lg font-medium',
                                             formData.type === 'income' ? 'bg-green-500 text-white' : 'text-gray-400'
@@ -877,6 +1323,23 @@ export default function SettingsPage() {
                                     required
                                 />
 
+                                {/* Parent */}
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Parent category</label>
+                                    <select
+                                        value={formData.parentId}
+                                        onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="">None (top level)</option>
+                                        {parentOptions.map((c) => (
+                                            <option key={c.id} value={c.id}>
+                                                {'\u00A0\u00A0'.repeat(c.depth)}{c.icon} {c.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
                                 {/* Icon Selector */}
                                 <div className="space-y-2">
                                     <label className="text-sm text-gray-400">Icon</label>
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, Copy, Check, Loader2, RefreshCw, Image as ImageIcon } from 'lucide-react';
+import { PageHeader, EmptyState } from '@/components/Navigation';
+import { formatCurrency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface DuplicateTransaction {
+    id: string;
+    type: 'income' | 'expense';
+    amount: number;
+    currency: string | null;
+    amountInBase: number | null;
+    description: string | null;
+    date: string;
+    receiptId: string | null;
+    externalId: string | null;
+    createdAt: string | null;
+    category: { id: string; name: string; icon: string; color: string } | null;
+    accountName: string | null;
+}
+
+interface DuplicatePair {
+    id: string;
+    score: number;
+    transactions: [DuplicateTransaction, DuplicateTransaction];
+}
+
+export default function DuplicateTransactionsPage() {
+    const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isScanning, setIsScanning] = useState(false);
+    const [busyPairId, setBusyPairId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchPairs();
+    }, []);
+
+    const fetchPairs = async (scan = false) => {
+        if (scan) setIsScanning(true);
+        try {
+            const res = await fetch(`/api/transactions/duplicates${scan ? '?scan=true' : ''}`);
+            const data = await res.json();
+            setPairs(data.data || []);
+        } catch (error) {
+            console.error('Failed to fetch duplicates:', error);
+        } finally {
+            setIsLoading(false);
+            setIsScanning(false);
+        }
+    };
+
+    // Merging removes the other transaction, which may drop other pairs too
+    const handleKeep = async (pair: DuplicatePair, keep: DuplicateTransaction) => {
+        const remove = pair.transactions.find(t => t.id !== keep.id)!;
+        setBusyPairId(pair.id);
+        try {
+            const res = await fetch('/api/transactions/duplicates/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keepId: keep.id, removeId: remove.id }),
+            });
+            if (!res.ok) {
+                const errorData = await res.json();
+                throw new Error(errorData.error || 'Failed to merge transactions');
+            }
+            setPairs(prev => prev.filter(p => !p.transactions.some(t => t.id === remove.id)));
+        } catch (error) {
+            console.error('Failed to merge transactions:', error);
+            alert(error instanceof Error ? error.message : 'Failed to merge transactions');
+        } finally {
+            setBusyPairId(null);
+        }
+    };
+
+    const handleDismiss = async (pair: DuplicatePair) => {
+        setBusyPairId(pair.id);
+        try {
+            const res = await fetch(`/api/transactions/duplicates?id=${pair.id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setPairs(prev => prev.filter(p => p.id !== pair.id));
+            }
+        } catch (error) {
+            console.error('Failed to dismiss duplicate:', error);
+        } finally {
+            setBusyPairId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="space-y-6">
+                <div className="h-10 w-48 skeleton rounded-lg" />
+                {[...Array(3)].map((_, i) => (
+                    <div key={i} className="h-40 skeleton rounded-2xl" />
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <PageHeader
+                title="Duplicate Transactions"
+                subtitle={`${pairs.length} pair${pairs.length === 1 ? '' : 's'} to review`}
+                action={
+                    <div className="flex gap-2">
+                        <Link
+                            href="/transactions"
+                            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-xl text-sm font-medium transition-colors"
+                        >
+                            <ArrowLeft className="w-4 h-4" />
+                            Transactions
+                        </Link>
+                        <button
+                            onClick={() => fetchPairs(true)}
+                            disabled={isScanning}
+                            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 rounded-xl text-sm font-medium transition-colors"
+                        >
+                            <RefreshCw className={cn('w-4 h-4', isScanning && 'animate-spin')} />
+                            Scan All
+                        </button>
+                    </div>
+                }
+            />
+
+            {pairs.length === 0 ? (
+                <EmptyState
+                    icon={<Check className="w-8 h-8 text-green-400" />}
+                    title="No duplicates to review"
+                    description="New transactions are checked automatically. Use Scan All to check your whole history."
+                />
+            ) : (
+                <div className="space-y-4">
+                    {pairs.map(pair => (
+                        <div key={pair.id} className="glass-card rounded-2xl p-4 space-y-4">
+                            <div className="flex items-center justify-between">
+                                <span className="flex items-center gap-2 text-sm text-amber-400">
+                                    <Copy className="w-4 h-4" />
+                                    {Math.round(pair.score * 100)}% match
+                                </span>
+                                <button
+                                    onClick={() => handleDismiss(pair)}
+                                    disabled={busyPairId === pair.id}
+                                    className="px-3 py-1.5 text-sm text-gray-400 hover:text-white hover:bg-gray-700/50 rounded-lg transition-colors"
+                                >
+                                    Not a duplicate
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {pair.transactions.map(t => (
+                                    <div key={t.id} className="bg-gray-800/40 rounded-xl p-4 flex flex-col gap-3">
+                                        <div className="flex items-start gap-3">
+                                            {t.receiptId ? (
+                                                <img
+                                                    src={`/api/receipts/${t.receiptId}/image?size=thumb`}
+                                                    alt=""
+                                                    className="w-12 h-16 object-cover rounded-md bg-gray-800 flex-shrink-0"
+                                                />
+                                            ) : (
+                                                <div className="w-12 h-16 rounded-md bg-gray-800 flex items-center justify-center flex-shrink-0">
+                                                    <ImageIcon className="w-5 h-5 text-gray-600" />
+                                                </div>
+                                            )}
+                                            <div className="min-w-0 flex-1">
+                                                <p className="font-medium text-white truncate">{t.description || 'No description'}</p>
+                                                <p className={cn('text-lg font-bold', t.type === 'income' ? 'text-green-400' : 'text-red-400')}>
+                                                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount, t.currency || 'IDR')}
+                                                </p>
+                                                <p className="text-xs text-gray-400">
+                                                    {format(new Date(t.date), 'EEE, MMM d, yyyy')}
+                                                    {t.category && ` · ${t.category.icon} ${t.category.name}`}
+                                                    {t.accountName && ` · ${t.accountName}`}
+                                                </p>
+                                                <p className="text-xs text-gray-500">
+                                                    {t.receiptId ? 'From a receipt' : t.externalId ? 'Imported from a statement' : 'Entered manually'}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={() => handleKeep(pair, t)}
+                                            disabled={busyPairId === pair.id}
+                                            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 disabled:opacity-50 text-blue-400 rounded-lg text-sm font-medium transition-colors"
+                                        >
+                                            {busyPairId === pair.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                            Keep this one
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { format } from 'date-fns';
 import {
     Plus,
@@ -17,24 +18,41 @@ import {
     Square,
     X,
     Zap, // Added Zap icon
+    ArrowLeftRight,
+    Upload,
+    Copy,
 } from 'lucide-react';
 import { PageHeader, EmptyState } from '@/components/Navigation';
 import { TransactionModal } from '@/components/TransactionForm';
 import { ReceiptEditModal } from '@/components/ReceiptEditModal';
 import { ReceiptViewModal } from '@/components/ReceiptViewModal';
+import { StatementImportModal } from '@/components/StatementImportModal';
 import { formatCurrency } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 
 interface Transaction {
     id: string;
-    type: 'income' | 'expense';
+    type: 'income' | 'expense' | 'transfer';
     amount: number;
     amountInBase: number | null;
     currency: string | null;
     description?: string;
     date: string;
     category?: Category | null;
+    accountId?: string | null;
+    toAccountId?: string | null;
+    toAmount?: number | null;
+    transferId?: string | null;
+    account?: Account | null;
+    toAccount?: Account | null;
     receiptId?: string | null;
+    tags?: TransactionTag[];
+}
+
+interface TransactionTag {
+    id: string;
+    name: string;
+    color: string | null;
 }
 
 interface Category {
@@ -45,11 +63,22 @@ interface Category {
     color: string;
 }
 
+interface Account {
+    id: string;
+    name: string;
+    currency: string | null;
+    isArchived?: boolean | null;
+}
+
 export default function TransactionsPage() {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [categories, setCategories] = useState<Category[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [tags, setTags] = useState<TransactionTag[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [showModal, setShowModal] = useState(false);
+    const [showImport, setShowImport] = useState(false);
+    const [showExportMenu, setShowExportMenu] = useState(false);
 
     const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
     const [editingReceiptId, setEditingReceiptId] = useState<string | null>(null);
@@ -62,10 +91,14 @@ export default function TransactionsPage() {
 
     // Filters
     const [searchQuery, setSearchQuery] = useState('');
-    const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+    const [filterType, setFilterType] = useState<'all' | 'income' | 'expense' | 'transfer'>('all');
     const [filterCategory, setFilterCategory] = useState<string>('');
+    const [filterTag, setFilterTag] = useState<string>('');
     const [dateRange, setDateRange] = useState({ start: '', end: '' });
 
+    // Likely duplicates found by the background check
+    const [duplicateCount, setDuplicateCount] = useState(0);
+
     useEffect(() => {
         fetchData();
     }, []);
@@ -73,23 +106,35 @@ export default function TransactionsPage() {
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const [transactionsRes, categoriesRes] = await Promise.all([
+            const [transactionsRes, categoriesRes, accountsRes, tagsRes] = await Promise.all([
                 fetch('/api/transactions?limit=200'),
                 fetch('/api/categories'),
+                fetch('/api/accounts'),
+                fetch('/api/tags'),
             ]);
 
-            const [transactionsData, categoriesData] = await Promise.all([
+            const [transactionsData, categoriesData, accountsData, tagsData] = await Promise.all([
                 transactionsRes.json(),
                 categoriesRes.json(),
+                accountsRes.json(),
+                tagsRes.json(),
             ]);
 
             setTransactions(transactionsData.data || []);
             setCategories(categoriesData.data || []);
+            setAccounts(accountsData.data || []);
+            setTags(tagsData.data || []);
         } catch (error) {
             console.error('Failed to fetch data:', error);
         } finally {
             setIsLoading(false);
         }
+
+        // Not awaited: the banner can appear after the list
+        fetch('/api/transactions/duplicates?summary=true')
+            .then(res => res.json())
+            .then(data => setDuplicateCount(data.data?.count || 0))
+            .catch(error => console.error('Failed to check duplicates:', error));
     };
 
     const handleSubmit = async (data: any) => {
@@ -99,15 +144,31 @@ export default function TransactionsPage() {
                 : '/api/transactions';
             const method = editingTransaction ? 'PUT' : 'POST';
 
-            const response = await fetch(url, {
-                method,
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    ...data,
-                    amount: parseFloat(data.amount),
-                    categoryId: data.categoryId || null,
-                }),
-            });
+            const response = data.type === 'transfer'
+                ? await fetch('/api/transfers', {
+                    method,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        ...(editingTransaction && { id: editingTransaction.id }),
+                        fromAccountId: data.accountId,
+                        toAccountId: data.toAccountId,
+                        amount: parseFloat(data.amount),
+                        toAmount: data.toAmount ? parseFloat(data.toAmount) : null,
+                        fee: data.fee ? parseFloat(data.fee) : 0,
+                        description: data.description || null,
+                        date: data.date,
+                    }),
+                })
+                : await fetch(url, {
+                    method,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        ...data,
+                        amount: parseFloat(data.amount),
+                        categoryId: data.categoryId || null,
+                        accountId: data.accountId || null,
+                    }),
+                });
 
             if (response.ok) {
                 setShowModal(false);
@@ -132,8 +193,11 @@ export default function TransactionsPage() {
         }
     };
 
-    const handleExport = async () => {
-        window.open('/api/reports?type=export&months=12', '_blank');
+    // CSV for spreadsheets, OFX/QIF for desktop finance tools (GnuCash, Moneydance),
+    // beancount/ledger for plain-text accounting
+    const handleExport = (exportFormat: 'csv' | 'ofx' | 'qif' | 'beancount' | 'ledger') => {
+        setShowExportMenu(false);
+        window.open(`/api/reports?type=export&months=12&format=${exportFormat}`, '_blank');
     };
 
     const toggleSelection = (id: string) => {
@@ -186,11 +250,13 @@ export default function TransactionsPage() {
     const filteredTransactions = transactions.filter((t) => {
         if (filterType !== 'all' && t.type !== filterType) return false;
         if (filterCategory && t.category?.id !== filterCategory) return false;
+        if (filterTag && !t.tags?.some(tag => tag.id === filterTag)) return false;
         if (searchQuery) {
             const query = searchQuery.toLowerCase();
             const matchesDescription = t.description?.toLowerCase().includes(query);
             const matchesCategory = t.category?.name.toLowerCase().includes(query);
-            if (!matchesDescription && !matchesCategory) return false;
+            const matchesTag = t.tags?.some(tag => tag.name.toLowerCase().includes(query));
+            if (!matchesDescription && !matchesCategory && !matchesTag) return false;
         }
         if (dateRange.start && t.date < dateRange.start) return false;
         if (dateRange.end && t.date > dateRange.end) return false;
@@ -261,12 +327,40 @@ export default function TransactionsPage() {
                         {!isSelectionMode && (
                             <>
                                 <button
-                                    onClick={handleExport}
+                                    onClick={() => setShowImport(true)}
                                     className="flex items-center gap-2 px-4 py-2 border border-gray-700 rounded-xl text-gray-300 hover:bg-gray-800 transition-colors"
                                 >
-                                    <Download className="w-4 h-4" />
-                                    Export
+                                    <Upload className="w-4 h-4" />
+                                    Import
                                 </button>
+                                <div className="relative">
+                                    <button
+                                        onClick={() => setShowExportMenu(!showExportMenu)}
+                                        className="flex items-center gap-2 px-4 py-2 border border-gray-700 rounded-xl text-gray-300 hover:bg-gray-800 transition-colors"
+                                    >
+                                        <Download className="w-4 h-4" />
+                                        Export
+                                    </button>
+                                    {showExportMenu && (
+                                        <div className="absolute right-0 mt-2 w-44 z-20 bg-gray-900 border border-gray-700 rounded-xl shadow-xl overflow-hidden">
+                                            {([
+                                                ['csv', 'CSV'],
+                                                ['ofx', 'OFX (GnuCash)'],
+                                                ['qif', 'QIF'],
+                                                ['beancount', 'Beancount'],
+                                                ['ledger', 'Ledger / hledger'],
+                                            ] as const).map(([value, label]) => (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => handleExport(value)}
+                                                    className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 transition-colors"
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
                                 <button
                                     onClick={() => {
                                         setEditingTransaction(null);
@@ -283,6 +377,24 @@ export default function TransactionsPage() {
                 }
             />
 
+            {/* Duplicate review banner */}
+            {duplicateCount > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <Copy className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                        <p className="text-sm text-gray-300">
+                            {duplicateCount} possible duplicate{duplicateCount > 1 ? 's' : ''} found, e.g. a scanned receipt that was also entered by hand.
+                        </p>
+                    </div>
+                    <Link
+                        href="/transactions/duplicates"
+                        className="px-4 py-2 bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 rounded-lg text-sm font-medium transition-colors flex-shrink-0"
+                    >
+                        Review
+                    </Link>
+                </div>
+            )}
+
             {/* Filters */}
             <div className="flex flex-col sm:flex-row gap-4 p-4 glass-card rounded-xl">
                 {/* Search */}
@@ -306,6 +418,7 @@ export default function TransactionsPage() {
                     <option value="all">All Types</option>
                     <option value="income">Income</option>
                     <option value="expense">Expense</option>
+                    <option value="transfer">Transfer</option>
                 </select>
 
                 {/* Category filter */}
@@ -321,6 +434,22 @@ export default function TransactionsPage() {
                         </option>
                     ))}
                 </select>
+
+                {/* Tag filter */}
+                {tags.length > 0 && (
+                    <select
+                        value={filterTag}
+                        onChange={(e) => setFilterTag(e.target.value)}
+                        className="px-4 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="">All Tags</option>
+                        {tags.map((tag) => (
+                            <option key={tag.id} value={tag.id}>
+                                #{tag.name}
+                            </option>
+                        ))}
+                    </select>
+                )}
             </div>
 
             {/* Transaction List */}
@@ -329,6 +458,7 @@ export default function TransactionsPage() {
                     {sortedDates.map((date) => {
                         const dayTransactions = groupedTransactions[date];
                         const dayTotal = dayTransactions.reduce((sum, t) => {
+                            if (t.type === 'transfer') return sum;
                             const amount = t.amountInBase || t.amount;
                             return t.type === 'income' ? sum + amount : sum - amount;
                         }, 0);
@@ -388,7 +518,9 @@ export default function TransactionsPage() {
                                                     className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center text-lg sm:text-xl flex-shrink-0 relative z-10"
                                                     style={{ backgroundColor: `${t.category?.color || '#6B7280'}20` }}
                                                 >
-                                                    {t.category?.icon || <Tag className="w-5 h-5 sm:w-6 sm:h-6" />}
+                                                    {t.type === 'transfer'
+                                                        ? <ArrowLeftRight className="w-5 h-5 sm:w-6 sm:h-6 text-blue-400" />
+                                                        : t.category?.icon || <Tag className="w-5 h-5 sm:w-6 sm:h-6" />}
                                                 </div>
                                                 {/* Hide overlay on mobile */}
                                                 {t.receiptId && (
@@ -407,7 +539,11 @@ export default function TransactionsPage() {
                                                 </div>
                                                 {/* Hide tags on mobile */}
                                                 <div className="hidden sm:flex flex-wrap gap-2">
-                                                    {t.category ? (
+                                                    {t.type === 'transfer' ? (
+                                                        <span className="text-[10px] sm:text-xs text-blue-400 px-2 py-0.5 rounded-md bg-blue-500/10 border border-blue-500/30 truncate">
+                                                            {t.account?.name || '?'} → {t.toAccount?.name || '?'}
+                                                        </span>
+                                                    ) : t.category ? (
                                                         <span
                                                             className="text-[10px] sm:text-xs px-2 py-0.5 rounded-md border truncate max-w-[120px]"
                                                             style={{
@@ -423,6 +559,15 @@ export default function TransactionsPage() {
                                                             Uncategorized
                                                         </span>
                                                     )}
+                                                    {t.tags?.map((tag) => (
+                                                        <span
+                                                            key={tag.id}
+                                                            className="text-[10px] sm:text-xs text-gray-300 px-2 py-0.5 rounded-md bg-gray-800 border border-gray-700 truncate max-w-[120px]"
+                                                            style={tag.color ? { color: tag.color, borderColor: `${tag.color}30` } : undefined}
+                                                        >
+                                                            #{tag.name}
+                                                        </span>
+                                                    ))}
                                                 </div>
                                             </div>
 
@@ -430,10 +575,10 @@ export default function TransactionsPage() {
                                                 <p
                                                     className={cn(
                                                         'font-bold text-sm sm:text-base whitespace-nowrap',
-                                                        t.type === 'income' ? 'text-green-500' : 'text-red-500'
+                                                        t.type === 'income' ? 'text-green-500' : t.type === 'transfer' ? 'text-blue-400' : 'text-red-500'
                                                     )}
                                                 >
-                                                    {t.type === 'income' ? '+' : '-'}
+                                                    {t.type === 'income' ? '+' : t.type === 'transfer' ? '' : '-'}
                                                     {formatCurrency(t.amount, t.currency || 'IDR')}
                                                 </p>
                                                 {t.currency && t.currency !== 'IDR' && t.amountInBase && (
@@ -472,12 +617,12 @@ export default function TransactionsPage() {
                 icon={<Filter className="w-8 h-8" />}
                 title="No transactions found"
                 description={
-                    searchQuery || filterType !== 'all' || filterCategory
+                    searchQuery || filterType !== 'all' || filterCategory || filterTag
                         ? 'Try adjusting your filters'
                         : 'Add your first transaction to get started'
                 }
                 action={
-                    !searchQuery && filterType === 'all' && !filterCategory ? (
+                    !searchQuery && filterType === 'all' && !filterCategory && !filterTag ? (
                         <button
                             onClick={() => setShowModal(true)}
                             className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-lg text-white"
@@ -504,15 +649,31 @@ export default function TransactionsPage() {
                     amount: editingTransaction.amount.toString(),
                     currency: editingTransaction.currency || 'IDR',
                     categoryId: editingTransaction.category?.id || '',
+                    accountId: editingTransaction.accountId || '',
+                    toAccountId: editingTransaction.toAccountId || '',
+                    toAmount: editingTransaction.toAmount?.toString() || '',
+                    fee: transactions.find((f) => f.transferId === editingTransaction.id)?.amount.toString() || '',
                     description: editingTransaction.description,
                     date: editingTransaction.date,
-                    receiptId: editingTransaction.receiptId || undefined
+                    receiptId: editingTransaction.receiptId || undefined,
+                    tagIds: editingTransaction.tags?.map((tag) => tag.id) || [],
                 } : undefined}
                 categories={categories}
+                accounts={accounts}
+                tags={tags}
                 onSubmit={handleSubmit}
                 isLoading={isLoading}
             />
 
+            {/* Bank Statement Import */}
+            <StatementImportModal
+                isOpen={showImport}
+                onClose={() => setShowImport(false)}
+                onImported={fetchData}
+                accounts={accounts}
+                categories={categories}
+            />
+
             {/* Receipt Edit Modal */}
             {
                 editingReceiptId && (
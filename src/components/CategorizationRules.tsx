@@ -0,0 +1,598 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Edit2, ArrowUp, ArrowDown, RefreshCw, Wand2 } from 'lucide-react';
+import { CURRENCIES, formatCurrency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface Category {
+    id: string;
+    name: string;
+    type: 'income' | 'expense';
+    icon: string;
+}
+
+interface Account {
+    id: string;
+    name: string;
+}
+
+interface Tag {
+    id: string;
+    name: string;
+}
+
+interface Rule {
+    id: string;
+    name: string;
+    priority: number;
+    enabled: boolean;
+    matchField: 'description' | 'merchant';
+    matchType: 'contains' | 'regex';
+    pattern: string | null;
+    minAmount: number | null;
+    maxAmount: number | null;
+    currency: string | null;
+    accountId: string | null;
+    transactionType: 'income' | 'expense' | null;
+    setCategoryId: string | null;
+    renameTo: string | null;
+    addTagId: string | null;
+}
+
+interface CategorizationRulesProps {
+    categories: Category[];
+    accounts: Account[];
+}
+
+const emptyRuleForm = {
+    name: '',
+    priority: '0',
+    enabled: true,
+    matchField: 'description' as Rule['matchField'],
+    matchType: 'contains' as Rule['matchType'],
+    pattern: '',
+    minAmount: '',
+    maxAmount: '',
+    currency: '',
+    accountId: '',
+    transactionType: '',
+    setCategoryId: '',
+    renameTo: '',
+    addTagId: '',
+};
+
+// Gap between priorities when rules are reordered, leaving room to slot one in by hand
+const PRIORITY_STEP = 10;
+
+// Rule body for PUT/POST from a listed rule (the API replaces the whole rule)
+const toBody = (rule: Rule) => ({
+    id: rule.id,
+    name: rule.name,
+    priority: rule.priority,
+    enabled: rule.enabled,
+    matchField: rule.matchField,
+    matchType: rule.matchType,
+    pattern: rule.pattern,
+    minAmount: rule.minAmount,
+    maxAmount: rule.maxAmount,
+    currency: rule.currency,
+    accountId: rule.accountId,
+    transactionType: rule.transactionType,
+    setCategoryId: rule.setCategoryId,
+    renameTo: rule.renameTo,
+    addTagId: rule.addTagId,
+});
+
+export function CategorizationRules({ categories, accounts }: CategorizationRulesProps) {
+    const [rules, setRules] = useState<Rule[]>([]);
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [showModal, setShowModal] = useState(false);
+    const [editingRule, setEditingRule] = useState<Rule | null>(null);
+    const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+    const [ruleError, setRuleError] = useState('');
+    const [overwrite, setOverwrite] = useState(false);
+    const [applying, setApplying] = useState(false);
+    const [applyMessage, setApplyMessage] = useState('');
+
+    const fetchRules = async () => {
+        try {
+            const res = await fetch('/api/categorization-rules');
+            const data = await res.json();
+            setRules(data.data || []);
+        } catch (error) {
+            console.error('Failed to fetch rules:', error);
+        }
+    };
+
+    const fetchTags = async () => {
+        try {
+            const res = await fetch('/api/tags');
+            const data = await res.json();
+            setTags(data.data || []);
+        } catch (error) {
+            console.error('Failed to fetch tags:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchRules();
+        fetchTags();
+    }, []);
+
+    const openRuleModal = (rule?: Rule) => {
+        setEditingRule(rule || null);
+        setRuleError('');
+        setRuleForm(rule ? {
+            name: rule.name,
+            priority: rule.priority.toString(),
+            enabled: rule.enabled,
+            matchField: rule.matchField,
+            matchType: rule.matchType,
+            pattern: rule.pattern || '',
+            minAmount: rule.minAmount?.toString() ?? '',
+            maxAmount: rule.maxAmount?.toString() ?? '',
+            currency: rule.currency || '',
+            accountId: rule.accountId || '',
+            transactionType: rule.transactionType || '',
+            setCategoryId: rule.setCategoryId || '',
+            renameTo: rule.renameTo || '',
+            addTagId: rule.addTagId || '',
+        } : {
+            ...emptyRuleForm,
+            // New rules go last
+            priority: (rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + PRIORITY_STEP : 0).toString(),
+        });
+        setShowModal(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setRuleError('');
+
+        const amount = (value: string) => value.trim() === '' ? null : parseFloat(value);
+        try {
+            const response = await fetch('/api/categorization-rules', {
+                method: editingRule ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(editingRule && { id: editingRule.id }),
+                    ...ruleForm,
+                    priority: parseInt(ruleForm.priority) || 0,
+                    minAmount: amount(ruleForm.minAmount),
+                    maxAmount: amount(ruleForm.maxAmount),
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                setRuleError(data.error || 'Failed to save rule');
+                return;
+            }
+
+            setShowModal(false);
+            setEditingRule(null);
+            fetchRules();
+        } catch (error) {
+            console.error('Failed to save rule:', error);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this rule? Transactions it already changed stay as they are.')) return;
+
+        try {
+            await fetch(`/api/categorization-rules?id=${id}`, { method: 'DELETE' });
+            fetchRules();
+        } catch (error) {
+            console.error('Failed to delete rule:', error);
+        }
+    };
+
+    const saveRules = async (changed: Rule[]) => {
+        try {
+            await Promise.all(changed.map(rule => fetch('/api/categorization-rules', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(toBody(rule)),
+            })));
+        } catch (error) {
+            console.error('Failed to save rules:', error);
+        } finally {
+            fetchRules();
+        }
+    };
+
+    const toggleRule = (rule: Rule) => {
+        setRules(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r));
+        saveRules([{ ...rule, enabled: !rule.enabled }]);
+    };
+
+    // Swap two rules, then renumber so every rule has its own priority
+    const moveRule = (index: number, direction: 'up' | 'down') => {
+        const newIndex = direction === 'up' ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= rules.length) return;
+
+        const reordered = [...rules];
+        [reordered[index], reordered[newIndex]] = [reordered[newIndex], reordered[index]];
+        const renumbered = reordered.map((rule, i) => ({ ...rule, priority: i * PRIORITY_STEP }));
+        setRules(renumbered);
+        saveRules(renumbered.filter(rule => rule.priority !== rules.find(r => r.id === rule.id)?.priority));
+    };
+
+    const handleApply = async () => {
+        setApplying(true);
+        setApplyMessage('');
+        try {
+            const res = await fetch('/api/categorization-rules/apply', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ overwrite }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to apply rules');
+            }
+            const { checked, categorized, renamed, tagged } = data.data;
+            setApplyMessage(`Checked ${checked} transactions: ${categorized} categorized, ${renamed} renamed, ${tagged} tagged`);
+        } catch (error) {
+            setApplyMessage(error instanceof Error ? error.message : 'Failed to apply rules');
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const describeConditions = (rule: Rule) => {
+        const parts: string[] = [];
+        if (rule.pattern) {
+            const field = rule.matchField === 'merchant' ? 'Merchant' : 'Description';
+            parts.push(rule.matchType === 'regex' ? `${field} matches /${rule.pattern}/` : `${field} contains "${rule.pattern}"`);
+        }
+        if (rule.transactionType) parts.push(rule.transactionType === 'income' ? 'Income' : 'Expense');
+        const currency = rule.currency || 'IDR';
+        if (rule.minAmount != null && rule.maxAmount != null) {
+            parts.push(`${formatCurrency(rule.minAmount, currency)} – ${formatCurrency(rule.maxAmount, currency)}`);
+        } else if (rule.minAmount != null) {
+            parts.push(`≥ ${formatCurrency(rule.minAmount, currency)}`);
+        } else if (rule.maxAmount != null) {
+            parts.push(`≤ ${formatCurrency(rule.maxAmount, currency)}`);
+        }
+        if (rule.currency) parts.push(rule.currency);
+        if (rule.accountId) parts.push(accounts.find(a => a.id === rule.accountId)?.name || 'Unknown account');
+        return parts.length > 0 ? parts.join(' · ') : 'Every transaction';
+    };
+
+    const describeActions = (rule: Rule) => {
+        const category = categories.find(c => c.id === rule.setCategoryId);
+        return [
+            category && `${category.icon} ${category.name}`,
+            rule.renameTo && `rename to "${rule.renameTo}"`,
+            rule.addTagId && `#${tags.find(t => t.id === rule.addTagId)?.name || 'deleted tag'}`,
+        ].filter(Boolean).join(', ');
+    };
+
+    return (
+        <div className="space-y-6">
+            <button
+                onClick={() => openRuleModal()}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+            >
+                <Plus className="w-5 h-5" />
+                Add Rule
+            </button>
+
+            <div className="glass-card rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-1">Categorization Rules</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Applied top to bottom to new and imported transactions. The first matching rule sets the category
+                    (only when none was picked), the first matching rename sets the description and every matching
+                    rule adds its tag.
+                </p>
+                {rules.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                        No rules yet. Add one to categorize transactions like &quot;GRAB*&quot; or &quot;INDOMARET&quot; automatically.
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {rules.map((rule, index) => (
+                            <div
+                                key={rule.id}
+                                className={cn(
+                                    'flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl',
+                                    !rule.enabled && 'opacity-50'
+                                )}
+                            >
+                                <div className="flex flex-col">
+                                    <button
+                                        onClick={() => moveRule(index, 'up')}
+                                        disabled={index === 0}
+                                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                                    >
+                                        <ArrowUp className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => moveRule(index, 'down')}
+                                        disabled={index === rules.length - 1}
+                                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                                    >
+                                        <ArrowDown className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white truncate">{rule.name}</p>
+                                    <p className="text-xs text-gray-400 truncate">{describeConditions(rule)}</p>
+                                    <p className="text-xs text-blue-300 truncate">→ {describeActions(rule) || 'no action'}</p>
+                                </div>
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={() => toggleRule(rule)}
+                                        className="rounded"
+                                    />
+                                    On
+                                </label>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => openRuleModal(rule)}
+                                        className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                                    >
+                                        <Edit2 className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(rule.id)}
+                                        className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Re-apply */}
+            <div className="glass-card rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+                    <Wand2 className="w-5 h-5" />
+                    Re-apply to Past Transactions
+                </h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Run the enabled rules over every existing transaction. Uncategorized transactions get a category;
+                    renames apply to all matches.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+                    <input
+                        type="checkbox"
+                        checked={overwrite}
+                        onChange={(e) => setOverwrite(e.target.checked)}
+                        className="rounded"
+                    />
+                    Also replace categories that are already set
+                </label>
+                <button
+                    onClick={handleApply}
+                    disabled={applying || rules.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-xl text-white text-sm disabled:opacity-50"
+                >
+                    <RefreshCw className={cn('w-4 h-4', applying && 'animate-spin')} />
+                    {applying ? 'Applying...' : 'Re-apply Rules'}
+                </button>
+                {applyMessage && <p className="text-sm text-gray-400 mt-3">{applyMessage}</p>}
+            </div>
+
+            {/* Rule Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+                    <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6">
+                        <h2 className="text-xl font-bold text-white mb-6">
+                            {editingRule ? 'Edit Rule' : 'New Rule'}
+                        </h2>
+
+                        {ruleError && (
+                            <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                <p className="text-red-400 text-sm">{ruleError}</p>
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <input
+                                type="text"
+                                value={ruleForm.name}
+                                onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                                placeholder="Rule name (e.g. Grab rides)"
+                                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                required
+                            />
+
+                            {/* Text condition */}
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">When</label>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <select
+                                        value={ruleForm.matchField}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, matchField: e.target.value as Rule['matchField'] })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="description">Description</option>
+                                        <option value="merchant">Receipt merchant</option>
+                                    </select>
+                                    <select
+                                        value={ruleForm.matchType}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, matchType: e.target.value as Rule['matchType'] })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="contains">contains</option>
+                                        <option value="regex">matches regex</option>
+                                    </select>
+                                </div>
+                                <input
+                                    type="text"
+                                    value={ruleForm.pattern}
+                                    onChange={(e) => setRuleForm({ ...ruleForm, pattern: e.target.value })}
+                                    placeholder={ruleForm.matchType === 'regex' ? '^(GRAB|GOJEK)\\b' : 'grab'}
+                                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white font-mono text-sm"
+                                />
+                                <p className="text-xs text-gray-500">Case-insensitive. Leave empty to match any text.</p>
+                            </div>
+
+                            {/* Other conditions */}
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Type</label>
+                                    <select
+                                        value={ruleForm.transactionType}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, transactionType: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="">Any</option>
+                                        <option value="expense">Expense</option>
+                                        <option value="income">Income</option>
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Account</label>
+                                    <select
+                                        value={ruleForm.accountId}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, accountId: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="">Any</option>
+                                        {accounts.map((account) => (
+                                            <option key={account.id} value={account.id}>{account.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Currency</label>
+                                    <select
+                                        value={ruleForm.currency}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, currency: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    >
+                                        <option value="">Any</option>
+                                        {Object.keys(CURRENCIES).map((code) => (
+                                            <option key={code} value={code}>{code}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Min amount</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={ruleForm.minAmount}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, minAmount: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Max amount</label>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min="0"
+                                        value={ruleForm.maxAmount}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, maxAmount: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Actions */}
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Then set category</label>
+                                <select
+                                    value={ruleForm.setCategoryId}
+                                    onChange={(e) => setRuleForm({ ...ruleForm, setCategoryId: e.target.value })}
+                                    className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                >
+                                    <option value="">Don&apos;t change</option>
+                                    {(['expense', 'income'] as const).map((type) => (
+                                        <optgroup key={type} label={type === 'expense' ? 'Expense' : 'Income'}>
+                                            {categories.filter((c) => c.type === type).map((category) => (
+                                                <option key={category.id} value={category.id}>
+                                                    {category.icon} {category.name}
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">And rename description to</label>
+                                <input
+                                    type="text"
+                                    value={ruleForm.renameTo}
+                                    onChange={(e) => setRuleForm({ ...ruleForm, renameTo: e.target.value })}
+                                    placeholder="Leave empty to keep it"
+                                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">And add tag</label>
+                                <select
+                                    value={ruleForm.addTagId}
+                                    onChange={(e) => setRuleForm({ ...ruleForm, addTagId: e.target.value })}
+                                    className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                >
+                                    <option value="">No tag</option>
+                                    {tags.map((tag) => (
+                                        <option key={tag.id} value={tag.id}>#{tag.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3 items-end">
+                                <div className="space-y-2">
+                                    <label className="text-sm text-gray-400">Priority (lower runs first)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="1"
+                                        value={ruleForm.priority}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, priority: e.target.value })}
+                                        className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                    />
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-300 py-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={ruleForm.enabled}
+                                        onChange={(e) => setRuleForm({ ...ruleForm, enabled: e.target.checked })}
+                                        className="rounded"
+                                    />
+                                    Enabled
+                                </label>
+                            </div>
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setShowModal(false);
+                                        setEditingRule(null);
+                                    }}
+                                    className="flex-1 py-3 border border-gray-700 rounded-xl text-gray-300"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                                >
+                                    {editingRule ? 'Update' : 'Create'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Edit2, ChevronRight, ChevronDown, CornerLeftUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { wouldCreateCycle, type CategoryNode } from '@/lib/category-tree';
+import type { Category } from '@/contexts/CategoriesContext';
+
+interface CategoryTreeEditorProps {
+    title: string;
+    nodes: CategoryNode<Category>[];
+    // The categories shown in this tree, to reject drops that would make a cycle
+    categories: Category[];
+    onEdit: (category: Category) => void;
+    onDelete: (id: string) => void;
+    onAddChild: (parent: Category) => void;
+    onMove: (id: string, parentId: string | null) => void;
+}
+
+export function CategoryTreeEditor({ title, nodes, categories, onEdit, onDelete, onAddChild, onMove }: CategoryTreeEditorProps) {
+    const [collapsed, setCollapsed] = useState<string[]>([]);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const toggleCollapsed = (id: string) => {
+        setCollapsed(collapsed.includes(id) ? collapsed.filter(c => c !== id) : [...collapsed, id]);
+    };
+
+    const canDrop = (parentId: string | null) => {
+        if (!draggingId) return false;
+        // Dropping onto the current parent changes nothing
+        if (categories.find(c => c.id === draggingId)?.parentId === parentId) return false;
+        return !wouldCreateCycle(categories, draggingId, parentId);
+    };
+
+    const handleDrop = (e: React.DragEvent, parentId: string | null) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggingId && canDrop(parentId)) {
+            onMove(draggingId, parentId);
+        }
+        setDraggingId(null);
+        setDropTarget(null);
+    };
+
+    const renderNode = (node: CategoryNode<Category>) => {
+        const isCollapsed = collapsed.includes(node.id);
+        return (
+            <div key={node.id}>
+                <div
+                    draggable
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(node.id);
+                    }}
+                    onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropTarget(null);
+                    }}
+                    onDragOver={(e) => {
+                        // Rows never pass the drag on to the panel behind them
+                        e.stopPropagation();
+                        if (canDrop(node.id)) {
+                            e.preventDefault();
+                            setDropTarget(node.id);
+                        } else {
+                            setDropTarget(null);
+                        }
+                    }}
+                    onDrop={(e) => handleDrop(e, node.id)}
+                    className={cn(
+                        'flex items-center gap-2 p-2 bg-gray-800/50 rounded-xl group cursor-grab',
+                        dropTarget === node.id && 'ring-1 ring-blue-500',
+                        draggingId === node.id && 'opacity-50'
+                    )}
+                    style={{ marginLeft: node.depth * 24 }}
+                >
+                    <button
+                        type="button"
+                        onClick={() => toggleCollapsed(node.id)}
+                        className={cn('p-1 text-gray-500 hover:text-white', node.children.length === 0 && 'invisible')}
+                    >
+                        {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                    <div
+                        className="w-9 h-9 rounded-lg flex items-center justify-center text-lg flex-shrink-0"
+                        style={{ backgroundColor: `${node.color}20` }}
+                    >
+                        {node.icon}
+                    </div>
+                    <span className="flex-1 text-sm text-white truncate min-w-0">
+                        {node.name}
+                        {node.children.length > 0 && (
+                            <span className="text-xs text-gray-500 ml-2">{node.children.length} sub</span>
+                        )}
+                    </span>
+                    <div className="opacity-100 sm:opacity-0 group-hover:opacity-100 flex gap-1 transition-opacity">
+                        <button
+                            onClick={() => onAddChild(node)}
+                            title="Add subcategory"
+                            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                        >
+                            <Plus className="w-3.5 h-3.5" />
+                        </button>
+                        {node.parentId && (
+                            <button
+                                onClick={() => onMove(node.id, null)}
+                                title="Move to top level"
+                                className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                            >
+                                <CornerLeftUp className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onEdit(node)}
+                            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                        >
+                            <Edit2 className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={() => onDelete(node.id)}
+                            className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                </div>
+                {!isCollapsed && node.children.length > 0 && (
+                    <div className="space-y-2 mt-2">{node.children.map(renderNode)}</div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div
+            className={cn('glass-card rounded-2xl p-6', dropTarget === 'root' && 'ring-1 ring-blue-500')}
+            onDragOver={(e) => {
+                if (canDrop(null)) {
+                    e.preventDefault();
+                    setDropTarget('root');
+                }
+            }}
+            onDrop={(e) => handleDrop(e, null)}
+        >
+            <h2 className="text-lg font-semibold text-white mb-1">{title}</h2>
+            <p className="text-xs text-gray-500 mb-4">
+                Drag a category onto another to nest it, or onto this panel to move it to the top level.
+            </p>
+            {nodes.length === 0 ? (
+                <p className="text-sm text-gray-500">No categories yet.</p>
+            ) : (
+                <div className="space-y-2">{nodes.map(renderNode)}</div>
+            )}
+        </div>
+    );
+}
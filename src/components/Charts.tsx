@@ -24,6 +24,7 @@ interface CategoryData {
     value: number;
     color: string;
     icon?: string;
+    hasChildren?: boolean; // has subcategories to drill into
     [key: string]: any;
 }
 
@@ -48,8 +49,8 @@ const tooltipLabelStyle = {
     marginBottom: '4px',
 };
 
-// Expense Pie Chart by Category
-export function ExpensePieChart({ data }: { data: CategoryData[] }) {
+// Expense Pie Chart by Category. With onSelect, slices that have subcategories can be clicked to drill down.
+export function ExpensePieChart({ data, onSelect }: { data: CategoryData[]; onSelect?: (item: CategoryData) => void }) {
     if (data.length === 0) {
         return (
             <div className="h-64 flex items-center justify-center text-gray-500">
@@ -73,12 +74,16 @@ export function ExpensePieChart({ data }: { data: CategoryData[] }) {
                         paddingAngle={2}
                         dataKey="value"
                         stroke="none"
+                        onClick={(_, index) => {
+                            if (onSelect && data[index]?.hasChildren) onSelect(data[index]);
+                        }}
                     >
                         {data.map((entry, index) => (
                             <Cell
                                 key={`cell-${index}`}
                                 fill={entry.color}
                                 stroke="transparent"
+                                cursor={onSelect && entry.hasChildren ? 'pointer' : undefined}
                             />
                         ))}
                     </Pie>
@@ -97,6 +102,9 @@ export function ExpensePieChart({ data }: { data: CategoryData[] }) {
                                             {formatCurrency(item.value, 'IDR')}
                                         </p>
                                         <p className="text-gray-500 text-sm">{percent}% of total</p>
+                                        {onSelect && item.hasChildren && (
+                                            <p className="text-blue-400 text-xs mt-1">Click to see subcategories</p>
+                                        )}
                                     </div>
                                 );
                             }
@@ -267,13 +275,17 @@ export function BalanceTrendChart({ data }: { data: MonthlyData[] }) {
 }
 
 // Category Legend Component
-export function CategoryLegend({ data }: { data: CategoryData[] }) {
+export function CategoryLegend({ data, onSelect }: { data: CategoryData[]; onSelect?: (item: CategoryData) => void }) {
     const total = data.reduce((sum, item) => sum + item.value, 0);
 
     return (
         <div className="grid grid-cols-2 gap-3 mt-4">
             {data.slice(0, 6).map((item, index) => (
-                <div key={index} className="flex items-center gap-2 overflow-hidden">
+                <div
+                    key={index}
+                    onClick={onSelect && item.hasChildren ? () => onSelect(item) : undefined}
+                    className={`flex items-center gap-2 overflow-hidden${onSelect && item.hasChildren ? ' cursor-pointer hover:opacity-80' : ''}`}
+                >
                     <div
                         className="w-3 h-3 rounded-full flex-shrink-0"
                         style={{ backgroundColor: item.color }}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Loader2, Copy, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/currency';
+import type { DuplicateKind, ReceiptMatch } from '@/lib/receipt-duplicates';
+
+interface DuplicateReceiptsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onMerged: () => void;
+}
+
+interface DuplicateGroup {
+    kind: DuplicateKind;
+    receipts: (ReceiptMatch & { transactionCount: number })[];
+}
+
+// Default to keeping the receipt most transactions point at, then the oldest
+function defaultKeepId(group: DuplicateGroup): string {
+    return [...group.receipts].sort((a, b) => b.transactionCount - a.transactionCount)[0].receiptId;
+}
+
+export function DuplicateReceiptsModal({ isOpen, onClose, onMerged }: DuplicateReceiptsModalProps) {
+    const [isLoading, setIsLoading] = useState(true);
+    const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+    const [isPartial, setIsPartial] = useState(false);
+    const [keepIds, setKeepIds] = useState<Record<number, string>>({});
+    const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadGroups();
+        }
+    }, [isOpen]);
+
+    const loadGroups = async () => {
+        setIsLoading(true);
+        try {
+            const res = await fetch('/api/receipts/duplicates');
+            const json = await res.json();
+            const data: DuplicateGroup[] = json.data || [];
+            setGroups(data);
+            setIsPartial(!!json.partial);
+            setKeepIds(Object.fromEntries(data.map((group, i) => [i, defaultKeepId(group)])));
+        } catch (error) {
+            console.error('Failed to load duplicate receipts:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const dismissGroup = (index: number) => {
+        setGroups(prev => prev.filter((_, i) => i !== index));
+        setKeepIds(prev => Object.fromEntries(
+            Object.entries(prev)
+                .filter(([i]) => Number(i) !== index)
+                .map(([i, id]) => [Number(i) > index ? Number(i) - 1 : Number(i), id])
+        ));
+    };
+
+    const handleMerge = async (index: number) => {
+        const keepId = keepIds[index];
+        const duplicateIds = groups[index].receipts.map(r => r.receiptId).filter(id => id !== keepId);
+
+        setMergingIndex(index);
+        try {
+            const res = await fetch('/api/receipts/duplicates/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keepId, duplicateIds }),
+            });
+            if (!res.ok) {
+                const errorData = await res.json();
+                throw new Error(errorData.error || 'Failed to merge receipts');
+            }
+            dismissGroup(index);
+            onMerged();
+        } catch (error) {
+            console.error('Failed to merge receipts:', error);
+            alert(error instanceof Error ? error.message : 'Failed to merge receipts');
+        } finally {
+            setMergingIndex(null);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="w-full max-w-2xl bg-gray-900 rounded-2xl border border-gray-800 flex flex-col max-h-[90vh]">
+                <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        <Copy className="w-5 h-5 text-amber-400" />
+                        Duplicate Receipts
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="p-2 text-gray-400 hover:text-white rounded-lg"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center gap-3 py-12">
+                            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+                            <span className="text-gray-400">Comparing receipt images...</span>
+                        </div>
+                    ) : groups.length === 0 ? (
+                        <div className="text-center py-12 text-gray-400">
+                            <Check className="w-8 h-8 mx-auto mb-3 text-green-400" />
+                            No duplicate receipts found
+                        </div>
+                    ) : (
+                        groups.map((group, index) => (
+                            <div key={group.receipts[0].receiptId} className="bg-gray-800/40 rounded-xl p-4 space-y-3">
+                                <p className={cn('text-xs font-medium', group.kind === 'exact' ? 'text-red-400' : 'text-amber-400')}>
+                                    {group.kind === 'exact' ? 'Exact copies' : 'Similar images'} · {group.receipts.length} receipts
+                                </p>
+
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                                    {group.receipts.map(receipt => (
+                                        <button
+                                            key={receipt.receiptId}
+                                            onClick={() => setKeepIds(prev => ({ ...prev, [index]: receipt.receiptId }))}
+                                            className={cn(
+                                                'text-left rounded-lg border p-2 transition-colors',
+                                                keepIds[index] === receipt.receiptId
+                                                    ? 'border-green-500 bg-green-500/10'
+                                                    : 'border-gray-700 hover:border-gray-600'
+                                            )}
+                                        >
+                                            <img src={receipt.thumbnailUrl} alt="" className="w-full h-28 object-cover rounded-md bg-gray-800" />
+                                            <p className="text-sm text-white truncate mt-2">{receipt.ocrMerchant || receipt.fileName || 'Receipt'}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {receipt.ocrAmount != null ? formatCurrency(receipt.ocrAmount, receipt.ocrCurrency || 'IDR') : '—'}
+                                                {receipt.ocrDate && ` · ${receipt.ocrDate}`}
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {receipt.transactionCount} transaction{receipt.transactionCount === 1 ? '' : 's'}
+                                                {keepIds[index] === receipt.receiptId && <span className="text-green-400"> · Keep</span>}
+                                            </p>
+                                        </button>
+                                    ))}
+                                </div>
+
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => dismissGroup(index)}
+                                        disabled={mergingIndex !== null}
+                                        className="px-4 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-700/50 rounded-lg font-medium transition-colors"
+                                    >
+                                        Keep All
+                                    </button>
+                                    <button
+                                        onClick={() => handleMerge(index)}
+                                        disabled={mergingIndex !== null}
+                                        className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                                    >
+                                        {mergingIndex === index && <Loader2 className="w-4 h-4 animate-spin" />}
+                                        Merge into Selected
+                                    </button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+
+                    {!isLoading && isPartial && (
+                        <p className="text-xs text-gray-500 text-center">
+                            Older receipts are still being indexed. Reopen this dialog to check the rest.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,398 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Edit2, Merge, Store } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface Category {
+    id: string;
+    name: string;
+    type: 'income' | 'expense';
+    icon: string;
+}
+
+interface Merchant {
+    id: string;
+    name: string;
+    aliases: string[];
+    pattern: string | null;
+    categoryId: string | null;
+    color: string | null;
+    transactionCount: number;
+    receiptCount: number;
+}
+
+interface MerchantDirectoryProps {
+    categories: Category[];
+}
+
+const emptyMerchantForm = {
+    name: '',
+    aliases: '',
+    pattern: '',
+    categoryId: '',
+    color: '#6366F1',
+};
+
+export function MerchantDirectory({ categories }: MerchantDirectoryProps) {
+    const [merchants, setMerchants] = useState<Merchant[]>([]);
+    const [search, setSearch] = useState('');
+    const [showModal, setShowModal] = useState(false);
+    const [editingMerchant, setEditingMerchant] = useState<Merchant | null>(null);
+    const [merchantForm, setMerchantForm] = useState(emptyMerchantForm);
+    const [merchantError, setMerchantError] = useState('');
+    const [selected, setSelected] = useState<string[]>([]);
+    const [showMergeModal, setShowMergeModal] = useState(false);
+    const [keepId, setKeepId] = useState('');
+    const [merging, setMerging] = useState(false);
+
+    const fetchMerchants = async () => {
+        try {
+            const res = await fetch('/api/merchants');
+            const data = await res.json();
+            setMerchants(data.data || []);
+        } catch (error) {
+            console.error('Failed to fetch merchants:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchMerchants();
+    }, []);
+
+    const openMerchantModal = (merchant?: Merchant) => {
+        setEditingMerchant(merchant || null);
+        setMerchantError('');
+        setMerchantForm(merchant ? {
+            name: merchant.name,
+            aliases: merchant.aliases.join(', '),
+            pattern: merchant.pattern || '',
+            categoryId: merchant.categoryId || '',
+            color: merchant.color || emptyMerchantForm.color,
+        } : emptyMerchantForm);
+        setShowModal(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setMerchantError('');
+
+        try {
+            const response = await fetch('/api/merchants', {
+                method: editingMerchant ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(editingMerchant && { id: editingMerchant.id }),
+                    ...merchantForm,
+                    aliases: merchantForm.aliases.split(',').map(a => a.trim()).filter(Boolean),
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                setMerchantError(data.error || 'Failed to save merchant');
+                return;
+            }
+
+            setShowModal(false);
+            setEditingMerchant(null);
+            fetchMerchants();
+        } catch (error) {
+            console.error('Failed to save merchant:', error);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this merchant? Its receipts and transactions are kept, without a merchant.')) return;
+
+        try {
+            await fetch(`/api/merchants?id=${id}`, { method: 'DELETE' });
+            setSelected(selected.filter(s => s !== id));
+            fetchMerchants();
+        } catch (error) {
+            console.error('Failed to delete merchant:', error);
+        }
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+    };
+
+    const openMergeModal = () => {
+        // Keep the most used one by default
+        const candidates = merchants.filter(m => selected.includes(m.id));
+        const mostUsed = candidates.reduce((best, m) => m.transactionCount > best.transactionCount ? m : best, candidates[0]);
+        setKeepId(mostUsed.id);
+        setShowMergeModal(true);
+    };
+
+    const handleMerge = async () => {
+        setMerging(true);
+        try {
+            const response = await fetch('/api/merchants/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ keepId, mergeIds: selected.filter(id => id !== keepId) }),
+            });
+            if (!response.ok) {
+                const data = await response.json();
+                alert(data.error || 'Failed to merge merchants');
+                return;
+            }
+            setShowMergeModal(false);
+            setSelected([]);
+            fetchMerchants();
+        } catch (error) {
+            console.error('Failed to merge merchants:', error);
+        } finally {
+            setMerging(false);
+        }
+    };
+
+    const query = search.trim().toLowerCase();
+    const visible = query
+        ? merchants.filter(m => [m.name, ...m.aliases].some(name => name.toLowerCase().includes(query)))
+        : merchants;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap gap-3">
+                <button
+                    onClick={() => openMerchantModal()}
+                    className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                >
+                    <Plus className="w-5 h-5" />
+                    Add Merchant
+                </button>
+                <button
+                    onClick={openMergeModal}
+                    disabled={selected.length < 2}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-xl text-white disabled:opacity-50"
+                >
+                    <Merge className="w-5 h-5" />
+                    Merge Selected{selected.length > 1 ? ` (${selected.length})` : ''}
+                </button>
+            </div>
+
+            <div className="glass-card rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-1">Merchant Directory</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Receipts and transactions are linked to a merchant by its name or aliases, matched as whole words
+                    (&quot;ALFAMART 123 JKT&quot; is Alfamart). New stores on receipts are added automatically; select
+                    duplicates to merge them into one.
+                </p>
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search merchants"
+                    className="w-full px-4 py-2 mb-4 bg-gray-800/50 border border-gray-700 rounded-xl text-white text-sm"
+                />
+                {visible.length === 0 ? (
+                    <p className="text-sm text-gray-500">No merchants found.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {visible.map((merchant) => {
+                            const category = categories.find(c => c.id === merchant.categoryId);
+                            return (
+                                <div
+                                    key={merchant.id}
+                                    className={cn(
+                                        'flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl',
+                                        selected.includes(merchant.id) && 'ring-1 ring-blue-500'
+                                    )}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(merchant.id)}
+                                        onChange={() => toggleSelected(merchant.id)}
+                                        className="rounded"
+                                    />
+                                    <div
+                                        className="w-9 h-9 rounded-lg flex items-center justify-center text-white font-semibold flex-shrink-0"
+                                        style={{ backgroundColor: merchant.color || '#374151' }}
+                                    >
+                                        {merchant.name.charAt(0).toUpperCase()}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm text-white truncate">{merchant.name}</p>
+                                        {merchant.aliases.length > 0 && (
+                                            <p className="text-xs text-gray-400 truncate">also {merchant.aliases.join(', ')}</p>
+                                        )}
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {category ? `${category.icon} ${category.name} · ` : ''}
+                                            {merchant.transactionCount} transactions · {merchant.receiptCount} receipts
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-1">
+                                        <button
+                                            onClick={() => openMerchantModal(merchant)}
+                                            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                                        >
+                                            <Edit2 className="w-3.5 h-3.5" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(merchant.id)}
+                                            className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
+                                        >
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Merchant Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+                    <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6">
+                        <h2 className="text-xl font-bold text-white mb-6">
+                            {editingMerchant ? 'Edit Merchant' : 'New Merchant'}
+                        </h2>
+
+                        {merchantError && (
+                            <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                <p className="text-red-400 text-sm">{merchantError}</p>
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <input
+                                type="text"
+                                value={merchantForm.name}
+                                onChange={(e) => setMerchantForm({ ...merchantForm, name: e.target.value })}
+                                placeholder="Merchant name (e.g. Alfamart)"
+                                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                required
+                            />
+
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Aliases</label>
+                                <input
+                                    type="text"
+                                    value={merchantForm.aliases}
+                                    onChange={(e) => setMerchantForm({ ...merchantForm, aliases: e.target.value })}
+                                    placeholder="alfaria, alfamidi"
+                                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                />
+                                <p className="text-xs text-gray-500">Comma-separated. Store numbers and case are ignored.</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Pattern (optional)</label>
+                                <input
+                                    type="text"
+                                    value={merchantForm.pattern}
+                                    onChange={(e) => setMerchantForm({ ...merchantForm, pattern: e.target.value })}
+                                    placeholder="^ALFA\\w*"
+                                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white font-mono text-sm"
+                                />
+                                <p className="text-xs text-gray-500">Case-insensitive regex, checked before the names.</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Default category</label>
+                                <select
+                                    value={merchantForm.categoryId}
+                                    onChange={(e) => setMerchantForm({ ...merchantForm, categoryId: e.target.value })}
+                                    className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                >
+                                    <option value="">None</option>
+                                    {(['expense', 'income'] as const).map((type) => (
+                                        <optgroup key={type} label={type === 'expense' ? 'Expense' : 'Income'}>
+                                            {categories.filter((c) => c.type === type).map((category) => (
+                                                <option key={category.id} value={category.id}>
+                                                    {category.icon} {category.name}
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Logo color</label>
+                                <input
+                                    type="color"
+                                    value={merchantForm.color}
+                                    onChange={(e) => setMerchantForm({ ...merchantForm, color: e.target.value })}
+                                    className="w-16 h-10 bg-transparent border border-gray-700 rounded-lg"
+                                />
+                            </div>
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setShowModal(false);
+                                        setEditingMerchant(null);
+                                    }}
+                                    className="flex-1 py-3 border border-gray-700 rounded-xl text-gray-300"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                                >
+                                    {editingMerchant ? 'Update' : 'Create'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Merge Modal */}
+            {showMergeModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+                    <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6">
+                        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+                            <Store className="w-5 h-5" />
+                            Merge Merchants
+                        </h2>
+                        <p className="text-sm text-gray-400 mb-4">
+                            Choose the name to keep. The others become its aliases and their receipts and transactions move to it.
+                        </p>
+                        <div className="space-y-2">
+                            {merchants.filter(m => selected.includes(m.id)).map((merchant) => (
+                                <label
+                                    key={merchant.id}
+                                    className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl text-sm text-white cursor-pointer"
+                                >
+                                    <input
+                                        type="radio"
+                                        name="keepMerchant"
+                                        checked={keepId === merchant.id}
+                                        onChange={() => setKeepId(merchant.id)}
+                                    />
+                                    <span className="flex-1 truncate">{merchant.name}</span>
+                                    <span className="text-xs text-gray-500">{merchant.transactionCount} transactions</span>
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 pt-6">
+                            <button
+                                type="button"
+                                onClick={() => setShowMergeModal(false)}
+                                className="flex-1 py-3 border border-gray-700 rounded-xl text-gray-300"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleMerge}
+                                disabled={merging}
+                                className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium disabled:opacity-50"
+                            >
+                                {merging ? 'Merging...' : 'Merge'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, ArrowUpRight, ArrowDownRight, Trash2 } from 'lucide-react';
+import { X, ArrowUpRight, ArrowDownRight, Trash2, Plus, ListTree } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { CURRENCIES, CurrencyCode } from '@/lib/currency';
+import { CURRENCIES, CurrencyCode, formatCurrency } from '@/lib/currency';
+import { extractItems, type ReceiptItem } from '@/lib/ocr';
 
 interface Category {
     id: string;
@@ -13,6 +14,12 @@ interface Category {
     color: string;
 }
 
+interface SplitLine {
+    categoryId: string;
+    amount: string;
+    description: string;
+}
+
 interface ReceiptEditModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -38,6 +45,10 @@ export function ReceiptEditModal({
     const [date, setDate] = useState('');
     const [merchant, setMerchant] = useState('');
     const [categoryId, setCategoryId] = useState('');
+    const [splits, setSplits] = useState<SplitLine[]>([]);
+    const [rawText, setRawText] = useState('');
+    const [storedItems, setStoredItems] = useState<ReceiptItem[]>([]);
+    const [isLoadingItems, setIsLoadingItems] = useState(false);
 
     const [transactionId, setTransactionId] = useState<string | null>(null);
 
@@ -65,12 +76,19 @@ export function ReceiptEditModal({
 
             if (receiptData.data) {
                 const r = receiptData.data;
-                setImageUrl(`/api/receipts/${r.id}/image`);
+                setImageUrl(`/api/receipts/${r.id}/image?size=preview`);
                 setAmount(Math.abs(r.ocrAmount || 0).toString() || '');
                 setCurrency(r.ocrCurrency || 'IDR');
                 const validDate = r.ocrDate && /^\d{4}-\d{2}-\d{2}$/.test(r.ocrDate) ? r.ocrDate : new Date().toISOString().split('T')[0];
                 setDate(validDate);
                 setMerchant(r.ocrMerchant || '');
+                setRawText(r.ocrRawText || '');
+                setStoredItems((r.items || []).map((item: { name: string; quantity: number; totalPrice: number }) => ({
+                    name: item.name,
+                    price: item.totalPrice,
+                    quantity: item.quantity,
+                })));
+                setSplits([]);
 
                 // Try to find existing transaction to populate category/type
                 const txRes = await fetch('/api/transactions?limit=100');
@@ -84,6 +102,11 @@ export function ReceiptEditModal({
                     setAmount(tx.amount?.toString() || r.ocrAmount?.toString());
                     setMerchant(tx.description || r.ocrMerchant);
                     setDate(tx.date || r.ocrDate);
+                    setSplits((tx.splits || []).map((s: { categoryId: string | null; amount: number; description: string | null }) => ({
+                        categoryId: s.categoryId || '',
+                        amount: s.amount.toString(),
+                        description: s.description || '',
+                    })));
                 } else {
                     setTransactionId(null);
                 }
@@ -95,8 +118,69 @@ export function ReceiptEditModal({
         }
     };
 
+    const splitTotal = splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0);
+    const splitRemaining = (parseFloat(amount) || 0) - splitTotal;
+    const splitsBalanced = splits.length === 0 || Math.abs(splitRemaining) <= 0.01;
+
+    const updateSplit = (index: number, changes: Partial<SplitLine>) => {
+        setSplits(splits.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+    };
+
+    /**
+     * Seed split lines from the receipt's line items: the items stored at scan
+     * time, then DeepSeek parsing when available, otherwise the local Tesseract
+     * text parser. Whatever the items don't cover (tax, service, rounding) goes
+     * on a final line.
+     */
+    const loadItemSplits = async () => {
+        if (!rawText && storedItems.length === 0) return;
+
+        setIsLoadingItems(true);
+        try {
+            let items: ReceiptItem[] = storedItems;
+            if (items.length === 0 && rawText) {
+                try {
+                    const res = await fetch('/api/ocr-enhanced', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ rawText }),
+                    });
+                    if (res.ok) {
+                        const data = await res.json();
+                        items = data.data?.items || [];
+                    }
+                } catch (error) {
+                    console.warn('Enhanced item extraction failed, using local parser:', error);
+                }
+
+                if (items.length === 0) {
+                    items = extractItems(rawText);
+                }
+            }
+
+            const lines: SplitLine[] = items
+                .filter((item) => item.price > 0)
+                .slice(0, 50)
+                .map((item) => ({
+                    categoryId,
+                    amount: item.price.toString(),
+                    description: item.quantity && item.quantity > 1 ? `${item.quantity}x ${item.name}` : item.name,
+                }));
+
+            const itemsTotal = lines.reduce((sum, l) => sum + parseFloat(l.amount), 0);
+            const rest = (parseFloat(amount) || 0) - itemsTotal;
+            if (rest > 0.01) {
+                lines.push({ categoryId, amount: rest.toFixed(2).replace(/\.00$/, ''), description: 'Other (tax, service, rounding)' });
+            }
+
+            setSplits(lines);
+        } finally {
+            setIsLoadingItems(false);
+        }
+    };
+
     const handleSave = async () => {
-        if (!amount) return;
+        if (!amount || !splitsBalanced) return;
 
         setIsSaving(true);
         try {
@@ -109,6 +193,7 @@ export function ReceiptEditModal({
                     ocrDate: date,
                     ocrAmount: parseFloat(amount),
                     ocrCurrency: currency,
+                    categoryId, // remembered for this store's next receipts
                     verified: true, // Mark as reviewed
                     isAutomated: false, // Clear auto flag when manually edited
                 }),
@@ -123,6 +208,11 @@ export function ReceiptEditModal({
                 description: merchant,
                 date: date.match(/^\d{4}-\d{2}-\d{2}$/) ? date : new Date().toISOString().split('T')[0],
                 receiptId,
+                splits: splits.map((s) => ({
+                    categoryId: s.categoryId || null,
+                    amount: parseFloat(s.amount),
+                    description: s.description || null,
+                })),
             };
 
             if (transactionId) {
@@ -321,6 +411,90 @@ export function ReceiptEditModal({
                                     ))}
                             </div>
                         </div>
+
+                        {/* Split across categories */}
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="text-xs sm:text-sm font-medium text-gray-400">Split</label>
+                                <div className="flex gap-2">
+                                    {(rawText || storedItems.length > 0) && (
+                                        <button
+                                            onClick={loadItemSplits}
+                                            disabled={isLoadingItems}
+                                            className="flex items-center gap-1 px-2 py-1 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                                        >
+                                            <ListTree className="w-3.5 h-3.5" />
+                                            {isLoadingItems ? 'Reading items...' : 'Use receipt items'}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setSplits([
+                                            ...splits,
+                                            {
+                                                categoryId,
+                                                amount: splitRemaining > 0 ? splitRemaining.toString() : '',
+                                                description: '',
+                                            },
+                                        ])}
+                                        className="flex items-center gap-1 px-2 py-1 text-xs text-gray-300 hover:text-white"
+                                    >
+                                        <Plus className="w-3.5 h-3.5" />
+                                        Add line
+                                    </button>
+                                </div>
+                            </div>
+
+                            {splits.length > 0 && (
+                                <div className="space-y-2">
+                                    {splits.map((line, index) => (
+                                        <div key={index} className="grid grid-cols-[1fr_auto] gap-2 p-2 bg-gray-800/30 rounded-xl">
+                                            <div className="space-y-2 min-w-0">
+                                                <input
+                                                    type="text"
+                                                    value={line.description}
+                                                    onChange={(e) => updateSplit(index, { description: e.target.value })}
+                                                    placeholder="Item"
+                                                    className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white outline-none focus:border-blue-500"
+                                                />
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    <select
+                                                        value={line.categoryId}
+                                                        onChange={(e) => updateSplit(index, { categoryId: e.target.value })}
+                                                        className="px-2 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white outline-none focus:border-blue-500"
+                                                    >
+                                                        <option value="">Uncategorized</option>
+                                                        {categories
+                                                            .filter(c => c.type === type)
+                                                            .map((cat) => (
+                                                                <option key={cat.id} value={cat.id}>{cat.icon} {cat.name}</option>
+                                                            ))}
+                                                    </select>
+                                                    <input
+                                                        type="number"
+                                                        value={line.amount}
+                                                        onChange={(e) => updateSplit(index, { amount: e.target.value })}
+                                                        placeholder="0"
+                                                        className="px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-lg text-sm text-white outline-none focus:border-blue-500"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => setSplits(splits.filter((_, i) => i !== index))}
+                                                className="p-2 self-start text-gray-400 hover:text-red-400"
+                                                title="Remove line"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <p className={cn('text-xs', splitsBalanced ? 'text-gray-500' : 'text-red-400')}>
+                                        {splitsBalanced
+                                            ? 'Split lines add up to the total'
+                                            : `${formatCurrency(Math.abs(splitRemaining), currency)} ${splitRemaining > 0 ? 'left to assign' : 'over the total'}`}
+                                    </p>
+                                </div>
+                            )}
+                        </div>
                     </div>
                 </div>
 
@@ -340,7 +514,7 @@ export function ReceiptEditModal({
                     </button>
                     <button
                         onClick={handleSave}
-                        disabled={isSaving || !amount}
+                        disabled={isSaving || !amount || !splitsBalanced}
                         className="flex-1 px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium hover:opacity-90 disabled:opacity-50 flex items-center justify-center gap-2"
                     >
                         {isSaving ? 'Saving...' : 'Save Changes'}
@@ -4,14 +4,18 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import {
     Upload, X, Check, AlertCircle, Loader2, Image as ImageIcon,
     ChevronLeft, ChevronRight, Save, Trash2, ArrowDownRight, ArrowUpRight,
-    Zap, Eye
+    Zap, Eye, Copy, FileText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { extractReceiptData, compressImage, type OCRResult } from '@/lib/ocr';
-import { CURRENCIES } from '@/lib/currency';
+import { extractReceiptData, extractPdfReceiptData, compressImage, type OCRResult, type ReceiptTemplate } from '@/lib/ocr';
+import { isPdfFile } from '@/lib/pdf';
+import { categoryForMcc } from '@/lib/qris';
+import { CURRENCIES, formatCurrency } from '@/lib/currency';
 import { format } from 'date-fns';
 import { createPortal } from 'react-dom';
 import { queueDb, type QueenItem } from '@/lib/queue';
+import { fingerprintImageFile, type ImageFingerprint } from '@/lib/image-hash';
+import type { ReceiptMatch } from '@/lib/receipt-duplicates';
 import { v4 as uuid } from 'uuid';
 
 interface EnhancedOCRResult {
@@ -27,8 +31,16 @@ interface Category {
     color: string;
 }
 
+// Ranked suggestion from /api/categories/suggest (rules first, then learned from history)
+interface CategorySuggestion {
+    categoryId: string;
+    confidence: number;
+    source: 'rule' | 'merchant' | 'history';
+}
+
 interface ScanResult extends OCRResult {
     imageBase64: string;
+    attachmentBase64?: string; // original PDF (data URL) of a PDF receipt; imageBase64 is its rendered pages
     status: 'processing' | 'completed' | 'error';
     error?: string;
     editedType?: 'income' | 'expense';
@@ -38,7 +50,10 @@ interface ScanResult extends OCRResult {
     editedCategoryId?: string;
     isAutomated?: boolean;
     fileName?: string;
+    fileHash?: string;
     isDuplicateWarning?: boolean;
+    categorySuggestions?: CategorySuggestion[];
+    needsReview?: boolean; // auto mode could not pick a category with confidence
 }
 
 interface ReceiptScannerProps {
@@ -47,7 +62,6 @@ interface ReceiptScannerProps {
     onSkip?: (result: ScanResult) => void;
     onBatchComplete?: () => void;
     categories?: Category[];
-    existingReceipts?: any[];
 }
 
 interface UploadProgress {
@@ -57,7 +71,44 @@ interface UploadProgress {
     currentStep?: string;
 }
 
-export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, onBatchComplete, categories = [], existingReceipts = [] }: ReceiptScannerProps) {
+// A picked file that looks like a receipt already saved, waiting for the user's decision
+interface PendingDuplicate {
+    file: File;
+    fingerprint: ImageFingerprint;
+    matches: ReceiptMatch[];
+    previewUrl: string;
+    scanAnyway: boolean;
+}
+
+// Most fingerprints accepted per /api/receipts/duplicates request
+const DUPLICATE_CHECK_BATCH_SIZE = 100;
+
+// Auto mode only takes a learned category at or above this confidence
+const AUTO_CATEGORY_CONFIDENCE = 0.7;
+
+async function fetchCategorySuggestions(result: ScanResult): Promise<CategorySuggestion[]> {
+    const params = new URLSearchParams({ merchant: result.editedMerchant || '', type: result.editedType || 'expense' });
+    if (result.editedAmount) params.set('amount', result.editedAmount.toString());
+    if (result.currency) params.set('currency', result.currency);
+    try {
+        const res = await fetch(`/api/categories/suggest?${params}`);
+        return res.ok ? (await res.json()).data || [] : [];
+    } catch (error) {
+        console.warn('Failed to fetch category suggestions:', error);
+        return [];
+    }
+}
+
+function readFileAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, onBatchComplete, categories = [] }: ReceiptScannerProps) {
     const [isDragging, setIsDragging] = useState(false);
     const [results, setResults] = useState<ScanResult[]>([]);
     const [isProcessing, setIsProcessing] = useState(false);
@@ -67,13 +118,23 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
     const [isAutoMode, setIsAutoMode] = useState(false); // New Auto Mode toggle
     const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    // Track processed file signatures (name + size) to prevent duplicates in current session
-    const [processedSignatures, setProcessedSignatures] = useState<Set<string>>(new Set());
+    // Track file content hashes to prevent duplicates in current session
+    const [processedHashes, setProcessedHashes] = useState<Set<string>>(new Set());
+    const [pendingDuplicates, setPendingDuplicates] = useState<PendingDuplicate[]>([]);
+    // Merchant templates learned from reviewed receipts, applied by the parser
+    const [templates, setTemplates] = useState<ReceiptTemplate[]>([]);
 
     const completedResults = results.filter(r => r.status === 'completed');
 
     const [resumeCount, setResumeCount] = useState(0);
 
+    useEffect(() => {
+        fetch('/api/merchant-templates')
+            .then(res => (res.ok ? res.json() : { data: [] }))
+            .then(json => setTemplates(json.data || []))
+            .catch(error => console.warn('Failed to load merchant templates:', error));
+    }, []);
+
     // Initial check for pending items
     useEffect(() => {
         queueDb.getPendingItems().then(items => {
@@ -122,11 +183,14 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
             items: [],
             transactionType: null,
             status: 'processing' as const,
-            fileName: item.fileName
+            fileName: item.fileName,
+            fileHash: item.fileHash,
         }));
 
         setResults(prev => [...prev, ...newResultsPlaceholder]);
 
+        let flaggedCount = 0;
+
         // Process sequentially to be safe
         for (let i = 0; i < pendingItems.length; i++) {
             const item = pendingItems[i];
@@ -149,10 +213,21 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                     return updated;
                 });
 
-                const compressedImage = await compressImage(item.file);
-
-                // OCR - 50%
-                const tesseractResult = await extractReceiptData(compressedImage);
+                // PDFs: text layer (or OCR of the rendered pages), pages stacked as the image
+                let compressedImage: string;
+                let tesseractResult: OCRResult;
+                let attachmentBase64: string | undefined;
+                if (isPdfFile(item.file)) {
+                    const { preview, ...pdfResult } = await extractPdfReceiptData(item.file, templates);
+                    compressedImage = preview;
+                    tesseractResult = pdfResult;
+                    attachmentBase64 = await readFileAsDataUrl(item.file);
+                } else {
+                    compressedImage = await compressImage(item.file);
+
+                    // OCR - 50%
+                    tesseractResult = await extractReceiptData(compressedImage, templates);
+                }
                 setUploadProgress(prev => {
                     const updated = [...prev];
                     updated[i] = { ...updated[i], progress: 50, currentStep: 'OCR complete' };
@@ -171,11 +246,20 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
 
                         if (response.ok) {
                             const { data } = await response.json();
+                            // A decoded QRIS code is exact; the LLM only sees the same OCR text
+                            const { qris } = tesseractResult;
                             ocrResult = {
                                 ...tesseractResult,
                                 ...data,
                                 amount: data.amount ?? tesseractResult.amount,
                                 merchant: data.merchant || tesseractResult.merchant,
+                                categoryId: data.categoryId || tesseractResult.categoryId,
+                                ...(qris?.merchantName && { merchant: tesseractResult.merchant }),
+                                ...(qris?.amount != null && {
+                                    amount: tesseractResult.amount,
+                                    currency: tesseractResult.currency,
+                                    confidence: tesseractResult.confidence,
+                                }),
                                 enhancementUsed: true,
                             };
                             setUploadProgress(prev => {
@@ -193,24 +277,39 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                 const completedResult: ScanResult = {
                     ...ocrResult,
                     imageBase64: compressedImage,
+                    attachmentBase64,
                     status: 'completed',
                     editedType: ocrResult.transactionType || 'expense',
                     editedAmount: ocrResult.amount ? Math.abs(ocrResult.amount) : undefined,
                     editedDate: (ocrResult.date && /^\d{4}-\d{2}-\d{2}$/.test(ocrResult.date)) ? ocrResult.date : format(new Date(), 'yyyy-MM-dd'),
                     editedMerchant: ocrResult.merchant || '',
+                    editedCategoryId: ocrResult.categoryId || categoryForMcc(ocrResult.qris?.mcc, categories) || undefined,
                     isAutomated: isAutoMode,
                     fileName: item.fileName,
+                    fileHash: item.fileHash,
                 };
 
+                // No category from the template, LLM or QRIS code: ask rules and history
+                if (!completedResult.editedCategoryId && completedResult.editedMerchant) {
+                    const suggestions = await fetchCategorySuggestions(completedResult);
+                    completedResult.categorySuggestions = suggestions;
+                    if (suggestions[0]?.confidence >= AUTO_CATEGORY_CONFIDENCE) {
+                        completedResult.editedCategoryId = suggestions[0].categoryId;
+                    }
+                }
+                completedResult.needsReview = isAutoMode && !completedResult.editedCategoryId;
+
                 setResults(prev => {
                     const updated = [...prev];
                     updated[resultIndex] = completedResult;
                     return updated;
                 });
 
-                // Auto Mode Handling
-                if (isAutoMode) {
+                // Auto Mode Handling: receipts without a confident category wait for review
+                if (isAutoMode && !completedResult.needsReview) {
                     await onCreateTransaction?.(completedResult);
+                } else if (isAutoMode) {
+                    flaggedCount++;
                 }
 
                 // Mark complete in UI
@@ -253,7 +352,16 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
 
         if (isAutoMode) {
             onBatchComplete?.();
-            setResults([]);
+            if (flaggedCount > 0) {
+                // Reviewed by hand from here on, so saved as manual entries
+                setResults(prev => prev
+                    .filter(r => r.status === 'completed' && r.needsReview)
+                    .map(r => ({ ...r, isAutomated: false })));
+                setCurrentIndex(0);
+                setIsReviewMode(true);
+            } else {
+                setResults([]);
+            }
         } else if (results.length > 0 || pendingItems.length > 0) {
             // Re-evaluate if we should show review mode. 
             // Since we appended to results, check if we have completed items.
@@ -265,37 +373,17 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
             if (currentIndex === 0) setCurrentIndex(0);
         }
 
-    }, [isAutoMode, onCreateTransaction, onBatchComplete, results.length, useEnhancement, currentIndex]);
-
-
-    const processFiles = useCallback(async (files: File[]) => {
-        if (files.length === 0) return;
-
-        // Filter duplicates and queue
-        const uniqueFiles: File[] = [];
-        const ignoredFiles: string[] = [];
-
-        for (const file of files) {
-            const signature = `${file.name}-${file.size}`;
-            const isDbDuplicate = existingReceipts.some(r => r.fileName === file.name);
-
-            if (processedSignatures.has(signature) || isDbDuplicate) {
-                ignoredFiles.push(file.name);
-            } else {
-                uniqueFiles.push(file);
-                setProcessedSignatures(prev => new Set(prev).add(signature));
-            }
-        }
+    }, [isAutoMode, onCreateTransaction, onBatchComplete, results.length, useEnhancement, currentIndex, templates, categories]);
 
-        if (ignoredFiles.length > 0) alert(`Skipped ${ignoredFiles.length} duplicates`);
-        if (uniqueFiles.length === 0) return;
 
+    const queueFiles = useCallback(async (entries: { file: File; fingerprint: ImageFingerprint }[]) => {
         // Add to Queue DB
-        for (const file of uniqueFiles) {
+        for (const { file, fingerprint } of entries) {
             await queueDb.addItem({
                 id: uuid(),
                 file,
                 fileName: file.name,
+                fileHash: fingerprint.fileHash,
                 status: 'queued',
                 timestamp: Date.now(),
                 isAutoMode: isAutoMode // Persist current mode
@@ -304,8 +392,86 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
 
         // Trigger processing
         processQueue();
+    }, [processQueue, isAutoMode]);
+
+    const processFiles = useCallback(async (files: File[]) => {
+        if (files.length === 0) return;
+
+        // Duplicates are recognised by content, so renamed copies are caught
+        // and different photos that happen to share a name are not
+        const fingerprinted = await Promise.all(files.map(async file => ({
+            file,
+            fingerprint: await fingerprintImageFile(file),
+        })));
+
+        const uniqueFiles: typeof fingerprinted = [];
+        const seen = new Set(processedHashes);
+        let ignoredCount = 0;
+
+        for (const entry of fingerprinted) {
+            if (seen.has(entry.fingerprint.fileHash)) {
+                ignoredCount++;
+            } else {
+                seen.add(entry.fingerprint.fileHash);
+                uniqueFiles.push(entry);
+            }
+        }
+        setProcessedHashes(seen);
+
+        if (ignoredCount > 0) alert(`Skipped ${ignoredCount} duplicates`);
+
+        // Check against saved receipts before spending OCR on them
+        const matches: ReceiptMatch[][] = [];
+        try {
+            for (let i = 0; i < uniqueFiles.length; i += DUPLICATE_CHECK_BATCH_SIZE) {
+                const res = await fetch('/api/receipts/duplicates', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        images: uniqueFiles.slice(i, i + DUPLICATE_CHECK_BATCH_SIZE).map(e => e.fingerprint),
+                    }),
+                });
+                if (!res.ok) throw new Error('Duplicate check failed');
+                matches.push(...(await res.json()).data);
+            }
+        } catch (error) {
+            console.warn('Duplicate check failed, scanning all files:', error);
+            matches.length = 0;
+        }
+
+        const flagged = uniqueFiles.filter((_, i) => matches[i]?.length > 0);
+        const clean = uniqueFiles.filter((_, i) => !(matches[i]?.length > 0));
+
+        if (flagged.length > 0) {
+            setPendingDuplicates(prev => [
+                ...prev,
+                ...flagged.map(entry => ({
+                    ...entry,
+                    matches: matches[uniqueFiles.indexOf(entry)],
+                    previewUrl: URL.createObjectURL(entry.file),
+                    scanAnyway: false,
+                })),
+            ]);
+        }
+
+        if (clean.length === 0) {
+            setIsProcessing(false);
+            return;
+        }
+
+        await queueFiles(clean);
+
+    }, [processedHashes, queueFiles]);
 
-    }, [existingReceipts, processedSignatures, processQueue, isAutoMode]);
+    const resolvePendingDuplicates = async () => {
+        const toScan = pendingDuplicates.filter(d => d.scanAnyway);
+        pendingDuplicates.forEach(d => URL.revokeObjectURL(d.previewUrl));
+        setPendingDuplicates([]);
+
+        if (toScan.length > 0) {
+            await queueFiles(toScan);
+        }
+    };
 
 
     const handleResume = () => {
@@ -425,7 +591,7 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept="image/*"
+                        accept="image/*,application/pdf"
                         multiple
                         onChange={handleFileChange}
                         className="hidden"
@@ -440,7 +606,7 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                                 Drop receipts here
                             </h3>
                             <p className="text-xs md:text-sm text-gray-400 mt-1">
-                                Supports JPG, PNG, WebP (max 10MB)
+                                Supports JPG, PNG, WebP and PDF (max 10MB)
                             </p>
                         </div>
                     </div>
@@ -529,6 +695,89 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                 </div>
             )}
 
+            {/* Possible duplicates of saved receipts, held back from OCR */}
+            {pendingDuplicates.length > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 space-y-4 animate-in slide-in-from-top-2">
+                    <div className="flex items-center gap-3">
+                        <Copy className="w-5 h-5 text-amber-400" />
+                        <div>
+                            <h4 className="font-medium text-white">Possible Duplicates</h4>
+                            <p className="text-sm text-gray-400">
+                                {pendingDuplicates.length} file{pendingDuplicates.length > 1 ? 's look' : ' looks'} like receipts you already saved.
+                                Skip keeps just the saved receipt; Keep both scans the file as a new one.
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+                        {pendingDuplicates.map((dup, idx) => (
+                            <div key={dup.fingerprint.fileHash} className="flex flex-col sm:flex-row gap-3 bg-gray-900/50 rounded-lg p-3">
+                                <div className="flex gap-3 flex-1 min-w-0">
+                                    {isPdfFile(dup.file) ? (
+                                        <div className="w-16 h-20 rounded-md bg-gray-800 flex-shrink-0 flex items-center justify-center">
+                                            <FileText className="w-6 h-6 text-gray-500" />
+                                        </div>
+                                    ) : (
+                                        <img src={dup.previewUrl} alt={dup.file.name} className="w-16 h-20 object-cover rounded-md bg-gray-800 flex-shrink-0" />
+                                    )}
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-white truncate">{dup.file.name}</p>
+                                        <p className="text-xs text-gray-500">New file</p>
+                                    </div>
+                                </div>
+
+                                <div className="flex gap-3 flex-1 min-w-0">
+                                    <img src={dup.matches[0].thumbnailUrl} alt="" className="w-16 h-20 object-cover rounded-md bg-gray-800 flex-shrink-0" />
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-white truncate">{dup.matches[0].ocrMerchant || dup.matches[0].fileName || 'Saved receipt'}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {dup.matches[0].ocrAmount != null && formatCurrency(dup.matches[0].ocrAmount, dup.matches[0].ocrCurrency || 'IDR')}
+                                            {dup.matches[0].ocrDate && ` · ${dup.matches[0].ocrDate}`}
+                                        </p>
+                                        <p className={cn('text-xs', dup.matches[0].kind === 'exact' ? 'text-red-400' : 'text-amber-400')}>
+                                            {dup.matches[0].kind === 'exact'
+                                                ? 'Exact copy'
+                                                : `Looks similar (${Math.round((1 - dup.matches[0].distance / 64) * 100)}% match)`}
+                                            {dup.matches.length > 1 && ` · ${dup.matches.length - 1} more`}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <div className="flex bg-gray-800/50 p-1 rounded-lg self-start sm:self-center">
+                                    <button
+                                        onClick={() => setPendingDuplicates(prev => prev.map((d, i) => i === idx ? { ...d, scanAnyway: false } : d))}
+                                        className={cn(
+                                            'px-3 py-1.5 rounded-md text-xs font-medium transition-all',
+                                            !dup.scanAnyway ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                                        )}
+                                    >
+                                        Skip
+                                    </button>
+                                    <button
+                                        onClick={() => setPendingDuplicates(prev => prev.map((d, i) => i === idx ? { ...d, scanAnyway: true } : d))}
+                                        className={cn(
+                                            'px-3 py-1.5 rounded-md text-xs font-medium transition-all',
+                                            dup.scanAnyway ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-white'
+                                        )}
+                                    >
+                                        Keep both
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={resolvePendingDuplicates}
+                            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors shadow-lg shadow-blue-500/20"
+                        >
+                            {pendingDuplicates.some(d => d.scanAnyway) ? 'Continue' : 'Skip All'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Processing */}
             {isProcessing && (
                 <div className="flex items-center justify-center gap-3 py-8">
@@ -634,6 +883,21 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
                                 )}
                             </div>
 
+                            {currentResult.qris && (
+                                <p className="text-xs text-gray-400">
+                                    QRIS{currentResult.qris.nmid && ` ${currentResult.qris.nmid}`}
+                                    {currentResult.qris.merchantCity && ` · ${currentResult.qris.merchantCity}`}
+                                    {currentResult.qris.mcc && ` · MCC ${currentResult.qris.mcc}`}
+                                </p>
+                            )}
+                            {currentResult.screenshot && (
+                                <p className="text-xs text-gray-400">
+                                    {currentResult.screenshot.app} {currentResult.screenshot.direction === 'in' ? 'incoming' : 'outgoing'} transfer
+                                    {currentResult.screenshot.reference && ` · Ref ${currentResult.screenshot.reference}`}
+                                    {!!currentResult.screenshot.fee && ` · Fee ${formatCurrency(currentResult.screenshot.fee, 'IDR')}`}
+                                </p>
+                            )}
+
                             {/* Form */}
                             <div className="space-y-3">
                                 <div className="grid grid-cols-2 gap-2">
@@ -711,6 +975,28 @@ export function ReceiptScanner({ onScanComplete, onCreateTransaction, onSkip, on
 
                                 <div>
                                     <label className="text-xs sm:text-sm font-medium text-gray-400 mb-1 block">Category (Optional)</label>
+                                    {currentResult.needsReview && !currentResult.editedCategoryId && (
+                                        <p className="text-xs text-yellow-500 mb-2">Auto Pilot couldn&apos;t pick a category confidently.</p>
+                                    )}
+                                    {!!currentResult.categorySuggestions?.length && (
+                                        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                                            <span className="text-[10px] text-gray-500">Suggested:</span>
+                                            {currentResult.categorySuggestions.map((suggestion) => {
+                                                const cat = filteredCategories.find(c => c.id === suggestion.categoryId);
+                                                if (!cat) return null;
+                                                return (
+                                                    <button
+                                                        key={suggestion.categoryId}
+                                                        type="button"
+                                                        onClick={() => updateResult(results.indexOf(currentResult), { editedCategoryId: cat.id })}
+                                                        className="text-[10px] px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-300 border border-blue-500/20 hover:bg-blue-500/20"
+                                                    >
+                                                        {cat.icon} {cat.name} · {suggestion.source === 'history' ? `${Math.round(suggestion.confidence * 100)}%` : suggestion.source}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                     <div className="grid grid-cols-4 sm:grid-cols-4 gap-2">
                                         {/* Uncategorized option */}
                                         <button
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, ArrowUpRight, ArrowDownRight, Edit2 } from 'lucide-react';
+import { X, ArrowUpRight, ArrowDownRight, Edit2, FileText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { CURRENCIES } from '@/lib/currency';
 
@@ -37,7 +37,7 @@ export function ReceiptViewModal({
             if (json.data) {
                 const r = json.data;
                 setData(r);
-                setImageUrl(`/api/receipts/${r.id}/image`);
+                setImageUrl(`/api/receipts/${r.id}/image?size=preview`);
             }
         } catch (error) {
             console.error('Failed to load receipt:', error);
@@ -92,6 +92,18 @@ export function ReceiptViewModal({
                         )}
                     </div>
 
+                    {data?.attachmentHash && (
+                        <a
+                            href={`/api/receipts/${data.id}/attachment`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300"
+                        >
+                            <FileText className="w-4 h-4" />
+                            Open original PDF
+                        </a>
+                    )}
+
                     {/* Details */}
                     {data && (
                         <div className="space-y-4">
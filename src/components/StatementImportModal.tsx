@@ -0,0 +1,603 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Upload, FileText, AlertTriangle, Check, Copy, Trash2 } from 'lucide-react';
+import { parseCsv, guessMapping, DATE_FORMATS, type CsvMapping, type CsvRow, type CsvRowError } from '@/lib/csv-import';
+import { formatCurrency, CURRENCIES } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface Account {
+    id: string;
+    name: string;
+    currency: string | null;
+    isArchived?: boolean | null;
+}
+
+interface Category {
+    id: string;
+    name: string;
+    type: 'income' | 'expense';
+}
+
+interface ImportProfile {
+    id: string;
+    name: string;
+    mapping: CsvMapping;
+    accountId: string | null;
+    currency: string | null;
+}
+
+interface PreviewData {
+    rows: (CsvRow & { duplicate: boolean })[];
+    errors: CsvRowError[];
+    summary: { total: number; new: number; duplicates: number; errors: number };
+}
+
+interface ImportResult {
+    imported: number;
+    skippedDuplicates: number;
+    errors: CsvRowError[];
+}
+
+interface StatementImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+    accounts: Account[];
+    categories: Category[];
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+// CSV needs a column mapping; OFX/QFX and QIF describe their own layout
+type FileFormat = 'csv' | 'ofx' | 'qif';
+
+function detectFormat(fileName: string, content: string): FileFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content)) return 'ofx';
+    if (extension === 'qif' || /^!(Type|Account|Option)/im.test(content)) return 'qif';
+    return 'csv';
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800/50 border border-gray-700 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const DELIMITERS: { value: CsvMapping['delimiter']; label: string }[] = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+export function StatementImportModal({ isOpen, onClose, onImported, accounts, categories }: StatementImportModalProps) {
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [fileFormat, setFileFormat] = useState<FileFormat>('csv');
+    const [csvText, setCsvText] = useState('');
+    const [dateOrder, setDateOrder] = useState<'MDY' | 'DMY'>('MDY');
+    const [mapping, setMapping] = useState<CsvMapping | null>(null);
+    const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+    const [profileId, setProfileId] = useState('');
+    const [profileName, setProfileName] = useState('');
+    const [saveProfile, setSaveProfile] = useState(false);
+    const [accountId, setAccountId] = useState('');
+    const [currency, setCurrency] = useState('IDR');
+    const [categoryId, setCategoryId] = useState('');
+    const [preview, setPreview] = useState<PreviewData | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchProfiles();
+        }
+    }, [isOpen]);
+
+    const fetchProfiles = async () => {
+        try {
+            const res = await fetch('/api/import/profiles');
+            const data = await res.json();
+            setProfiles(data.data || []);
+        } catch (err) {
+            console.error('Failed to fetch import profiles:', err);
+        }
+    };
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setCsvText('');
+        setMapping(null);
+        setPreview(null);
+        setResult(null);
+        setError(null);
+        setSaveProfile(false);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const applyProfile = (id: string) => {
+        setProfileId(id);
+        const profile = profiles.find(p => p.id === id);
+        if (!profile) return;
+        setMapping(profile.mapping);
+        setProfileName(profile.name);
+        setAccountId(profile.accountId || '');
+        setCurrency(profile.currency || 'IDR');
+    };
+
+    const handleFile = async (file: File) => {
+        const text = await file.text();
+        const detected = detectFormat(file.name, text);
+        setFileName(file.name);
+        setFileFormat(detected);
+        setCsvText(text);
+        setError(null);
+
+        const profile = profiles.find(p => p.id === profileId);
+        setMapping(detected !== 'csv' ? null : profile ? profile.mapping : guessMapping(text));
+        setStep('map');
+    };
+
+    const handleDeleteProfile = async () => {
+        if (!profileId || !confirm('Delete this import profile?')) return;
+        try {
+            await fetch(`/api/import/profiles?id=${profileId}`, { method: 'DELETE' });
+            setProfiles(profiles.filter(p => p.id !== profileId));
+            setProfileId('');
+            setProfileName('');
+        } catch (err) {
+            console.error('Failed to delete import profile:', err);
+        }
+    };
+
+    const updateMapping = (changes: Partial<CsvMapping>) => {
+        if (mapping) setMapping({ ...mapping, ...changes });
+    };
+
+    const updateColumn = (key: keyof CsvMapping['columns'], value: string) => {
+        if (!mapping) return;
+        setMapping({ ...mapping, columns: { ...mapping.columns, [key]: value === '' ? null : parseInt(value) } });
+    };
+
+    const selectAccount = (id: string) => {
+        setAccountId(id);
+        const account = accounts.find(a => a.id === id);
+        if (account?.currency) setCurrency(account.currency);
+    };
+
+    const requestBody = (dryRun: boolean) => JSON.stringify({
+        ...(fileFormat === 'csv'
+            ? { csv: csvText, mapping }
+            : { content: csvText, dateOrder }),
+        accountId: accountId || null,
+        categoryId: categoryId || null,
+        currency,
+        dryRun,
+    });
+
+    const handlePreview = async () => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/import/${fileFormat}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: requestBody(true),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to read file');
+            setPreview(data.data);
+            setStep('preview');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read file');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            if (fileFormat === 'csv' && saveProfile && profileName.trim()) {
+                const existing = profiles.find(p => p.id === profileId);
+                await fetch('/api/import/profiles', {
+                    method: existing ? 'PUT' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        ...(existing && { id: existing.id }),
+                        name: profileName.trim(),
+                        mapping,
+                        accountId: accountId || null,
+                        currency,
+                    }),
+                });
+            }
+
+            const res = await fetch(`/api/import/${fileFormat}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: requestBody(false),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Import failed');
+            setResult(data.data);
+            setStep('done');
+            onImported();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Import failed');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    // Column choices come from the header row (or plain numbers without one)
+    const parsedRows = mapping ? parseCsv(csvText, mapping.delimiter) : [];
+    const headerRow = mapping && mapping.hasHeader ? parsedRows[mapping.skipRows] || [] : [];
+    const dataRows = mapping ? parsedRows.slice(mapping.skipRows + (mapping.hasHeader ? 1 : 0)) : [];
+    const columnCount = Math.max(headerRow.length, ...dataRows.slice(0, 20).map(r => r.length), 0);
+    const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+        value: i.toString(),
+        label: headerRow[i] ? `${i + 1}. ${headerRow[i]}` : `Column ${i + 1}`,
+    }));
+
+    const columnSelect = (label: string, key: keyof CsvMapping['columns'], optional = false) => (
+        <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+            <select
+                value={mapping?.columns[key]?.toString() ?? ''}
+                onChange={(e) => updateColumn(key, e.target.value)}
+                className={inputClass}
+            >
+                {optional && <option value="">—</option>}
+                {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+            <div className="relative w-full max-w-3xl bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6 max-h-[90vh] overflow-y-auto">
+                <button
+                    onClick={handleClose}
+                    className="absolute top-4 right-4 p-2 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white transition-colors"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+                <h2 className="text-xl font-bold text-white mb-1">Import Bank Statement</h2>
+                <p className="text-sm text-gray-400 mb-6">
+                    {step === 'upload' && 'Upload a CSV export from your bank (BCA, Mandiri, Jenius...) or an OFX, QFX or QIF file'}
+                    {step === 'map' && (fileFormat === 'csv' ? `Map the columns of ${fileName}` : `Choose where ${fileName} goes`)}
+                    {step === 'preview' && 'Review before importing'}
+                    {step === 'done' && 'Import finished'}
+                </p>
+
+                {error && (
+                    <div className="flex items-center gap-2 p-3 mb-4 bg-red-500/10 border border-red-500/20 rounded-xl text-sm text-red-400">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        {error}
+                    </div>
+                )}
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        {profiles.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-400 mb-1">Saved profile</label>
+                                <div className="flex gap-2">
+                                    <select value={profileId} onChange={(e) => applyProfile(e.target.value)} className={inputClass}>
+                                        <option value="">Detect columns automatically</option>
+                                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                    {profileId && (
+                                        <button
+                                            onClick={handleDeleteProfile}
+                                            className="p-2 border border-gray-700 rounded-xl text-gray-400 hover:text-red-400 hover:bg-gray-800 transition-colors"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-700 rounded-2xl cursor-pointer hover:border-blue-500/50 hover:bg-gray-800/30 transition-colors">
+                            <Upload className="w-8 h-8 text-gray-500" />
+                            <span className="text-sm text-gray-400">Choose a .csv, .ofx, .qfx or .qif file</span>
+                            <input
+                                type="file"
+                                accept=".csv,.txt,.ofx,.qfx,.qif,text/csv"
+                                className="hidden"
+                                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                            />
+                        </label>
+                    </div>
+                )}
+
+                {step === 'map' && (
+                    <div className="space-y-5">
+                        {mapping && (
+                            <>
+                                {/* File layout */}
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Delimiter</label>
+                                        <select
+                                            value={mapping.delimiter}
+                                            onChange={(e) => updateMapping({ delimiter: e.target.value as CsvMapping['delimiter'] })}
+                                            className={inputClass}
+                                        >
+                                            {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Skip lines</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={100}
+                                            value={mapping.skipRows}
+                                            onChange={(e) => updateMapping({ skipRows: Math.max(0, parseInt(e.target.value) || 0) })}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Date format</label>
+                                        <select
+                                            value={mapping.dateFormat}
+                                            onChange={(e) => updateMapping({ dateFormat: e.target.value })}
+                                            className={inputClass}
+                                        >
+                                            {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Decimal</label>
+                                        <select
+                                            value={mapping.decimalSeparator}
+                                            onChange={(e) => updateMapping({ decimalSeparator: e.target.value as CsvMapping['decimalSeparator'] })}
+                                            className={inputClass}
+                                        >
+                                            <option value=".">1,234.56</option>
+                                            <option value=",">1.234,56</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={mapping.hasHeader}
+                                        onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                                    />
+                                    First line after the skipped ones is a header
+                                </label>
+
+                                {/* Column mapping */}
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                                    {columnSelect('Date', 'date')}
+                                    {columnSelect('Description', 'description')}
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Amount layout</label>
+                                        <select
+                                            value={mapping.amountMode}
+                                            onChange={(e) => updateMapping({ amountMode: e.target.value as CsvMapping['amountMode'] })}
+                                            className={inputClass}
+                                        >
+                                            <option value="signed">One column, negative = expense</option>
+                                            <option value="debit_credit">Separate debit / credit</option>
+                                            <option value="indicator">Amount + DB/CR column</option>
+                                        </select>
+                                    </div>
+                                    {mapping.amountMode === 'debit_credit' ? (
+                                        <>
+                                            {columnSelect('Debit (money out)', 'debit')}
+                                            {columnSelect('Credit (money in)', 'credit')}
+                                        </>
+                                    ) : (
+                                        columnSelect('Amount', 'amount')
+                                    )}
+                                    {mapping.amountMode === 'indicator' && (
+                                        <>
+                                            {columnSelect('DB/CR column', 'indicator')}
+                                            <div>
+                                                <label className="block text-xs font-medium text-gray-400 mb-1">Expense marker</label>
+                                                <input
+                                                    type="text"
+                                                    value={mapping.debitIndicator || ''}
+                                                    onChange={(e) => updateMapping({ debitIndicator: e.target.value })}
+                                                    placeholder="DB"
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            </>
+                        )}
+
+                        {/* Target */}
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-400 mb-1">Account</label>
+                                <select value={accountId} onChange={(e) => selectAccount(e.target.value)} className={inputClass}>
+                                    <option value="">No account</option>
+                                    {accounts.filter(a => !a.isArchived).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                </select>
+                            </div>
+                            {fileFormat !== 'ofx' && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Currency</label>
+                                    <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+                                        {Object.keys(CURRENCIES).map(code => <option key={code} value={code}>{code}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-xs font-medium text-gray-400 mb-1">Category</label>
+                                <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+                                    <option value="">Uncategorized</option>
+                                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            {fileFormat === 'qif' && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Date order</label>
+                                    <select
+                                        value={dateOrder}
+                                        onChange={(e) => setDateOrder(e.target.value as 'MDY' | 'DMY')}
+                                        className={inputClass}
+                                    >
+                                        <option value="MDY">MM/DD/YYYY (Quicken)</option>
+                                        <option value="DMY">DD/MM/YYYY</option>
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+
+                        {mapping && (
+                            <>
+                                {/* Raw preview */}
+                                <div className="overflow-x-auto border border-gray-800 rounded-xl">
+                                    <table className="w-full text-xs text-gray-300">
+                                        {headerRow.length > 0 && (
+                                            <thead className="bg-gray-800/50 text-gray-400">
+                                                <tr>{headerRow.map((h, i) => <th key={i} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{h}</th>)}</tr>
+                                            </thead>
+                                        )}
+                                        <tbody>
+                                            {dataRows.slice(0, 5).map((r, i) => (
+                                                <tr key={i} className="border-t border-gray-800">
+                                                    {r.map((c, j) => <td key={j} className="px-2 py-1.5 whitespace-nowrap">{c}</td>)}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                {/* Profile */}
+                                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                                        <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+                                        Save mapping as profile
+                                    </label>
+                                    {saveProfile && (
+                                        <input
+                                            type="text"
+                                            value={profileName}
+                                            onChange={(e) => setProfileName(e.target.value)}
+                                            placeholder="e.g. BCA"
+                                            className={cn(inputClass, 'sm:max-w-xs')}
+                                        />
+                                    )}
+                                </div>
+                            </>
+                        )}
+
+                        <div className="flex justify-end gap-3">
+                            <button
+                                onClick={reset}
+                                className="px-4 py-2 border border-gray-700 rounded-xl text-gray-300 hover:bg-gray-800 transition-colors"
+                            >
+                                Back
+                            </button>
+                            <button
+                                onClick={handlePreview}
+                                disabled={isWorking}
+                                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium disabled:opacity-50"
+                            >
+                                <FileText className="w-4 h-4" />
+                                {isWorking ? 'Reading...' : 'Preview'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'preview' && preview && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-3 gap-3 text-center">
+                            <div className="p-3 rounded-xl bg-green-500/10 border border-green-500/20">
+                                <p className="text-2xl font-bold text-green-400">{preview.summary.new}</p>
+                                <p className="text-xs text-gray-400">new</p>
+                            </div>
+                            <div className="p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20">
+                                <p className="text-2xl font-bold text-yellow-400">{preview.summary.duplicates}</p>
+                                <p className="text-xs text-gray-400">already recorded</p>
+                            </div>
+                            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+                                <p className="text-2xl font-bold text-red-400">{preview.summary.errors}</p>
+                                <p className="text-xs text-gray-400">unreadable</p>
+                            </div>
+                        </div>
+
+                        <div className="max-h-80 overflow-y-auto border border-gray-800 rounded-xl divide-y divide-gray-800">
+                            {preview.rows.map(row => (
+                                <div key={row.line} className={cn('flex items-center gap-3 px-3 py-2 text-sm', row.duplicate && 'opacity-50')}>
+                                    <span className="text-gray-500 text-xs w-24 flex-shrink-0">{row.date}</span>
+                                    <span className="flex-1 truncate text-gray-200">{row.description || '—'}</span>
+                                    {row.duplicate && (
+                                        <span className="flex items-center gap-1 text-[10px] text-yellow-400 bg-yellow-500/10 px-1.5 py-0.5 rounded">
+                                            <Copy className="w-3 h-3" />
+                                            Duplicate
+                                        </span>
+                                    )}
+                                    <span className={cn('font-medium flex-shrink-0', row.type === 'income' ? 'text-green-400' : 'text-red-400')}>
+                                        {row.type === 'income' ? '+' : '-'}{formatCurrency(row.amount, currency)}
+                                    </span>
+                                </div>
+                            ))}
+                            {preview.errors.map(e => (
+                                <div key={`error-${e.line}`} className="flex items-center gap-3 px-3 py-2 text-xs text-red-400">
+                                    <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                                    Line {e.line}: {e.error}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex justify-end gap-3">
+                            <button
+                                onClick={() => setStep('map')}
+                                className="px-4 py-2 border border-gray-700 rounded-xl text-gray-300 hover:bg-gray-800 transition-colors"
+                            >
+                                Back
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={isWorking || preview.summary.new === 0}
+                                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium disabled:opacity-50"
+                            >
+                                <Upload className="w-4 h-4" />
+                                {isWorking ? 'Importing...' : `Import ${preview.summary.new} transactions`}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'done' && result && (
+                    <div className="space-y-4 text-center">
+                        <div className="w-14 h-14 mx-auto rounded-full bg-green-500/10 flex items-center justify-center">
+                            <Check className="w-7 h-7 text-green-400" />
+                        </div>
+                        <p className="text-white font-medium">
+                            Imported {result.imported} transactions
+                            {result.skippedDuplicates > 0 && `, skipped ${result.skippedDuplicates} duplicates`}
+                        </p>
+                        {result.errors.length > 0 && (
+                            <p className="text-sm text-red-400">{result.errors.length} lines could not be imported</p>
+                        )}
+                        <button
+                            onClick={handleClose}
+                            className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                        >
+                            Done
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
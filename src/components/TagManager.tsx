@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Edit2 } from 'lucide-react';
+
+interface Tag {
+    id: string;
+    name: string;
+    color: string | null;
+    transactionCount: number;
+}
+
+const emptyTagForm = {
+    name: '',
+    color: '#6366F1',
+};
+
+export function TagManager() {
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [showModal, setShowModal] = useState(false);
+    const [editingTag, setEditingTag] = useState<Tag | null>(null);
+    const [tagForm, setTagForm] = useState(emptyTagForm);
+    const [tagError, setTagError] = useState('');
+
+    const fetchTags = () => fetch('/api/tags')
+        .then(res => res.json())
+        .then(data => setTags(data.data || []))
+        .catch(error => console.error('Failed to fetch tags:', error));
+
+    useEffect(() => {
+        fetchTags();
+    }, []);
+
+    const openTagModal = (tag?: Tag) => {
+        setEditingTag(tag || null);
+        setTagError('');
+        setTagForm(tag ? {
+            name: tag.name,
+            color: tag.color || emptyTagForm.color,
+        } : emptyTagForm);
+        setShowModal(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setTagError('');
+
+        try {
+            const response = await fetch('/api/tags', {
+                method: editingTag ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(editingTag && { id: editingTag.id }),
+                    ...tagForm,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                setTagError(data.error || 'Failed to save tag');
+                return;
+            }
+
+            setShowModal(false);
+            setEditingTag(null);
+            fetchTags();
+        } catch (error) {
+            console.error('Failed to save tag:', error);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this tag? It is removed from its transactions and rules.')) return;
+
+        try {
+            await fetch(`/api/tags?id=${id}`, { method: 'DELETE' });
+            fetchTags();
+        } catch (error) {
+            console.error('Failed to delete tag:', error);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <button
+                onClick={() => openTagModal()}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+            >
+                <Plus className="w-5 h-5" />
+                Add Tag
+            </button>
+
+            <div className="glass-card rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-1">Tags</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Tags cut across categories (&quot;#vacation&quot;, &quot;#reimbursable&quot;). A transaction can carry
+                    several; filter by them on the transactions page or add them automatically with rules.
+                </p>
+                {tags.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tags yet. Add one here or while editing a transaction.</p>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {tags.map((tag) => (
+                            <div key={tag.id} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-xl">
+                                <span
+                                    className="w-3 h-3 rounded-full flex-shrink-0"
+                                    style={{ backgroundColor: tag.color || '#6B7280' }}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white truncate">#{tag.name}</p>
+                                    <p className="text-xs text-gray-500">{tag.transactionCount} transactions</p>
+                                </div>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => openTagModal(tag)}
+                                        className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-md"
+                                    >
+                                        <Edit2 className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(tag.id)}
+                                        className="p-1.5 text-gray-300 hover:text-red-400 hover:bg-red-500/10 rounded-md"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Tag Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm">
+                    <div className="w-full max-w-md bg-gray-900 rounded-2xl shadow-2xl border border-gray-800 p-6">
+                        <h2 className="text-xl font-bold text-white mb-6">
+                            {editingTag ? 'Edit Tag' : 'New Tag'}
+                        </h2>
+
+                        {tagError && (
+                            <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+                                <p className="text-red-400 text-sm">{tagError}</p>
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <input
+                                type="text"
+                                value={tagForm.name}
+                                onChange={(e) => setTagForm({ ...tagForm, name: e.target.value })}
+                                placeholder="Tag name (e.g. vacation)"
+                                maxLength={50}
+                                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white"
+                                required
+                            />
+
+                            <div className="space-y-2">
+                                <label className="text-sm text-gray-400">Color</label>
+                                <input
+                                    type="color"
+                                    value={tagForm.color}
+                                    onChange={(e) => setTagForm({ ...tagForm, color: e.target.value })}
+                                    className="w-16 h-10 bg-transparent border border-gray-700 rounded-lg"
+                                />
+                            </div>
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setShowModal(false);
+                                        setEditingTag(null);
+                                    }}
+                                    className="flex-1 py-3 border border-gray-700 rounded-xl text-gray-300"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl text-white font-medium"
+                                >
+                                    {editingTag ? 'Update' : 'Create'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { CURRENCIES, CurrencyCode, formatCurrency } from '@/lib/currency';
-import { X, Calendar, DollarSign, Tag, FileText, RefreshCw, Trash2 } from 'lucide-react';
+import { X, Calendar, DollarSign, Tag, Tags, FileText, RefreshCw, Trash2, Wallet, ArrowLeftRight } from 'lucide-react';
 
 interface Category {
     id: string;
@@ -14,19 +14,39 @@ interface Category {
     color: string;
 }
 
+interface Account {
+    id: string;
+    name: string;
+    currency: string | null;
+    isArchived?: boolean | null;
+}
+
+interface TagOption {
+    id: string;
+    name: string;
+    color: string | null;
+}
+
 interface TransactionFormData {
-    type: 'income' | 'expense';
+    type: 'income' | 'expense' | 'transfer';
     amount: string;
     currency: string;
     categoryId: string;
+    accountId: string; // source account for transfers
+    toAccountId: string;
+    toAmount: string; // amount received when the accounts' currencies differ
+    fee: string;
     description: string;
     date: string;
     receiptId?: string;
+    tagIds: string[];
 }
 
 interface TransactionFormProps {
     initialData?: Partial<TransactionFormData> & { id?: string };
     categories: Category[];
+    accounts?: Account[];
+    tags?: TagOption[];
     onSubmit: (data: TransactionFormData) => Promise<void>;
     onCancel: () => void;
     onDelete?: () => Promise<void>;
@@ -36,6 +56,8 @@ interface TransactionFormProps {
 export function TransactionForm({
     initialData,
     categories,
+    accounts = [],
+    tags = [],
     onSubmit,
     onCancel,
     onDelete,
@@ -46,12 +68,20 @@ export function TransactionForm({
         amount: initialData?.amount?.toString() || '',
         currency: initialData?.currency || 'IDR',
         categoryId: initialData?.categoryId || '',
+        accountId: initialData?.accountId || '',
+        toAccountId: initialData?.toAccountId || '',
+        toAmount: initialData?.toAmount || '',
+        fee: initialData?.fee || '',
         description: initialData?.description || '',
         date: initialData?.date || format(new Date(), 'yyyy-MM-dd'),
         receiptId: initialData?.receiptId,
+        tagIds: initialData?.tagIds || [],
     });
 
     const [exchangeRate, setExchangeRate] = useState<number | null>(null);
+    const [createdTags, setCreatedTags] = useState<TagOption[]>([]);
+    const [newTagName, setNewTagName] = useState('');
+    const tagOptions = [...tags, ...createdTags.filter((t) => !tags.some((o) => o.id === t.id))];
 
     // Sync formData when initialData changes (e.g., opening modal with new receipt)
     useEffect(() => {
@@ -61,14 +91,37 @@ export function TransactionForm({
                 amount: initialData.amount?.toString() || '',
                 currency: initialData.currency || 'IDR',
                 categoryId: initialData.categoryId || '',
+                accountId: initialData.accountId || '',
+                toAccountId: initialData.toAccountId || '',
+                toAmount: initialData.toAmount || '',
+                fee: initialData.fee || '',
                 description: initialData.description || '',
                 date: initialData.date || format(new Date(), 'yyyy-MM-dd'),
                 receiptId: initialData.receiptId,
+                tagIds: initialData.tagIds || [],
             });
         }
     }, [initialData]);
 
     const filteredCategories = categories.filter((c) => c.type === formData.type);
+    const activeAccounts = accounts.filter(
+        (a) => !a.isArchived || a.id === formData.accountId || a.id === formData.toAccountId
+    );
+    const isTransfer = formData.type === 'transfer';
+    const fromAccount = accounts.find((a) => a.id === formData.accountId);
+    const toAccount = accounts.find((a) => a.id === formData.toAccountId);
+    const isCrossCurrency = isTransfer && !!fromAccount && !!toAccount
+        && (fromAccount.currency || 'IDR') !== (toAccount.currency || 'IDR');
+
+    // Transfers are denominated in the source account's currency
+    const selectSourceAccount = (accountId: string) => {
+        const account = accounts.find((a) => a.id === accountId);
+        setFormData({
+            ...formData,
+            accountId,
+            ...(isTransfer && account && { currency: account.currency || 'IDR' }),
+        });
+    };
 
     useEffect(() => {
         // Fetch exchange rate when currency changes
@@ -86,6 +139,36 @@ export function TransactionForm({
         await onSubmit(formData);
     };
 
+    const toggleTag = (tagId: string) => {
+        setFormData({
+            ...formData,
+            tagIds: formData.tagIds.includes(tagId)
+                ? formData.tagIds.filter((id) => id !== tagId)
+                : [...formData.tagIds, tagId],
+        });
+    };
+
+    // Typing a tag name that doesn't exist yet creates it (the API returns an existing one as is)
+    const addTag = async () => {
+        const name = newTagName.trim();
+        if (!name) return;
+        try {
+            const res = await fetch('/api/tags', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name }),
+            });
+            const data = await res.json();
+            if (!res.ok) return;
+            const tag: TagOption = { id: data.data.id, name: data.data.name, color: data.data.color ?? null };
+            if (!tagOptions.some((t) => t.id === tag.id)) setCreatedTags([...createdTags, tag]);
+            if (!formData.tagIds.includes(tag.id)) setFormData({ ...formData, tagIds: [...formData.tagIds, tag.id] });
+            setNewTagName('');
+        } catch (error) {
+            console.error('Failed to create tag:', error);
+        }
+    };
+
     const handleDelete = async () => {
         if (onDelete && confirm('Are you sure you want to delete this transaction?')) {
             await onDelete();
@@ -124,6 +207,25 @@ export function TransactionForm({
                 >
                     Income
                 </button>
+                {(activeAccounts.length >= 2 || isTransfer) && (
+                    <button
+                        type="button"
+                        onClick={() => setFormData({
+                            ...formData,
+                            type: 'transfer',
+                            categoryId: '',
+                            currency: fromAccount?.currency || formData.currency,
+                        })}
+                        className={cn(
+                            'flex-1 py-3 rounded-lg font-medium transition-all',
+                            isTransfer
+                                ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30'
+                                : 'text-gray-400 hover:text-white'
+                        )}
+                    >
+                        Transfer
+                    </button>
+                )}
             </div>
 
             {/* Amount & Currency */}
@@ -147,7 +249,8 @@ export function TransactionForm({
                     <select
                         value={formData.currency}
                         onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
-                        className="px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        disabled={isTransfer}
+                        className="px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
                     >
                         {Object.entries(CURRENCIES).map(([code, info]) => (
                             <option key={code} value={code}>
@@ -163,48 +266,152 @@ export function TransactionForm({
                 )}
             </div>
 
+            {/* Transfer legs */}
+            {isTransfer && (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-400">
+                                <Wallet className="w-4 h-4" />
+                                From
+                            </label>
+                            <select
+                                value={formData.accountId}
+                                onChange={(e) => selectSourceAccount(e.target.value)}
+                                className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                            >
+                                <option value="">Select…</option>
+                                {activeAccounts.map((account) => (
+                                    <option key={account.id} value={account.id}>
+                                        {account.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <ArrowLeftRight className="w-4 h-4 text-gray-500 mb-4" />
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-400">
+                                <Wallet className="w-4 h-4" />
+                                To
+                            </label>
+                            <select
+                                value={formData.toAccountId}
+                                onChange={(e) => setFormData({ ...formData, toAccountId: e.target.value })}
+                                className="w-full px-3 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required
+                            >
+                                <option value="">Select…</option>
+                                {activeAccounts
+                                    .filter((account) => account.id !== formData.accountId)
+                                    .map((account) => (
+                                        <option key={account.id} value={account.id}>
+                                            {account.name}
+                                        </option>
+                                    ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {isCrossCurrency && (
+                        <div className="space-y-2">
+                            <label className="text-sm text-gray-400">
+                                Amount received ({toAccount?.currency || 'IDR'})
+                            </label>
+                            <input
+                                type="number"
+                                step="any"
+                                value={formData.toAmount}
+                                onChange={(e) => setFormData({ ...formData, toAmount: e.target.value })}
+                                placeholder="Leave empty to convert at the current rate"
+                                className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <label className="text-sm text-gray-400">
+                            Fee (optional, {fromAccount?.currency || formData.currency})
+                        </label>
+                        <input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={formData.fee}
+                            onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+                            placeholder="0"
+                            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                </div>
+            )}
+
             {/* Category */}
-            <div className="space-y-2">
-                <label className="flex items-center gap-2 text-sm text-gray-400">
-                    <Tag className="w-4 h-4" />
-                    Category
-                </label>
-                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
-                    <button
-                        type="button"
-                        onClick={() => setFormData({ ...formData, categoryId: '' })}
-                        className={cn(
-                            'flex flex-col items-center gap-1 p-3 rounded-xl border transition-all',
-                            formData.categoryId === ''
-                                ? 'border-blue-500 bg-blue-500/20'
-                                : 'border-gray-700 hover:border-gray-600 bg-gray-800/30'
-                        )}
-                    >
-                        <span className="text-2xl">🚫</span>
-                        <span className="text-xs text-gray-300 truncate w-full text-center">
-                            None
-                        </span>
-                    </button>
-                    {filteredCategories.map((cat) => (
+            {!isTransfer && (
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <Tag className="w-4 h-4" />
+                        Category
+                    </label>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
                         <button
-                            key={cat.id}
                             type="button"
-                            onClick={() => setFormData({ ...formData, categoryId: cat.id })}
+                            onClick={() => setFormData({ ...formData, categoryId: '' })}
                             className={cn(
                                 'flex flex-col items-center gap-1 p-3 rounded-xl border transition-all',
-                                formData.categoryId === cat.id
+                                formData.categoryId === ''
                                     ? 'border-blue-500 bg-blue-500/20'
                                     : 'border-gray-700 hover:border-gray-600 bg-gray-800/30'
                             )}
                         >
-                            <span className="text-2xl">{cat.icon}</span>
+                            <span className="text-2xl">🚫</span>
                             <span className="text-xs text-gray-300 truncate w-full text-center">
-                                {cat.name}
+                                None
                             </span>
                         </button>
-                    ))}
+                        {filteredCategories.map((cat) => (
+                            <button
+                                key={cat.id}
+                                type="button"
+                                onClick={() => setFormData({ ...formData, categoryId: cat.id })}
+                                className={cn(
+                                    'flex flex-col items-center gap-1 p-3 rounded-xl border transition-all',
+                                    formData.categoryId === cat.id
+                                        ? 'border-blue-500 bg-blue-500/20'
+                                        : 'border-gray-700 hover:border-gray-600 bg-gray-800/30'
+                                )}
+                            >
+                                <span className="text-2xl">{cat.icon}</span>
+                                <span className="text-xs text-gray-300 truncate w-full text-center">
+                                    {cat.name}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
                 </div>
-            </div>
+            )}
+
+            {/* Account */}
+            {!isTransfer && activeAccounts.length > 0 && (
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <Wallet className="w-4 h-4" />
+                        Account
+                    </label>
+                    <select
+                        value={formData.accountId}
+                        onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                        className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="">No account</option>
+                        {activeAccounts.map((account) => (
+                            <option key={account.id} value={account.id}>
+                                {account.name} ({account.currency || 'IDR'})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
 
             {/* Date */}
             <div className="space-y-2">
@@ -236,6 +443,48 @@ export function TransactionForm({
                 />
             </div>
 
+            {/* Tags */}
+            {!isTransfer && (
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <Tags className="w-4 h-4" />
+                        Tags (optional)
+                    </label>
+                    {tagOptions.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {tagOptions.map((tag) => (
+                                <button
+                                    key={tag.id}
+                                    type="button"
+                                    onClick={() => toggleTag(tag.id)}
+                                    className={cn(
+                                        'px-3 py-1 rounded-full text-xs border transition-all',
+                                        formData.tagIds.includes(tag.id)
+                                            ? 'border-blue-500 bg-blue-500/20 text-white'
+                                            : 'border-gray-700 bg-gray-800/30 text-gray-400 hover:border-gray-600'
+                                    )}
+                                >
+                                    #{tag.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <input
+                        type="text"
+                        value={newTagName}
+                        onChange={(e) => setNewTagName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                addTag();
+                            }
+                        }}
+                        placeholder="New tag, e.g. trip-bali-2026 (Enter to add)"
+                        className="w-full px-4 py-2 bg-gray-800/50 border border-gray-700 rounded-xl text-white text-sm placeholder:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-4">
                 {initialData?.id && onDelete && (
@@ -262,13 +511,15 @@ export function TransactionForm({
                         'flex-1 py-3 px-4 rounded-xl font-medium transition-all flex items-center justify-center gap-2',
                         formData.type === 'expense'
                             ? 'bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600'
-                            : 'bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600',
+                            : isTransfer
+                                ? 'bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600'
+                                : 'bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600',
                         'text-white shadow-lg',
                         (isLoading || !formData.amount) && 'opacity-50 cursor-not-allowed'
                     )}
                 >
                     {isLoading && <RefreshCw className="w-4 h-4 animate-spin" />}
-                    {initialData?.id ? 'Update' : 'Add'} {formData.type === 'income' ? 'Income' : 'Expense'}
+                    {initialData?.id ? 'Update' : 'Add'} {formData.type === 'income' ? 'Income' : isTransfer ? 'Transfer' : 'Expense'}
                 </button>
             </div>
         </form>
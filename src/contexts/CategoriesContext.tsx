@@ -1,21 +1,25 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { buildCategoryTree, type CategoryNode } from '@/lib/category-tree';
 
 export interface Category {
     id: string;
     name: string;
     type: 'income' | 'expense';
+    parentId: string | null;
     icon: string;
     color: string;
 }
 
 interface CategoriesContextType {
     categories: Category[];
+    categoryTree: CategoryNode<Category>[];
     isLoading: boolean;
     error: string | null;
     refreshCategories: () => Promise<void>;
+    moveCategory: (id: string, parentId: string | null) => Promise<void>;
 }
 
 const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
@@ -62,8 +66,24 @@ export function CategoriesProvider({ children }: { children: React.ReactNode })
         await fetchCategories(true);
     };
 
+    const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+    // Re-parent a category (null = top level). Throws with the API's message, e.g. on a cycle.
+    const moveCategory = async (id: string, parentId: string | null) => {
+        const response = await fetch('/api/categories', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id, parentId }),
+        });
+        if (!response.ok) {
+            const data = await response.json();
+            throw new Error(data.error || 'Failed to move category');
+        }
+        await fetchCategories(true);
+    };
+
     return (
-        <CategoriesContext.Provider value={{ categories, isLoading, error, refreshCategories }}>
+        <CategoriesContext.Provider value={{ categories, categoryTree, isLoading, error, refreshCategories, moveCategory }}>
             {children}
         </CategoriesContext.Provider>
     );
@@ -9,4 +9,7 @@ const client = createClient({
 
 export const db = drizzle(client, { schema });
 
+// The handle passed to db.transaction callbacks
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export { schema };
@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { text, integer, real, sqliteTable, index } from 'drizzle-orm/sqlite-core';
+import { text, integer, real, sqliteTable, index, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 
 // Users table
 export const users = sqliteTable('users', {
@@ -8,6 +8,7 @@ export const users = sqliteTable('users', {
   password: text('password').notNull(), // bcrypt hashed
   name: text('name'),
   defaultCurrency: text('default_currency').default('IDR'),
+  merchantsSeeded: integer('merchants_seeded', { mode: 'boolean' }).default(false), // default merchants added once
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -17,29 +18,98 @@ export const categories = sqliteTable('categories', {
   userId: text('user_id').references(() => users.id),
   name: text('name').notNull(),
   type: text('type', { enum: ['income', 'expense'] }).notNull(),
+  parentId: text('parent_id').references((): AnySQLiteColumn => categories.id, { onDelete: 'set null' }), // null = top level
   icon: text('icon'),
   color: text('color'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
-});
+}, (table) => ({
+  parentIdx: index('idx_categories_parent').on(table.parentId),
+}));
+
+// Accounts table (bank accounts, e-wallets, cash, credit cards)
+export const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').references(() => users.id),
+  name: text('name').notNull(),
+  type: text('type', { enum: ['bank', 'ewallet', 'cash', 'credit_card'] }).notNull(),
+  currency: text('currency').default('IDR'),
+  openingBalance: real('opening_balance').notNull().default(0),
+  openingDate: text('opening_date'), // Transactions before this date are ignored in the balance
+  icon: text('icon'),
+  color: text('color'),
+  isArchived: integer('is_archived', { mode: 'boolean' }).default(false),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdx: index('idx_accounts_user').on(table.userId),
+}));
+
+// Merchant directory: one canonical name per store or brand (see lib/merchants.ts)
+export const merchants = sqliteTable('merchants', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // canonical, e.g. "Alfamart"
+  aliases: text('aliases').notNull().default('[]'), // JSON: other spellings, e.g. ["alfaria", "alfamart kemang"]
+  pattern: text('pattern'), // optional case-insensitive regex for names the aliases can't express
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }), // default category
+  color: text('color'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdx: index('idx_merchants_user').on(table.userId),
+}));
 
-// Receipts table (stores base64 images)
+// Receipts table (images live in the blob store, see lib/receipt-images.ts)
 export const receipts = sqliteTable('receipts', {
   id: text('id').primaryKey(),
   userId: text('user_id').references(() => users.id),
-  imageBase64: text('image_base64').notNull(),
+  imageBase64: text('image_base64').notNull().default(''), // legacy inline image, emptied once moved to the blob store
+  imageHash: text('image_hash'), // SHA-256 of the image bytes (blob store key)
+  imageType: text('image_type'), // MIME type, e.g. image/jpeg
+  imageSize: integer('image_size'), // bytes
+  attachmentHash: text('attachment_hash'), // original PDF of a PDF receipt (blob store key); the image is its rendered pages
+  attachmentType: text('attachment_type'), // MIME type, application/pdf
+  attachmentSize: integer('attachment_size'), // bytes
+  fileHash: text('file_hash'), // SHA-256 of the file as picked, before client-side compression
+  perceptualHash: text('perceptual_hash'), // 64-bit dHash (hex) for near-duplicate detection
   ocrRawText: text('ocr_raw_text'),
   ocrMerchant: text('ocr_merchant'),
   ocrDate: text('ocr_date'),
   ocrAmount: real('ocr_amount'),
   ocrCurrency: text('ocr_currency'),
   ocrConfidence: real('ocr_confidence'),
+  ocrStatus: text('ocr_status', { enum: ['pending', 'processing', 'done', 'failed'] }), // server OCR job; null when OCR ran in the browser
+  merchantId: text('merchant_id').references(() => merchants.id, { onDelete: 'set null' }), // directory entry for ocrMerchant
+  hasQris: integer('has_qris', { mode: 'boolean' }).default(false), // a QRIS code named the merchant; such receipts teach no template
   fileName: text('file_name'),
+  accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }),
   verified: integer('verified', { mode: 'boolean' }).default(false),
   isAutomated: integer('is_automated', { mode: 'boolean' }).default(false), // Auto-pilot flag
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
   fileNameIdx: index('idx_receipts_filename').on(table.fileName),
   userIdx: index('idx_receipts_user').on(table.userId),
+  imageHashIdx: index('idx_receipts_image_hash').on(table.imageHash),
+  attachmentHashIdx: index('idx_receipts_attachment_hash').on(table.attachmentHash),
+  merchantIdx: index('idx_receipts_merchant').on(table.merchantId),
+  userFileHashIdx: index('idx_receipts_user_file_hash').on(table.userId, table.fileHash),
+}));
+
+// Receipt line items (normalized so the same product can be tracked across merchants)
+export const receiptItems = sqliteTable('receipt_items', {
+  id: text('id').primaryKey(),
+  receiptId: text('receipt_id').notNull().references(() => receipts.id, { onDelete: 'cascade' }),
+  userId: text('user_id').references(() => users.id),
+  name: text('name').notNull(), // as printed on the receipt
+  normalizedName: text('normalized_name').notNull(), // grouping key for price history
+  quantity: real('quantity').notNull().default(1),
+  unitPrice: real('unit_price').notNull(),
+  totalPrice: real('total_price').notNull(),
+  currency: text('currency').default('IDR'),
+  position: integer('position').notNull().default(0), // line order on the receipt
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  receiptIdx: index('idx_receipt_items_receipt').on(table.receiptId),
+  userNameIdx: index('idx_receipt_items_user_name').on(table.userId, table.normalizedName),
 }));
 
 // Recurring transactions table
@@ -50,6 +120,7 @@ export const recurringTransactions = sqliteTable('recurring_transactions', {
   amount: real('amount').notNull(),
   currency: text('currency').default('IDR'),
   categoryId: text('category_id').references(() => categories.id),
+  accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }),
   description: text('description'),
   frequency: text('frequency', { enum: ['daily', 'weekly', 'monthly', 'yearly'] }).notNull(),
   nextDate: text('next_date'),
@@ -62,20 +133,79 @@ export const recurringTransactions = sqliteTable('recurring_transactions', {
 export const transactions = sqliteTable('transactions', {
   id: text('id').primaryKey(),
   userId: text('user_id').references(() => users.id),
-  type: text('type', { enum: ['income', 'expense'] }).notNull(),
+  type: text('type', { enum: ['income', 'expense', 'transfer'] }).notNull(),
   amount: real('amount').notNull(),
   currency: text('currency').default('IDR'),
   amountInBase: real('amount_in_base'),
   categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }), // source account for transfers
+  toAccountId: text('to_account_id').references(() => accounts.id, { onDelete: 'set null' }), // transfers only
+  toAmount: real('to_amount'), // amount credited to toAccountId, in that account's currency
+  transferId: text('transfer_id').references((): AnySQLiteColumn => transactions.id, { onDelete: 'cascade' }), // fee rows point at their transfer
   description: text('description'),
   date: text('date').notNull(),
   receiptId: text('receipt_id').references(() => receipts.id, { onDelete: 'cascade' }),
   recurringId: text('recurring_id').references(() => recurringTransactions.id, { onDelete: 'set null' }),
+  externalId: text('external_id'), // FITID from an imported OFX/QFX statement
+  merchantId: text('merchant_id').references(() => merchants.id, { onDelete: 'set null' }), // from the receipt, or matched on the description
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
   userDateIdx: index('idx_transactions_user_date').on(table.userId, table.date),
   categoryIdx: index('idx_transactions_category').on(table.categoryId),
   dateIdx: index('idx_transactions_date').on(table.date),
+  accountIdx: index('idx_transactions_account').on(table.accountId),
+  toAccountIdx: index('idx_transactions_to_account').on(table.toAccountId),
+  externalIdx: index('idx_transactions_user_external').on(table.userId, table.externalId),
+  merchantIdx: index('idx_transactions_merchant').on(table.merchantId),
+}));
+
+// Transaction splits table (one transaction divided across several categories)
+export const transactionSplits = sqliteTable('transaction_splits', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  amount: real('amount').notNull(), // in the parent transaction's currency
+  description: text('description'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  transactionIdx: index('idx_transaction_splits_transaction').on(table.transactionId),
+  categoryIdx: index('idx_transaction_splits_category').on(table.categoryId),
+}));
+
+// Tags: free labels across categories, e.g. "trip-bali-2026" or "reimbursable" (see lib/tags.ts)
+export const tags = sqliteTable('tags', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userNameIdx: uniqueIndex('idx_tags_user_name').on(table.userId, table.name),
+}));
+
+// Tags of a transaction (many-to-many)
+export const transactionTags = sqliteTable('transaction_tags', {
+  id: text('id').primaryKey(),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  tagId: text('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  pairIdx: uniqueIndex('idx_transaction_tags_pair').on(table.transactionId, table.tagId),
+  tagIdx: index('idx_transaction_tags_tag').on(table.tagId),
+}));
+
+// Likely duplicate transaction pairs, recorded in the background (see lib/transaction-duplicates.ts)
+export const transactionDuplicates = sqliteTable('transaction_duplicates', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').references(() => users.id),
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }), // the pair is stored with the lower ID first
+  duplicateId: text('duplicate_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  score: real('score').notNull(), // 0-1, higher = more likely the same spend
+  status: text('status', { enum: ['pending', 'dismissed'] }).notNull().default('pending'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  pairIdx: uniqueIndex('idx_transaction_duplicates_pair').on(table.transactionId, table.duplicateId),
+  userStatusIdx: index('idx_transaction_duplicates_user_status').on(table.userId, table.status),
 }));
 
 // Budgets table
@@ -102,20 +232,94 @@ export const exchangeRates = sqliteTable('exchange_rates', {
   fetchedAt: text('fetched_at').default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Saved column mappings for bank statement CSV imports
+export const importProfiles = sqliteTable('import_profiles', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // e.g. "BCA", "Mandiri"
+  mapping: text('mapping').notNull(), // JSON: CsvMapping
+  accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }), // default target account
+  currency: text('currency').default('IDR'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userIdx: index('idx_import_profiles_user').on(table.userId),
+}));
+
+// Per-store parsing hints learned from corrected receipts (see lib/merchant-templates.ts)
+export const merchantTemplates = sqliteTable('merchant_templates', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  fingerprint: text('fingerprint').notNull(), // normalized words of the receipt header
+  merchantName: text('merchant_name').notNull(), // canonical name to use instead of the OCR'd one
+  totalLabel: text('total_label'), // label of the line holding the total, e.g. "total bayar"
+  dateOrder: text('date_order', { enum: ['dmy', 'mdy', 'ymd'] }), // how the store prints numeric dates
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userFingerprintIdx: uniqueIndex('idx_merchant_templates_user_fingerprint').on(table.userId, table.fingerprint),
+}));
+
+// User-defined auto-categorization rules (see lib/categorization-rules.ts).
+// Every condition that is set must hold; null conditions match anything.
+export const categorizationRules = sqliteTable('categorization_rules', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  priority: integer('priority').notNull().default(0), // lower runs first
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  // Conditions
+  matchField: text('match_field', { enum: ['description', 'merchant'] }).notNull().default('description'),
+  matchType: text('match_type', { enum: ['contains', 'regex'] }).notNull().default('contains'),
+  pattern: text('pattern'), // case-insensitive
+  minAmount: real('min_amount'),
+  maxAmount: real('max_amount'),
+  currency: text('currency'),
+  accountId: text('account_id').references(() => accounts.id, { onDelete: 'cascade' }), // a rule for a deleted account would otherwise match every account
+  transactionType: text('transaction_type', { enum: ['income', 'expense'] }),
+  // Actions
+  setCategoryId: text('set_category_id').references(() => categories.id, { onDelete: 'set null' }),
+  renameTo: text('rename_to'),
+  addTagId: text('add_tag_id').references(() => tags.id, { onDelete: 'set null' }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userPriorityIdx: index('idx_categorization_rules_user_priority').on(table.userId, table.priority),
+}));
+
 // Type exports for use in application
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
+export type Account = typeof accounts.$inferSelect;
+export type NewAccount = typeof accounts.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type NewTransactionSplit = typeof transactionSplits.$inferInsert;
+export type TransactionDuplicate = typeof transactionDuplicates.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type TransactionTag = typeof transactionTags.$inferSelect;
+export type Merchant = typeof merchants.$inferSelect;
+export type NewMerchant = typeof merchants.$inferInsert;
 export type Receipt = typeof receipts.$inferSelect;
 export type NewReceipt = typeof receipts.$inferInsert;
+export type ReceiptLineItem = typeof receiptItems.$inferSelect;
+export type NewReceiptLineItem = typeof receiptItems.$inferInsert;
 export type Budget = typeof budgets.$inferSelect;
 export type NewBudget = typeof budgets.$inferInsert;
 export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
 export type NewRecurringTransaction = typeof recurringTransactions.$inferInsert;
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type NewImportProfile = typeof importProfiles.$inferInsert;
+export type MerchantTemplate = typeof merchantTemplates.$inferSelect;
+export type NewMerchantTemplate = typeof merchantTemplates.$inferInsert;
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type NewCategorizationRule = typeof categorizationRules.$inferInsert;
 
 // Settings table for app-level configuration
 export const settings = sqliteTable('settings', {
@@ -0,0 +1,9 @@
+// Runs once when the server starts (Next.js instrumentation hook)
+
+export async function register() {
+    // Local inbox polling for e-mailed receipts, when configured (lib/email-inbox.ts)
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.EMAIL_INBOX_MAILDIR) {
+        const { startInboxPolling } = await import('@/lib/email-inbox');
+        startInboxPolling();
+    }
+}
@@ -0,0 +1,212 @@
+// Account balance helpers (server-side only)
+
+import { db } from '@/db';
+import { accounts, exchangeRates, settings, transactions, type Account, type Transaction } from '@/db/schema';
+import { eq, and, or, asc, desc, inArray, sql } from 'drizzle-orm';
+import { lookupFallbackRate } from '@/lib/currency';
+
+export interface AccountWithBalance extends Account {
+    balance: number;
+    transactionCount: number;
+}
+
+export interface LedgerEntry extends Transaction {
+    signedAmount: number;
+    runningBalance: number;
+}
+
+/**
+ * Amount of a transaction expressed in the account's currency.
+ * Same-currency rows use the raw amount; anything else converts the
+ * IDR-normalized amount with `baseRate` (account currency units per IDR,
+ * see getBaseRates).
+ */
+export function amountInAccountCurrency(
+    transaction: Pick<Transaction, 'amount' | 'amountInBase' | 'currency'>,
+    accountCurrency: string,
+    baseRate = 1
+): number {
+    if ((transaction.currency || 'IDR') === accountCurrency) {
+        return transaction.amount;
+    }
+    return (transaction.amountInBase ?? transaction.amount) * baseRate;
+}
+
+/**
+ * Signed movement of a transaction on one account.
+ * Transfers debit the source account and credit the destination with toAmount.
+ */
+export function signedAmountForAccount(transaction: Transaction, account: Account, baseRate = 1): number {
+    if (transaction.type === 'transfer' && transaction.toAccountId === account.id) {
+        return transaction.toAmount ?? transaction.amount;
+    }
+    const amount = amountInAccountCurrency(transaction, account.currency || 'IDR', baseRate);
+    return transaction.type === 'income' ? amount : -amount;
+}
+
+/**
+ * Units of each currency per IDR, to bring amountInBase into an account's
+ * currency. Uses the most recent cached exchange rate, then the fallback rates
+ * in settings, then the built-in defaults; a currency none of them know gets 1.
+ */
+export async function getBaseRates(currencies: (string | null)[]): Promise<Map<string, number>> {
+    const rates = new Map<string, number>([['IDR', 1]]);
+    const wanted = [...new Set(currencies.map(c => c || 'IDR'))].filter(c => !rates.has(c));
+    if (wanted.length === 0) return rates;
+
+    const cached = await db
+        .select()
+        .from(exchangeRates)
+        .where(or(
+            and(eq(exchangeRates.baseCurrency, 'IDR'), inArray(exchangeRates.targetCurrency, wanted)),
+            and(inArray(exchangeRates.baseCurrency, wanted), eq(exchangeRates.targetCurrency, 'IDR'))
+        ))
+        .orderBy(desc(exchangeRates.date), desc(exchangeRates.fetchedAt));
+    for (const row of cached) {
+        const fromBase = row.baseCurrency === 'IDR';
+        const currency = fromBase ? row.targetCurrency : row.baseCurrency;
+        const rate = fromBase ? row.rate : 1 / row.rate;
+        if (!rates.has(currency) && rate > 0 && Number.isFinite(rate)) rates.set(currency, rate);
+    }
+
+    const missing = wanted.filter(c => !rates.has(c));
+    if (missing.length > 0) {
+        const [setting] = await db
+            .select({ value: settings.value })
+            .from(settings)
+            .where(eq(settings.key, 'currencyFallbackRates'))
+            .limit(1);
+        let fallbackRates: Record<string, Record<string, number>> = {};
+        try {
+            fallbackRates = setting ? JSON.parse(setting.value) : {};
+        } catch {
+            // Unreadable setting: the built-in defaults still apply
+        }
+        for (const currency of missing) {
+            rates.set(
+                currency,
+                lookupFallbackRate('IDR', currency, fallbackRates) ?? lookupFallbackRate('IDR', currency) ?? 1
+            );
+        }
+    }
+
+    return rates;
+}
+
+/**
+ * The user's account with this ID, or null when it doesn't exist or belongs to someone else
+ */
+export async function getUserAccount(userId: string, accountId: string): Promise<Account | null> {
+    const rows = await db
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.id, accountId), eq(accounts.userId, userId)))
+        .limit(1);
+    return rows[0] || null;
+}
+
+/**
+ * List all accounts for a user with their current balance
+ * Balance = opening balance + income - expense +/- transfers (since the opening date)
+ */
+export async function getAccountBalances(userId: string): Promise<AccountWithBalance[]> {
+    const userAccounts = await db
+        .select()
+        .from(accounts)
+        .where(eq(accounts.userId, userId))
+        .orderBy(asc(accounts.createdAt));
+
+    if (userAccounts.length === 0) return [];
+
+    // Rows in the account's own currency sum as they are; the rest sum in IDR
+    // (amountInBase) and are converted once per account below
+    const sameCurrency = sql`COALESCE(${transactions.currency}, 'IDR') = COALESCE(${accounts.currency}, 'IDR')`;
+    const sign = sql`CASE WHEN ${transactions.type} = 'income' THEN 1 ELSE -1 END`;
+
+    const totals = await db
+        .select({
+            accountId: transactions.accountId,
+            total: sql<number>`SUM(CASE WHEN ${sameCurrency} THEN ${transactions.amount} * ${sign} ELSE 0 END)`,
+            baseTotal: sql<number>`SUM(CASE WHEN ${sameCurrency} THEN 0 ELSE COALESCE(${transactions.amountInBase}, ${transactions.amount}) * ${sign} END)`,
+            count: sql<number>`COUNT(*)`,
+        })
+        .from(transactions)
+        .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+        .where(
+            and(
+                eq(transactions.userId, userId),
+                sql`(${accounts.openingDate} IS NULL OR ${transactions.date} >= ${accounts.openingDate})`
+            )
+        )
+        .groupBy(transactions.accountId);
+
+    // Incoming side of transfers, already in the destination account's currency
+    const incoming = await db
+        .select({
+            accountId: transactions.toAccountId,
+            total: sql<number>`SUM(COALESCE(${transactions.toAmount}, ${transactions.amount}))`,
+            count: sql<number>`COUNT(*)`,
+        })
+        .from(transactions)
+        .innerJoin(accounts, eq(transactions.toAccountId, accounts.id))
+        .where(
+            and(
+                eq(transactions.userId, userId),
+                eq(transactions.type, 'transfer'),
+                sql`(${accounts.openingDate} IS NULL OR ${transactions.date} >= ${accounts.openingDate})`
+            )
+        )
+        .groupBy(transactions.toAccountId);
+
+    const totalsMap = new Map(totals.map(t => [t.accountId, t]));
+    const incomingMap = new Map(incoming.map(t => [t.accountId, t]));
+    const baseRates = await getBaseRates(userAccounts.map(a => a.currency));
+
+    return userAccounts.map(account => {
+        const movement = totalsMap.get(account.id);
+        const received = incomingMap.get(account.id);
+        const baseRate = baseRates.get(account.currency || 'IDR') ?? 1;
+        return {
+            ...account,
+            balance: account.openingBalance
+                + (movement?.total || 0)
+                + (movement?.baseTotal || 0) * baseRate
+                + (received?.total || 0),
+            transactionCount: (movement?.count || 0) + (received?.count || 0),
+        };
+    });
+}
+
+/**
+ * Build the running-balance ledger for one account, oldest first
+ */
+export async function getAccountLedger(account: Account): Promise<LedgerEntry[]> {
+    if (!account.userId) return [];
+
+    // Only the owner's transactions, even if another user's row names this account
+    const conditions = [
+        eq(transactions.userId, account.userId),
+        or(
+            eq(transactions.accountId, account.id),
+            and(eq(transactions.toAccountId, account.id), eq(transactions.type, 'transfer'))
+        ),
+    ];
+    if (account.openingDate) {
+        conditions.push(sql`${transactions.date} >= ${account.openingDate}`);
+    }
+
+    const rows = await db
+        .select()
+        .from(transactions)
+        .where(and(...conditions))
+        .orderBy(asc(transactions.date), asc(transactions.createdAt));
+
+    const baseRate = (await getBaseRates([account.currency])).get(account.currency || 'IDR') ?? 1;
+    let running = account.openingBalance;
+
+    return rows.map(row => {
+        const signedAmount = signedAmountForAccount(row, account, baseRate);
+        running += signedAmount;
+        return { ...row, signedAmount, runningBalance: running };
+    });
+}
@@ -0,0 +1,497 @@
+// Account backup and restore helpers (server-side only)
+
+import { db, type DbTransaction } from '@/db';
+import {
+    accounts,
+    budgets,
+    categories,
+    categorizationRules,
+    currencyPreferences,
+    importProfiles,
+    merchants,
+    merchantTemplates,
+    receiptItems,
+    receipts,
+    recurringTransactions,
+    tags,
+    transactionDuplicates,
+    transactions,
+    transactionSplits,
+    transactionTags,
+} from '@/db/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import type { BackupArchive } from '@/lib/validation';
+import { merchantKey, parseAliases } from '@/lib/merchants';
+import { getCategoryPath } from '@/lib/category-tree';
+import {
+    readReceiptAttachmentDataUrl,
+    readReceiptImageDataUrl,
+    releaseReceiptImages,
+    storeReceiptAttachment,
+    storeReceiptImage,
+} from '@/lib/receipt-images';
+
+export const BACKUP_FORMAT = 'dooweed-backup';
+export const BACKUP_VERSION = 1;
+
+// Receipts carry their images, so they are read and streamed a few at a time
+const RECEIPT_PAGE_SIZE = 20;
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Delete all of a user's data within a transaction. Returns the image hashes of the
+ * deleted receipts, to release once the transaction has committed.
+ */
+async function deleteUserData(tx: DbTransaction, userId: string): Promise<(string | null)[]> {
+    const images = await tx
+        .select({ hash: receipts.imageHash, attachmentHash: receipts.attachmentHash })
+        .from(receipts)
+        .where(eq(receipts.userId, userId));
+
+    // Delete in correct order (respecting foreign keys)
+    await tx.delete(transactionSplits).where(inArray(
+        transactionSplits.transactionId,
+        tx.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId))
+    ));
+    await tx.delete(transactionTags).where(inArray(
+        transactionTags.transactionId,
+        tx.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId))
+    ));
+    await tx.delete(transactionDuplicates).where(eq(transactionDuplicates.userId, userId));
+    await tx.delete(transactions).where(eq(transactions.userId, userId));
+    await tx.delete(receiptItems).where(eq(receiptItems.userId, userId));
+    await tx.delete(receipts).where(eq(receipts.userId, userId));
+    await tx.delete(merchants).where(eq(merchants.userId, userId));
+    await tx.delete(budgets).where(eq(budgets.userId, userId));
+    await tx.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId));
+    await tx.delete(merchantTemplates).where(eq(merchantTemplates.userId, userId));
+    await tx.delete(categorizationRules).where(eq(categorizationRules.userId, userId));
+    await tx.delete(tags).where(eq(tags.userId, userId));
+    await tx.delete(categories).where(eq(categories.userId, userId));
+    await tx.delete(importProfiles).where(eq(importProfiles.userId, userId));
+    await tx.delete(accounts).where(eq(accounts.userId, userId));
+
+    return images.flatMap(i => [i.hash, i.attachmentHash]);
+}
+
+/**
+ * Delete all of a user's data, keeping the user, sessions and preferences
+ */
+export async function clearUserData(userId: string): Promise<void> {
+    const released = await db.transaction(tx => deleteUserData(tx, userId));
+    await releaseReceiptImages(released);
+}
+
+function withoutUserId<T extends { userId?: unknown }>(row: T): Omit<T, 'userId'> {
+    return Object.fromEntries(Object.entries(row).filter(([key]) => key !== 'userId')) as Omit<T, 'userId'>;
+}
+
+/**
+ * Produce the archive as JSON text in pieces: small tables first, then the
+ * receipts page by page, each with its image read back from the blob store
+ */
+async function* backupChunks(userId: string): AsyncGenerator<string> {
+    const [
+        categoryRows,
+        accountRows,
+        transactionRows,
+        splitRows,
+        itemRows,
+        budgetRows,
+        recurringRows,
+        profileRows,
+        templateRows,
+        ruleRows,
+        merchantRows,
+        tagRows,
+        transactionTagRows,
+        preferenceRows,
+    ] = await Promise.all([
+        db.select().from(categories).where(eq(categories.userId, userId)),
+        db.select().from(accounts).where(eq(accounts.userId, userId)),
+        db.select().from(transactions).where(eq(transactions.userId, userId)),
+        db.select().from(transactionSplits).where(inArray(
+            transactionSplits.transactionId,
+            db.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId))
+        )),
+        db.select().from(receiptItems).where(eq(receiptItems.userId, userId)),
+        db.select().from(budgets).where(eq(budgets.userId, userId)),
+        db.select().from(recurringTransactions).where(eq(recurringTransactions.userId, userId)),
+        db.select().from(importProfiles).where(eq(importProfiles.userId, userId)),
+        db.select().from(merchantTemplates).where(eq(merchantTemplates.userId, userId)),
+        db.select().from(categorizationRules).where(eq(categorizationRules.userId, userId)),
+        db.select().from(merchants).where(eq(merchants.userId, userId)),
+        db.select().from(tags).where(eq(tags.userId, userId)),
+        db.select().from(transactionTags).where(inArray(
+            transactionTags.transactionId,
+            db.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId))
+        )),
+        db.select().from(currencyPreferences).where(eq(currencyPreferences.userId, userId)).limit(1),
+    ]);
+
+    const preferences = preferenceRows[0]
+        ? {
+            fallbackOrder: JSON.parse(preferenceRows[0].fallbackOrder),
+            enabledMethods: JSON.parse(preferenceRows[0].enabledMethods),
+            customRates: preferenceRows[0].customRates ? JSON.parse(preferenceRows[0].customRates) : null,
+        }
+        : null;
+
+    const tables = {
+        categories: categoryRows.map(withoutUserId),
+        accounts: accountRows.map(withoutUserId),
+        transactions: transactionRows.map(withoutUserId),
+        transactionSplits: splitRows,
+        receiptItems: itemRows.map(withoutUserId),
+        budgets: budgetRows.map(withoutUserId),
+        recurringTransactions: recurringRows.map(withoutUserId),
+        importProfiles: profileRows.map(p => ({ ...withoutUserId(p), mapping: JSON.parse(p.mapping) })),
+        merchantTemplates: templateRows.map(withoutUserId),
+        categorizationRules: ruleRows.map(withoutUserId),
+        merchants: merchantRows.map(m => ({ ...withoutUserId(m), aliases: parseAliases(m.aliases) })),
+        tags: tagRows.map(withoutUserId),
+        transactionTags: transactionTagRows,
+        currencyPreferences: preferences,
+    };
+
+    yield `{"format":"${BACKUP_FORMAT}","version":${BACKUP_VERSION},"createdAt":${JSON.stringify(new Date().toISOString())},"data":{`;
+    for (const [name, rows] of Object.entries(tables)) {
+        yield `${JSON.stringify(name)}:${JSON.stringify(rows)},`;
+    }
+
+    yield '"receipts":[';
+    for (let offset = 0; ; offset += RECEIPT_PAGE_SIZE) {
+        const page = await db
+            .select()
+            .from(receipts)
+            .where(eq(receipts.userId, userId))
+            .orderBy(asc(receipts.id))
+            .limit(RECEIPT_PAGE_SIZE)
+            .offset(offset);
+
+        for (const [index, receipt] of page.entries()) {
+            const row = {
+                ...withoutUserId(receipt),
+                imageBase64: await readReceiptImageDataUrl(receipt),
+                attachmentBase64: await readReceiptAttachmentDataUrl(receipt),
+            };
+            yield `${offset + index > 0 ? ',' : ''}${JSON.stringify(row)}`;
+        }
+        if (page.length < RECEIPT_PAGE_SIZE) break;
+    }
+    yield ']}}';
+}
+
+/**
+ * Stream a versioned JSON archive of everything the user owns, receipt images included
+ */
+export function streamBackup(userId: string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const chunks = backupChunks(userId);
+
+    return new ReadableStream({
+        async pull(controller) {
+            const { value, done } = await chunks.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(encoder.encode(value));
+            }
+        },
+        async cancel() {
+            await chunks.return(undefined);
+        },
+    });
+}
+
+/**
+ * Insert rows in chunks to stay under SQLite's bound parameter limit
+ */
+async function insertChunked<T>(rows: T[], size: number, insert: (chunk: T[]) => Promise<unknown>) {
+    for (let i = 0; i < rows.length; i += size) {
+        await insert(rows.slice(i, i + size));
+    }
+}
+
+type StoredArchiveReceipt = Omit<BackupArchive['data']['receipts'][number], 'imageBase64' | 'attachmentBase64'>;
+
+/**
+ * Re-import a validated archive into a user's account. Every row gets a new ID and
+ * references are remapped, so an archive can be restored next to existing data or
+ * into another database. Categories that already exist (same name, type and parent) are
+ * reused instead of duplicated. In 'replace' mode the user's data is cleared first.
+ * References to rows missing from the archive are dropped.
+ *
+ * Receipt images are written to the blob store before any row is touched; clearing
+ * and inserting then run in one transaction, so a failed restore leaves the account
+ * as it was.
+ */
+export async function restoreBackup(userId: string, archive: BackupArchive, mode: RestoreMode) {
+    const storedReceipts: StoredArchiveReceipt[] = [];
+    const storedHashes: string[] = [];
+
+    let result;
+    try {
+        // Images (and PDF attachments) go back into the blob store one receipt at a time
+        for (const { imageBase64, attachmentBase64, ...r } of archive.data.receipts) {
+            const image = imageBase64 ? await storeReceiptImage(imageBase64) : null;
+            const attachment = attachmentBase64 ? await storeReceiptAttachment(attachmentBase64) : null;
+            if (image) storedHashes.push(image.imageHash);
+            if (attachment) storedHashes.push(attachment.attachmentHash);
+            storedReceipts.push({ ...r, ...image, ...attachment });
+        }
+
+        result = await db.transaction(async (tx) => {
+            const released = mode === 'replace' ? await deleteUserData(tx, userId) : [];
+            const restored = await insertArchive(tx, userId, archive.data, storedReceipts);
+            return { released, restored };
+        });
+    } catch (error) {
+        // Blobs are shared by hash, so this only removes the ones nothing else points at
+        await releaseReceiptImages(storedHashes);
+        throw error;
+    }
+
+    await releaseReceiptImages(result.released);
+    return result.restored;
+}
+
+/**
+ * Insert an archive's rows with new IDs, remapping every reference between them
+ */
+async function insertArchive(
+    tx: DbTransaction,
+    userId: string,
+    data: BackupArchive['data'],
+    storedReceipts: StoredArchiveReceipt[]
+) {
+    const idMap = () => {
+        const map = new Map<string, string>();
+        return {
+            add: (oldId: string, newId: string = uuid()) => {
+                map.set(oldId, newId);
+                return newId;
+            },
+            get: (oldId: string | null | undefined) => (oldId && map.get(oldId)) || null,
+            has: (oldId: string) => map.has(oldId),
+        };
+    };
+    const categoryIds = idMap();
+    const accountIds = idMap();
+    const receiptIds = idMap();
+    const recurringIds = idMap();
+    const transactionIds = idMap();
+    const merchantIds = idMap();
+    const tagIds = idMap();
+
+    // Categories: reuse the user's existing ones by name, type and parent. Parents are
+    // matched first, so "Food > Snacks" only reuses a "Snacks" under the same "Food".
+    const existingCategories = await tx
+        .select({ id: categories.id, name: categories.name, type: categories.type, parentId: categories.parentId })
+        .from(categories)
+        .where(eq(categories.userId, userId));
+    const categoryKey = (c: { name: string; type: string }, parentId: string | null) =>
+        `${c.type}|${c.name.trim().toLowerCase()}|${parentId ?? ''}`;
+    const existingByKey = new Map(existingCategories.map(c => [categoryKey(c, c.parentId), c.id]));
+
+    const depth = new Map(data.categories.map(c => [c.id, getCategoryPath(data.categories, c.id).length]));
+    const newCategories = [...data.categories]
+        .sort((a, b) => depth.get(a.id)! - depth.get(b.id)!)
+        .filter(c => {
+            const existingId = existingByKey.get(categoryKey(c, categoryIds.get(c.parentId)));
+            categoryIds.add(c.id, existingId);
+            return !existingId;
+        });
+    await insertChunked(newCategories, 100, chunk => tx.insert(categories).values(chunk.map(c => ({
+        ...c,
+        id: categoryIds.get(c.id)!,
+        parentId: null,
+        userId,
+    }))));
+    // Parents are linked once every category has its new ID (a parent may come later in the list)
+    for (const c of newCategories) {
+        const parentId = categoryIds.get(c.parentId);
+        if (parentId) {
+            await tx.update(categories).set({ parentId }).where(eq(categories.id, categoryIds.get(c.id)!));
+        }
+    }
+
+    await insertChunked(data.accounts, 100, chunk => tx.insert(accounts).values(chunk.map(a => ({
+        ...a,
+        id: accountIds.add(a.id),
+        userId,
+    }))));
+
+    // Merchants: reuse the user's existing ones by name, like categories
+    const existingMerchants = await tx
+        .select({ id: merchants.id, name: merchants.name })
+        .from(merchants)
+        .where(eq(merchants.userId, userId));
+    const existingMerchantsByKey = new Map(existingMerchants.map(m => [merchantKey(m.name), m.id]));
+    const newMerchants = data.merchants.filter(m => {
+        const existingId = existingMerchantsByKey.get(merchantKey(m.name));
+        if (existingId) merchantIds.add(m.id, existingId);
+        return !existingId;
+    });
+    await insertChunked(newMerchants, 100, chunk => tx.insert(merchants).values(chunk.map(m => ({
+        ...m,
+        id: merchantIds.add(m.id),
+        userId,
+        aliases: JSON.stringify(m.aliases),
+        categoryId: categoryIds.get(m.categoryId),
+    }))));
+
+    for (const r of storedReceipts) {
+        await tx.insert(receipts).values({
+            ...r,
+            id: receiptIds.add(r.id),
+            userId,
+            accountId: accountIds.get(r.accountId),
+            merchantId: merchantIds.get(r.merchantId),
+        });
+    }
+
+    const items = data.receiptItems.filter(i => receiptIds.has(i.receiptId));
+    await insertChunked(items, 100, chunk => tx.insert(receiptItems).values(chunk.map(i => ({
+        ...i,
+        id: uuid(),
+        receiptId: receiptIds.get(i.receiptId)!,
+        userId,
+    }))));
+
+    await insertChunked(data.recurringTransactions, 100, chunk => tx.insert(recurringTransactions).values(chunk.map(r => ({
+        ...r,
+        id: recurringIds.add(r.id),
+        userId,
+        categoryId: categoryIds.get(r.categoryId),
+        accountId: accountIds.get(r.accountId),
+    }))));
+
+    // Assign every transaction ID first: fee rows point at their transfer
+    data.transactions.forEach(t => transactionIds.add(t.id));
+    const orderedTransactions = [
+        ...data.transactions.filter(t => !t.transferId),
+        ...data.transactions.filter(t => t.transferId),
+    ];
+    await insertChunked(orderedTransactions, 100, chunk => tx.insert(transactions).values(chunk.map(t => ({
+        ...t,
+        id: transactionIds.get(t.id)!,
+        userId,
+        categoryId: categoryIds.get(t.categoryId),
+        accountId: accountIds.get(t.accountId),
+        toAccountId: accountIds.get(t.toAccountId),
+        transferId: transactionIds.get(t.transferId),
+        receiptId: receiptIds.get(t.receiptId),
+        recurringId: recurringIds.get(t.recurringId),
+        merchantId: merchantIds.get(t.merchantId),
+    }))));
+
+    // Tags: reuse the user's existing ones by name
+    const existingTags = await tx
+        .select({ id: tags.id, name: tags.name })
+        .from(tags)
+        .where(eq(tags.userId, userId));
+    const existingTagsByName = new Map(existingTags.map(t => [t.name.toLowerCase(), t.id]));
+    const newTags = data.tags.filter(t => {
+        const existingId = existingTagsByName.get(t.name.toLowerCase());
+        if (existingId) tagIds.add(t.id, existingId);
+        return !existingId;
+    });
+    await insertChunked(newTags, 100, chunk => tx.insert(tags).values(chunk.map(t => ({
+        ...t,
+        id: tagIds.add(t.id),
+        userId,
+    }))));
+
+    const tagLinks = data.transactionTags.filter(l => transactionIds.has(l.transactionId) && tagIds.has(l.tagId));
+    await insertChunked(tagLinks, 100, chunk => tx.insert(transactionTags).values(chunk.map(l => ({
+        ...l,
+        id: uuid(),
+        transactionId: transactionIds.get(l.transactionId)!,
+        tagId: tagIds.get(l.tagId)!,
+    }))).onConflictDoNothing());
+
+    const splits = data.transactionSplits.filter(s => transactionIds.has(s.transactionId));
+    await insertChunked(splits, 100, chunk => tx.insert(transactionSplits).values(chunk.map(s => ({
+        ...s,
+        id: uuid(),
+        transactionId: transactionIds.get(s.transactionId)!,
+        categoryId: categoryIds.get(s.categoryId),
+    }))));
+
+    // A category budget whose category is missing would silently become universal
+    const budgetRows = data.budgets.filter(b => !b.categoryId || categoryIds.has(b.categoryId));
+    await insertChunked(budgetRows, 100, chunk => tx.insert(budgets).values(chunk.map(b => ({
+        ...b,
+        id: uuid(),
+        userId,
+        categoryId: categoryIds.get(b.categoryId),
+    }))));
+
+    await insertChunked(data.importProfiles, 100, chunk => tx.insert(importProfiles).values(chunk.map(p => ({
+        ...p,
+        id: uuid(),
+        userId,
+        mapping: JSON.stringify(p.mapping),
+        accountId: accountIds.get(p.accountId),
+    }))));
+
+    // Skip templates whose header the user has already taught this account
+    const existingFingerprints = new Set((await tx
+        .select({ fingerprint: merchantTemplates.fingerprint })
+        .from(merchantTemplates)
+        .where(eq(merchantTemplates.userId, userId))).map(t => t.fingerprint));
+    const templateRows = data.merchantTemplates.filter(t => !existingFingerprints.has(t.fingerprint));
+    await insertChunked(templateRows, 100, chunk => tx.insert(merchantTemplates).values(chunk.map(t => ({
+        ...t,
+        id: uuid(),
+        userId,
+        categoryId: categoryIds.get(t.categoryId),
+    }))));
+
+    // A rule for a missing account would match every account
+    const ruleRows = data.categorizationRules.filter(r => !r.accountId || accountIds.has(r.accountId));
+    await insertChunked(ruleRows, 100, chunk => tx.insert(categorizationRules).values(chunk.map(r => ({
+        ...r,
+        id: uuid(),
+        userId,
+        accountId: accountIds.get(r.accountId),
+        setCategoryId: categoryIds.get(r.setCategoryId),
+        addTagId: tagIds.get(r.addTagId),
+    }))));
+
+    if (data.currencyPreferences) {
+        const preferences = {
+            fallbackOrder: JSON.stringify(data.currencyPreferences.fallbackOrder),
+            enabledMethods: JSON.stringify(data.currencyPreferences.enabledMethods),
+            customRates: data.currencyPreferences.customRates
+                ? JSON.stringify(data.currencyPreferences.customRates)
+                : null,
+            updatedAt: new Date(),
+        };
+        await tx.insert(currencyPreferences)
+            .values({ id: uuid(), userId, ...preferences })
+            .onConflictDoUpdate({ target: currencyPreferences.userId, set: preferences });
+    }
+
+    return {
+        categories: newCategories.length,
+        matchedCategories: data.categories.length - newCategories.length,
+        accounts: data.accounts.length,
+        transactions: data.transactions.length,
+        transactionSplits: splits.length,
+        receipts: storedReceipts.length,
+        receiptItems: items.length,
+        budgets: budgetRows.length,
+        recurringTransactions: data.recurringTransactions.length,
+        importProfiles: data.importProfiles.length,
+        merchantTemplates: templateRows.length,
+        categorizationRules: ruleRows.length,
+        merchants: newMerchants.length,
+        tags: newTags.length,
+        transactionTags: tagLinks.length,
+        currencyPreferences: !!data.currencyPreferences,
+    };
+}
@@ -0,0 +1,206 @@
+// Blob storage (server-side only): raw file bytes kept outside the database
+// BLOB_STORE=local (default) writes under BLOB_STORE_PATH; BLOB_STORE=s3 uses an
+// S3-compatible bucket (AWS, MinIO, R2...) configured with the S3_* variables.
+
+import { createHash, createHmac } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Inclusive byte range, as in an HTTP Range header
+export interface BlobRange {
+    start: number;
+    end: number;
+}
+
+export interface BlobStore {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string, range?: BlobRange): Promise<ReadableStream<Uint8Array> | null>; // null if missing
+    head(key: string): Promise<{ size: number } | null>; // null if missing
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Files under a root directory. Writes go through a temp file so readers never
+ * see a partial blob.
+ */
+function createLocalBlobStore(root: string): BlobStore {
+    const pathFor = (key: string) => {
+        const resolved = path.resolve(root, key);
+        if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+            throw new Error(`Invalid blob key: ${key}`);
+        }
+        return resolved;
+    };
+
+    const head = async (key: string) => {
+        try {
+            const info = await stat(pathFor(key));
+            return info.isFile() ? { size: info.size } : null;
+        } catch {
+            return null;
+        }
+    };
+
+    return {
+        async put(key, data) {
+            const file = pathFor(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+            await writeFile(temp, data);
+            await rename(temp, file);
+        },
+
+        async get(key, range) {
+            if (!(await head(key))) return null;
+            const stream = createReadStream(pathFor(key), range ? { start: range.start, end: range.end } : {});
+            return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+        },
+
+        head,
+
+        async delete(key) {
+            try {
+                await unlink(pathFor(key));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+        },
+    };
+}
+
+interface S3Config {
+    endpoint?: string; // set for MinIO and other S3-compatible services (path-style URLs)
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+/**
+ * S3-compatible object storage over plain fetch, with AWS Signature V4
+ */
+function createS3BlobStore(config: S3Config): BlobStore {
+    const urlFor = (key: string) => {
+        const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+        return config.endpoint
+            ? new URL(`${config.endpoint.replace(/\/$/, '')}/${config.bucket}/${encodedKey}`)
+            : new URL(`https://${config.bucket}.s3.${config.region}.amazonaws.com/${encodedKey}`);
+    };
+
+    const request = (method: string, key: string, body?: Buffer, headers: Record<string, string> = {}) => {
+        const url = urlFor(key);
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const payloadHash = createHash('sha256').update(body ?? '').digest('hex');
+        const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+        const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            '',
+            `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+            signedHeaders,
+            payloadHash,
+        ].join('\n');
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            createHash('sha256').update(canonicalRequest).digest('hex'),
+        ].join('\n');
+
+        const hmac = (secret: string | Buffer, value: string) => createHmac('sha256', secret).update(value).digest();
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+        const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        return fetch(url, {
+            method,
+            body: body ? new Uint8Array(body) : undefined,
+            headers: {
+                ...headers,
+                'x-amz-content-sha256': payloadHash,
+                'x-amz-date': amzDate,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+            },
+        });
+    };
+
+    return {
+        async put(key, data, contentType) {
+            const res = await request('PUT', key, data, { 'Content-Type': contentType });
+            if (!res.ok) throw new Error(`S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+        },
+
+        async get(key, range) {
+            const res = await request('GET', key, undefined, range ? { Range: `bytes=${range.start}-${range.end}` } : {});
+            if (res.status === 404) return null;
+            if (!res.ok || !res.body) throw new Error(`S3 GET ${key} failed: ${res.status}`);
+            return res.body;
+        },
+
+        async head(key) {
+            const res = await request('HEAD', key);
+            if (res.status === 404) return null;
+            if (!res.ok) throw new Error(`S3 HEAD ${key} failed: ${res.status}`);
+            return { size: parseInt(res.headers.get('content-length') || '0') };
+        },
+
+        async delete(key) {
+            const res = await request('DELETE', key);
+            if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${key} failed: ${res.status}`);
+        },
+    };
+}
+
+let store: BlobStore | null = null;
+
+/**
+ * The configured blob store (created once per process)
+ */
+export function getBlobStore(): BlobStore {
+    if (store) return store;
+
+    if (process.env.BLOB_STORE === 's3') {
+        const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+        if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+            throw new Error('BLOB_STORE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+        }
+        store = createS3BlobStore({
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            region: process.env.S3_REGION || 'us-east-1',
+            bucket: S3_BUCKET,
+            accessKeyId: S3_ACCESS_KEY_ID,
+            secretAccessKey: S3_SECRET_ACCESS_KEY,
+        });
+    } else {
+        store = createLocalBlobStore(process.env.BLOB_STORE_PATH || path.join(process.cwd(), '.data', 'blobs'));
+    }
+
+    return store;
+}
+
+/**
+ * Parse a single-range "Range: bytes=..." header against a blob of `size` bytes.
+ * Returns null when there is no usable range (serve the whole blob) and
+ * 'unsatisfiable' when the range lies outside the blob.
+ */
+export function parseRangeHeader(header: string | null, size: number): BlobRange | null | 'unsatisfiable' {
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    if (size === 0) return 'unsatisfiable';
+
+    if (!match[1]) {
+        // Suffix range: the last N bytes
+        const length = parseInt(match[2]);
+        if (length === 0) return 'unsatisfiable';
+        return { start: Math.max(0, size - length), end: size - 1 };
+    }
+
+    const start = parseInt(match[1]);
+    const end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+    if (start >= size || end < start) return 'unsatisfiable';
+    return { start, end };
+}
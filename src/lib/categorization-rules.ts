@@ -0,0 +1,168 @@
+// Auto-categorization rules (server-side only)
+// A rule pairs conditions on a transaction (text pattern, amount range, currency,
+// account, type) with actions (set its category, rename its description, add a
+// tag). Rules run in priority order and the first match decides the category and
+// the description, so a specific rule placed above a broad one wins; tags add up
+// over every matching rule. They apply to new transactions (manual,
+// scanned and imported) and, on request, to past ones. Transfers are left alone.
+
+import { db } from '@/db';
+import { categorizationRules, receipts, transactions, transactionTags, type CategorizationRule } from '@/db/schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { addTransactionTags } from '@/lib/tags';
+import { compileUserRegex, testUserRegex } from '@/lib/user-regex';
+
+export interface RuleSubject {
+    type: 'income' | 'expense' | 'transfer';
+    amount: number; // in the transaction's own currency
+    currency?: string | null;
+    accountId?: string | null;
+    description?: string | null;
+    merchant?: string | null; // merchant of the linked receipt; rules on it fall back to the description
+}
+
+export interface RuleOutcome {
+    categoryId: string | null;
+    description: string | null;
+    tagIds: string[];
+}
+
+export interface RuleApplyResult {
+    checked: number;
+    categorized: number;
+    renamed: number;
+    tagged: number;
+}
+
+type RuleMatcher = { rule: CategorizationRule; test: (text: string) => boolean };
+
+/**
+ * Enabled rules of a user, in the order they run
+ */
+export async function getActiveRules(userId: string): Promise<CategorizationRule[]> {
+    return db
+        .select()
+        .from(categorizationRules)
+        .where(and(eq(categorizationRules.userId, userId), eq(categorizationRules.enabled, true)))
+        .orderBy(asc(categorizationRules.priority), asc(categorizationRules.createdAt));
+}
+
+/**
+ * Compile each rule's pattern once. Patterns are case-insensitive; a regex that
+ * validation would now reject (backups can be older) never matches.
+ */
+function compileRules(rules: CategorizationRule[]): RuleMatcher[] {
+    return rules.map(rule => {
+        const pattern = rule.pattern?.trim();
+        if (!pattern) return { rule, test: () => true };
+
+        if (rule.matchType === 'regex') {
+            const regex = compileUserRegex(pattern);
+            return { rule, test: (text: string) => !!regex && testUserRegex(regex, text) };
+        }
+        const needle = pattern.toLowerCase();
+        return { rule, test: (text: string) => text.toLowerCase().includes(needle) };
+    });
+}
+
+function matches({ rule, test }: RuleMatcher, subject: RuleSubject): boolean {
+    if (subject.type === 'transfer') return false;
+    if (rule.transactionType && rule.transactionType !== subject.type) return false;
+    if (rule.accountId && rule.accountId !== subject.accountId) return false;
+    if (rule.currency && rule.currency !== (subject.currency || 'IDR')) return false;
+    if (rule.minAmount != null && subject.amount < rule.minAmount) return false;
+    if (rule.maxAmount != null && subject.amount > rule.maxAmount) return false;
+
+    const text = rule.matchField === 'merchant'
+        ? subject.merchant || subject.description
+        : subject.description;
+    return test(text || '');
+}
+
+function evaluate(matchers: RuleMatcher[], subject: RuleSubject): RuleOutcome {
+    const outcome: RuleOutcome = { categoryId: null, description: null, tagIds: [] };
+    for (const matcher of matchers) {
+        if (!matches(matcher, subject)) continue;
+        outcome.categoryId ??= matcher.rule.setCategoryId;
+        outcome.description ??= matcher.rule.renameTo;
+        if (matcher.rule.addTagId && !outcome.tagIds.includes(matcher.rule.addTagId)) {
+            outcome.tagIds.push(matcher.rule.addTagId);
+        }
+    }
+    return outcome;
+}
+
+/**
+ * What the rules do to one transaction: the category and description of the
+ * first matching rules that set them (null where none does), and the tags of
+ * all matching rules
+ */
+export function applyRules(rules: CategorizationRule[], subject: RuleSubject): RuleOutcome {
+    return evaluate(compileRules(rules), subject);
+}
+
+/**
+ * Build an evaluator for many transactions (imports), compiling the rules once
+ */
+export function createRuleEvaluator(rules: CategorizationRule[]): (subject: RuleSubject) => RuleOutcome {
+    const matchers = compileRules(rules);
+    return subject => evaluate(matchers, subject);
+}
+
+/**
+ * Run the rules over all past transactions. Renames and tags always apply;
+ * categories only fill in uncategorized transactions unless `overwrite` is set.
+ */
+export async function reapplyRules(userId: string, options: { overwrite: boolean }): Promise<RuleApplyResult> {
+    const result: RuleApplyResult = { checked: 0, categorized: 0, renamed: 0, tagged: 0 };
+    const rules = await getActiveRules(userId);
+    if (rules.length === 0) return result;
+
+    const rows = await db
+        .select({
+            id: transactions.id,
+            type: transactions.type,
+            amount: transactions.amount,
+            currency: transactions.currency,
+            accountId: transactions.accountId,
+            description: transactions.description,
+            categoryId: transactions.categoryId,
+            merchant: receipts.ocrMerchant,
+        })
+        .from(transactions)
+        .leftJoin(receipts, eq(transactions.receiptId, receipts.id))
+        .where(and(eq(transactions.userId, userId), ne(transactions.type, 'transfer')));
+
+    const existingTags = new Set((await db
+        .select({ transactionId: transactionTags.transactionId, tagId: transactionTags.tagId })
+        .from(transactionTags)
+        .innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+        .where(eq(transactions.userId, userId))).map(t => `${t.transactionId}|${t.tagId}`));
+
+    const evaluateRules = createRuleEvaluator(rules);
+    for (const row of rows) {
+        result.checked++;
+        const outcome = evaluateRules(row);
+        const update: { categoryId?: string; description?: string } = {};
+
+        if (outcome.categoryId && outcome.categoryId !== row.categoryId && (options.overwrite || !row.categoryId)) {
+            update.categoryId = outcome.categoryId;
+            result.categorized++;
+        }
+        if (outcome.description && outcome.description !== row.description) {
+            update.description = outcome.description;
+            result.renamed++;
+        }
+        if (Object.keys(update).length > 0) {
+            await db.update(transactions).set(update).where(eq(transactions.id, row.id));
+        }
+
+        const newTagIds = outcome.tagIds.filter(tagId => !existingTags.has(`${row.id}|${tagId}`));
+        if (newTagIds.length > 0) {
+            await addTransactionTags(row.id, newTagIds);
+            result.tagged++;
+        }
+    }
+
+    return result;
+}
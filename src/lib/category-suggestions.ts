@@ -0,0 +1,178 @@
+// Learned category suggestions (server-side only)
+// A multinomial naive Bayes model over the words of a transaction's description
+// and its receipt's merchant, trained per user on their categorized transactions.
+// It is rebuilt from the database on every request (no network, nothing stored),
+// so it always reflects the latest corrections. Explicit rules
+// (lib/categorization-rules.ts) and merchant default categories (lib/merchants.ts)
+// take precedence over it.
+
+import { db } from '@/db';
+import { categories, receipts, transactions } from '@/db/schema';
+import { and, desc, eq, isNotNull, ne } from 'drizzle-orm';
+import { applyRules, getActiveRules } from '@/lib/categorization-rules';
+import { getMerchants, matchMerchant } from '@/lib/merchants';
+import { normalizeDescription } from '@/lib/transaction-duplicates';
+
+export interface CategorySuggestion {
+    categoryId: string;
+    confidence: number; // 0-1; rules are certain, the model's share sums to at most 1
+    source: 'rule' | 'merchant' | 'history';
+}
+
+export interface SuggestionQuery {
+    description?: string | null;
+    merchant?: string | null;
+    type?: 'income' | 'expense' | null;
+    amount?: number | null;
+    currency?: string | null;
+    accountId?: string | null;
+}
+
+interface CategoryModel {
+    documents: number;
+    vocabulary: Set<string>;
+    classes: Map<string, { type: 'income' | 'expense'; documents: number; tokens: number; counts: Map<string, number> }>;
+}
+
+// Recent history is what matters; older spending habits are dropped
+const MAX_TRAINING_TRANSACTIONS = 5000;
+
+// A merchant's default category is the user's own choice, but not a rule: the
+// transaction may still be the odd one out (a gift bought at the supermarket)
+const MERCHANT_CONFIDENCE = 0.9;
+
+// Additive (Laplace) smoothing for words a category has never seen
+const SMOOTHING = 1;
+
+/**
+ * Words of a description or merchant that say something about the spend.
+ * Numbers (amounts, branch and terminal IDs, dates) are dropped.
+ */
+export function suggestionTokens(...texts: (string | null | undefined)[]): string[] {
+    const words = texts.flatMap(text => normalizeDescription(text).split(' '));
+    return [...new Set(words.filter(word => word.length > 1 && !/^\d+$/.test(word)))];
+}
+
+/**
+ * Train the model on a user's categorized income and expense transactions
+ */
+async function trainCategoryModel(userId: string): Promise<CategoryModel> {
+    const rows = await db
+        .select({
+            categoryId: transactions.categoryId,
+            categoryType: categories.type,
+            description: transactions.description,
+            merchant: receipts.ocrMerchant,
+        })
+        .from(transactions)
+        .innerJoin(categories, eq(transactions.categoryId, categories.id))
+        .leftJoin(receipts, eq(transactions.receiptId, receipts.id))
+        .where(and(
+            eq(transactions.userId, userId),
+            ne(transactions.type, 'transfer'),
+            isNotNull(transactions.categoryId)
+        ))
+        .orderBy(desc(transactions.date))
+        .limit(MAX_TRAINING_TRANSACTIONS);
+
+    const model: CategoryModel = { documents: 0, vocabulary: new Set(), classes: new Map() };
+    for (const row of rows) {
+        const tokens = suggestionTokens(row.description, row.merchant);
+        if (!row.categoryId || tokens.length === 0) continue;
+
+        let entry = model.classes.get(row.categoryId);
+        if (!entry) {
+            entry = { type: row.categoryType, documents: 0, tokens: 0, counts: new Map() };
+            model.classes.set(row.categoryId, entry);
+        }
+        model.documents++;
+        entry.documents++;
+        for (const token of tokens) {
+            entry.tokens++;
+            entry.counts.set(token, (entry.counts.get(token) || 0) + 1);
+            model.vocabulary.add(token);
+        }
+    }
+    return model;
+}
+
+/**
+ * Rank categories by posterior probability. Words never seen in training carry
+ * no evidence and are ignored, and a category that has seen none of the words
+ * is only the prior talking, so it is left out. The posterior is discounted by
+ * the square root of the share of words the model knows: one familiar word out
+ * of four is weak evidence however lopsided its counts, while a brand plus an
+ * unseen branch name ("Alfamart Bintaro") still counts.
+ */
+function classify(model: CategoryModel, tokens: string[], type: 'income' | 'expense' | null | undefined, limit: number) {
+    const known = tokens.filter(token => model.vocabulary.has(token));
+    if (known.length === 0) return [];
+
+    const scores: { categoryId: string; logProbability: number }[] = [];
+    for (const [categoryId, entry] of model.classes) {
+        if (type && entry.type !== type) continue;
+        if (!known.some(token => entry.counts.has(token))) continue;
+        const denominator = entry.tokens + SMOOTHING * model.vocabulary.size;
+        let logProbability = Math.log(entry.documents / model.documents);
+        for (const token of known) {
+            logProbability += Math.log(((entry.counts.get(token) || 0) + SMOOTHING) / denominator);
+        }
+        scores.push({ categoryId, logProbability });
+    }
+    if (scores.length === 0) return [];
+
+    // Normalize in log space to avoid underflow
+    const max = Math.max(...scores.map(s => s.logProbability));
+    const total = scores.reduce((sum, s) => sum + Math.exp(s.logProbability - max), 0);
+    const coverage = Math.sqrt(known.length / tokens.length);
+    return scores
+        .map(s => ({ categoryId: s.categoryId, confidence: coverage * Math.exp(s.logProbability - max) / total }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, limit);
+}
+
+/**
+ * Ranked category suggestions for a transaction. A matching rule comes first
+ * with full confidence, then the merchant's default category; the learned model
+ * fills in the rest.
+ */
+export async function suggestCategories(userId: string, query: SuggestionQuery, limit = 3): Promise<CategorySuggestion[]> {
+    const suggestions: CategorySuggestion[] = [];
+
+    // Rules need the amount; without one, amount conditions can't be checked
+    if (query.type && query.amount != null) {
+        const { categoryId } = applyRules(await getActiveRules(userId), {
+            type: query.type,
+            amount: query.amount,
+            currency: query.currency,
+            accountId: query.accountId,
+            description: query.description,
+            merchant: query.merchant,
+        });
+        if (categoryId) suggestions.push({ categoryId, confidence: 1, source: 'rule' });
+    }
+
+    const directory = await getMerchants(userId);
+    const merchant = matchMerchant(directory, query.merchant) ?? matchMerchant(directory, query.description);
+    if (merchant?.categoryId && !suggestions.some(s => s.categoryId === merchant.categoryId)) {
+        const category = (await db
+            .select({ type: categories.type })
+            .from(categories)
+            .where(eq(categories.id, merchant.categoryId))
+            .limit(1))[0];
+        if (category && (!query.type || category.type === query.type)) {
+            suggestions.push({ categoryId: merchant.categoryId, confidence: MERCHANT_CONFIDENCE, source: 'merchant' });
+        }
+    }
+
+    const tokens = suggestionTokens(query.description, query.merchant);
+    if (tokens.length > 0) {
+        const model = await trainCategoryModel(userId);
+        for (const { categoryId, confidence } of classify(model, tokens, query.type, limit)) {
+            if (suggestions.some(s => s.categoryId === categoryId)) continue;
+            suggestions.push({ categoryId, confidence, source: 'history' });
+        }
+    }
+
+    return suggestions.slice(0, limit);
+}
@@ -0,0 +1,174 @@
+// Category hierarchy helpers (pure, usable on client and server)
+
+export interface CategoryTreeItem {
+    id: string;
+    parentId?: string | null;
+}
+
+export type CategoryNode<T extends CategoryTreeItem> = T & {
+    depth: number;
+    children: CategoryNode<T>[];
+};
+
+// A category whose parent is missing (deleted, or not in the list) is treated as top level
+function parentMap(items: CategoryTreeItem[]): Map<string, string | null> {
+    const ids = new Set(items.map(c => c.id));
+    return new Map(items.map(c => [c.id, c.parentId && ids.has(c.parentId) ? c.parentId : null]));
+}
+
+/**
+ * Category IDs from the top-level ancestor down to the category itself.
+ * Stops at a cycle instead of looping, so bad data still yields a path.
+ */
+export function getCategoryPath(items: CategoryTreeItem[], id: string): string[] {
+    const parents = parentMap(items);
+    const path: string[] = [];
+    let current: string | null | undefined = id;
+    while (current && !path.includes(current)) {
+        path.unshift(current);
+        current = parents.get(current);
+    }
+    return path;
+}
+
+/**
+ * The category and every category below it, at any depth
+ */
+export function getDescendantIds(items: CategoryTreeItem[], id: string): string[] {
+    const parents = parentMap(items);
+    const result = [id];
+    for (let i = 0; i < result.length; i++) {
+        for (const [childId, parentId] of parents) {
+            if (parentId === result[i] && !result.includes(childId)) result.push(childId);
+        }
+    }
+    return result;
+}
+
+/**
+ * Whether moving a category under `parentId` would make it its own ancestor
+ */
+export function wouldCreateCycle(items: CategoryTreeItem[], id: string, parentId: string | null): boolean {
+    return !!parentId && getDescendantIds(items, id).includes(parentId);
+}
+
+/**
+ * Nest a flat category list. Order within each level follows the input order.
+ */
+export function buildCategoryTree<T extends CategoryTreeItem>(items: T[]): CategoryNode<T>[] {
+    const parents = parentMap(items);
+    const nodes = new Map(items.map(c => [c.id, { ...c, depth: 0, children: [] as CategoryNode<T>[] }]));
+    const roots: CategoryNode<T>[] = [];
+
+    for (const item of items) {
+        const node = nodes.get(item.id)!;
+        const parentId = parents.get(item.id);
+        // Members of a cycle have no path to a root; attach them at the top
+        const parent = parentId && !getCategoryPath(items, parentId).includes(item.id) ? nodes.get(parentId) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+
+    const setDepth = (list: CategoryNode<T>[], depth: number) => {
+        for (const node of list) {
+            node.depth = depth;
+            setDepth(node.children, depth + 1);
+        }
+    };
+    setDepth(roots, 0);
+    return roots;
+}
+
+/**
+ * Depth-first flattening of a tree, e.g. for indented <select> options
+ */
+export function flattenCategoryTree<T extends CategoryTreeItem>(tree: CategoryNode<T>[]): CategoryNode<T>[] {
+    return tree.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * The category a report row is counted under.
+ * - `level`: roll up to the ancestor at that depth (0 = top level); shallower categories stay as they are
+ * - `parentId`: drill into that category, grouping by its direct children; spending on the parent
+ *   itself stays under the parent. Categories outside it return undefined.
+ */
+export function rollUpCategoryId(
+    items: CategoryTreeItem[],
+    id: string | null,
+    options: { level?: number; parentId?: string }
+): string | null | undefined {
+    if (options.parentId) {
+        if (!id) return undefined;
+        const path = getCategoryPath(items, id);
+        const index = path.indexOf(options.parentId);
+        if (index === -1) return undefined;
+        return path[index + 1] ?? options.parentId;
+    }
+    if (options.level !== undefined && id) {
+        const path = getCategoryPath(items, id);
+        return path[Math.min(options.level, path.length - 1)];
+    }
+    return id;
+}
+
+export interface CategoryTotalRow {
+    categoryId: string | null;
+    categoryName: string | null;
+    categoryColor: string | null;
+    categoryIcon: string | null;
+    type: string;
+    total: number;
+    count: number;
+}
+
+export interface CategoryInfo extends CategoryTreeItem {
+    name: string;
+    color: string | null;
+    icon: string | null;
+}
+
+/**
+ * Regroup per-category totals with rollUpCategoryId, summing rows that land on the same
+ * category and type. Each row also says where it sits (`parentId`) and whether it can be
+ * drilled into (`hasChildren`).
+ */
+export function rollUpCategoryRows<R extends CategoryTotalRow>(
+    rows: R[],
+    items: CategoryInfo[],
+    options: { level?: number; parentId?: string }
+): (R & { parentId: string | null; hasChildren: boolean })[] {
+    const byId = new Map(items.map(c => [c.id, c]));
+    const parentIds = new Set(items.map(c => c.parentId));
+    const merged = new Map<string, R>();
+
+    for (const row of rows) {
+        const categoryId = rollUpCategoryId(items, row.categoryId, options);
+        if (categoryId === undefined) continue;
+
+        const key = `${categoryId}:${row.type}`;
+        const existing = merged.get(key);
+        if (existing) {
+            existing.total += row.total;
+            existing.count += row.count;
+        } else {
+            const category = categoryId ? byId.get(categoryId) : undefined;
+            merged.set(key, {
+                ...row,
+                categoryId,
+                categoryName: category?.name ?? row.categoryName,
+                categoryColor: category?.color ?? row.categoryColor,
+                categoryIcon: category?.icon ?? row.categoryIcon,
+            });
+        }
+    }
+
+    return Array.from(merged.values()).map(row => ({
+        ...row,
+        parentId: (row.categoryId && byId.get(row.categoryId)?.parentId) || null,
+        // The drilled-into category's own spending can't be broken down further
+        hasChildren: !!row.categoryId && row.categoryId !== options.parentId && parentIds.has(row.categoryId),
+    }));
+}
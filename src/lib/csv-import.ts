@@ -0,0 +1,306 @@
+// Bank statement CSV parsing (shared by the import wizard and /api/import/csv)
+
+import { parse, isValid, format } from 'date-fns';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+/**
+ * How the columns of a bank export map onto transactions.
+ * Column references are zero-based indexes, so header-less exports work too.
+ */
+export interface CsvMapping {
+    delimiter: CsvDelimiter;
+    skipRows: number; // preamble lines before the header (BCA puts account info there)
+    hasHeader: boolean;
+    dateFormat: string; // date-fns pattern, e.g. dd/MM/yyyy
+    decimalSeparator: '.' | ',';
+    // signed: one amount column, negative (or "DB") = expense
+    // debit_credit: separate debit and credit columns (Mandiri)
+    // indicator: amount plus a column saying DB/CR
+    amountMode: 'signed' | 'debit_credit' | 'indicator';
+    columns: {
+        date: number;
+        description: number;
+        amount?: number | null;
+        debit?: number | null;
+        credit?: number | null;
+        indicator?: number | null;
+    };
+    debitIndicator?: string | null; // indicator value marking expenses, default "DB"
+}
+
+export interface CsvRow {
+    line: number; // 1-based line in the file, for error messages
+    type: 'income' | 'expense';
+    amount: number;
+    date: string; // YYYY-MM-DD
+    description: string;
+}
+
+export interface CsvRowError {
+    line: number;
+    error: string;
+}
+
+export const DATE_FORMATS = [
+    'dd/MM/yyyy',
+    'dd/MM/yy',
+    'dd/MM',
+    'dd-MM-yyyy',
+    'dd MMM yyyy',
+    'd MMM yyyy',
+    'yyyy-MM-dd',
+    'MM/dd/yyyy',
+] as const;
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, doubled quotes and newlines.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, ''); // Excel BOM
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell.trim() === '') {
+            inQuotes = true;
+            cell = '';
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows.map(r => r.map(c => c.trim()));
+}
+
+/**
+ * Guess the delimiter from the most consistent column count in the first lines
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+    const sample = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20).join('\n');
+    const candidates: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+    let best: CsvDelimiter = ',';
+    let bestScore = 0;
+    for (const delimiter of candidates) {
+        const counts = parseCsv(sample, delimiter).map(r => r.length).filter(n => n > 1);
+        if (counts.length === 0) continue;
+        // Most frequent column count, weighted by how many lines share it
+        const freq = new Map<number, number>();
+        counts.forEach(n => freq.set(n, (freq.get(n) || 0) + 1));
+        const [columns, lines] = Array.from(freq.entries()).sort((a, b) => b[1] - a[1])[0];
+        const score = lines * columns;
+        if (score > bestScore) {
+            bestScore = score;
+            best = delimiter;
+        }
+    }
+    return best;
+}
+
+/**
+ * Suggest a mapping from header names (Indonesian and English bank exports)
+ */
+export function guessMapping(text: string): CsvMapping {
+    const delimiter = detectDelimiter(text);
+    const rows = parseCsv(text, delimiter);
+
+    // The header is the first row that names a date column
+    const headerIndex = Math.max(0, rows.findIndex(r => r.some(c => /^(tanggal|tgl|date|posting date|transaction date)/i.test(c))));
+    const header = rows[headerIndex] || [];
+    const find = (pattern: RegExp) => {
+        const index = header.findIndex(c => pattern.test(c));
+        return index >= 0 ? index : null;
+    };
+
+    const debit = find(/^(debit|debet|db|withdrawal|keluar)/i);
+    const credit = find(/^(credit|kredit|cr|deposit|masuk)/i);
+    // BCA leaves the DB/CR column unnamed, so fall back to looking at the values
+    const sample = rows.slice(headerIndex + 1, headerIndex + 21);
+    const indicatorByValue = header
+        .map((_, i) => i)
+        .find(i => sample.length > 0 && sample.every(r => /^(DB|CR|D|K|DR)?$/i.test(r[i] || '')) && sample.some(r => r[i]));
+    const indicator = find(/^(db\s*\/\s*cr|d\s*\/\s*k|dc|type|jenis)$/i) ?? indicatorByValue ?? null;
+    const amount = find(/^(jumlah|amount|nominal|mutasi|nilai)/i);
+
+    const firstValue = rows[headerIndex + 1]?.[find(/^(tanggal|tgl|date)/i) ?? 0] || '';
+    const dateFormat = DATE_FORMATS.find(f => parseDate(firstValue, f)) || 'dd/MM/yyyy';
+
+    return {
+        delimiter,
+        skipRows: headerIndex,
+        hasHeader: true,
+        dateFormat,
+        decimalSeparator: delimiter === ';' ? ',' : '.',
+        amountMode: debit !== null && credit !== null ? 'debit_credit' : indicator !== null ? 'indicator' : 'signed',
+        columns: {
+            date: find(/^(tanggal|tgl|date|posting date|transaction date)/i) ?? 0,
+            description: find(/^(keterangan|description|deskripsi|uraian|remark|details|narrative)/i) ?? 1,
+            amount,
+            debit,
+            credit,
+            indicator,
+        },
+        debitIndicator: 'DB',
+    };
+}
+
+// Indonesian month abbreviations that differ from English ones
+const MONTH_ALIASES: Record<string, string> = {
+    mei: 'May',
+    agu: 'Aug',
+    agt: 'Aug',
+    okt: 'Oct',
+    des: 'Dec',
+};
+
+/**
+ * Parse a date cell. BCA prefixes dates with an apostrophe and some banks
+ * append a time; both are tolerated.
+ */
+export function parseDate(raw: string, dateFormat: string): string | null {
+    const value = raw
+        .trim()
+        .replace(/^'/, '')
+        .replace(/\b(mei|agu|agt|okt|des)[a-z]*\b/i, m => MONTH_ALIASES[m.slice(0, 3).toLowerCase()]);
+    if (!value) return null;
+
+    const formatParts = dateFormat.split(/\s+/).length;
+    const candidates = [value, value.split(/\s+/).slice(0, formatParts).join(' ')];
+
+    for (const candidate of candidates) {
+        const date = parse(candidate, dateFormat, new Date());
+        if (isValid(date) && date.getFullYear() > 1900) {
+            return format(date, 'yyyy-MM-dd');
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse an amount cell into a signed number.
+ * Understands "Rp" prefixes, thousand separators, (parentheses), trailing minus
+ * and BCA-style "DB"/"CR" suffixes.
+ */
+export function parseAmount(raw: string, decimalSeparator: '.' | ','): number | null {
+    let text = raw.trim().toUpperCase().replace(/^'/, '');
+    if (!text) return null;
+
+    let negative = false;
+
+    text = text.replace(/^(RP|IDR)\.?\s*/, '');
+    if (/\s*(DB|DR|D)$/.test(text) && /\d/.test(text)) {
+        negative = true;
+        text = text.replace(/\s*(DB|DR|D)$/, '');
+    } else {
+        text = text.replace(/\s*(CR|K)$/, '');
+    }
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.includes('-')) negative = true;
+
+    let digits = text.replace(/[^\d.,]/g, '');
+    if (!digits) return null;
+
+    digits = decimalSeparator === ','
+        ? digits.replace(/\./g, '').replace(',', '.')
+        : digits.replace(/,/g, '');
+
+    const value = parseFloat(digits);
+    if (isNaN(value)) return null;
+    return negative ? -value : value;
+}
+
+/**
+ * Turn CSV text into transaction rows using a mapping.
+ * Rows that can't be read are reported rather than dropped silently.
+ */
+export function mapCsvRows(text: string, mapping: CsvMapping): { rows: CsvRow[]; errors: CsvRowError[] } {
+    const allRows = parseCsv(text, mapping.delimiter);
+    const firstDataRow = mapping.skipRows + (mapping.hasHeader ? 1 : 0);
+    const { columns } = mapping;
+    const debitIndicator = (mapping.debitIndicator || 'DB').trim().toUpperCase();
+
+    const rows: CsvRow[] = [];
+    const errors: CsvRowError[] = [];
+
+    allRows.slice(firstDataRow).forEach((cells, index) => {
+        const line = firstDataRow + index + 1;
+        if (cells.every(c => !c)) return;
+
+        const cell = (column: number | null | undefined) => (column != null ? cells[column] || '' : '');
+
+        const date = parseDate(cell(columns.date), mapping.dateFormat);
+        if (!date) {
+            // Footers (opening/closing balance, totals) carry a label instead of a date
+            if (/\d/.test(cell(columns.date))) {
+                errors.push({ line, error: `Unreadable date "${cell(columns.date)}"` });
+            }
+            return;
+        }
+
+        let signed: number | null = null;
+        if (mapping.amountMode === 'debit_credit') {
+            const debit = parseAmount(cell(columns.debit), mapping.decimalSeparator);
+            const credit = parseAmount(cell(columns.credit), mapping.decimalSeparator);
+            if (debit) signed = -Math.abs(debit);
+            else if (credit) signed = Math.abs(credit);
+        } else {
+            const amount = parseAmount(cell(columns.amount), mapping.decimalSeparator);
+            if (amount !== null && mapping.amountMode === 'indicator') {
+                const isDebit = cell(columns.indicator).toUpperCase() === debitIndicator;
+                signed = isDebit ? -Math.abs(amount) : Math.abs(amount);
+            } else {
+                signed = amount;
+            }
+        }
+
+        if (!signed) {
+            errors.push({ line, error: 'Missing or zero amount' });
+            return;
+        }
+
+        rows.push({
+            line,
+            type: signed < 0 ? 'expense' : 'income',
+            amount: Math.abs(signed),
+            date,
+            description: cell(columns.description).replace(/\s+/g, ' ').slice(0, 500),
+        });
+    });
+
+    return { rows, errors };
+}
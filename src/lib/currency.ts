@@ -207,6 +207,18 @@ async function getFallbackRate(from: string, to: string): Promise<number> {
     return 1;
 }
 
+/**
+ * Rate from a fallback table shaped like the currencyFallbackRates setting (direct
+ * or inverse), or from the built-in defaults when no table is given
+ */
+export function lookupFallbackRate(
+    from: string,
+    to: string,
+    rates: Record<string, Record<string, number>> = DEFAULT_RATES
+): number | null {
+    return from === to ? 1 : lookupRate(rates, from, to);
+}
+
 function lookupRate(rates: Record<string, Record<string, number>>, from: string, to: string): number | null {
     // Direct lookup
     if (rates[from]?.[to]) return rates[from][to];
@@ -0,0 +1,119 @@
+// Local inbox polling (server-side only)
+// EMAIL_INBOX_MAILDIR points at a maildir (new/, cur/, tmp/): one kept in sync
+// with an IMAP mailbox by mbsync/offlineimap, one a local MTA delivers to, or
+// just a directory .eml files are dropped into. Every EMAIL_INBOX_POLL_SECONDS
+// (default 300) messages in new/ are ingested (lib/email-ingest.ts) for the
+// account EMAIL_INBOX_USER (its e-mail address), then moved to cur/ marked seen,
+// or flagged when ingestion failed so they are not retried forever.
+
+import { mkdir, readFile, readdir, rename } from 'fs/promises';
+import path from 'path';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { MAX_EMAIL_SIZE, ingestEmail, processEmailIngestJobs } from '@/lib/email-ingest';
+
+export interface InboxPollResult {
+    messages: number;
+    receipts: number;
+    failed: number;
+}
+
+const DEFAULT_POLL_SECONDS = 300;
+
+let polling = false;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Maildir info suffix: ":2," followed by the flags in alphabetical order
+function withFlag(name: string, flag: 'S' | 'F'): string {
+    const [base, info] = name.split(':2,');
+    const flags = new Set([...(info ?? ''), flag]);
+    return `${base}:2,${[...flags].sort().join('')}`;
+}
+
+async function inboxUserId(email: string): Promise<string> {
+    const result = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.email, email))
+        .limit(1);
+    if (result.length === 0) {
+        throw new Error(`EMAIL_INBOX_USER "${email}" does not match an account`);
+    }
+    return result[0].id;
+}
+
+/**
+ * Ingest every new message in the maildir once. Messages are processed one at
+ * a time, OCR and enhancement included.
+ */
+export async function pollMaildir(
+    maildir = process.env.EMAIL_INBOX_MAILDIR,
+    userEmail = process.env.EMAIL_INBOX_USER
+): Promise<InboxPollResult> {
+    if (!maildir || !userEmail) {
+        throw new Error('EMAIL_INBOX_MAILDIR and EMAIL_INBOX_USER must be set');
+    }
+
+    const userId = await inboxUserId(userEmail);
+    const newDir = path.join(maildir, 'new');
+    const curDir = path.join(maildir, 'cur');
+    await mkdir(newDir, { recursive: true });
+    await mkdir(curDir, { recursive: true });
+
+    const result: InboxPollResult = { messages: 0, receipts: 0, failed: 0 };
+    const names = (await readdir(newDir)).filter(name => !name.startsWith('.')).sort();
+
+    for (const name of names) {
+        result.messages++;
+        let flag: 'S' | 'F' = 'S';
+        try {
+            const raw = await readFile(path.join(newDir, name));
+            if (raw.length > MAX_EMAIL_SIZE) {
+                throw new Error('message too large');
+            }
+            const { result: ingested, jobs } = await ingestEmail(userId, raw);
+            await processEmailIngestJobs(userId, jobs);
+            result.receipts += ingested.receiptIds.length;
+            if (ingested.error) {
+                throw new Error(ingested.error);
+            }
+        } catch (error) {
+            console.error(`Inbox: failed to ingest ${name}:`, error);
+            result.failed++;
+            flag = 'F';
+        }
+        await rename(path.join(newDir, name), path.join(curDir, withFlag(name, flag)));
+    }
+
+    return result;
+}
+
+/**
+ * Poll the configured maildir in the background (see instrumentation.ts).
+ * A poll still running when the next one is due is not overlapped.
+ */
+export function startInboxPolling(): void {
+    if (timer) return;
+
+    const seconds = parseInt(process.env.EMAIL_INBOX_POLL_SECONDS || '', 10);
+    const interval = (seconds > 0 ? seconds : DEFAULT_POLL_SECONDS) * 1000;
+
+    const poll = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+            const result = await pollMaildir();
+            if (result.messages > 0) {
+                console.log(`📬 Inbox: ${result.messages} message(s), ${result.receipts} receipt(s), ${result.failed} failed`);
+            }
+        } catch (error) {
+            console.error('Inbox poll failed:', error);
+        } finally {
+            polling = false;
+        }
+    };
+
+    timer = setInterval(poll, interval);
+    void poll();
+}
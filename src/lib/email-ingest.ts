@@ -0,0 +1,315 @@
+// E-mail receipt ingestion (server-side only)
+// Online purchase confirmations arrive by e-mail. A raw RFC 822 message (.eml)
+// becomes one receipt per image or PDF attachment, or one receipt for the
+// message body when it has none. The receipt text (message body, PDF text layer,
+// server OCR of images) then goes through the same enhancement as
+// /api/ocr-enhanced (lib/receipt-enhancement.ts), or the local parsers when no
+// LLM is configured.
+// Messages come from POST /api/ingest/email and the local inbox poller (lib/email-inbox.ts).
+
+import { createHash } from 'crypto';
+import { format } from 'date-fns';
+import { after } from 'next/server';
+import { simpleParser, type Attachment } from 'mailparser';
+import sharp from 'sharp';
+import { v4 as uuid } from 'uuid';
+import { db } from '@/db';
+import { receipts } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getLLMProvider } from '@/lib/llm';
+import { parseReceiptText } from '@/lib/ocr';
+import type { QrisPayload } from '@/lib/qris';
+import { MAX_PDF_PAGES, textFromItems, textLayerOrNull } from '@/lib/pdf';
+import { enhanceReceiptText, type EnhancedReceipt } from '@/lib/receipt-enhancement';
+import { storeReceiptAttachment, storeReceiptImage } from '@/lib/receipt-images';
+import { replaceReceiptItems } from '@/lib/receipt-items';
+import { runReceiptOcr } from '@/lib/receipt-ocr';
+import { getMerchantTemplates } from '@/lib/merchant-templates';
+import { linkReceiptMerchant } from '@/lib/merchants';
+
+export interface EmailIngestResult {
+    messageId: string | null;
+    subject: string | null;
+    receiptIds: string[];
+    skipped: number; // parts already ingested earlier (same content hash)
+    error?: string; // set when the message could not be ingested
+}
+
+// Follow-up work for a stored receipt: OCR its image first when there is no text yet
+export interface EmailIngestJob {
+    receiptId: string;
+    rawText: string | null;
+    sentDate: string | null; // used when the receipt itself has no date
+}
+
+export const MAX_EMAIL_SIZE = 25 * 1024 * 1024;
+
+// More attachments than this is a newsletter or an archive, not a receipt
+const MAX_RECEIPTS_PER_EMAIL = 10;
+
+// Non-inline images smaller than this are logos and tracking pixels
+const MIN_IMAGE_SIZE = 10 * 1024;
+
+const RECEIPT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Text receipts (message bodies, PDFs) are drawn into an image for the receipt list and viewer
+const TEXT_IMAGE_WIDTH = 800;
+const TEXT_LINE_HEIGHT = 22;
+const TEXT_MAX_LINES = 150;
+const TEXT_MAX_COLUMNS = 80;
+
+// Confidence of text that was never OCR'd (bodies, PDF text layers)
+const EMAIL_TEXT_CONFIDENCE = 0.95;
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+
+// Characters XML 1.0 does not allow; one in the text would make the rendered SVG invalid
+const INVALID_XML_CHARS = /[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+const fromCodePoint = (code: number) => (code <= 0x10ffff ? String.fromCodePoint(code) : '');
+
+/**
+ * Plain text of an HTML mail body: table cells on one line, rows and blocks on their own
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&lt;/gi, '<')
+        .replace(/&gt;/gi, '>')
+        .replace(/&quot;/gi, '"')
+        .replace(/&#39;|&apos;/gi, "'")
+        .replace(/&#(\d+);/g, (_, code) => fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromCodePoint(parseInt(code, 16)))
+        // Last, so an escaped entity like &amp;lt; stays "&lt;"
+        .replace(/&amp;/gi, '&')
+        .replace(INVALID_XML_CHARS, '')
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+const escapeXml = (value: string) =>
+    value.replace(INVALID_XML_CHARS, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Render receipt text as a PNG data URL, so text-only receipts get a thumbnail
+ */
+async function renderTextImage(text: string): Promise<string> {
+    const lines = text.split('\n').slice(0, TEXT_MAX_LINES).map(line => line.slice(0, TEXT_MAX_COLUMNS));
+    const height = (lines.length + 2) * TEXT_LINE_HEIGHT;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${TEXT_IMAGE_WIDTH}" height="${height}">
+<rect width="100%" height="100%" fill="#ffffff"/>
+<text font-family="monospace" font-size="16" fill="#111111">${lines
+        .map((line, i) => `<tspan x="24" y="${(i + 1.5) * TEXT_LINE_HEIGHT}" xml:space="preserve">${escapeXml(line)}</tspan>`)
+        .join('')}</text>
+</svg>`;
+    const png = await sharp(Buffer.from(svg)).png().toBuffer();
+    return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/**
+ * A PDF's text layer, or null for scanned PDFs (there is no canvas on the
+ * server to render them for OCR; the scanner handles those in the browser)
+ */
+async function readPdfText(data: Buffer): Promise<string | null> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    try {
+        const texts: string[] = [];
+        for (let n = 1; n <= Math.min(pdf.numPages, MAX_PDF_PAGES); n++) {
+            const page = await pdf.getPage(n);
+            texts.push(textFromItems((await page.getTextContent()).items));
+            page.cleanup();
+        }
+        return textLayerOrNull(texts);
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+async function alreadyIngested(userId: string, fileHash: string): Promise<boolean> {
+    const existing = await db
+        .select({ id: receipts.id })
+        .from(receipts)
+        .where(and(eq(receipts.userId, userId), eq(receipts.fileHash, fileHash)))
+        .limit(1);
+    return existing.length > 0;
+}
+
+const isReceiptAttachment = (attachment: Attachment) =>
+    !attachment.related && (
+        attachment.contentType === 'application/pdf' ||
+        (RECEIPT_IMAGE_TYPES.includes(attachment.contentType) && attachment.size >= MIN_IMAGE_SIZE)
+    );
+
+/**
+ * Parse a raw message and store its receipts. Returns the new receipts and the
+ * jobs that fill in their OCR fields; run those with processEmailIngestJobs,
+ * typically after the response has been sent. When a later part fails after
+ * receipts were stored, the result has an error and still carries their jobs.
+ */
+export async function ingestEmail(
+    userId: string,
+    raw: Buffer
+): Promise<{ result: EmailIngestResult; jobs: EmailIngestJob[] }> {
+    const mail = await simpleParser(raw);
+    const subject = mail.subject?.trim() || null;
+    const sentDate = mail.date ? format(mail.date, 'yyyy-MM-dd') : null;
+    const result: EmailIngestResult = { messageId: mail.messageId || null, subject, receiptIds: [], skipped: 0 };
+    const jobs: EmailIngestJob[] = [];
+
+    const insertReceipt = async (
+        fields: { imageBase64: string; attachmentBase64?: string; fileName: string | null; fileHash: string },
+        rawText: string | null,
+        queueJob = true
+    ) => {
+        const attachment = fields.attachmentBase64 ? await storeReceiptAttachment(fields.attachmentBase64) : null;
+        const image = await storeReceiptImage(fields.imageBase64);
+        if (!image) throw new Error(`Could not store the image of ${fields.fileName || 'an e-mail receipt'}`);
+
+        const id = uuid();
+        await db.insert(receipts).values({
+            id,
+            userId,
+            ...image,
+            ...attachment,
+            ocrRawText: rawText,
+            ocrStatus: queueJob ? 'pending' : null,
+            fileName: fields.fileName?.slice(0, 255) || null,
+            fileHash: fields.fileHash,
+            verified: false,
+            isAutomated: true,
+        });
+        result.receiptIds.push(id);
+        if (queueJob) jobs.push({ receiptId: id, rawText, sentDate });
+    };
+
+    try {
+        const parts = mail.attachments.filter(isReceiptAttachment).slice(0, MAX_RECEIPTS_PER_EMAIL);
+        for (const part of parts) {
+            const fileHash = sha256(part.content);
+            if (await alreadyIngested(userId, fileHash)) {
+                result.skipped++;
+                continue;
+            }
+
+            const dataUrl = `data:${part.contentType};base64,${part.content.toString('base64')}`;
+            if (part.contentType === 'application/pdf') {
+                // Scanned PDFs are kept for the user to open; there is nothing to parse
+                const text = await readPdfText(part.content);
+                await insertReceipt({
+                    imageBase64: await renderTextImage(text ?? `${part.filename || 'PDF receipt'}\n\n(no text layer; open the original PDF)`),
+                    attachmentBase64: dataUrl,
+                    fileName: part.filename || subject,
+                    fileHash,
+                }, text, text !== null);
+            } else {
+                await insertReceipt({ imageBase64: dataUrl, fileName: part.filename || subject, fileHash }, null);
+            }
+        }
+
+        // Without receipt attachments the message itself is the receipt
+        if (parts.length === 0) {
+            const body = (mail.html ? htmlToText(mail.html) : mail.text?.trim()) || '';
+            if (body) {
+                const fileHash = sha256(body);
+                if (await alreadyIngested(userId, fileHash)) {
+                    result.skipped++;
+                } else {
+                    await insertReceipt({ imageBase64: await renderTextImage(body), fileName: subject, fileHash }, body);
+                }
+            }
+        }
+    } catch (error) {
+        // Receipts stored before the failure still get their jobs; without them they would stay pending
+        if (result.receiptIds.length === 0) throw error;
+        console.error(`E-mail "${subject ?? ''}": ingestion stopped after ${result.receiptIds.length} receipts:`, error);
+        result.error = 'Failed to ingest part of the e-mail';
+    }
+
+    return { result, jobs };
+}
+
+/**
+ * Fill in a receipt's OCR fields from its text with the local parsers, then
+ * the LLM enhancement on top when a provider is configured. As in the scanner,
+ * fields the LLM leaves empty keep the local result.
+ */
+async function enhanceIngestedReceipt(
+    userId: string,
+    job: EmailIngestJob,
+    rawText: string,
+    confidence: number,
+    qris: QrisPayload | null = null
+) {
+    const local = parseReceiptText(rawText, confidence, await getMerchantTemplates(userId), qris);
+
+    let enhanced: EnhancedReceipt | null = null;
+    try {
+        const llm = getLLMProvider();
+        if (llm) enhanced = await enhanceReceiptText(llm, rawText, userId);
+    } catch (error) {
+        console.error(`E-mail receipt ${job.receiptId}: enhancement failed, using the local parser:`, error);
+    }
+
+    const amount = enhanced?.amount ?? local.amount;
+    const date = enhanced?.date ?? local.date;
+    const currency = (enhanced?.amount != null ? enhanced.currency : null) || local.currency || null;
+    const merchant = enhanced?.merchant || local.merchant;
+    await db
+        .update(receipts)
+        .set({
+            ocrRawText: rawText,
+            ocrMerchant: merchant,
+            ocrDate: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : job.sentDate,
+            ocrAmount: amount != null ? Math.abs(amount) : null,
+            ocrCurrency: currency,
+            ocrConfidence: enhanced?.confidence ?? local.confidence,
+            ocrStatus: 'done',
+        })
+        .where(eq(receipts.id, job.receiptId));
+    await linkReceiptMerchant(userId, job.receiptId, merchant);
+
+    const items = (enhanced?.items?.length ? enhanced.items : local.items).filter(item =>
+        typeof item.name === 'string' && Number.isFinite(item.price) && item.price >= 0
+    );
+    await replaceReceiptItems(job.receiptId, userId, items, currency);
+}
+
+/**
+ * Run the jobs from ingestEmail one at a time. Failures are logged and mark
+ * the receipt's OCR as failed; the receipt itself stays.
+ */
+export async function processEmailIngestJobs(userId: string, jobs: EmailIngestJob[]): Promise<void> {
+    for (const job of jobs) {
+        try {
+            if (job.rawText !== null) {
+                await enhanceIngestedReceipt(userId, job, job.rawText, EMAIL_TEXT_CONFIDENCE);
+                continue;
+            }
+
+            // Images go through server OCR first (which also records its own status)
+            const ocr = await runReceiptOcr(job.receiptId);
+            if (ocr?.rawText.trim()) {
+                await enhanceIngestedReceipt(userId, job, ocr.rawText, ocr.confidence, ocr.qris);
+            }
+        } catch (error) {
+            console.error(`Failed to process e-mail receipt ${job.receiptId}:`, error);
+            await db.update(receipts).set({ ocrStatus: 'failed' }).where(eq(receipts.id, job.receiptId));
+        }
+    }
+}
+
+/**
+ * Run the jobs once the response has been sent. Call from route handlers.
+ */
+export function scheduleEmailIngestJobs(userId: string, jobs: EmailIngestJob[]): void {
+    if (jobs.length === 0) return;
+    after(() => processEmailIngestJobs(userId, jobs));
+}
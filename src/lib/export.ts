@@ -1,7 +1,7 @@
-// CSV Export utility for transactions
+// Export utilities for transactions (CSV, OFX, QIF, beancount, ledger)
 
 import { format } from 'date-fns';
-import type { Transaction, Category } from '@/db/schema';
+import type { Transaction, TransactionSplit, Category, Account, Tag } from '@/db/schema';
 
 export interface ExportTransaction extends Transaction {
     categoryName?: string;
@@ -9,12 +9,19 @@ export interface ExportTransaction extends Transaction {
 
 /**
  * Generate CSV content from transactions
+ * Transfers are labelled as such and carry both account legs;
+ * split transactions produce one row per split line.
+ * Tags are listed comma-separated in one column.
  */
 export function generateTransactionCSV(
     transactions: ExportTransaction[],
-    categories: Category[]
+    categories: Category[],
+    accounts: Account[] = [],
+    splits: Map<string, TransactionSplit[]> = new Map(),
+    tags: Map<string, Tag[]> = new Map()
 ): string {
     const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+    const accountMap = new Map(accounts.map(a => [a.id, a.name]));
 
     const headers = [
         'Date',
@@ -24,23 +31,471 @@ export function generateTransactionCSV(
         'Amount',
         'Currency',
         'Amount (Base Currency)',
+        'Account',
+        'To Account',
+        'To Amount',
+        'Tags',
     ];
 
-    const rows = transactions.map(t => [
-        format(new Date(t.date), 'yyyy-MM-dd'),
-        t.type,
-        categoryMap.get(t.categoryId || '') || 'Uncategorized',
-        `"${(t.description || '').replace(/"/g, '""')}"`,
-        t.amount.toString(),
-        t.currency || 'IDR',
-        t.amountInBase?.toString() || '',
-    ]);
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const rows = transactions.flatMap(t => {
+        const base = [
+            format(new Date(t.date), 'yyyy-MM-dd'),
+            t.type,
+        ];
+        const accountColumns = [
+            quote(accountMap.get(t.accountId || '') || ''),
+            quote(accountMap.get(t.toAccountId || '') || ''),
+            t.type === 'transfer' ? (t.toAmount ?? t.amount).toString() : '',
+            quote((tags.get(t.id) || []).map(tag => tag.name).join(', ')),
+        ];
+
+        const lines = splits.get(t.id);
+        if (lines && lines.length > 0) {
+            return lines.map(line => {
+                const description = [t.description, line.description].filter(Boolean).join(' - ');
+                const lineInBase = t.amountInBase != null && t.amount
+                    ? (line.amount * t.amountInBase) / t.amount
+                    : null;
+                return [
+                    ...base,
+                    categoryMap.get(line.categoryId || '') || 'Uncategorized',
+                    quote(description),
+                    line.amount.toString(),
+                    t.currency || 'IDR',
+                    lineInBase?.toString() || '',
+                    ...accountColumns,
+                ];
+            });
+        }
+
+        return [[
+            ...base,
+            t.type === 'transfer' ? 'Transfer' : categoryMap.get(t.categoryId || '') || 'Uncategorized',
+            quote(t.description || ''),
+            t.amount.toString(),
+            t.currency || 'IDR',
+            t.amountInBase?.toString() || '',
+            ...accountColumns,
+        ]];
+    });
 
     const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
 
     return csvContent;
 }
 
+// Transactions without an account are exported under this pseudo account
+const UNASSIGNED_ACCOUNT = { id: 'UNASSIGNED', name: 'Unassigned', type: 'bank', currency: 'IDR' } as const;
+
+type StatementAccount = Pick<Account, 'id' | 'name' | 'type' | 'currency'>;
+
+/**
+ * Signed movement of a transaction on one account, in the account's currency
+ * (same rules as signedAmountForAccount in lib/accounts, which is server-only).
+ * `baseRates` holds account currency units per IDR (getBaseRates).
+ */
+function statementAmount(t: Transaction, account: StatementAccount, baseRates: Map<string, number>): number {
+    if (t.type === 'transfer' && t.toAccountId === account.id) {
+        return t.toAmount ?? t.amount;
+    }
+    const currency = account.currency || 'IDR';
+    const amount = (t.currency || 'IDR') === currency
+        ? t.amount
+        : (t.amountInBase ?? t.amount) * (baseRates.get(currency) ?? 1);
+    return t.type === 'income' ? amount : -amount;
+}
+
+/**
+ * Group transactions by the accounts they touch (transfers appear on both sides)
+ */
+function groupByAccount(transactions: Transaction[], accounts: Account[]) {
+    const statements = new Map<string, { account: StatementAccount; entries: Transaction[] }>();
+    const accountMap = new Map<string, StatementAccount>(accounts.map(a => [a.id, a]));
+
+    const add = (accountId: string | null, t: Transaction) => {
+        const account = (accountId && accountMap.get(accountId)) || UNASSIGNED_ACCOUNT;
+        if (!statements.has(account.id)) statements.set(account.id, { account, entries: [] });
+        statements.get(account.id)!.entries.push(t);
+    };
+
+    for (const t of transactions) {
+        add(t.accountId, t);
+        if (t.type === 'transfer' && t.toAccountId) add(t.toAccountId, t);
+    }
+
+    return Array.from(statements.values());
+}
+
+/**
+ * Generate an OFX 1.02 (SGML) file with one statement per account.
+ * FITIDs are the transaction IDs, so re-importing this file is recognised as duplicate.
+ * Balances default to 0 when not given.
+ */
+export function generateTransactionOFX(
+    transactions: Transaction[],
+    accounts: Account[],
+    balances: Map<string, number> = new Map(),
+    baseRates: Map<string, number> = new Map()
+): string {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const ofxDate = (date: string) => date.replace(/-/g, '');
+    const today = format(new Date(), 'yyyyMMdd');
+
+    const bankStatements: string[] = [];
+    const cardStatements: string[] = [];
+
+    for (const { account, entries } of groupByAccount(transactions, accounts)) {
+        const isCard = account.type === 'credit_card';
+        const dates = entries.map(t => t.date).sort();
+
+        const lines = entries.map(t => {
+            const amount = statementAmount(t, account, baseRates);
+            const description = t.description || (t.type === 'transfer' ? 'Transfer' : '');
+            return [
+                '<STMTTRN>',
+                `<TRNTYPE>${t.type === 'transfer' ? 'XFER' : amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+                `<DTPOSTED>${ofxDate(t.date)}`,
+                `<TRNAMT>${amount.toFixed(2)}`,
+                `<FITID>${t.id}`,
+                `<NAME>${escape(description.slice(0, 32))}`,
+                ...(description.length > 32 ? [`<MEMO>${escape(description.slice(0, 255))}`] : []),
+                '</STMTTRN>',
+            ].join('\n');
+        });
+
+        const statement = [
+            `<${isCard ? 'CCSTMTTRNRS' : 'STMTTRNRS'}>`,
+            `<TRNUID>${account.id}`,
+            '<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>',
+            `<${isCard ? 'CCSTMTRS' : 'STMTRS'}>`,
+            `<CURDEF>${account.currency || 'IDR'}`,
+            isCard
+                ? `<CCACCTFROM>\n<ACCTID>${account.id}\n</CCACCTFROM>`
+                : `<BANKACCTFROM>\n<BANKID>DOOWEED\n<ACCTID>${account.id}\n<ACCTTYPE>CHECKING\n</BANKACCTFROM>`,
+            '<BANKTRANLIST>',
+            `<DTSTART>${ofxDate(dates[0])}`,
+            `<DTEND>${ofxDate(dates[dates.length - 1])}`,
+            ...lines,
+            '</BANKTRANLIST>',
+            `<LEDGERBAL>\n<BALAMT>${(balances.get(account.id) ?? 0).toFixed(2)}\n<DTASOF>${today}\n</LEDGERBAL>`,
+            `</${isCard ? 'CCSTMTRS' : 'STMTRS'}>`,
+            `</${isCard ? 'CCSTMTTRNRS' : 'STMTTRNRS'}>`,
+        ].join('\n');
+
+        (isCard ? cardStatements : bankStatements).push(statement);
+    }
+
+    return [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'SECURITY:NONE',
+        'ENCODING:USASCII',
+        'CHARSET:1252',
+        'COMPRESSION:NONE',
+        'OLDFILEUID:NONE',
+        'NEWFILEUID:NONE',
+        '',
+        '<OFX>',
+        '<SIGNONMSGSRSV1>',
+        '<SONRS>',
+        '<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>',
+        `<DTSERVER>${today}`,
+        '<LANGUAGE>ENG',
+        '</SONRS>',
+        '</SIGNONMSGSRSV1>',
+        ...(bankStatements.length > 0 ? ['<BANKMSGSRSV1>', ...bankStatements, '</BANKMSGSRSV1>'] : []),
+        ...(cardStatements.length > 0 ? ['<CREDITCARDMSGSRSV1>', ...cardStatements, '</CREDITCARDMSGSRSV1>'] : []),
+        '</OFX>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Generate a QIF file with one section per account.
+ * Transfers are written once, on the source account, as L[Destination];
+ * importers such as GnuCash create the other side themselves.
+ * Split transactions become QIF splits (S/E/$ lines).
+ */
+export function generateTransactionQIF(
+    transactions: Transaction[],
+    categories: Category[],
+    accounts: Account[],
+    splits: Map<string, TransactionSplit[]> = new Map(),
+    baseRates: Map<string, number> = new Map()
+): string {
+    const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+    const accountMap = new Map(accounts.map(a => [a.id, a.name]));
+    const qifDate = (date: string) => date.replace(/^(\d{4})-(\d{2})-(\d{2})$/, '$2/$3/$1');
+    const qifType = (type: string) => (type === 'cash' ? 'Cash' : type === 'credit_card' ? 'CCard' : 'Bank');
+    const clean = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+    const sections: string[] = [];
+
+    for (const { account, entries } of groupByAccount(transactions, accounts)) {
+        const records = entries
+            .filter(t => !(t.type === 'transfer' && t.toAccountId === account.id))
+            .map(t => {
+                const amount = statementAmount(t, account, baseRates);
+                const lines = [`D${qifDate(t.date)}`, `T${amount.toFixed(2)}`];
+                if (t.description) lines.push(`P${clean(t.description)}`);
+
+                const splitLines = splits.get(t.id);
+                if (t.type === 'transfer') {
+                    lines.push(`L[${accountMap.get(t.toAccountId || '') || 'Unknown'}]`);
+                } else if (splitLines && splitLines.length > 0) {
+                    const sign = t.type === 'income' ? 1 : -1;
+                    // Split lines are in the transaction currency; scale them to the statement amount
+                    const ratio = t.amount ? Math.abs(amount) / t.amount : 1;
+                    for (const line of splitLines) {
+                        lines.push(`S${categoryMap.get(line.categoryId || '') || 'Uncategorized'}`);
+                        if (line.description) lines.push(`E${clean(line.description)}`);
+                        lines.push(`$${(sign * line.amount * ratio).toFixed(2)}`);
+                    }
+                } else if (t.categoryId && categoryMap.has(t.categoryId)) {
+                    lines.push(`L${categoryMap.get(t.categoryId)}`);
+                }
+
+                return [...lines, '^'].join('\n');
+            });
+
+        if (records.length === 0) continue;
+
+        const type = qifType(account.type);
+        sections.push([
+            '!Account',
+            `N${account.name}`,
+            `T${type}`,
+            '^',
+            `!Type:${type}`,
+            ...records,
+        ].join('\n'));
+    }
+
+    return [...sections, ''].join('\n');
+}
+
+interface JournalPosting {
+    account: string;
+    amount: number | null; // null lets the tool balance the entry
+    currency: string;
+    price?: { amount: number; currency: string }; // total price (@@), e.g. the IDR value of a USD amount
+}
+
+interface JournalEntry {
+    date: string;
+    description: string;
+    id?: string;
+    postings: JournalPosting[];
+}
+
+const OPENING_BALANCES_ACCOUNT = 'Equity:Opening-Balances';
+
+/**
+ * One account name component: ASCII words joined by dashes, capitalised
+ * (beancount rejects anything else; ledger accepts it as is)
+ */
+function journalSegment(name: string): string {
+    const words = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean);
+    return words.map(w => w[0].toUpperCase() + w.slice(1)).join('-') || 'Other';
+}
+
+function journalAccountName(account: StatementAccount): string {
+    const root = {
+        bank: 'Assets:Bank',
+        ewallet: 'Assets:E-Wallet',
+        cash: 'Assets:Cash',
+        credit_card: 'Liabilities:Credit-Card',
+    }[account.type] || 'Assets:Bank';
+    return `${root}:${journalSegment(account.name)}`;
+}
+
+/**
+ * Turn transactions into double-entry journal entries shared by the beancount and
+ * ledger exporters. Accounts become Assets/Liabilities, categories Income/Expenses.
+ * Amounts stay in the transaction currency; non-IDR postings carry their IDR value
+ * (amountInBase) as a total price so the journal balances in the base currency.
+ */
+function buildJournal(
+    transactions: Transaction[],
+    categories: Category[],
+    accounts: Account[],
+    splits: Map<string, TransactionSplit[]>
+): JournalEntry[] {
+    const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+    const accountMap = new Map<string, StatementAccount>(accounts.map(a => [a.id, a]));
+    const accountFor = (id: string | null) => (id && accountMap.get(id)) || UNASSIGNED_ACCOUNT;
+    const categoryAccount = (t: Transaction, categoryId: string | null) =>
+        `${t.type === 'income' ? 'Income' : 'Expenses'}:${journalSegment(categoryMap.get(categoryId || '') || 'Uncategorized')}`;
+
+    const entries: JournalEntry[] = [];
+
+    for (const t of [...transactions].sort((a, b) => a.date.localeCompare(b.date))) {
+        const currency = t.currency || 'IDR';
+        const source = accountFor(t.accountId);
+        // Value of part of the transaction in IDR, for the price annotation
+        const priceOf = (amount: number) => currency !== 'IDR' && t.amountInBase != null && t.amount
+            ? { amount: (amount * t.amountInBase) / t.amount, currency: 'IDR' }
+            : undefined;
+
+        if (t.type === 'transfer') {
+            const destination = accountFor(t.toAccountId);
+            const toCurrency = t.toAmount != null ? destination.currency || 'IDR' : currency;
+            entries.push({
+                date: t.date,
+                description: t.description || `Transfer: ${source.name} → ${destination.name}`,
+                id: t.id,
+                postings: [
+                    {
+                        account: journalAccountName(destination),
+                        amount: t.toAmount ?? t.amount,
+                        currency: toCurrency,
+                        // A cross-currency transfer is priced in what left the source account
+                        price: toCurrency !== currency ? { amount: t.amount, currency } : undefined,
+                    },
+                    { account: journalAccountName(source), amount: -t.amount, currency },
+                ],
+            });
+            continue;
+        }
+
+        const sign = t.type === 'income' ? 1 : -1;
+        const lines = splits.get(t.id);
+        const categoryPostings: JournalPosting[] = lines && lines.length > 0
+            ? lines.map(line => ({
+                account: categoryAccount(t, line.categoryId),
+                amount: -sign * line.amount,
+                currency,
+                price: priceOf(line.amount),
+            }))
+            : [{ account: categoryAccount(t, t.categoryId), amount: -sign * t.amount, currency, price: priceOf(t.amount) }];
+
+        entries.push({
+            date: t.date,
+            description: t.description || categoryMap.get(t.categoryId || '') || (t.type === 'income' ? 'Income' : 'Expense'),
+            id: t.id,
+            postings: [
+                ...categoryPostings,
+                { account: journalAccountName(source), amount: sign * t.amount, currency, price: priceOf(t.amount) },
+            ],
+        });
+    }
+
+    // Opening balances, dated at the account's opening date or its first entry
+    const openings: JournalEntry[] = accounts
+        .filter(a => a.openingBalance)
+        .map(a => {
+            const name = journalAccountName(a);
+            const firstUse = entries.find(e => e.postings.some(p => p.account === name));
+            return {
+                date: a.openingDate || firstUse?.date || format(new Date(), 'yyyy-MM-dd'),
+                description: `Opening balance: ${a.name}`,
+                postings: [
+                    { account: name, amount: a.openingBalance, currency: a.currency || 'IDR' },
+                    { account: OPENING_BALANCES_ACCOUNT, amount: null, currency: a.currency || 'IDR' },
+                ],
+            };
+        });
+
+    // Stable sort: opening balances come before the same day's transactions
+    return [...openings, ...entries].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function journalAmount(amount: number): string {
+    return Number(amount.toFixed(2)).toString();
+}
+
+/**
+ * Posting line shared by both syntaxes: "account  amount CUR @@ total PRICECUR"
+ */
+function journalPosting(posting: JournalPosting, indent: string): string {
+    if (posting.amount === null) return `${indent}${posting.account}`;
+    const amount = `${journalAmount(posting.amount)} ${posting.currency}`;
+    const price = posting.price
+        ? ` @@ ${journalAmount(Math.abs(posting.price.amount))} ${posting.price.currency}`
+        : '';
+    return `${indent}${posting.account.padEnd(48)} ${amount.padStart(16)}${price}`;
+}
+
+/**
+ * Earliest date each journal account is used (beancount needs an open directive)
+ */
+function journalAccountDates(entries: JournalEntry[]): Map<string, string> {
+    const dates = new Map<string, string>();
+    for (const entry of entries) {
+        for (const posting of entry.postings) {
+            if (!dates.has(posting.account)) dates.set(posting.account, entry.date);
+        }
+    }
+    return new Map([...dates.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Generate a beancount ledger: options, open directives, then one entry per
+ * transaction with its ID as metadata
+ */
+export function generateTransactionBeancount(
+    transactions: Transaction[],
+    categories: Category[],
+    accounts: Account[],
+    splits: Map<string, TransactionSplit[]> = new Map()
+): string {
+    const entries = buildJournal(transactions, categories, accounts, splits);
+    const quote = (value: string) => `"${value.replace(/[\r\n]+/g, ' ').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const opens = Array.from(journalAccountDates(entries), ([account, date]) => `${date} open ${account}`);
+    const body = entries.map(entry => [
+        `${entry.date} * ${quote(entry.description)}`,
+        ...(entry.id ? [`  id: ${quote(entry.id)}`] : []),
+        ...entry.postings.map(p => journalPosting(p, '  ')),
+    ].join('\n'));
+
+    return [
+        `; Exported from Dooweed on ${format(new Date(), 'yyyy-MM-dd')}`,
+        'option "title" "Dooweed"',
+        'option "operating_currency" "IDR"',
+        '',
+        ...opens,
+        '',
+        ...body.flatMap(entry => [entry, '']),
+    ].join('\n');
+}
+
+/**
+ * Generate a ledger / hledger journal: account declarations, then one entry per
+ * transaction with its ID as a comment tag
+ */
+export function generateTransactionLedger(
+    transactions: Transaction[],
+    categories: Category[],
+    accounts: Account[],
+    splits: Map<string, TransactionSplit[]> = new Map()
+): string {
+    const entries = buildJournal(transactions, categories, accounts, splits);
+    const clean = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+    const declarations = Array.from(journalAccountDates(entries).keys(), account => `account ${account}`);
+    const body = entries.map(entry => [
+        `${entry.date} * ${clean(entry.description)}`,
+        ...(entry.id ? [`    ; id: ${entry.id}`] : []),
+        ...entry.postings.map(p => journalPosting(p, '    ')),
+    ].join('\n'));
+
+    return [
+        `; Exported from Dooweed on ${format(new Date(), 'yyyy-MM-dd')}`,
+        ...declarations,
+        'commodity IDR',
+        '',
+        ...body.flatMap(entry => [entry, '']),
+    ].join('\n');
+}
+
 /**
  * Trigger download of CSV file
  */
@@ -85,6 +540,9 @@ export function generateMonthlySummary(
     const categoryTotals = new Map<string, number>();
 
     for (const t of filtered) {
+        // Transfers move money between accounts; they are neither income nor expense
+        if (t.type === 'transfer') continue;
+
         const amount = t.amountInBase || t.amount;
 
         if (t.type === 'income') {
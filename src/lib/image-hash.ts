@@ -0,0 +1,93 @@
+// Image fingerprinting for duplicate receipt detection (shared by browser and server)
+// A SHA-256 of the file bytes catches exact copies (renamed or re-downloaded files);
+// a 64-bit difference hash (dHash) catches the same picture re-encoded, resized or re-shot.
+
+// dHash compares each pixel of a 9x8 grayscale thumbnail with its right neighbour
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+// Hashes at most this many bits apart are treated as the same image.
+// Browser and server downscale differently, so identical images rarely score 0;
+// receipts all look alike at 9x8 though, so the bound stays tight.
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+export interface ImageFingerprint {
+    fileHash: string; // SHA-256 of the file as picked, hex
+    perceptualHash: string | null; // dHash, 16 hex chars; null if the image could not be decoded
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build the dHash of a 9x8 grayscale thumbnail (row-major, one value per pixel)
+ */
+export function dHashFromGrayscale(pixels: ArrayLike<number>): string {
+    if (pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+        throw new Error(`Expected ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${pixels.length}`);
+    }
+
+    let hash = '';
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+        // Each row yields 8 bits: two hex digits
+        let byte = 0;
+        for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+            const left = pixels[y * DHASH_WIDTH + x];
+            const right = pixels[y * DHASH_WIDTH + x + 1];
+            byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+}
+
+function popcount32(n: number): number {
+    n = n - ((n >>> 1) & 0x55555555);
+    n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+    return Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+/**
+ * Number of differing bits between two dHashes (0 = same picture, 64 = unrelated)
+ */
+export function hammingDistance(a: string, b: string): number {
+    return popcount32(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16))
+        + popcount32(parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16));
+}
+
+/**
+ * Fingerprint a picked file before it is compressed and sent to OCR (browser-only)
+ */
+export async function fingerprintImageFile(file: Blob): Promise<ImageFingerprint> {
+    const fileHash = await sha256Hex(await file.arrayBuffer());
+
+    // PDFs are matched by file hash only
+    let perceptualHash: string | null = null;
+    if (file.type === 'application/pdf') return { fileHash, perceptualHash };
+    try {
+        const bitmap = await createImageBitmap(file, {
+            resizeWidth: DHASH_WIDTH,
+            resizeHeight: DHASH_HEIGHT,
+            resizeQuality: 'high',
+        });
+        const canvas = document.createElement('canvas');
+        canvas.width = DHASH_WIDTH;
+        canvas.height = DHASH_HEIGHT;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(bitmap, 0, 0);
+        bitmap.close();
+
+        const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+        const gray: number[] = [];
+        for (let i = 0; i < data.length; i += 4) {
+            gray.push(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]);
+        }
+        perceptualHash = dHashFromGrayscale(gray);
+    } catch (error) {
+        console.warn('Could not compute perceptual hash:', error);
+    }
+
+    return { fileHash, perceptualHash };
+}
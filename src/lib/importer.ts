@@ -0,0 +1,220 @@
+// Statement import helpers (server-side only): de-duplication and insertion
+// Shared by the CSV, OFX/QFX and QIF importers, which all produce NewTransaction rows.
+// Imported rows go through the user's categorization rules (lib/categorization-rules.ts).
+
+import { db } from '@/db';
+import { transactions, type NewTransaction } from '@/db/schema';
+import { and, eq, gte, lte, inArray, or } from 'drizzle-orm';
+import { convertCurrency } from '@/lib/currency';
+import { transactionSchema, validateInput } from '@/lib/validation';
+import { createRuleEvaluator, getActiveRules } from '@/lib/categorization-rules';
+import { createMerchantMatcher, getMerchants } from '@/lib/merchants';
+import { addTransactionTags } from '@/lib/tags';
+
+export interface ImportError {
+    line: number;
+    error: string;
+}
+
+export interface ImportRunOptions {
+    dryRun: boolean; // preview only, nothing is written
+    skipDuplicates: boolean;
+}
+
+/**
+ * Key used to recognise a statement line that is already in the ledger
+ */
+function duplicateKey(date: string, amount: number, description: string | null | undefined): string {
+    const text = (description || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return `${date}|${amount.toFixed(2)}|${text}`;
+}
+
+/**
+ * Find rows already recorded as transactions. Returns the IDs of duplicate rows.
+ *
+ * Rows with an externalId (OFX FITID) match on it, or on the transaction ID for
+ * files this app exported itself. Other rows match on date, amount and description,
+ * counted: two identical coffees on the same day only count as duplicates if two
+ * such transactions already exist.
+ */
+export async function findDuplicates(userId: string, rows: NewTransaction[]): Promise<Set<string>> {
+    const duplicates = new Set<string>();
+    if (rows.length === 0) return duplicates;
+
+    const externalIds = rows.map(r => r.externalId).filter((id): id is string => !!id);
+    if (externalIds.length > 0) {
+        const known = new Set<string>();
+        for (let i = 0; i < externalIds.length; i += 500) {
+            const chunk = externalIds.slice(i, i + 500);
+            const matches = await db
+                .select({ id: transactions.id, externalId: transactions.externalId })
+                .from(transactions)
+                .where(and(
+                    eq(transactions.userId, userId),
+                    or(inArray(transactions.externalId, chunk), inArray(transactions.id, chunk))
+                ));
+            matches.forEach(m => {
+                known.add(m.id);
+                if (m.externalId) known.add(m.externalId);
+            });
+        }
+        rows.forEach(r => {
+            if (r.externalId && known.has(r.externalId)) duplicates.add(r.id);
+        });
+    }
+
+    const byContent = rows.filter(r => !r.externalId);
+    if (byContent.length === 0) return duplicates;
+
+    const dates = byContent.map(r => r.date).sort();
+    const existing = await db
+        .select({ date: transactions.date, amount: transactions.amount, description: transactions.description })
+        .from(transactions)
+        .where(and(
+            eq(transactions.userId, userId),
+            gte(transactions.date, dates[0]),
+            lte(transactions.date, dates[dates.length - 1])
+        ));
+
+    const available = new Map<string, number>();
+    for (const t of existing) {
+        const key = duplicateKey(t.date, t.amount, t.description);
+        available.set(key, (available.get(key) || 0) + 1);
+    }
+
+    for (const row of byContent) {
+        const key = duplicateKey(row.date, row.amount, row.description);
+        const count = available.get(key) || 0;
+        if (count > 0) {
+            duplicates.add(row.id);
+            available.set(key, count - 1);
+        }
+    }
+
+    return duplicates;
+}
+
+/**
+ * Validate rows with the regular transaction schema, fill in the IDR amount and
+ * insert them. Invalid rows are reported (by `lines`, the source line of each row)
+ * and skipped; the rest are imported.
+ */
+export async function insertImportedTransactions(
+    rows: NewTransaction[],
+    lines: number[] = rows.map((_, i) => i + 1)
+): Promise<{ imported: number; ids: string[]; errors: ImportError[] }> {
+    const errors: ImportError[] = [];
+    const valid: NewTransaction[] = [];
+    const rateCache = new Map<string, number>();
+
+    for (const [index, row] of rows.entries()) {
+        const validation = validateInput(transactionSchema, {
+            type: row.type,
+            amount: row.amount,
+            currency: row.currency || 'IDR',
+            categoryId: row.categoryId || null,
+            accountId: row.accountId || null,
+            description: row.description || null,
+            date: row.date,
+        });
+        if (!validation.success) {
+            errors.push({ line: lines[index], error: validation.error });
+            continue;
+        }
+
+        const data = validation.data;
+        let amountInBase = data.amount;
+        if (data.currency !== 'IDR') {
+            // One conversion per currency and statement date is enough
+            const rateKey = `${data.currency}|${data.date}`;
+            if (!rateCache.has(rateKey)) {
+                rateCache.set(rateKey, await convertCurrency(1, data.currency, 'IDR', data.date));
+            }
+            amountInBase = data.amount * rateCache.get(rateKey)!;
+        }
+
+        valid.push({
+            ...row,
+            type: data.type,
+            amount: data.amount,
+            currency: data.currency,
+            amountInBase,
+            categoryId: data.categoryId || null,
+            accountId: data.accountId || null,
+            description: data.description || null,
+        });
+    }
+
+    // Insert in chunks to stay under SQLite's bound parameter limit
+    for (let i = 0; i < valid.length; i += 100) {
+        await db.insert(transactions).values(valid.slice(i, i + 100));
+    }
+
+    return { imported: valid.length, ids: valid.map(row => row.id), errors };
+}
+
+/**
+ * Preview or import parsed statement rows. This is the response body shared by
+ * the /api/import routes: a preview lists every row flagged as new or duplicate,
+ * an import reports what was written.
+ */
+export async function runImport(
+    userId: string,
+    rows: NewTransaction[],
+    lines: number[],
+    parseErrors: ImportError[],
+    options: ImportRunOptions
+) {
+    const duplicates = await findDuplicates(userId, rows);
+
+    if (options.dryRun) {
+        return {
+            rows: rows.map((r, i) => ({
+                line: lines[i],
+                type: r.type,
+                amount: r.amount,
+                date: r.date,
+                description: r.description || '',
+                duplicate: duplicates.has(r.id),
+            })),
+            errors: parseErrors,
+            summary: {
+                total: rows.length,
+                new: rows.length - duplicates.size,
+                duplicates: duplicates.size,
+                errors: parseErrors.length,
+            },
+        };
+    }
+
+    // Categorization rules fill in rows the statement (or the import form) left
+    // uncategorized, then the default category of the merchant in the description
+    const evaluateRules = createRuleEvaluator(await getActiveRules(userId));
+    const matchMerchant = createMerchantMatcher(await getMerchants(userId));
+    const keep = rows.map(r => !options.skipDuplicates || !duplicates.has(r.id));
+    const ruleTags = new Map<string, string[]>();
+    const result = await insertImportedTransactions(
+        rows.filter((_, i) => keep[i]).map(row => {
+            const outcome = evaluateRules(row);
+            ruleTags.set(row.id, outcome.tagIds);
+            const description = outcome.description || row.description;
+            const merchant = matchMerchant(description);
+            return {
+                ...row,
+                categoryId: row.categoryId || outcome.categoryId || (row.type !== 'transfer' ? merchant?.categoryId : null) || null,
+                description,
+                merchantId: merchant?.id ?? null,
+            };
+        }),
+        lines.filter((_, i) => keep[i])
+    );
+    for (const id of result.ids) {
+        await addTransactionTags(id, ruleTags.get(id) || []);
+    }
+
+    return {
+        imported: result.imported,
+        skippedDuplicates: options.skipDuplicates ? duplicates.size : 0,
+        errors: [...parseErrors, ...result.errors].sort((a, b) => a.line - b.line),
+    };
+}
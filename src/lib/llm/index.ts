@@ -0,0 +1,116 @@
+// LLM provider (server-side only)
+// Receipt enhancement and the exchange-rate fallback talk to a chat model through
+// this interface. LLM_PROVIDER picks the backend:
+//   deepseek (default)  DeepSeek API, keyed by DEEPSEEK_API_KEY
+//   openai-compatible   any OpenAI-style /chat/completions server (Ollama, llama.cpp, vLLM...) at LLM_BASE_URL
+//   mock                deterministic canned response (LLM_MOCK_RESPONSE), for tests
+// LLM_MODEL, LLM_BASE_URL, LLM_API_KEY and LLM_TIMEOUT_MS override the provider defaults.
+
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createMockProvider } from './mock';
+
+export { createOpenAICompatibleProvider } from './openai-compatible';
+export { createMockProvider, type MockProvider } from './mock';
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMRequest {
+    messages: LLMMessage[];
+    json?: boolean; // ask for a single JSON object
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface LLMProvider {
+    name: string; // reported as the enhancement/rate source
+    model: string;
+    complete(request: LLMRequest): Promise<string>;
+}
+
+const DEEPSEEK_BASE_URL = 'https://api.deepseek.com/v1';
+const DEEPSEEK_MODEL = 'deepseek-chat';
+
+// Self-hosted models on modest hardware can take a while on long receipts
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+let provider: LLMProvider | null | undefined;
+
+function timeoutFromEnv(): number {
+    const value = parseInt(process.env.LLM_TIMEOUT_MS || '', 10);
+    return value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+function createProviderFromEnv(): LLMProvider | null {
+    const kind = process.env.LLM_PROVIDER || 'deepseek';
+    const timeoutMs = timeoutFromEnv();
+
+    switch (kind) {
+        case 'deepseek': {
+            const apiKey = process.env.LLM_API_KEY || process.env.DEEPSEEK_API_KEY;
+            if (!apiKey) return null;
+            return createOpenAICompatibleProvider({
+                name: 'deepseek',
+                baseURL: process.env.LLM_BASE_URL || DEEPSEEK_BASE_URL,
+                apiKey,
+                model: process.env.LLM_MODEL || DEEPSEEK_MODEL,
+                timeoutMs,
+            });
+        }
+        case 'openai-compatible': {
+            const { LLM_BASE_URL, LLM_MODEL } = process.env;
+            if (!LLM_BASE_URL || !LLM_MODEL) {
+                throw new Error('LLM_PROVIDER=openai-compatible needs LLM_BASE_URL and LLM_MODEL');
+            }
+            return createOpenAICompatibleProvider({
+                name: 'openai-compatible',
+                baseURL: LLM_BASE_URL,
+                apiKey: process.env.LLM_API_KEY,
+                model: LLM_MODEL,
+                timeoutMs,
+            });
+        }
+        case 'mock':
+            return createMockProvider(process.env.LLM_MOCK_RESPONSE);
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected deepseek, openai-compatible or mock)`);
+    }
+}
+
+/**
+ * The configured provider (created once per process), or null when none is
+ * configured (no DeepSeek key) and LLM features should be reported unavailable
+ */
+export function getLLMProvider(): LLMProvider | null {
+    if (provider === undefined) {
+        provider = createProviderFromEnv();
+    }
+    return provider;
+}
+
+/**
+ * Swap the process-wide provider, e.g. for a mock in tests. Pass undefined to
+ * go back to the environment configuration.
+ */
+export function setLLMProvider(next: LLMProvider | null | undefined): void {
+    provider = next;
+}
+
+/**
+ * Run a JSON-mode completion and parse the object it returns. Local models often
+ * wrap the object in a ```json fence, which is stripped first.
+ */
+export async function completeJSON<T = Record<string, unknown>>(
+    llm: LLMProvider,
+    request: Omit<LLMRequest, 'json'>
+): Promise<T> {
+    const content = await llm.complete({ ...request, json: true });
+    const body = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(body || '{}') as T;
+    } catch {
+        throw new Error(`${llm.name} returned invalid JSON`);
+    }
+}
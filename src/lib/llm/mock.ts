@@ -0,0 +1,29 @@
+// Deterministic provider for tests and offline development: never calls out,
+// answers every request with the same canned response and records what it was asked
+
+import type { LLMProvider, LLMRequest } from './index';
+
+export interface MockProvider extends LLMProvider {
+    requests: LLMRequest[];
+}
+
+/**
+ * `response` is returned verbatim, or computed from the request when a function.
+ * Defaults to an empty JSON object, which callers treat as "nothing found".
+ */
+export function createMockProvider(
+    response: string | ((request: LLMRequest) => string) = '{}'
+): MockProvider {
+    const requests: LLMRequest[] = [];
+
+    return {
+        name: 'mock',
+        model: 'mock',
+        requests,
+
+        async complete(request: LLMRequest): Promise<string> {
+            requests.push(request);
+            return typeof response === 'function' ? response(request) : response;
+        },
+    };
+}
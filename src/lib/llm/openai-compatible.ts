@@ -0,0 +1,38 @@
+// OpenAI-style chat completions provider: DeepSeek, Ollama, llama.cpp, vLLM, OpenAI itself
+
+import OpenAI from 'openai';
+import type { LLMProvider, LLMRequest } from './index';
+
+export interface OpenAICompatibleConfig {
+    name: string;
+    baseURL: string;
+    apiKey?: string; // local servers usually take none
+    model: string;
+    timeoutMs: number;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+    const client = new OpenAI({
+        // The SDK refuses an empty key; servers without auth ignore whatever is sent
+        apiKey: config.apiKey || 'not-needed',
+        baseURL: config.baseURL,
+        timeout: config.timeoutMs,
+        maxRetries: 1,
+    });
+
+    return {
+        name: config.name,
+        model: config.model,
+
+        async complete(request: LLMRequest): Promise<string> {
+            const completion = await client.chat.completions.create({
+                model: config.model,
+                messages: request.messages,
+                ...(request.json && { response_format: { type: 'json_object' as const } }),
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            });
+            return completion.choices[0]?.message.content || '';
+        },
+    };
+}
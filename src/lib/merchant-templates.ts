@@ -0,0 +1,106 @@
+// Merchant template helpers (server-side only)
+// A template remembers how one store's receipts should be read: the canonical
+// merchant name, which line holds the total, the date order and a default
+// category. Templates are learned from receipts the user has reviewed and are
+// matched by a fingerprint of the receipt header (see lib/ocr.ts).
+
+import { db } from '@/db';
+import { categories, merchantTemplates, type MerchantTemplate } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { learnReceiptTemplate, matchReceiptTemplate } from '@/lib/ocr';
+
+// Matching compares against every template, so keep the most recently confirmed ones
+const MAX_TEMPLATES = 1000;
+
+export interface TemplateCorrection {
+    merchant: string | null;
+    date: string | null;
+    amount: number | null;
+    categoryId?: string | null; // undefined keeps the template's current category
+}
+
+/**
+ * A user's templates, most recently confirmed first
+ */
+export async function getMerchantTemplates(userId: string): Promise<MerchantTemplate[]> {
+    return db
+        .select()
+        .from(merchantTemplates)
+        .where(eq(merchantTemplates.userId, userId))
+        .orderBy(desc(merchantTemplates.updatedAt))
+        .limit(MAX_TEMPLATES);
+}
+
+/**
+ * The template matching this receipt text, if the user has one
+ */
+export async function findMerchantTemplate(userId: string, rawText: string): Promise<MerchantTemplate | null> {
+    return matchReceiptTemplate(rawText, await getMerchantTemplates(userId));
+}
+
+/**
+ * Learn from a reviewed receipt: create or update the template for its header.
+ * A total label or date order that can't be found in this receipt's text keeps
+ * what was learned before.
+ */
+export async function learnMerchantTemplate(
+    userId: string,
+    rawText: string,
+    correction: TemplateCorrection
+): Promise<void> {
+    const learned = learnReceiptTemplate(rawText, correction);
+    if (!learned) return;
+
+    let categoryId = correction.categoryId;
+    if (categoryId) {
+        const owned = await db
+            .select({ id: categories.id })
+            .from(categories)
+            .where(and(eq(categories.id, categoryId), eq(categories.userId, userId)))
+            .limit(1);
+        if (owned.length === 0) categoryId = undefined;
+    }
+
+    const existing = await db
+        .select()
+        .from(merchantTemplates)
+        .where(and(eq(merchantTemplates.userId, userId), eq(merchantTemplates.fingerprint, learned.fingerprint)))
+        .limit(1);
+
+    if (existing.length > 0) {
+        await db
+            .update(merchantTemplates)
+            .set({
+                merchantName: learned.merchantName,
+                totalLabel: learned.totalLabel ?? existing[0].totalLabel,
+                dateOrder: learned.dateOrder ?? existing[0].dateOrder,
+                ...(categoryId !== undefined && { categoryId }),
+                updatedAt: new Date().toISOString(),
+            })
+            .where(eq(merchantTemplates.id, existing[0].id));
+        return;
+    }
+
+    await db.insert(merchantTemplates).values({
+        id: uuid(),
+        userId,
+        ...learned,
+        categoryId: categoryId ?? null,
+    });
+}
+
+/**
+ * Forget a template. Returns false if the user has no such template.
+ */
+export async function deleteMerchantTemplate(userId: string, id: string): Promise<boolean> {
+    const existing = await db
+        .select({ id: merchantTemplates.id })
+        .from(merchantTemplates)
+        .where(and(eq(merchantTemplates.id, id), eq(merchantTemplates.userId, userId)))
+        .limit(1);
+    if (existing.length === 0) return false;
+
+    await db.delete(merchantTemplates).where(eq(merchantTemplates.id, id));
+    return true;
+}
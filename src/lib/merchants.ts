@@ -0,0 +1,277 @@
+// Merchant directory helpers (server-side only)
+// The same store shows up as "ALFAMART 123 JKT", "Alfamart Kemang" and
+// "alfamart". A merchant has one canonical name plus aliases (other spellings,
+// matched as whole words anywhere in the text) and an optional regex. Receipts
+// are linked when their merchant is read, creating a directory entry for
+// unknown stores; transactions take their receipt's merchant, or are matched on
+// their description (bank statement text is too noisy to create entries from).
+
+import { db } from '@/db';
+import { categories, merchants, receipts, transactions, users, type Merchant } from '@/db/schema';
+import { and, eq, inArray, isNull, or } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { seedMerchants } from '@/lib/seed';
+import { normalizeDescription } from '@/lib/transaction-duplicates';
+import { compileUserRegex, testUserRegex } from '@/lib/user-regex';
+import { merchantSchema, validateInput } from '@/lib/validation';
+
+// Merchant as returned by the API, aliases parsed
+export type MerchantEntry = Omit<Merchant, 'aliases'> & { aliases: string[] };
+
+type MerchantMatcher = { merchant: Merchant; keys: string[]; regex: RegExp | null };
+
+// The merged merchant, or why the merchants can't be merged
+export type MergeMerchantsResult = { data: MerchantEntry } | { error: string };
+
+// \1 or \k<name> that is not itself escaped
+const BACKREFERENCE = /(?:^|[^\\])(?:\\\\)*\\(?:[1-9]|k<)/;
+
+export function parseAliases(aliases: string | null | undefined): string[] {
+    try {
+        const parsed = JSON.parse(aliases || '[]');
+        return Array.isArray(parsed) ? parsed.filter((a): a is string => typeof a === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function toMerchantEntry(merchant: Merchant): MerchantEntry {
+    return { ...merchant, aliases: parseAliases(merchant.aliases) };
+}
+
+/**
+ * Comparison key of a merchant name: lowercase words without store numbers,
+ * branch codes or company suffixes ("PT ALFARIA 123" -> "alfaria")
+ */
+export function merchantKey(text: string | null | undefined): string {
+    return normalizeDescription(text)
+        .split(' ')
+        .filter(word => word && !/\d/.test(word))
+        .join(' ');
+}
+
+/**
+ * A readable name for a merchant first seen on a receipt: numbers dropped,
+ * shouted names title-cased ("ALFAMART 123 JKT" -> "Alfamart Jkt")
+ */
+export function cleanMerchantName(text: string): string {
+    const words = text.replace(/[^\p{L}\p{N}&'.\- ]/gu, ' ').split(/\s+/).filter(word => word && !/\d/.test(word));
+    const name = words.join(' ').slice(0, 100);
+    return name === name.toUpperCase()
+        ? name.toLowerCase().replace(/(^|[\s\-])\p{L}/gu, c => c.toUpperCase())
+        : name;
+}
+
+/**
+ * A user's directory. The first time it is read it gets the default brands, with
+ * their categories matched by name; a user who later deletes them all keeps an
+ * empty directory.
+ */
+export async function getMerchants(userId: string): Promise<Merchant[]> {
+    const rows = await db.select().from(merchants).where(eq(merchants.userId, userId));
+    if (rows.length > 0) return rows;
+
+    // Claiming the flag first means concurrent requests seed only once
+    const claimed = await db
+        .update(users)
+        .set({ merchantsSeeded: true })
+        .where(and(eq(users.id, userId), or(isNull(users.merchantsSeeded), eq(users.merchantsSeeded, false))))
+        .returning({ id: users.id });
+    if (claimed.length === 0) return rows;
+
+    const userCategories = await db
+        .select({ id: categories.id, name: categories.name })
+        .from(categories)
+        .where(and(eq(categories.userId, userId), eq(categories.type, 'expense')));
+    await db.insert(merchants).values(seedMerchants.map(m => ({
+        id: uuid(),
+        userId,
+        name: m.name,
+        aliases: JSON.stringify(m.aliases),
+        categoryId: userCategories.find(c => c.name === m.category)?.id ?? null,
+        color: m.color,
+    })));
+    return db.select().from(merchants).where(eq(merchants.userId, userId));
+}
+
+function compileMerchants(directory: Merchant[]): MerchantMatcher[] {
+    return directory.map(merchant => {
+        const regex = merchant.pattern ? compileUserRegex(merchant.pattern) : null;
+        const keys = [merchant.name, ...parseAliases(merchant.aliases)].map(merchantKey).filter(Boolean);
+        return { merchant, keys, regex };
+    });
+}
+
+function findMerchant(matchers: MerchantMatcher[], text: string | null | undefined): Merchant | null {
+    if (!text?.trim()) return null;
+
+    const byPattern = matchers.find(m => m.regex && testUserRegex(m.regex, text));
+    if (byPattern) return byPattern.merchant;
+
+    const key = ` ${merchantKey(text)} `;
+    let best: { merchant: Merchant; length: number } | null = null;
+    for (const { merchant, keys } of matchers) {
+        for (const alias of keys) {
+            if (key.includes(` ${alias} `) && (!best || alias.length > best.length)) {
+                best = { merchant, length: alias.length };
+            }
+        }
+    }
+    return best?.merchant ?? null;
+}
+
+/**
+ * The directory entry for a merchant name or description. A regex match wins;
+ * otherwise the longest name or alias found as whole words in the text, so
+ * "Alfamart Kemang" as an alias of its own beats plain "Alfamart".
+ */
+export function matchMerchant(directory: Merchant[], text: string | null | undefined): Merchant | null {
+    return findMerchant(compileMerchants(directory), text);
+}
+
+/**
+ * Build a matcher for many texts (imports, relinking), compiling the directory once
+ */
+export function createMerchantMatcher(directory: Merchant[]): (text: string | null | undefined) => Merchant | null {
+    const matchers = compileMerchants(directory);
+    return text => findMerchant(matchers, text);
+}
+
+/**
+ * Find the merchant for a name read off a receipt, adding it to the directory
+ * when it is new
+ */
+export async function resolveMerchant(userId: string, name: string | null | undefined): Promise<Merchant | null> {
+    const cleaned = name ? cleanMerchantName(name) : '';
+    if (!merchantKey(cleaned)) return null;
+
+    const existing = matchMerchant(await getMerchants(userId), name);
+    if (existing) return existing;
+
+    const merchant = {
+        id: uuid(),
+        userId,
+        name: cleaned,
+        aliases: '[]',
+        pattern: null,
+        categoryId: null,
+        color: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+    };
+    await db.insert(merchants).values(merchant);
+    return merchant;
+}
+
+/**
+ * Link a receipt (and the transactions created from it) to the merchant of its
+ * OCR'd or corrected name. Returns the merchant.
+ */
+export async function linkReceiptMerchant(userId: string, receiptId: string, name: string | null | undefined): Promise<Merchant | null> {
+    const merchant = await resolveMerchant(userId, name);
+    const merchantId = merchant?.id ?? null;
+    await db.update(receipts).set({ merchantId }).where(eq(receipts.id, receiptId));
+    await db.update(transactions).set({ merchantId }).where(and(eq(transactions.receiptId, receiptId), eq(transactions.userId, userId)));
+    return merchant;
+}
+
+/**
+ * Link receipts and transactions that have no merchant yet, after the directory
+ * changed. Nothing is created here. Returns how many rows were linked.
+ */
+export async function linkUnmatched(userId: string): Promise<number> {
+    const match = createMerchantMatcher(await getMerchants(userId));
+    let linked = 0;
+
+    const receiptRows = await db
+        .select({ id: receipts.id, merchant: receipts.ocrMerchant })
+        .from(receipts)
+        .where(and(eq(receipts.userId, userId), isNull(receipts.merchantId)));
+    for (const row of receiptRows) {
+        const merchant = match(row.merchant);
+        if (!merchant) continue;
+        await db.update(receipts).set({ merchantId: merchant.id }).where(eq(receipts.id, row.id));
+        linked++;
+    }
+
+    // Receipt merchants first, then descriptions
+    const transactionRows = await db
+        .select({ id: transactions.id, description: transactions.description, receiptMerchantId: receipts.merchantId })
+        .from(transactions)
+        .leftJoin(receipts, eq(transactions.receiptId, receipts.id))
+        .where(and(eq(transactions.userId, userId), isNull(transactions.merchantId)));
+    for (const row of transactionRows) {
+        const merchantId = row.receiptMerchantId ?? match(row.description)?.id;
+        if (!merchantId) continue;
+        await db.update(transactions).set({ merchantId }).where(eq(transactions.id, row.id));
+        linked++;
+    }
+
+    return linked;
+}
+
+/**
+ * Fold duplicate merchants into one: their names and aliases become aliases of
+ * the kept merchant, their patterns are combined with its own, and their
+ * receipts and transactions move to it. The kept merchant takes a default
+ * category or color from the others if it has none. Null when the merchants
+ * were not found; an error when the merged entry would not be valid.
+ */
+export async function mergeMerchants(
+    userId: string,
+    keepId: string,
+    mergeIds: string[]
+): Promise<MergeMerchantsResult | null> {
+    const ids = [keepId, ...mergeIds.filter(id => id !== keepId)];
+    const rows = await db
+        .select()
+        .from(merchants)
+        .where(and(eq(merchants.userId, userId), inArray(merchants.id, ids)));
+    const keep = rows.find(m => m.id === keepId);
+    const merged = rows.filter(m => m.id !== keepId);
+    if (!keep || merged.length === 0) return null;
+
+    const keepKey = merchantKey(keep.name);
+    const aliases = new Map<string, string>();
+    for (const alias of [...parseAliases(keep.aliases), ...merged.flatMap(m => [m.name, ...parseAliases(m.aliases)])]) {
+        const key = merchantKey(alias);
+        if (key && key !== keepKey && !aliases.has(key)) aliases.set(key, alias);
+    }
+
+    // Either pattern matching keeps matching: (?:a)|(?:b)
+    const patterns = [...new Set([keep, ...merged].map(m => m.pattern).filter((p): p is string => !!p))];
+    if (patterns.length > 1 && patterns.some(p => BACKREFERENCE.test(p))) {
+        // Combining renumbers the groups, so \1 would point at another pattern's group
+        return { error: 'pattern: Patterns with backreferences can\'t be combined; edit them before merging' };
+    }
+    const pattern = patterns.length > 1 ? patterns.map(p => `(?:${p})`).join('|') : patterns[0] ?? null;
+
+    // The merged entry must still be one the merchant form would accept
+    const validation = validateInput(merchantSchema, {
+        name: keep.name,
+        aliases: [...aliases.values()],
+        pattern,
+        categoryId: keep.categoryId ?? merged.find(m => m.categoryId)?.categoryId ?? null,
+        color: keep.color ?? merged.find(m => m.color)?.color ?? null,
+    });
+    if (!validation.success) {
+        return { error: validation.error };
+    }
+
+    const mergedIds = merged.map(m => m.id);
+    const updateValues = {
+        aliases: JSON.stringify(validation.data.aliases),
+        pattern: validation.data.pattern,
+        categoryId: validation.data.categoryId ?? null,
+        color: validation.data.color ?? null,
+        updatedAt: new Date().toISOString(),
+    };
+    await db.transaction(async (tx) => {
+        await tx.update(merchants).set(updateValues).where(eq(merchants.id, keepId));
+        await tx.update(receipts).set({ merchantId: keepId }).where(inArray(receipts.merchantId, mergedIds));
+        await tx.update(transactions).set({ merchantId: keepId }).where(inArray(transactions.merchantId, mergedIds));
+        await tx.delete(merchants).where(inArray(merchants.id, mergedIds));
+    });
+
+    return { data: toMerchantEntry({ ...keep, ...updateValues }) };
+}
@@ -1,7 +1,10 @@
 // Tesseract.js OCR utility for receipt scanning
-// Runs entirely client-side, supports English (eng) and Indonesian (ind)
+// Runs client-side, supports English (eng) and Indonesian (ind).
+// The text parsers are also used by the server OCR runner (lib/receipt-ocr.ts).
 
 import { createWorker, Worker } from 'tesseract.js';
+import { decodeQris, type QrisPayload } from './qris';
+import { readPdfReceipt } from './pdf';
 
 export interface OCRResult {
     rawText: string;
@@ -12,6 +15,9 @@ export interface OCRResult {
     confidence: number;
     items: ReceiptItem[];
     transactionType: 'income' | 'expense' | null;
+    categoryId?: string | null; // default category of a matching merchant template
+    screenshot?: PaymentScreenshot | null; // set when an e-wallet/m-banking layout was recognized
+    qris?: QrisPayload | null; // decoded QRIS code on the receipt, if any
 }
 
 export interface ReceiptItem {
@@ -22,6 +28,12 @@ export interface ReceiptItem {
 
 let worker: Worker | null = null;
 
+// Confidence reported when the amount came from a QRIS code
+const QRIS_CONFIDENCE = 0.95;
+
+// Confidence of a PDF's embedded text layer: the text is exact, only its parsing can be off
+const PDF_TEXT_CONFIDENCE = 0.95;
+
 /**
  * Initialize Tesseract worker with English and Indonesian support
  */
@@ -50,9 +62,14 @@ export async function terminateOCRWorker(): Promise<void> {
 }
 
 /**
- * Extract text and structured data from a receipt image
+ * Extract text and structured data from a receipt image.
+ * `templates` are the user's merchant templates (GET /api/merchant-templates);
+ * a matching one takes precedence over the generic heuristics.
  */
-export async function extractReceiptData(imageSource: string | File): Promise<OCRResult> {
+export async function extractReceiptData(
+    imageSource: string | File,
+    templates: ReceiptTemplate[] = []
+): Promise<OCRResult> {
     // Preprocess image to handle dark mode receipts (white text on black background)
     // Tesseract works best with black text on white background
     const processedImage = await preprocessImageForOCR(imageSource);
@@ -60,15 +77,81 @@ export async function extractReceiptData(imageSource: string | File): Promise<OC
     const w = await initOCRWorker();
 
     const { data } = await w.recognize(processedImage);
-    const rawText = data.text;
-    const confidence = data.confidence / 100;
+    const qris = await readQrisCode(imageSource);
 
-    // Parse the raw text for structured data
-    const merchant = extractMerchant(rawText);
-    const date = extractDate(rawText);
-    const { amount, currency } = extractTotal(rawText);
-    const items = extractItems(rawText);
-    const transactionType = extractTransactionType(rawText);
+    return parseReceiptText(data.text, data.confidence / 100, templates, qris);
+}
+
+/**
+ * Extract structured data from a PDF receipt (browser-only). The embedded text
+ * layer is used when there is one; scanned PDFs are OCR'd page by page. All
+ * pages are one receipt. `preview` is the pages rendered into one image, which
+ * is stored as the receipt image.
+ */
+export async function extractPdfReceiptData(
+    file: File,
+    templates: ReceiptTemplate[] = []
+): Promise<OCRResult & { preview: string }> {
+    const pdf = await readPdfReceipt(file);
+
+    let rawText = pdf.text ?? '';
+    let confidence = PDF_TEXT_CONFIDENCE;
+    if (pdf.text === null && pdf.pageImages.length > 0) {
+        const w = await initOCRWorker();
+        const texts: string[] = [];
+        let totalConfidence = 0;
+        for (const page of pdf.pageImages) {
+            const { data } = await w.recognize(await preprocessImageForOCR(page));
+            texts.push(data.text);
+            totalConfidence += data.confidence / 100;
+        }
+        rawText = texts.join('\n');
+        confidence = totalConfidence / pdf.pageImages.length;
+    }
+
+    let qris: QrisPayload | null = null;
+    for (const page of pdf.pageImages) {
+        qris = await readQrisCode(page);
+        if (qris) break;
+    }
+
+    return { ...parseReceiptText(rawText, confidence, templates, qris), preview: pdf.preview };
+}
+
+/**
+ * Parse recognized receipt text into structured data.
+ * Shared by the browser scanner and the server OCR runner (lib/receipt-ocr.ts).
+ * A decoded QRIS code's amount wins over everything read from the text. The
+ * merchant comes from the QRIS code, the screenshot recognizer, a matching
+ * merchant template, then heuristics. Templates are not used for QRIS receipts
+ * or payment screenshots: their header is the same for every payee.
+ */
+export function parseReceiptText(
+    rawText: string,
+    confidence: number,
+    templates: ReceiptTemplate[] = [],
+    qris: QrisPayload | null = null
+): OCRResult {
+    const screenshot = recognizePaymentScreenshot(rawText);
+    const template = screenshot || qris ? null : matchReceiptTemplate(rawText, templates);
+    const fromTemplate = template ? applyReceiptTemplate(rawText, template) : {};
+
+    const merchant = (qris?.merchantName && tidyName(qris.merchantName))
+        ?? (screenshot && screenshotMerchant(screenshot))
+        ?? fromTemplate.merchant
+        ?? extractMerchant(rawText);
+    const date = fromTemplate.date ?? extractDate(rawText);
+    const { amount, currency } = qris?.amount != null
+        ? { amount: qris.amount, currency: qris.currency ?? 'IDR' }
+        : fromTemplate.amount != null
+            ? { amount: fromTemplate.amount, currency: fromTemplate.currency ?? null }
+            : screenshot?.amount != null
+                ? { amount: screenshot.amount, currency: 'IDR' }
+                : extractTotal(rawText);
+    const items = screenshot ? [] : extractItems(rawText);
+    const transactionType = screenshot?.direction
+        ? (screenshot.direction === 'in' ? 'income' : 'expense')
+        : extractTransactionType(rawText);
 
     return {
         rawText,
@@ -76,9 +159,13 @@ export async function extractReceiptData(imageSource: string | File): Promise<OC
         date,
         amount,
         currency,
-        confidence,
+        // A checksummed amount needs no second look, however noisy the text
+        confidence: qris?.amount != null ? Math.max(confidence, QRIS_CONFIDENCE) : confidence,
         items,
         transactionType,
+        categoryId: fromTemplate.categoryId ?? null,
+        screenshot,
+        qris,
     };
 }
 
@@ -104,7 +191,7 @@ export async function batchExtractReceipts(
  * Extract transaction type (income or expense) from receipt text
  * Simplified fallback logic - DeepSeek handles complex cases
  */
-function extractTransactionType(text: string): 'income' | 'expense' | null {
+export function extractTransactionType(text: string): 'income' | 'expense' | null {
     const lowerText = text.toLowerCase();
 
     // Check for explicit +/- signs (very strong indicator)
@@ -134,7 +221,7 @@ function extractTransactionType(text: string): 'income' | 'expense' | null {
  * Extract merchant name from receipt text
  * Simplified fallback with top 10 common merchants
  */
-function extractMerchant(text: string): string | null {
+export function extractMerchant(text: string): string | null {
     // Top 10 most common merchants (DeepSeek handles edge cases)
     const knownMerchants = [
         { pattern: /alfamart|alfaria/i, name: 'Alfamart' },
@@ -174,7 +261,7 @@ function extractMerchant(text: string): string | null {
  * Extract date from receipt text
  * Supports multiple formats: DD/MM/YYYY, DD-MM-YYYY, YYYY-MM-DD, etc.
  */
-function extractDate(text: string): string | null {
+export function extractDate(text: string): string | null {
     const datePatterns = [
         // DD/MM/YYYY or DD-MM-YYYY (with loose checking for Tgl/Date prefix)
         /(?:tgl|date|tanggal|waktu)?[\s:.]*(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})/i,
@@ -226,7 +313,7 @@ function extractDate(text: string): string | null {
  * Looks for keywords like TOTAL, SUBTOTAL, GRAND TOTAL
  * Filters out bank account numbers, phone numbers, order IDs
  */
-function extractTotal(text: string): { amount: number | null; currency: string | null } {
+export function extractTotal(text: string): { amount: number | null; currency: string | null } {
     const lines = text.split('\n');
 
     // Keywords that indicate total amount (English and Indonesian)
@@ -317,7 +404,7 @@ function extractTotal(text: string): { amount: number | null; currency: string |
  * @param amount - The amount to check
  * @param currency - The currency code (affects reasonable range)
  */
-function isReasonablePrice(amount: number, currency?: string): boolean {
+export function isReasonablePrice(amount: number, currency?: string): boolean {
     // For non-IDR currencies (USD, EUR, etc.), amounts can be small decimals
     if (currency && currency !== 'IDR') {
         // Most purchases are between $0.01 and $50,000
@@ -336,7 +423,7 @@ function isReasonablePrice(amount: number, currency?: string): boolean {
  * Extract amount from a single line of text
  * @param requireCurrencySymbol - If true, only extract amounts with explicit currency symbols
  */
-function extractAmountFromLine(line: string, requireCurrencySymbol: boolean = false): { amount: number; currency: string } | null {
+export function extractAmountFromLine(line: string, requireCurrencySymbol: boolean = false): { amount: number; currency: string } | null {
     // USD patterns (check first since it's commonly used)
     // Pattern: $11.97, $ 11.97, USD 11.97, 11.97 USD, -11.97 USD
     const usdPatterns = [
@@ -459,7 +546,7 @@ function extractAmountFromLine(line: string, requireCurrencySymbol: boolean = fa
 /**
  * Parse Indonesian number format (dots as thousand separators)
  */
-function parseIndonesianNumber(numStr: string): number {
+export function parseIndonesianNumber(numStr: string): number {
     // Indonesian format: 50.000 = 50000, 1.234.567 = 1234567
     // Count dots vs commas to determine format
     const dots = (numStr.match(/\./g) || []).length;
@@ -486,7 +573,7 @@ function parseIndonesianNumber(numStr: string): number {
 /**
  * Extract line items from receipt
  */
-function extractItems(text: string): ReceiptItem[] {
+export function extractItems(text: string): ReceiptItem[] {
     const items: ReceiptItem[] = [];
     const lines = text.split('\n');
 
@@ -527,6 +614,454 @@ function extractItems(text: string): ReceiptItem[] {
     return items;
 }
 
+// ---------------------------------------------------------------------------
+// Merchant templates: what a user's corrections taught us about one store's
+// receipts, matched by a fingerprint of the receipt header. Stored per user by
+// lib/merchant-templates.ts.
+// ---------------------------------------------------------------------------
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export interface ReceiptTemplate {
+    fingerprint: string;
+    merchantName: string;
+    totalLabel: string | null;
+    dateOrder: DateOrder | null;
+    categoryId: string | null;
+}
+
+// Lines with words in them that make up the header fingerprint
+const FINGERPRINT_LINES = 3;
+
+// Word overlap for a slightly different OCR of the same header to still match
+const TEMPLATE_MIN_SIMILARITY = 0.6;
+
+// Header words that change from one receipt to the next
+const FINGERPRINT_STOPWORDS = new Set([
+    'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+    'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+    'januari', 'februari', 'maret', 'mei', 'juni', 'juli', 'agu', 'agustus', 'okt', 'oktober', 'des', 'desember',
+]);
+
+// Labels that usually sit next to the amount paid, preferred when learning
+const TOTAL_LABEL_HINT = /total|jumlah|bayar|tagihan|amount|due|pay|nominal|tarif/;
+
+const NUMERIC_DATE_PATTERN = /(\d{1,4})[\/\-.](\d{1,2})[\/\-.](\d{2,4})/g;
+
+function fingerprintWords(line: string): string[] {
+    return line
+        .toLowerCase()
+        .replace(/[^a-z]+/g, ' ')
+        .split(' ')
+        .filter(word => word.length >= 3 && !FINGERPRINT_STOPWORDS.has(word));
+}
+
+/**
+ * Normalized words of the first lines of a receipt (store name, company,
+ * address). Digits are dropped so the fingerprint survives changing dates and
+ * receipt numbers. Null when the header has no words at all.
+ */
+export function receiptFingerprint(text: string): string | null {
+    const words: string[] = [];
+    let lines = 0;
+
+    for (const line of text.split('\n')) {
+        const lineWords = fingerprintWords(line);
+        if (lineWords.length === 0) continue;
+        for (const word of lineWords) {
+            if (!words.includes(word)) words.push(word);
+        }
+        if (++lines === FINGERPRINT_LINES) break;
+    }
+
+    return words.length > 0 ? words.join(' ') : null;
+}
+
+function fingerprintSimilarity(a: string, b: string): number {
+    const wordsA = new Set(a.split(' '));
+    const wordsB = new Set(b.split(' '));
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * The template for this receipt's store: an exact fingerprint match, otherwise
+ * the closest one above TEMPLATE_MIN_SIMILARITY
+ */
+export function matchReceiptTemplate<T extends ReceiptTemplate>(text: string, templates: T[]): T | null {
+    if (templates.length === 0) return null;
+    const fingerprint = receiptFingerprint(text);
+    if (!fingerprint) return null;
+
+    let best: T | null = null;
+    let bestScore = 0;
+    for (const template of templates) {
+        if (template.fingerprint === fingerprint) return template;
+        const score = fingerprintSimilarity(fingerprint, template.fingerprint);
+        if (score >= TEMPLATE_MIN_SIMILARITY && score > bestScore) {
+            best = template;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * A line's words without amounts, currency markers or punctuation:
+ * "Total Bayar : Rp 50.000" -> "total bayar"
+ */
+function lineLabel(line: string): string {
+    return line
+        .toLowerCase()
+        .replace(/\b(?:rp|idr|usd|sgd|eur|gbp)(?![a-z])/g, ' ')
+        .replace(/[^a-z]+/g, ' ')
+        .split(' ')
+        .filter(word => word.length > 1)
+        .join(' ');
+}
+
+function dateFromParts(parts: string[], order: DateOrder): string | null {
+    const [year, month, day] = order === 'ymd'
+        ? [parts[0], parts[1], parts[2]]
+        : order === 'dmy'
+            ? [parts[2], parts[1], parts[0]]
+            : [parts[2], parts[0], parts[1]];
+
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    if (fullYear.length !== 4) return null;
+    const m = parseInt(month, 10);
+    const d = parseInt(day, 10);
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+    return `${fullYear}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function numericDates(text: string): string[][] {
+    return [...text.matchAll(NUMERIC_DATE_PATTERN)].map(match => match.slice(1, 4));
+}
+
+/**
+ * Read merchant, date, total and category the way the template says this store
+ * prints them. Fields the template can't find on this receipt are left out.
+ */
+export function applyReceiptTemplate(
+    rawText: string,
+    template: ReceiptTemplate
+): Partial<Pick<OCRResult, 'merchant' | 'date' | 'amount' | 'currency' | 'categoryId'>> {
+    const result: Partial<Pick<OCRResult, 'merchant' | 'date' | 'amount' | 'currency' | 'categoryId'>> = {
+        merchant: template.merchantName,
+        categoryId: template.categoryId,
+    };
+
+    if (template.dateOrder) {
+        for (const parts of numericDates(rawText)) {
+            const date = dateFromParts(parts, template.dateOrder);
+            if (date) {
+                result.date = date;
+                break;
+            }
+        }
+    }
+
+    if (template.totalLabel) {
+        const lines = rawText.split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            if (lineLabel(lines[i]) !== template.totalLabel) continue;
+            // The amount may sit alone on the line below its label
+            const match = extractAmountFromLine(lines[i], false)
+                ?? (i + 1 < lines.length && !lineLabel(lines[i + 1]) ? extractAmountFromLine(lines[i + 1], false) : null);
+            if (match) {
+                result.amount = match.amount;
+                result.currency = match.currency;
+                break;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Derive a template from a receipt's text and the values the user confirmed.
+ * The total label and date order are only kept when they can be found in the
+ * text; null when the receipt has no usable header, no merchant was given or
+ * it is a payment screenshot (whose header names the app, not the payee).
+ */
+export function learnReceiptTemplate(
+    rawText: string,
+    corrected: { merchant: string | null; date: string | null; amount: number | null }
+): Omit<ReceiptTemplate, 'categoryId'> | null {
+    const fingerprint = receiptFingerprint(rawText);
+    const merchantName = corrected.merchant?.trim();
+    if (!fingerprint || !merchantName || recognizePaymentScreenshot(rawText)) return null;
+
+    // The amount often appears several times (subtotal, total, payment line):
+    // take the last total-like label that isn't a subtotal
+    let totalLabel: string | null = null;
+    if (corrected.amount) {
+        const lines = rawText.split('\n');
+        let subtotalLabel: string | null = null;
+        let otherLabel: string | null = null;
+        for (let i = 0; i < lines.length; i++) {
+            const match = extractAmountFromLine(lines[i], false);
+            if (!match || Math.abs(match.amount - corrected.amount) > 0.005) continue;
+
+            const label = lineLabel(lines[i]) || (i > 0 ? lineLabel(lines[i - 1]) : '');
+            if (!label || /kembali|change/.test(label)) continue;
+            if (/sub ?total/.test(label)) {
+                subtotalLabel ??= label;
+            } else if (TOTAL_LABEL_HINT.test(label)) {
+                totalLabel = label;
+            } else {
+                otherLabel ??= label;
+            }
+        }
+        totalLabel ??= subtotalLabel ?? otherLabel;
+    }
+
+    let dateOrder: DateOrder | null = null;
+    if (corrected.date) {
+        const orders: DateOrder[] = ['ymd', 'dmy', 'mdy'];
+        for (const parts of numericDates(rawText)) {
+            dateOrder = orders.find(order => dateFromParts(parts, order) === corrected.date) ?? null;
+            if (dateOrder) break;
+        }
+    }
+
+    return { fingerprint, merchantName, totalLabel, dateOrder };
+}
+
+// ---------------------------------------------------------------------------
+// E-wallet and m-banking screenshots: one recognizer per app layout. They read
+// labelled fields deterministically instead of guessing from keywords, and
+// take precedence over the generic total/type heuristics.
+// ---------------------------------------------------------------------------
+
+export interface PaymentScreenshot {
+    recognizer: string; // id of the recognizer that matched, e.g. 'gopay'
+    app: string; // display name, e.g. 'GoPay'
+    amount: number | null; // amount sent or paid, fee excluded
+    counterpart: string | null; // recipient, merchant or sender
+    reference: string | null;
+    fee: number | null;
+    direction: 'in' | 'out' | null;
+}
+
+interface ScreenshotRecognizer {
+    id: string;
+    app: string;
+    detect: RegExp; // identifies the app
+    amountLabel: RegExp; // label of the amount when it isn't shown on a line of its own
+    outgoingLabels: RegExp; // labels of the recipient/merchant
+    incomingLabels: RegExp; // labels of the sender
+    incoming: RegExp; // phrases that mean money came in
+    referenceLabel: RegExp;
+    feeLabel: RegExp;
+}
+
+// Only result/detail screens are recognized: a receipt that merely mentions
+// "paid with GoPay" still goes through the generic parser
+const SCREENSHOT_RESULT_PATTERN = /berhasil|sukses|success/i;
+
+const COMMON_OUTGOING_LABELS = /^(?:penerima|nama penerima|tujuan|kirim ke|transfer ke|bayar ke|ke|merchant|toko)\b/i;
+const COMMON_INCOMING_LABELS = /^(?:pengirim|dari|terima dari|diterima dari)\b/i;
+const COMMON_REFERENCE_LABEL = /^(?:no\.?\s*ref(?:erensi)?|nomor referensi|ref(?:erence)?(?:\s*no\.?)?|id transaksi|no\.?\s*transaksi|transaction id|order id)\b/i;
+const COMMON_FEE_LABEL = /^(?:biaya(?:\s+(?:admin|transfer|layanan|transaksi))?|admin fee|fee)\b/i;
+
+// Order matters: bank apps first, DANA last (its name is also an Indonesian word)
+export const SCREENSHOT_RECOGNIZERS: ScreenshotRecognizer[] = [
+    {
+        id: 'bca-mobile',
+        app: 'BCA',
+        detect: /\bm-?bca\b|bca mobile|m-transfer/i,
+        amountLabel: /^(?:nominal|jumlah)\b/i,
+        outgoingLabels: /^(?:ke(?:\s+rekening)?|penerima|tujuan)\b/i,
+        incomingLabels: /^(?:dari|pengirim)\b/i,
+        incoming: /\b(?:dana masuk|transfer masuk|kredit)\b/i,
+        referenceLabel: /^(?:no\.?\s*ref(?:erensi)?|ref)\b/i,
+        feeLabel: /^(?:biaya(?:\s+admin)?)\b/i,
+    },
+    {
+        id: 'livin-mandiri',
+        app: 'Mandiri',
+        detect: /livin'?\s*(?:by\s*)?mandiri|\blivin\b/i,
+        amountLabel: /^(?:nominal|jumlah transfer)\b/i,
+        outgoingLabels: /^(?:penerima|tujuan|ke)\b/i,
+        incomingLabels: /^(?:pengirim|dari)\b/i,
+        incoming: /\b(?:dana masuk|transfer masuk|uang masuk)\b/i,
+        referenceLabel: /^(?:no\.?\s*ref(?:erensi)?|nomor referensi)\b/i,
+        feeLabel: /^(?:biaya(?:\s+admin)?)\b/i,
+    },
+    {
+        id: 'shopeepay',
+        app: 'ShopeePay',
+        detect: /shopee\s?pay/i,
+        amountLabel: /^(?:total pembayaran|jumlah|nominal)\b/i,
+        outgoingLabels: COMMON_OUTGOING_LABELS,
+        incomingLabels: COMMON_INCOMING_LABELS,
+        incoming: /\b(?:terima|diterima|dana masuk|isi saldo|top ?up)\b/i,
+        referenceLabel: COMMON_REFERENCE_LABEL,
+        feeLabel: COMMON_FEE_LABEL,
+    },
+    {
+        id: 'gopay',
+        app: 'GoPay',
+        detect: /\bgopay\b/i,
+        amountLabel: /^(?:total|jumlah|nominal)\b/i,
+        outgoingLabels: COMMON_OUTGOING_LABELS,
+        incomingLabels: COMMON_INCOMING_LABELS,
+        incoming: /\b(?:terima|diterima|dana masuk|isi saldo|top ?up)\b/i,
+        referenceLabel: COMMON_REFERENCE_LABEL,
+        feeLabel: COMMON_FEE_LABEL,
+    },
+    {
+        id: 'ovo',
+        app: 'OVO',
+        detect: /\bovo\b/i,
+        amountLabel: /^(?:total|jumlah|nominal)\b/i,
+        outgoingLabels: COMMON_OUTGOING_LABELS,
+        incomingLabels: COMMON_INCOMING_LABELS,
+        incoming: /\b(?:terima|diterima|dana masuk|top ?up)\b/i,
+        referenceLabel: COMMON_REFERENCE_LABEL,
+        feeLabel: COMMON_FEE_LABEL,
+    },
+    {
+        id: 'dana',
+        app: 'DANA',
+        detect: /^\s*DANA\b|\bDANA\s+\d/m,
+        amountLabel: /^(?:jumlah|nominal)\b/i,
+        outgoingLabels: COMMON_OUTGOING_LABELS,
+        incomingLabels: COMMON_INCOMING_LABELS,
+        incoming: /\b(?:terima uang|diterima|dana masuk|isi saldo|top ?up)\b/i,
+        referenceLabel: COMMON_REFERENCE_LABEL,
+        feeLabel: COMMON_FEE_LABEL,
+    },
+];
+
+const RUPIAH_PATTERN = /([-+])?\s*Rp\.?\s*([\d.,]+)/i;
+
+/**
+ * "1.250.000,00" and "1,250,000.00" -> 1250000. Banking apps print cents,
+ * which the receipt number parser would misread.
+ */
+function parseRupiah(value: string): number | null {
+    let normalized: string;
+    if (/^\d{1,3}(?:\.\d{3})*(?:,\d{1,2})?$/.test(value)) {
+        normalized = value.replace(/\./g, '').replace(',', '.');
+    } else if (/^\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?$/.test(value)) {
+        normalized = value.replace(/,/g, '');
+    } else if (/^\d+$/.test(value)) {
+        normalized = value;
+    } else {
+        return null;
+    }
+    const amount = parseFloat(normalized);
+    return isNaN(amount) ? null : amount;
+}
+
+function rupiahOnLine(line: string): { amount: number; sign: string | null } | null {
+    const match = line.match(RUPIAH_PATTERN);
+    if (!match) return null;
+    const amount = parseRupiah(match[2].replace(/[.,]$/, ''));
+    return amount === null ? null : { amount, sign: match[1] ?? null };
+}
+
+/**
+ * Text after a label on the same line, or the next line when the label
+ * stands alone: "Penerima" / "BUDI SANTOSO"
+ */
+function valueAfterLabel(lines: string[], label: RegExp, accept: (value: string) => boolean): string | null {
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(label);
+        if (!match) continue;
+        const inline = lines[i].slice(match[0].length).replace(/^\s*[:.\-]?\s*/, '').trim();
+        if (inline && accept(inline)) return inline;
+        for (const next of lines.slice(i + 1, i + 3)) {
+            if (accept(next)) return next;
+        }
+    }
+    return null;
+}
+
+// A name has letters and no account/phone numbers in it
+const isName = (value: string) => /[a-z]{2}/i.test(value) && !/\d{4}/.test(value) && !RUPIAH_PATTERN.test(value);
+const isReference = (value: string) => /^[A-Z0-9][A-Z0-9-]{5,}$/i.test(value) && /\d/.test(value);
+
+// Screens often print names in capitals: "BUDI SANTOSO" -> "Budi Santoso"
+function tidyName(name: string): string {
+    const trimmed = name.replace(/\s+/g, ' ').trim();
+    return trimmed === trimmed.toUpperCase()
+        ? trimmed.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase())
+        : trimmed;
+}
+
+function parseScreenshot(recognizer: ScreenshotRecognizer, text: string): PaymentScreenshot {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const isFeeLine = (line: string) => recognizer.feeLabel.test(line);
+
+    // The headline amount sits on a line of its own; otherwise look for its label,
+    // then for any rupiah amount that isn't a fee, total or balance
+    let main: { amount: number; sign: string | null } | null = null;
+    for (const line of lines) {
+        if (/^[-+]?\s*Rp\.?\s*[\d.,]+$/i.test(line)) {
+            main = rupiahOnLine(line);
+            if (main) break;
+        }
+    }
+    if (!main) {
+        const labelled = valueAfterLabel(lines, recognizer.amountLabel, value => RUPIAH_PATTERN.test(value));
+        main = labelled ? rupiahOnLine(labelled) : null;
+    }
+    if (!main) {
+        const line = lines.find(l => RUPIAH_PATTERN.test(l) && !isFeeLine(l) && !/total|saldo|balance/i.test(l));
+        main = line ? rupiahOnLine(line) : null;
+    }
+
+    const feeValue = valueAfterLabel(lines, recognizer.feeLabel, value => RUPIAH_PATTERN.test(value) || /^(?:gratis|free)$/i.test(value));
+    const fee = feeValue ? (rupiahOnLine(feeValue)?.amount ?? 0) : null;
+
+    const direction: PaymentScreenshot['direction'] = main?.sign === '+'
+        ? 'in'
+        : main?.sign === '-'
+            ? 'out'
+            : recognizer.incoming.test(text) ? 'in' : 'out';
+
+    const counterpart = valueAfterLabel(
+        lines,
+        direction === 'in' ? recognizer.incomingLabels : recognizer.outgoingLabels,
+        isName
+    );
+
+    const referenceValue = valueAfterLabel(lines, recognizer.referenceLabel, value => isReference(value.split(/\s+/)[0]));
+
+    return {
+        recognizer: recognizer.id,
+        app: recognizer.app,
+        amount: main?.amount ?? null,
+        counterpart: counterpart ? tidyName(counterpart) : null,
+        reference: referenceValue ? referenceValue.split(/\s+/)[0] : null,
+        fee,
+        direction,
+    };
+}
+
+/**
+ * Run the first recognizer whose app this is, if the text is a transaction
+ * result screen. Null for everything else (paper receipts, invoices).
+ */
+export function recognizePaymentScreenshot(text: string): PaymentScreenshot | null {
+    if (!SCREENSHOT_RESULT_PATTERN.test(text)) return null;
+    const recognizer = SCREENSHOT_RECOGNIZERS.find(r => r.detect.test(text));
+    return recognizer ? parseScreenshot(recognizer, text) : null;
+}
+
+/**
+ * "Platform - Counterpart", the same convention the enhancement prompt uses
+ */
+export function screenshotMerchant(screenshot: PaymentScreenshot): string {
+    return screenshot.counterpart ? `${screenshot.app} - ${screenshot.counterpart}` : screenshot.app;
+}
+
 /**
  * Convert image file to base64 string
  */
@@ -574,6 +1109,37 @@ export async function compressImage(
     });
 }
 
+/**
+ * Decode a QRIS code in the image, if it has one. Browser only: on the server
+ * lib/receipt-ocr.ts reads the pixels with sharp instead.
+ */
+async function readQrisCode(imageSource: string | File): Promise<QrisPayload | null> {
+    if (typeof window === 'undefined') return null;
+
+    const src = typeof imageSource === 'string' ? imageSource : URL.createObjectURL(imageSource);
+    try {
+        const img = new Image();
+        await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error('Failed to load image'));
+            img.src = src;
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(img, 0, 0);
+        const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        return decodeQris(data, width, height);
+    } catch (error) {
+        console.warn('[OCR] QR decoding failed:', error);
+        return null;
+    } finally {
+        if (typeof imageSource !== 'string') URL.revokeObjectURL(src);
+    }
+}
+
 /**
  * Preprocess image for better OCR accuracy (browser-only)
  * Detects dark images and inverts them for better text recognition
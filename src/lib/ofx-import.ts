@@ -0,0 +1,93 @@
+// OFX / QFX statement parsing (Quicken's QFX is OFX with an extra INTU.BID tag)
+
+import { v4 as uuid } from 'uuid';
+import type { NewTransaction } from '@/db/schema';
+
+export interface StatementParseOptions {
+    userId: string;
+    accountId?: string | null;
+    categoryId?: string | null;
+}
+
+export interface OfxStatement {
+    bankAccountId: string | null; // ACCTID as reported by the bank
+    currency: string;
+    transactions: NewTransaction[];
+}
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'" };
+
+/**
+ * Read an element value. Works for both SGML OFX 1.x (no closing tags)
+ * and XML OFX 2.x.
+ */
+function tagValue(block: string, tag: string): string | null {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) return null;
+    const value = match[1].trim().replace(/&(amp|lt|gt|quot|apos);/g, e => ENTITIES[e]);
+    return value || null;
+}
+
+function blocks(source: string, tag: string): string[] {
+    return source.match(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'gi')) || [];
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]; only the day matters here
+ */
+function parseOfxDate(value: string | null): string | null {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parseOfxAmount(value: string | null): number | null {
+    if (!value) return null;
+    // Some banks write decimal commas
+    const normalized = /,\d{1,2}$/.test(value) ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+    const amount = parseFloat(normalized);
+    return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Parse every bank and credit card statement in an OFX/QFX file into
+ * transaction rows. FITIDs are kept in externalId for duplicate protection.
+ */
+export function parseOfx(content: string, options: StatementParseOptions): OfxStatement[] {
+    const body = content.slice(Math.max(0, content.search(/<OFX>/i)));
+    const statements = [...blocks(body, 'STMTRS'), ...blocks(body, 'CCSTMTRS')];
+
+    return statements.map(statement => {
+        const currency = (tagValue(statement, 'CURDEF') || 'IDR').toUpperCase();
+        const transactions: NewTransaction[] = [];
+
+        for (const entry of blocks(statement, 'STMTTRN')) {
+            const amount = parseOfxAmount(tagValue(entry, 'TRNAMT'));
+            const date = parseOfxDate(tagValue(entry, 'DTPOSTED') || tagValue(entry, 'DTUSER'));
+            if (!amount || !date) continue;
+
+            // NAME is capped at 32 characters in OFX 1.x, so banks often repeat it in MEMO
+            const name = tagValue(entry, 'NAME') || tagValue(entry, 'PAYEE');
+            const memo = tagValue(entry, 'MEMO');
+            const description = name && memo && !memo.startsWith(name) ? `${name} - ${memo}` : memo || name;
+
+            transactions.push({
+                id: uuid(),
+                userId: options.userId,
+                type: amount < 0 ? 'expense' : 'income',
+                amount: Math.abs(amount),
+                currency,
+                categoryId: options.categoryId || null,
+                accountId: options.accountId || null,
+                description: description?.slice(0, 500) || null,
+                date,
+                externalId: tagValue(entry, 'FITID'),
+            });
+        }
+
+        return {
+            bankAccountId: tagValue(statement, 'ACCTID'),
+            currency,
+            transactions,
+        };
+    });
+}
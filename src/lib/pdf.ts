@@ -0,0 +1,135 @@
+// PDF receipt helpers
+// E-receipts and marketplace invoices (Tokopedia, Shopee) often arrive as PDFs.
+// Their text layer is read directly; scanned PDFs without one are rendered to
+// images for OCR. All pages of a PDF make up one receipt.
+// readPdfReceipt is browser-only (pages are rendered on a canvas); the text
+// helpers are shared with the e-mail ingester, which reads the text layer only.
+
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+
+export interface PdfReceipt {
+    text: string | null; // embedded text layer, null for scanned PDFs
+    pageImages: string[]; // PNG data URL per page, for OCR when there is no text layer
+    preview: string; // pages stacked into one JPEG data URL, stored as the receipt image
+    pageCount: number;
+}
+
+// Longer documents are statements, not receipts; the rest is ignored
+export const MAX_PDF_PAGES = 10;
+
+// Render scale for OCR (PDF units are 1/72 in, so 2x is 144 dpi)
+const OCR_SCALE = 2;
+
+// Same width and quality as compressImage() in lib/ocr.ts
+const PREVIEW_WIDTH = 1200;
+const PREVIEW_QUALITY = 0.8;
+
+// Fewer characters than this and the text layer is taken to be missing
+// (scanned PDFs sometimes carry a stray page number or producer line)
+const MIN_TEXT_LENGTH = 20;
+
+// Glyphs whose baselines are this close (PDF units) are on the same line
+const LINE_TOLERANCE = 2;
+
+export function isPdfFile(file: Blob): boolean {
+    return file.type === 'application/pdf';
+}
+
+async function loadPdfjs() {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    return pdfjs;
+}
+
+/**
+ * Rebuild text lines from positioned text items. Invoices lay out labels and
+ * amounts as table cells; joining cells by baseline keeps "Total Rp101.000"
+ * on one line, which the receipt parsers rely on.
+ */
+export function textFromItems(items: (TextItem | TextMarkedContent)[]): string {
+    const lines: { y: number; cells: { x: number; str: string }[] }[] = [];
+
+    for (const item of items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [, , , , x, y] = item.transform as number[];
+        let line = lines.find(l => Math.abs(l.y - y) <= LINE_TOLERANCE);
+        if (!line) {
+            line = { y, cells: [] };
+            lines.push(line);
+        }
+        line.cells.push({ x, str: item.str.trim() });
+    }
+
+    // PDF y grows upwards: top of the page first
+    return lines
+        .sort((a, b) => b.y - a.y)
+        .map(line => line.cells.sort((a, b) => a.x - b.x).map(cell => cell.str).join(' '))
+        .join('\n');
+}
+
+/**
+ * The text of all pages, or null when there is too little to be a text layer
+ */
+export function textLayerOrNull(pageTexts: string[]): string | null {
+    const text = pageTexts.join('\n').trim();
+    return text.replace(/\s/g, '').length >= MIN_TEXT_LENGTH ? text : null;
+}
+
+/**
+ * Stack page images vertically into one JPEG, scaled to the preview width
+ */
+async function stackPages(pages: HTMLCanvasElement[]): Promise<string> {
+    const scale = Math.min(1, PREVIEW_WIDTH / Math.max(...pages.map(p => p.width)));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(Math.max(...pages.map(p => p.width)) * scale);
+    canvas.height = Math.round(pages.reduce((sum, p) => sum + p.height, 0) * scale);
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    let y = 0;
+    for (const page of pages) {
+        const height = Math.round(page.height * scale);
+        ctx.drawImage(page, 0, y, Math.round(page.width * scale), height);
+        y += height;
+    }
+    return canvas.toDataURL('image/jpeg', PREVIEW_QUALITY);
+}
+
+/**
+ * Read a PDF receipt: its text layer if it has one, and every page rendered
+ * for the preview (and for OCR when there is no text)
+ */
+export async function readPdfReceipt(file: Blob): Promise<PdfReceipt> {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    try {
+        const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+        const texts: string[] = [];
+        const canvases: HTMLCanvasElement[] = [];
+
+        for (let n = 1; n <= pageCount; n++) {
+            const page = await pdf.getPage(n);
+            texts.push(textFromItems((await page.getTextContent()).items));
+
+            const viewport = page.getViewport({ scale: OCR_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            await page.render({ canvas, viewport }).promise;
+            canvases.push(canvas);
+            page.cleanup();
+        }
+
+        return {
+            text: textLayerOrNull(texts),
+            pageImages: canvases.map(canvas => canvas.toDataURL('image/png')),
+            preview: await stackPages(canvases),
+            pageCount,
+        };
+    } finally {
+        await pdf.destroy();
+    }
+}
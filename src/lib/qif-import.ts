@@ -0,0 +1,132 @@
+// QIF (Quicken Interchange Format) statement parsing
+
+import { v4 as uuid } from 'uuid';
+import type { NewTransaction } from '@/db/schema';
+import type { StatementParseOptions } from '@/lib/ofx-import';
+
+// QIF has no date standard: Quicken US writes M/D/Y, most other exporters D/M/Y
+export type QifDateOrder = 'MDY' | 'DMY';
+
+export interface QifParseOptions extends StatementParseOptions {
+    currency?: string;
+    dateOrder?: QifDateOrder;
+    categories?: { id: string; name: string }[]; // L fields matching these names are mapped
+}
+
+export interface QifParseError {
+    line: number;
+    error: string;
+}
+
+// Cash-flow sections; investment, category and class lists are skipped
+const TRANSACTION_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * Parse QIF dates such as 12/31/2024, 31/12/24, 1/ 5'24 and 2024-12-31
+ */
+export function parseQifDate(value: string, order: QifDateOrder): string | null {
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    const parts = iso
+        ? [iso[2], iso[3], iso[1]]
+        : value.split(/[/\-.'\s]+/).filter(Boolean);
+    if (parts.length !== 3) return null;
+
+    const [first, second, rawYear] = parts.map(p => parseInt(p));
+    if ([first, second, rawYear].some(isNaN)) return null;
+
+    // Two-digit years (Quicken writes 1/ 5'24 for 2024)
+    const year = rawYear < 100 ? rawYear + (rawYear < 70 ? 2000 : 1900) : rawYear;
+    const [month, day] = iso || order === 'MDY' ? [first, second] : [second, first];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse the bank/cash/credit card sections of a QIF file into transaction rows.
+ * QIF carries no transaction IDs, so duplicates are matched on content by the importer.
+ */
+export function parseQif(
+    content: string,
+    options: QifParseOptions
+): { transactions: NewTransaction[]; lines: number[]; errors: QifParseError[] } {
+    const categoryIds = new Map((options.categories || []).map(c => [c.name.toLowerCase(), c.id]));
+    const transactions: NewTransaction[] = [];
+    const lines: number[] = []; // first line of each transaction's record
+    const errors: QifParseError[] = [];
+
+    let inTransactions = false;
+    let fields: Record<string, string> = {};
+    let recordLine = 1;
+
+    const flush = () => {
+        if (!inTransactions || Object.keys(fields).length === 0) return;
+
+        const amount = parseFloat((fields.T || fields.U || '').replace(/,/g, ''));
+        const date = parseQifDate(fields.D || '', options.dateOrder || 'MDY');
+        if (!date) {
+            errors.push({ line: recordLine, error: `Unreadable date "${fields.D || ''}"` });
+            return;
+        }
+        if (isNaN(amount) || amount === 0) {
+            errors.push({ line: recordLine, error: 'Missing or zero amount' });
+            return;
+        }
+
+        // L holds "Category:Subcategory", or "[Account]" for transfers; split records use S
+        const categoryField = fields.L || fields.S;
+        const category = categoryField && !categoryField.startsWith('[') ? categoryField.toLowerCase() : null;
+        const categoryId = (category && (categoryIds.get(category) || categoryIds.get(category.split(':')[0])))
+            || options.categoryId
+            || null;
+
+        const description = [fields.P, fields.M].filter(Boolean).join(' - ');
+
+        transactions.push({
+            id: uuid(),
+            userId: options.userId,
+            type: amount < 0 ? 'expense' : 'income',
+            amount: Math.abs(amount),
+            currency: options.currency || 'IDR',
+            categoryId,
+            accountId: options.accountId || null,
+            description: description.slice(0, 500) || null,
+            date,
+        });
+        lines.push(recordLine);
+    };
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line) return;
+
+        if (line.startsWith('!')) {
+            flush();
+            fields = {};
+            const header = line.toLowerCase();
+            if (header.startsWith('!type:')) {
+                inTransactions = TRANSACTION_SECTIONS.includes(header.slice(6).trim());
+            } else if (header.startsWith('!account')) {
+                inTransactions = false;
+            }
+            recordLine = index + 2;
+            return;
+        }
+
+        if (line === '^') {
+            flush();
+            fields = {};
+            recordLine = index + 2;
+            return;
+        }
+
+        const code = line[0];
+        // Split lines (S/E/$) repeat; only the first of each is kept
+        if (!(code in fields)) {
+            fields[code] = line.slice(1).trim();
+        }
+    });
+    flush();
+
+    return { transactions, lines, errors };
+}
@@ -0,0 +1,184 @@
+// QRIS payload helpers
+// QRIS is Indonesia's national QR payment standard, an EMVCo merchant-presented
+// QR code: a flat run of TLV fields (2-digit tag, 2-digit length, value) with
+// nested templates for the merchant account and additional data, closed by a
+// CRC-16 in tag 63. Printed receipts and payment confirmations often carry one,
+// and its merchant name and amount are exact where OCR of the same text is not.
+// Used by the browser scanner and the server OCR runner (lib/receipt-ocr.ts).
+
+import jsQR from 'jsqr';
+
+export interface QrisPayload {
+    merchantName: string | null;
+    merchantCity: string | null;
+    postalCode: string | null;
+    mcc: string | null; // ISO 18245 merchant category code, e.g. "5812"
+    amount: number | null; // only dynamic (per-transaction) codes carry one
+    currency: string | null; // ISO 4217 alpha code
+    nmid: string | null; // National Merchant ID, e.g. "ID1020021234567"
+    reference: string | null; // bill number or reference label, if the merchant set one
+    dynamic: boolean;
+}
+
+// EMVCo MPM tags used here
+const TAG_POINT_OF_INITIATION = '01';
+const TAG_MERCHANT_ACCOUNT_FIRST = 26;
+const TAG_MERCHANT_ACCOUNT_LAST = 51;
+const TAG_MCC = '52';
+const TAG_CURRENCY = '53';
+const TAG_AMOUNT = '54';
+const TAG_MERCHANT_NAME = '59';
+const TAG_MERCHANT_CITY = '60';
+const TAG_POSTAL_CODE = '61';
+const TAG_ADDITIONAL_DATA = '62';
+const TAG_CRC = '63';
+
+// Sub-tags of the merchant account and additional data templates
+const SUB_GLOBAL_ID = '00';
+const SUB_MERCHANT_ID = '02';
+const SUB_BILL_NUMBER = '01';
+const SUB_REFERENCE_LABEL = '05';
+
+// ISO 4217 numeric codes seen on QRIS and its cross-border partners
+const CURRENCY_CODES: Record<string, string> = {
+    '360': 'IDR',
+    '458': 'MYR',
+    '702': 'SGD',
+    '764': 'THB',
+    '840': 'USD',
+};
+
+/**
+ * Split a TLV string into tag -> value. Returns null when a length runs past
+ * the end, which means the payload is truncated or not TLV at all.
+ */
+function parseTlv(data: string): Map<string, string> | null {
+    const fields = new Map<string, string>();
+    let i = 0;
+    while (i < data.length) {
+        const header = data.slice(i, i + 4);
+        const tag = header.slice(0, 2);
+        const length = Number(header.slice(2));
+        if (!/^\d{4}$/.test(header) || i + 4 + length > data.length) return null;
+        fields.set(tag, data.slice(i + 4, i + 4 + length));
+        i += 4 + length;
+    }
+    return fields;
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as 4 uppercase hex digits
+ */
+export function qrisCrc(data: string): string {
+    let crc = 0xffff;
+    for (let i = 0; i < data.length; i++) {
+        crc ^= data.charCodeAt(i) << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+            crc &= 0xffff;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * The NMID lives in the merchant account template whose global ID is QRIS's
+ * own (ID.CO.QRIS.WWW, normally tag 51); acquirer templates (26-45) carry
+ * their own merchant IDs, used only when there is no QRIS one
+ */
+function findNmid(fields: Map<string, string>): string | null {
+    let fallback: string | null = null;
+    for (let tag = TAG_MERCHANT_ACCOUNT_FIRST; tag <= TAG_MERCHANT_ACCOUNT_LAST; tag++) {
+        const template = fields.get(String(tag));
+        if (!template) continue;
+        const account = parseTlv(template);
+        const merchantId = account?.get(SUB_MERCHANT_ID);
+        if (!account || !merchantId) continue;
+        if (/QRIS/i.test(account.get(SUB_GLOBAL_ID) || '')) return merchantId;
+        fallback ??= merchantId;
+    }
+    return fallback;
+}
+
+/**
+ * Decode a QRIS payload string. Returns null for anything that is not a
+ * well-formed EMVCo merchant QR with a valid checksum (URLs, other QR codes,
+ * misreads).
+ */
+export function parseQris(payload: string): QrisPayload | null {
+    const data = payload.trim();
+    if (!data.startsWith('000201')) return null;
+
+    const fields = parseTlv(data);
+    const crc = fields?.get(TAG_CRC);
+    if (!fields || !crc || !data.endsWith(`${TAG_CRC}04${crc}`)) return null;
+    if (qrisCrc(data.slice(0, -4)) !== crc.toUpperCase()) return null;
+
+    const amount = parseFloat(fields.get(TAG_AMOUNT) || '');
+    const currencyCode = fields.get(TAG_CURRENCY);
+    const additional = parseTlv(fields.get(TAG_ADDITIONAL_DATA) || '');
+
+    return {
+        merchantName: fields.get(TAG_MERCHANT_NAME)?.trim() || null,
+        merchantCity: fields.get(TAG_MERCHANT_CITY)?.trim() || null,
+        postalCode: fields.get(TAG_POSTAL_CODE) || null,
+        mcc: fields.get(TAG_MCC) || null,
+        amount: amount > 0 ? amount : null,
+        currency: currencyCode ? CURRENCY_CODES[currencyCode] ?? null : null,
+        nmid: findNmid(fields),
+        reference: additional?.get(SUB_BILL_NUMBER) || additional?.get(SUB_REFERENCE_LABEL) || null,
+        dynamic: fields.get(TAG_POINT_OF_INITIATION) === '12',
+    };
+}
+
+/**
+ * Find and decode a QRIS code in RGBA pixel data (canvas ImageData in the
+ * browser, sharp raw output on the server). Dark-mode screenshots put light
+ * modules on a dark background, so both polarities are tried.
+ */
+export function decodeQris(pixels: Uint8ClampedArray, width: number, height: number): QrisPayload | null {
+    const code = jsQR(pixels, width, height, { inversionAttempts: 'attemptBoth' });
+    return code ? parseQris(code.data) : null;
+}
+
+// Merchant category code ranges -> default category names (lib/seed.ts).
+// The first matching range wins, so specific codes come before the retail block.
+const MCC_CATEGORIES: [from: number, to: number, category: string][] = [
+    [4111, 4131, 'Transportation'], // commuter transport, taxis, buses
+    [4784, 4784, 'Transportation'], // tolls
+    [4789, 4789, 'Transportation'],
+    [4812, 4816, 'Utilities'], // telecom, internet
+    [4899, 4900, 'Utilities'], // cable TV, electricity, gas, water
+    [5411, 5411, 'Groceries'], // supermarkets
+    [5422, 5451, 'Groceries'], // butchers, confectionery, dairy
+    [5462, 5462, 'Food & Dining'], // bakeries
+    [5499, 5499, 'Groceries'], // minimarkets, specialty food
+    [5541, 5542, 'Transportation'], // fuel
+    [5811, 5814, 'Food & Dining'], // caterers, restaurants, bars, fast food
+    [5200, 5999, 'Shopping'], // the rest of retail
+    [6513, 6513, 'Rent & Housing'],
+    [7523, 7523, 'Transportation'], // parking
+];
+
+/**
+ * The default category name for a merchant category code, if it maps to one
+ */
+export function mccCategoryName(mcc: string | null | undefined): string | null {
+    const code = Number(mcc);
+    if (!mcc || !Number.isInteger(code)) return null;
+    return MCC_CATEGORIES.find(([from, to]) => code >= from && code <= to)?.[2] ?? null;
+}
+
+/**
+ * The user's expense category for a merchant category code, matched by name
+ * against the defaults. Null when the code doesn't map or the user has renamed
+ * or removed that category.
+ */
+export function categoryForMcc(
+    mcc: string | null | undefined,
+    categories: { id: string; name: string; type: string }[]
+): string | null {
+    const name = mccCategoryName(mcc)?.toLowerCase();
+    if (!name) return null;
+    return categories.find(c => c.type === 'expense' && c.name.toLowerCase() === name)?.id ?? null;
+}
@@ -6,6 +6,7 @@ export interface QueenItem {
     id: string; // Unique ID (uuid or timestamp)
     file: File;
     fileName: string;
+    fileHash?: string; // SHA-256 of the file, saved with the receipt for duplicate detection
     status: 'queued' | 'processing' | 'error' | 'completed';
     timestamp: number;
     isAutoMode?: boolean; // Persist the mode preference
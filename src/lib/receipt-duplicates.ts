@@ -0,0 +1,259 @@
+// Duplicate receipt detection and merging (server-side only)
+// Exact duplicates share a file hash (or stored image hash); near duplicates have
+// perceptual hashes within NEAR_DUPLICATE_MAX_DISTANCE bits of each other.
+
+import { db } from '@/db';
+import { receiptItems, receipts, transactions } from '@/db/schema';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE, type ImageFingerprint } from '@/lib/image-hash';
+import { parseImageDataUrl, perceptualHashOf, readReceiptImage, releaseReceiptImages } from '@/lib/receipt-images';
+import { deleteItemsForReceipts } from '@/lib/receipt-items';
+
+export type DuplicateKind = 'exact' | 'similar';
+
+export interface ReceiptMatch {
+    receiptId: string;
+    kind: DuplicateKind;
+    distance: number; // perceptual hash distance, 0 for exact matches
+    ocrMerchant: string | null;
+    ocrDate: string | null;
+    ocrAmount: number | null;
+    ocrCurrency: string | null;
+    fileName: string | null;
+    createdAt: string | null;
+    thumbnailUrl: string;
+}
+
+// Matches returned per checked image, closest first
+const MAX_MATCHES = 5;
+
+// Receipts hashed per request; older receipts are caught up over a few requests
+const BACKFILL_BATCH_SIZE = 100;
+
+type HashedReceipt = Awaited<ReturnType<typeof loadHashedReceipts>>[number];
+
+function loadHashedReceipts(userId: string) {
+    return db
+        .select({
+            id: receipts.id,
+            fileHash: receipts.fileHash,
+            imageHash: receipts.imageHash,
+            perceptualHash: receipts.perceptualHash,
+            ocrMerchant: receipts.ocrMerchant,
+            ocrDate: receipts.ocrDate,
+            ocrAmount: receipts.ocrAmount,
+            ocrCurrency: receipts.ocrCurrency,
+            fileName: receipts.fileName,
+            createdAt: receipts.createdAt,
+        })
+        .from(receipts)
+        .where(eq(receipts.userId, userId));
+}
+
+function toMatch(receipt: HashedReceipt, kind: DuplicateKind, distance: number): ReceiptMatch {
+    return {
+        receiptId: receipt.id,
+        kind,
+        distance,
+        ocrMerchant: receipt.ocrMerchant,
+        ocrDate: receipt.ocrDate,
+        ocrAmount: receipt.ocrAmount,
+        ocrCurrency: receipt.ocrCurrency,
+        fileName: receipt.fileName,
+        createdAt: receipt.createdAt,
+        thumbnailUrl: `/api/receipts/${receipt.id}/image?size=thumb`,
+    };
+}
+
+/**
+ * Compute perceptual hashes for receipts saved before they were recorded.
+ * Images that cannot be decoded get '' so they are not retried.
+ * Returns true if more receipts may still be waiting for a hash.
+ */
+export async function backfillPerceptualHashes(userId: string): Promise<boolean> {
+    const pending = await db
+        .select({ id: receipts.id, imageHash: receipts.imageHash, imageBase64: receipts.imageBase64 })
+        .from(receipts)
+        .where(and(eq(receipts.userId, userId), isNull(receipts.perceptualHash)))
+        .limit(BACKFILL_BATCH_SIZE);
+
+    for (const receipt of pending) {
+        const data = receipt.imageHash
+            ? await readReceiptImage(receipt.imageHash)
+            : parseImageDataUrl(receipt.imageBase64)?.data ?? null;
+        const perceptualHash = data ? await perceptualHashOf(data) : null;
+
+        await db
+            .update(receipts)
+            .set({ perceptualHash: perceptualHash ?? '' })
+            .where(eq(receipts.id, receipt.id));
+    }
+    return pending.length === BACKFILL_BATCH_SIZE;
+}
+
+/**
+ * Find saved receipts matching images that are about to be scanned
+ */
+export async function findReceiptMatches(
+    userId: string,
+    images: ImageFingerprint[]
+): Promise<ReceiptMatch[][]> {
+    const saved = await loadHashedReceipts(userId);
+
+    return images.map(image => {
+        const matches: ReceiptMatch[] = [];
+        for (const receipt of saved) {
+            if (receipt.fileHash === image.fileHash || receipt.imageHash === image.fileHash) {
+                matches.push(toMatch(receipt, 'exact', 0));
+            } else if (image.perceptualHash && receipt.perceptualHash) {
+                const distance = hammingDistance(image.perceptualHash, receipt.perceptualHash);
+                if (distance <= NEAR_DUPLICATE_MAX_DISTANCE) {
+                    matches.push(toMatch(receipt, 'similar', distance));
+                }
+            }
+        }
+        return matches
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, MAX_MATCHES);
+    });
+}
+
+/**
+ * Group the user's saved receipts that are copies of one another.
+ * Each group lists its receipts oldest first, with how many transactions use each.
+ */
+export async function findDuplicateReceiptGroups(userId: string) {
+    const saved = await loadHashedReceipts(userId);
+
+    // Union-find over exact and near matches
+    const parent = saved.map((_, i) => i);
+    const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+    const exactLinks = new Map<string, number>();
+    const link = (a: number, b: number) => {
+        parent[root(a)] = root(b);
+    };
+
+    saved.forEach((receipt, i) => {
+        for (const key of [receipt.fileHash && `f:${receipt.fileHash}`, receipt.imageHash && `i:${receipt.imageHash}`]) {
+            if (!key) continue;
+            const other = exactLinks.get(key);
+            if (other === undefined) exactLinks.set(key, i);
+            else link(i, other);
+        }
+    });
+
+    const hashed = saved
+        .map((receipt, i) => ({ i, hash: receipt.perceptualHash }))
+        .filter((r): r is { i: number; hash: string } => !!r.hash);
+    for (let a = 0; a < hashed.length; a++) {
+        for (let b = a + 1; b < hashed.length; b++) {
+            if (hammingDistance(hashed[a].hash, hashed[b].hash) <= NEAR_DUPLICATE_MAX_DISTANCE) {
+                link(hashed[a].i, hashed[b].i);
+            }
+        }
+    }
+
+    const members = new Map<number, HashedReceipt[]>();
+    saved.forEach((receipt, i) => {
+        const group = members.get(root(i)) ?? [];
+        group.push(receipt);
+        members.set(root(i), group);
+    });
+    const groups = [...members.values()].filter(group => group.length > 1);
+    if (groups.length === 0) return [];
+
+    const linkedCounts = await db
+        .select({ receiptId: transactions.receiptId, count: sql<number>`COUNT(*)` })
+        .from(transactions)
+        .where(and(
+            eq(transactions.userId, userId),
+            inArray(transactions.receiptId, groups.flat().map(r => r.id))
+        ))
+        .groupBy(transactions.receiptId);
+    const countById = new Map(linkedCounts.map(c => [c.receiptId, Number(c.count)]));
+
+    return groups.map(group => {
+        const sameImage = group.every(r => r.imageHash && r.imageHash === group[0].imageHash);
+        const sameFile = group.every(r => r.fileHash && r.fileHash === group[0].fileHash);
+        const kind: DuplicateKind = sameImage || sameFile ? 'exact' : 'similar';
+        const sorted = [...group].sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+
+        return {
+            kind,
+            receipts: sorted.map(r => ({
+                ...toMatch(r, kind, r.perceptualHash && sorted[0].perceptualHash
+                    ? hammingDistance(r.perceptualHash, sorted[0].perceptualHash)
+                    : 0),
+                transactionCount: countById.get(r.id) ?? 0,
+            })),
+        };
+    });
+}
+
+/**
+ * Fold duplicate receipts into the one being kept: their transactions are relinked
+ * to it, OCR fields it is missing are filled in, and the duplicates are deleted.
+ * Returns null if the kept receipt does not belong to the user.
+ */
+export async function mergeReceipts(userId: string, keepId: string, duplicateIds: string[]) {
+    const ids = [...new Set(duplicateIds.filter(id => id !== keepId))];
+    const rows = await db
+        .select()
+        .from(receipts)
+        .where(and(eq(receipts.userId, userId), inArray(receipts.id, [keepId, ...ids])));
+
+    const keep = rows.find(r => r.id === keepId);
+    if (!keep) return null;
+    const duplicates = rows.filter(r => r.id !== keepId);
+    if (duplicates.length === 0) return { keptId: keepId, merged: 0, transactionsRelinked: 0 };
+    const duplicateRowIds = duplicates.map(r => r.id);
+
+    const firstOf = <K extends keyof typeof keep>(key: K) =>
+        keep[key] ?? duplicates.find(d => d[key] !== null)?.[key] ?? null;
+    await db
+        .update(receipts)
+        .set({
+            ocrRawText: firstOf('ocrRawText'),
+            ocrMerchant: firstOf('ocrMerchant'),
+            ocrDate: firstOf('ocrDate'),
+            ocrAmount: firstOf('ocrAmount'),
+            ocrCurrency: firstOf('ocrCurrency'),
+            ocrConfidence: firstOf('ocrConfidence'),
+            fileName: firstOf('fileName'),
+            fileHash: firstOf('fileHash'),
+            accountId: firstOf('accountId'),
+            verified: keep.verified || duplicates.some(d => d.verified),
+            hasQris: keep.hasQris || duplicates.some(d => d.hasQris),
+        })
+        .where(eq(receipts.id, keepId));
+
+    // Keep line items from a duplicate when the kept receipt has none
+    const keptItems = await db
+        .select({ id: receiptItems.id })
+        .from(receiptItems)
+        .where(eq(receiptItems.receiptId, keepId))
+        .limit(1);
+    if (keptItems.length === 0) {
+        const withItems = await db
+            .select({ receiptId: receiptItems.receiptId })
+            .from(receiptItems)
+            .where(inArray(receiptItems.receiptId, duplicateRowIds))
+            .limit(1);
+        if (withItems.length > 0) {
+            await db
+                .update(receiptItems)
+                .set({ receiptId: keepId })
+                .where(eq(receiptItems.receiptId, withItems[0].receiptId));
+        }
+    }
+
+    const linked = and(eq(transactions.userId, userId), inArray(transactions.receiptId, duplicateRowIds));
+    const relinked = await db.select({ id: transactions.id }).from(transactions).where(linked);
+    await db.update(transactions).set({ receiptId: keepId }).where(linked);
+
+    await deleteItemsForReceipts(duplicateRowIds);
+    await db.delete(receipts).where(inArray(receipts.id, duplicateRowIds));
+    await releaseReceiptImages(duplicates.flatMap(d => [d.imageHash, d.attachmentHash]));
+
+    return { keptId: keepId, merged: duplicates.length, transactionsRelinked: relinked.length };
+}
@@ -0,0 +1,119 @@
+// Receipt text enhancement (server-side only)
+// Turns OCR or e-mail text into structured receipt data with the configured LLM
+// (lib/llm). A matching merchant template's merchant, date, total and category
+// win over the LLM, and so do the layout recognizer's fields for e-wallet and
+// m-banking screenshots (which never use a template). Used by /api/ocr-enhanced and the e-mail ingester.
+
+import { completeJSON, type LLMProvider } from '@/lib/llm';
+import { findMerchantTemplate } from '@/lib/merchant-templates';
+import { applyReceiptTemplate, recognizePaymentScreenshot, screenshotMerchant, type PaymentScreenshot } from '@/lib/ocr';
+
+// Shape requested in the system prompt; any field may be missing
+interface ReceiptEnhancement {
+    merchant?: string | null;
+    date?: string | null;
+    totalAmount?: number | null;
+    currency?: string | null;
+    transactionType?: 'income' | 'expense';
+    items?: { name: string; price: number; quantity: number }[];
+    confidence?: number;
+}
+
+export interface EnhancedReceipt {
+    merchant: string | null;
+    date: string | null;
+    amount: number | null;
+    currency: string | null;
+    transactionType: 'income' | 'expense';
+    items: { name: string; price: number; quantity: number }[];
+    confidence: number;
+    categoryId: string | null;
+    screenshot: PaymentScreenshot | null;
+    enhancementUsed: true;
+    enhancementSource: string;
+    templateId: string | null;
+}
+
+/**
+ * Parse receipt text with the LLM. `userId` enables the user's merchant templates.
+ */
+export async function enhanceReceiptText(
+    llm: LLMProvider,
+    rawText: string,
+    userId: string | null
+): Promise<EnhancedReceipt> {
+    const parsed = await completeJSON<ReceiptEnhancement>(llm, {
+        messages: [
+            {
+                role: 'system',
+                content: `You are an expert receipt parser. Extract structured data from OCR-scanned receipt text.
+
+Return ONLY valid JSON with this exact structure:
+{
+  "merchant": "store/merchant name (null if not found)",
+  "date": "YYYY-MM-DD format (null if not found)",
+  "totalAmount": number or null,
+  "currency": "IDR" | "USD" | "EUR" | "GBP" | "SGD" | null,
+  "transactionType": "income" | "expense",
+  "items": [{"name": "string", "price": number, "quantity": number}],
+  "confidence": 0.0-1.0
+}
+
+CRITICAL RULES:
+1. **Merchant Name**:
+   - Extract the store or merchant name.
+   - If the receipt is a **Bank Transfer** or **Digital Wallet** transaction, format it as **"Platform - Destination"** (e.g., "BCA - Budi Santoso", "GoPay - Bluebird", "OVO - Kopi Kenangan").
+   - If unsure, use the most prominent business name. If it's a known franchise (Starbucks, McD, Indomaret, Alfamart), use the clean brand name. If it's a local store, use the full name excluding "PT" or legal suffixes.
+2. **LANGUAGE**: Detect if receipt is Indonesian (ID) or English (EN).
+   - ID: "Total", "Jumlah", "Kembali" (Change), "Pajak" (Tax).
+   - EN: "Total", "Subtotal", "Change", "Tax".
+3. **CURRENCY**: 
+   - IDR: Look for "Rp", "IDR", or numbers with dot thousands separators (e.g., 50.000).
+   - USD/EUR: Look for "$", "€", or numbers with comma separators (e.g., 50,000 for large, or 10.50).
+4. **AMOUNTS**:
+   - "Total Belanja", "Total Bayar", "Grand Total" = final amount.
+   - Do NOT confuse "Total Item" or "Qty" with price.
+   - Do NOT use "Kembalian" or "Change" as the total.
+5. **TRANSACTION TYPE**:
+   - Expense: Buying things, "Total Bayar", "Purchase".
+   - Income: "Gaji", "Salary", "Transfer Masuk", "Topup".
+6. **FORMATTING**:
+   - Date: Convert all to YYYY-MM-DD.
+   - Numbers: Return pure numbers (no separators).
+
+If data is ambiguous or missing, set to null. Do not guess.`
+            },
+            {
+                role: 'user',
+                content: `Receipt OCR Text:\n\n${rawText}\n\nParse this receipt.`
+            }
+        ],
+        temperature: 0.1,
+        maxTokens: 1000,
+    });
+
+    // A screenshot's header names the payment app, so it can't pick a template
+    const screenshot = recognizePaymentScreenshot(rawText);
+    const template = userId && !screenshot ? await findMerchantTemplate(userId, rawText) : null;
+    const fromTemplate = template ? applyReceiptTemplate(rawText, template) : {};
+    const screenshotAmount = screenshot?.amount ?? null;
+
+    return {
+        merchant: (screenshot && screenshotMerchant(screenshot)) ?? fromTemplate.merchant ?? (parsed.merchant || null),
+        date: fromTemplate.date ?? (parsed.date || null),
+        amount: fromTemplate.amount ?? screenshotAmount ?? parsed.totalAmount ?? null,
+        currency: fromTemplate.amount != null
+            ? fromTemplate.currency ?? null
+            : screenshotAmount != null ? 'IDR' : (parsed.currency || null), // Allow null if not detected, don't force IDR
+        transactionType: screenshot?.direction
+            ? (screenshot.direction === 'in' ? 'income' : 'expense')
+            : parsed.transactionType || 'expense',
+        items: screenshot ? [] : parsed.items || [],
+        confidence: parsed.confidence ?? 0.9,
+        categoryId: fromTemplate.categoryId ?? null,
+        screenshot,
+        enhancementUsed: true,
+        enhancementSource: llm.name,
+        templateId: template?.id ?? null,
+    };
+}
@@ -0,0 +1,214 @@
+// Receipt image helpers (server-side only)
+// Images live in the blob store under their SHA-256, so identical uploads share one blob.
+// Smaller WebP renditions (thumb, preview) are stored next to the original.
+// PDF receipts keep the original PDF the same way as an attachment; their image
+// is the rendered pages.
+// Rows from before the blob store keep the image inline in receipts.imageBase64
+// until drizzle/move-receipt-images.mjs has run.
+
+import { createHash } from 'crypto';
+import { db } from '@/db';
+import { receipts } from '@/db/schema';
+import { eq, or } from 'drizzle-orm';
+import sharp from 'sharp';
+import { getBlobStore } from '@/lib/blob-store';
+import { DHASH_HEIGHT, DHASH_WIDTH, dHashFromGrayscale } from '@/lib/image-hash';
+
+export interface StoredReceiptImage {
+    imageHash: string;
+    imageType: string;
+    imageSize: number;
+    perceptualHash: string | null;
+}
+
+export type ReceiptImageSize = 'thumb' | 'preview' | 'full';
+
+export const RECEIPT_IMAGE_SIZES: ReceiptImageSize[] = ['thumb', 'preview', 'full'];
+
+// Renditions are scaled to this width (never enlarged); receipts are tall, so height follows
+const RENDITIONS: Record<Exclude<ReceiptImageSize, 'full'>, { width: number; quality: number }> = {
+    thumb: { width: 320, quality: 70 }, // receipt grid cards
+    preview: { width: 1280, quality: 80 }, // viewer modal
+};
+
+export const RENDITION_CONTENT_TYPE = 'image/webp';
+
+export function receiptImageKey(hash: string, size: ReceiptImageSize = 'full'): string {
+    const key = `receipts/${hash.slice(0, 2)}/${hash}`;
+    return size === 'full' ? key : `${key}.${size}.webp`;
+}
+
+/**
+ * Split a data URL (data:image/jpeg;base64,...) into its MIME type and bytes
+ */
+export function parseImageDataUrl(dataUrl: string): { contentType: string; data: Buffer } | null {
+    const matches = dataUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
+    if (!matches) return null;
+    return { contentType: matches[1], data: Buffer.from(matches[2], 'base64') };
+}
+
+/**
+ * Write an uploaded image (data URL) to the blob store. Returns the receipt
+ * columns that point at it, or null if the data URL is not an image.
+ */
+export async function storeReceiptImage(dataUrl: string): Promise<StoredReceiptImage | null> {
+    const image = parseImageDataUrl(dataUrl);
+    if (!image || !image.contentType.startsWith('image/') || image.data.length === 0) return null;
+
+    const imageHash = createHash('sha256').update(image.data).digest('hex');
+    const store = getBlobStore();
+    const key = receiptImageKey(imageHash);
+    if (!(await store.head(key))) {
+        await store.put(key, image.data, image.contentType);
+    }
+
+    for (const size of ['thumb', 'preview'] as const) {
+        await ensureReceiptRendition(imageHash, size, async () => image.data);
+    }
+
+    return {
+        imageHash,
+        imageType: image.contentType,
+        imageSize: image.data.length,
+        perceptualHash: await perceptualHashOf(image.data),
+    };
+}
+
+export interface StoredReceiptAttachment {
+    attachmentHash: string;
+    attachmentType: string;
+    attachmentSize: number;
+}
+
+/**
+ * Write an uploaded PDF (data URL) to the blob store. Returns the receipt
+ * columns that point at it, or null if the data URL is not a PDF.
+ */
+export async function storeReceiptAttachment(dataUrl: string): Promise<StoredReceiptAttachment | null> {
+    const file = parseImageDataUrl(dataUrl);
+    if (!file || file.contentType !== 'application/pdf' || file.data.length === 0) return null;
+
+    const attachmentHash = createHash('sha256').update(file.data).digest('hex');
+    const store = getBlobStore();
+    const key = receiptImageKey(attachmentHash);
+    if (!(await store.head(key))) {
+        await store.put(key, file.data, file.contentType);
+    }
+
+    return { attachmentHash, attachmentType: file.contentType, attachmentSize: file.data.length };
+}
+
+/**
+ * dHash of an image (see lib/image-hash.ts), or null if it cannot be decoded
+ */
+export async function perceptualHashOf(data: Buffer): Promise<string | null> {
+    try {
+        const pixels = await sharp(data)
+            .rotate()
+            .grayscale()
+            .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+            .raw()
+            .toBuffer();
+        return dHashFromGrayscale(pixels);
+    } catch (error) {
+        console.error('Failed to compute perceptual hash:', error);
+        return null;
+    }
+}
+
+/**
+ * Make sure the thumb/preview rendition of an image exists, generating it from the
+ * original (`loadOriginal`) if needed. Returns its size in bytes, or null when the
+ * original is missing or cannot be decoded; callers then fall back to the original.
+ */
+export async function ensureReceiptRendition(
+    hash: string,
+    size: Exclude<ReceiptImageSize, 'full'>,
+    loadOriginal: () => Promise<Buffer | null>
+): Promise<{ size: number } | null> {
+    const store = getBlobStore();
+    const key = receiptImageKey(hash, size);
+
+    const existing = await store.head(key);
+    if (existing) return existing;
+
+    try {
+        const original = await loadOriginal();
+        if (!original) return null;
+
+        const { width, quality } = RENDITIONS[size];
+        const data = await sharp(original)
+            .rotate() // apply EXIF orientation from phone cameras
+            .resize({ width, withoutEnlargement: true })
+            .webp({ quality })
+            .toBuffer();
+        await store.put(key, data, RENDITION_CONTENT_TYPE);
+        return { size: data.length };
+    } catch (error) {
+        console.error(`Failed to generate ${size} rendition of receipt image ${hash}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Read an image's original bytes from the blob store
+ */
+export async function readReceiptImage(hash: string): Promise<Buffer | null> {
+    const stream = await getBlobStore().get(receiptImageKey(hash));
+    return stream ? Buffer.from(await new Response(stream).arrayBuffer()) : null;
+}
+
+/**
+ * Read a receipt's image back as a data URL (for backups)
+ */
+export async function readReceiptImageDataUrl(receipt: {
+    imageBase64: string;
+    imageHash: string | null;
+    imageType: string | null;
+}): Promise<string | null> {
+    if (!receipt.imageHash) return receipt.imageBase64 || null;
+
+    const data = await readReceiptImage(receipt.imageHash);
+    if (!data) return null;
+    return `data:${receipt.imageType || 'image/jpeg'};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Read a receipt's PDF attachment back as a data URL (for backups)
+ */
+export async function readReceiptAttachmentDataUrl(receipt: {
+    attachmentHash: string | null;
+    attachmentType: string | null;
+}): Promise<string | null> {
+    if (!receipt.attachmentHash) return null;
+
+    const data = await readReceiptImage(receipt.attachmentHash);
+    if (!data) return null;
+    return `data:${receipt.attachmentType || 'application/pdf'};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Delete blobs no receipt points at any more, as image or attachment. Call
+ * after deleting receipt rows. Failures are only logged: an orphaned blob
+ * costs space, not correctness.
+ */
+export async function releaseReceiptImages(hashes: (string | null)[]): Promise<void> {
+    const store = getBlobStore();
+
+    for (const hash of new Set(hashes.filter((h): h is string => !!h))) {
+        try {
+            const stillUsed = await db
+                .select({ id: receipts.id })
+                .from(receipts)
+                .where(or(eq(receipts.imageHash, hash), eq(receipts.attachmentHash, hash)))
+                .limit(1);
+            if (stillUsed.length === 0) {
+                for (const size of RECEIPT_IMAGE_SIZES) {
+                    await store.delete(receiptImageKey(hash, size));
+                }
+            }
+        } catch (error) {
+            console.error(`Failed to release receipt image ${hash}:`, error);
+        }
+    }
+}
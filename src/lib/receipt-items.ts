@@ -0,0 +1,83 @@
+// Receipt line item helpers (server-side only)
+
+import { db } from '@/db';
+import { receiptItems, type ReceiptLineItem } from '@/db/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+
+// Same shape as the OCR ReceiptItem; quantity may be null from JSON bodies
+export interface ReceiptItemInput {
+    name: string;
+    price: number;
+    quantity?: number | null;
+}
+
+/**
+ * Grouping key for an item name: case, punctuation and spacing differences
+ * between merchants ("INDOMILK  UHT 1L", "Indomilk UHT 1 L") collapse together.
+ * Pack sizes are kept, so 1L and 2L stay separate products.
+ */
+export function normalizeItemName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/^\d+\s*x\s+/, '') // leading "2x" quantity prefix
+        .replace(/(\d+)\s+(ml|l|lt|gr|g|kg|pcs|pc)\b/g, '$1$2') // "1 l" -> "1l"
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Replace the stored line items of a receipt.
+ * OCR/DeepSeek items carry the line total in `price`; the unit price is derived from it.
+ */
+export async function replaceReceiptItems(
+    receiptId: string,
+    userId: string,
+    items: ReceiptItemInput[],
+    currency: string | null
+): Promise<void> {
+    await db.delete(receiptItems).where(eq(receiptItems.receiptId, receiptId));
+
+    const rows = items
+        .filter(item => item.name.trim() && normalizeItemName(item.name))
+        .map((item, position) => {
+            const quantity = item.quantity && item.quantity > 0 ? item.quantity : 1;
+            return {
+                id: uuid(),
+                receiptId,
+                userId,
+                name: item.name.trim(),
+                normalizedName: normalizeItemName(item.name),
+                quantity,
+                unitPrice: item.price / quantity,
+                totalPrice: item.price,
+                currency: currency || 'IDR',
+                position,
+            };
+        });
+
+    if (rows.length === 0) return;
+
+    await db.insert(receiptItems).values(rows);
+}
+
+/**
+ * Stored line items of a receipt, in printed order
+ */
+export async function getReceiptItems(receiptId: string): Promise<ReceiptLineItem[]> {
+    return db
+        .select()
+        .from(receiptItems)
+        .where(eq(receiptItems.receiptId, receiptId))
+        .orderBy(asc(receiptItems.position));
+}
+
+/**
+ * Remove line items before deleting their receipts
+ * (explicit, rather than relying on SQLite FK enforcement being enabled)
+ */
+export async function deleteItemsForReceipts(receiptIds: string[]): Promise<void> {
+    if (receiptIds.length === 0) return;
+    await db.delete(receiptItems).where(inArray(receiptItems.receiptId, receiptIds));
+}
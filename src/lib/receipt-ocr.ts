@@ -0,0 +1,165 @@
+// Server-side receipt OCR (server-side only)
+// Runs tesseract.js in Node against stored receipt images, for receipts that did not
+// go through the browser scanner (API uploads, imports). The text is parsed with the
+// same parsers as the browser (lib/ocr.ts), together with any QRIS code in the
+// image (lib/qris.ts), and written back to the receipt.
+// Jobs run one at a time on a single shared worker: recognition is CPU-bound.
+
+import { after } from 'next/server';
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, type Worker } from 'tesseract.js';
+import { db } from '@/db';
+import { receipts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseReceiptText, type OCRResult } from '@/lib/ocr';
+import { parseImageDataUrl, readReceiptImage } from '@/lib/receipt-images';
+import { replaceReceiptItems } from '@/lib/receipt-items';
+import { getMerchantTemplates } from '@/lib/merchant-templates';
+import { linkReceiptMerchant } from '@/lib/merchants';
+import { decodeQris, type QrisPayload } from '@/lib/qris';
+
+export type OcrStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+// Wider photos only slow recognition down; receipt text stays legible at this width
+const MAX_OCR_WIDTH = 2000;
+
+// Same threshold as the browser preprocessing: darker images are inverted
+const DARK_IMAGE_BRIGHTNESS = 100;
+
+let workerPromise: Promise<Worker> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * The shared worker. Language data is downloaded once into TESSERACT_CACHE_PATH
+ * (default .data/tesseract), or read from TESSERACT_LANG_PATH when set.
+ */
+function getWorker(): Promise<Worker> {
+    if (!workerPromise) {
+        workerPromise = createWorker('eng+ind', 1, {
+            cachePath: process.env.TESSERACT_CACHE_PATH || path.join(process.cwd(), '.data', 'tesseract'),
+            ...(process.env.TESSERACT_LANG_PATH && { langPath: process.env.TESSERACT_LANG_PATH }),
+        }).catch(error => {
+            workerPromise = null; // retry on the next job
+            throw error;
+        });
+    }
+    return workerPromise;
+}
+
+/**
+ * Upright, grayscale, size-capped PNG; dark receipts (e-wallet dark mode) are
+ * inverted to black text on white, which Tesseract reads best
+ */
+async function prepareImage(data: Buffer): Promise<Buffer> {
+    const { channels } = await sharp(data).stats();
+    const colour = channels.slice(0, 3);
+    const brightness = colour.reduce((sum, c) => sum + c.mean, 0) / colour.length;
+
+    const image = sharp(data)
+        .rotate()
+        .grayscale()
+        .resize({ width: MAX_OCR_WIDTH, withoutEnlargement: true });
+    return (brightness < DARK_IMAGE_BRIGHTNESS ? image.negate({ alpha: false }) : image).png().toBuffer();
+}
+
+/**
+ * Decode a QRIS code in the image, if it has one. Reads the colour image: the
+ * OCR preprocessing can blur small codes.
+ */
+async function readQrisCode(data: Buffer): Promise<QrisPayload | null> {
+    const { data: pixels, info } = await sharp(data)
+        .rotate()
+        .resize({ width: MAX_OCR_WIDTH, withoutEnlargement: true })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    return decodeQris(new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.length), info.width, info.height);
+}
+
+async function setOcrStatus(receiptId: string, ocrStatus: OcrStatus): Promise<void> {
+    await db.update(receipts).set({ ocrStatus }).where(eq(receipts.id, receiptId));
+}
+
+async function processReceiptOcr(receiptId: string): Promise<OCRResult | null> {
+    const rows = await db
+        .select({
+            id: receipts.id,
+            userId: receipts.userId,
+            imageHash: receipts.imageHash,
+            imageBase64: receipts.imageBase64,
+        })
+        .from(receipts)
+        .where(eq(receipts.id, receiptId))
+        .limit(1);
+    const receipt = rows[0];
+    if (!receipt) return null;
+
+    await setOcrStatus(receiptId, 'processing');
+    try {
+        // Receipts saved before the blob store keep their image inline
+        const image = receipt.imageHash
+            ? await readReceiptImage(receipt.imageHash)
+            : receipt.imageBase64 ? parseImageDataUrl(receipt.imageBase64)?.data ?? null : null;
+        if (!image) {
+            throw new Error('Receipt image not found');
+        }
+
+        const worker = await getWorker();
+        const { data } = await worker.recognize(await prepareImage(image));
+        const templates = receipt.userId ? await getMerchantTemplates(receipt.userId) : [];
+        const qris = await readQrisCode(image);
+        const result = parseReceiptText(data.text, data.confidence / 100, templates, qris);
+
+        await db
+            .update(receipts)
+            .set({
+                ocrRawText: result.rawText,
+                ocrMerchant: result.merchant,
+                ocrDate: result.date,
+                ocrAmount: result.amount,
+                ocrCurrency: result.currency,
+                ocrConfidence: result.confidence,
+                hasQris: !!qris,
+                ocrStatus: 'done',
+            })
+            .where(eq(receipts.id, receiptId));
+
+        if (receipt.userId) {
+            await linkReceiptMerchant(receipt.userId, receiptId, result.merchant);
+        }
+        if (result.items.length > 0 && receipt.userId) {
+            await replaceReceiptItems(receiptId, receipt.userId, result.items, result.currency);
+        }
+
+        return result;
+    } catch (error) {
+        await setOcrStatus(receiptId, 'failed');
+        throw error;
+    }
+}
+
+/**
+ * OCR a receipt now (after any jobs already queued). Resolves with the parsed
+ * result, or null if the receipt does not exist.
+ */
+export function runReceiptOcr(receiptId: string): Promise<OCRResult | null> {
+    const job = queue.then(() => processReceiptOcr(receiptId));
+    queue = job.catch(() => undefined);
+    return job;
+}
+
+/**
+ * Mark a receipt as pending and OCR it once the response has been sent.
+ * Call from route handlers.
+ */
+export async function queueReceiptOcr(receiptId: string): Promise<void> {
+    await setOcrStatus(receiptId, 'pending');
+    after(async () => {
+        try {
+            await runReceiptOcr(receiptId);
+        } catch (error) {
+            console.error(`Server OCR failed for receipt ${receiptId}:`, error);
+        }
+    });
+}
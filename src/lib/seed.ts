@@ -34,3 +34,19 @@ export const seedCategories = [
 ] as const;
 
 export type SeedCategory = typeof seedCategories[number];
+
+// Merchant directory defaults: the brands the receipt parser knows (lib/ocr.ts
+// extractMerchant), with their usual spellings and default category by name
+export const seedMerchants = [
+    { name: 'Alfamart', aliases: ['alfaria', 'alfa midi', 'alfamidi'], category: 'Groceries', color: '#E53935' },
+    { name: 'Indomaret', aliases: ['indomarco', 'indomaret point'], category: 'Groceries', color: '#1E88E5' },
+    { name: 'Starbucks', aliases: ['sbux'], category: 'Food & Dining', color: '#00704A' },
+    { name: "McDonald's", aliases: ['mcdonalds', 'mcdonald', 'mcd'], category: 'Food & Dining', color: '#FFC72C' },
+    { name: 'KFC', aliases: ['kentucky fried chicken'], category: 'Food & Dining', color: '#E4002B' },
+    { name: 'HokBen', aliases: ['hoka hoka bento'], category: 'Food & Dining', color: '#D32F2F' },
+    { name: 'Grab', aliases: ['grabfood', 'grabcar', 'grabbike'], category: 'Transportation', color: '#00B14F' },
+    { name: 'Gojek', aliases: ['goride', 'gocar', 'gofood'], category: 'Transportation', color: '#00AA13' },
+    { name: 'Tokopedia', aliases: ['toped'], category: 'Shopping', color: '#42B549' },
+    { name: 'Shopee', aliases: [], category: 'Shopping', color: '#EE4D2D' },
+    { name: 'Lazada', aliases: [], category: 'Shopping', color: '#0F146D' },
+];
@@ -0,0 +1,102 @@
+// Transaction split helpers (server-side only)
+
+import { db } from '@/db';
+import { transactions, transactionSplits, type TransactionSplit } from '@/db/schema';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+
+export interface SplitInput {
+    categoryId?: string | null;
+    amount: number;
+    description?: string | null;
+}
+
+// Rounding slack when comparing split totals against the parent amount
+const SPLIT_TOLERANCE = 0.01;
+
+/**
+ * Check that split lines add up to the parent transaction amount
+ */
+export function splitsMatchAmount(splits: SplitInput[], amount: number): boolean {
+    const total = splits.reduce((sum, s) => sum + s.amount, 0);
+    return Math.abs(total - amount) <= SPLIT_TOLERANCE;
+}
+
+/**
+ * Replace all split lines of a transaction. An empty list removes the split.
+ */
+export async function replaceTransactionSplits(transactionId: string, splits: SplitInput[]): Promise<void> {
+    await db.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId));
+
+    if (splits.length === 0) return;
+
+    await db.insert(transactionSplits).values(
+        splits.map(s => ({
+            id: uuid(),
+            transactionId,
+            categoryId: s.categoryId || null,
+            amount: s.amount,
+            description: s.description || null,
+        }))
+    );
+}
+
+/**
+ * Load split lines for a set of transactions, grouped by transaction ID
+ */
+export async function getSplitsByTransaction(transactionIds: string[]): Promise<Map<string, TransactionSplit[]>> {
+    const map = new Map<string, TransactionSplit[]>();
+    if (transactionIds.length === 0) return map;
+
+    const rows = await db
+        .select()
+        .from(transactionSplits)
+        .where(inArray(transactionSplits.transactionId, transactionIds));
+
+    for (const row of rows) {
+        const list = map.get(row.transactionId) || [];
+        list.push(row);
+        map.set(row.transactionId, list);
+    }
+    return map;
+}
+
+/**
+ * Remove split lines before deleting their transactions
+ * (explicit, rather than relying on SQLite FK enforcement being enabled)
+ */
+export async function deleteSplitsForTransactions(transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+    await db.delete(transactionSplits).where(inArray(transactionSplits.transactionId, transactionIds));
+}
+
+/**
+ * SQL expression: IDR amount of the current `transactions` row attributed to a set of
+ * categories (e.g. a category and its subcategories). Split transactions contribute their
+ * matching lines pro rata; others count in full when their own category matches.
+ */
+export function categoryShareSql(categoryIds: string[]) {
+    const ids = sql.join(categoryIds.map(id => sql`${id}`), sql`, `);
+    return sql<number>`CASE
+        WHEN EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = ${transactions.id})
+            THEN COALESCE(${transactions.amountInBase}, ${transactions.amount})
+                * COALESCE((SELECT SUM(s.amount) FROM transaction_splits s
+                    WHERE s.transaction_id = ${transactions.id} AND s.category_id IN (${ids})), 0)
+                / ${transactions.amount}
+        WHEN ${transactions.categoryId} IN (${ids})
+            THEN COALESCE(${transactions.amountInBase}, ${transactions.amount})
+        ELSE 0
+    END`;
+}
+
+/**
+ * SQL condition: the current `transactions` row has no split lines
+ */
+export const hasNoSplitsSql = sql`NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = ${transactions.id})`;
+
+/**
+ * SQL expression: IDR amount of the current `transaction_splits` row
+ * (split share of the parent's base amount; requires a join on transactions)
+ */
+export const splitBaseAmountSql = sql<number>`${transactionSplits.amount}
+    * COALESCE(${transactions.amountInBase}, ${transactions.amount}) / ${transactions.amount}`;
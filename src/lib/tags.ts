@@ -0,0 +1,84 @@
+// Transaction tag helpers (server-side only)
+
+import { db } from '@/db';
+import { tags, transactions, transactionTags, type Tag } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+
+/**
+ * The subset of tag IDs that belong to the user
+ */
+export async function ownTagIds(userId: string, tagIds: string[]): Promise<string[]> {
+    if (tagIds.length === 0) return [];
+    const rows = await db
+        .select({ id: tags.id })
+        .from(tags)
+        .where(and(eq(tags.userId, userId), inArray(tags.id, tagIds)));
+    return rows.map(r => r.id);
+}
+
+/**
+ * Replace all tags of a transaction. Tags of other users are ignored.
+ */
+export async function replaceTransactionTags(userId: string, transactionId: string, tagIds: string[]): Promise<void> {
+    await db.delete(transactionTags).where(eq(transactionTags.transactionId, transactionId));
+    await addTransactionTags(transactionId, await ownTagIds(userId, [...new Set(tagIds)]));
+}
+
+/**
+ * Add tags to a transaction, keeping the ones it has. The tag IDs must
+ * already be checked to belong to the transaction's user.
+ */
+export async function addTransactionTags(transactionId: string, tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) return;
+    await db
+        .insert(transactionTags)
+        .values(tagIds.map(tagId => ({ id: uuid(), transactionId, tagId })))
+        .onConflictDoNothing();
+}
+
+/**
+ * Load the tags of a set of transactions, grouped by transaction ID
+ */
+export async function getTagsByTransaction(transactionIds: string[]): Promise<Map<string, Tag[]>> {
+    const map = new Map<string, Tag[]>();
+    if (transactionIds.length === 0) return map;
+
+    // Chunked to stay under SQLite's bound parameter limit on big exports
+    for (let i = 0; i < transactionIds.length; i += 500) {
+        const rows = await db
+            .select({ transactionId: transactionTags.transactionId, tag: tags })
+            .from(transactionTags)
+            .innerJoin(tags, eq(transactionTags.tagId, tags.id))
+            .where(inArray(transactionTags.transactionId, transactionIds.slice(i, i + 500)));
+
+        for (const row of rows) {
+            const list = map.get(row.transactionId) || [];
+            list.push(row.tag);
+            map.set(row.transactionId, list);
+        }
+    }
+    for (const list of map.values()) {
+        list.sort((a, b) => a.name.localeCompare(b.name));
+    }
+    return map;
+}
+
+/**
+ * Remove tag links before deleting their transactions
+ * (explicit, rather than relying on SQLite FK enforcement being enabled)
+ */
+export async function deleteTagsForTransactions(transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+    await db.delete(transactionTags).where(inArray(transactionTags.transactionId, transactionIds));
+}
+
+/**
+ * SQL condition: the current `transactions` row carries the tag
+ */
+export function hasTagSql(tagId: string) {
+    return inArray(
+        transactions.id,
+        db.select({ id: transactionTags.transactionId }).from(transactionTags).where(eq(transactionTags.tagId, tagId))
+    );
+}
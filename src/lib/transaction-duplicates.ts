@@ -0,0 +1,427 @@
+// Duplicate transaction detection (server-side only)
+// Auto-pilot receipts and manual entries often record the same spend twice. Two
+// income/expense transactions are a likely duplicate pair when their base-currency
+// amounts match, their dates are at most DATE_WINDOW_DAYS apart and their
+// descriptions are similar. Pairs are recorded after each write so the review page
+// only has to list them; dismissed pairs are kept so they are not suggested again.
+
+import { after } from 'next/server';
+import { db } from '@/db';
+import {
+    accounts,
+    categories,
+    receiptItems,
+    receipts,
+    transactionDuplicates,
+    transactions,
+    transactionSplits,
+    transactionTags,
+    type Transaction,
+} from '@/db/schema';
+import { and, eq, gte, inArray, lte, ne, or, sql } from 'drizzle-orm';
+import { v4 as uuid } from 'uuid';
+import { releaseReceiptImages } from '@/lib/receipt-images';
+
+export const DATE_WINDOW_DAYS = 2;
+
+// Dice coefficient of the description bigrams
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+// Amounts in different currencies are compared in IDR, at rates that differ day to day
+const CROSS_CURRENCY_TOLERANCE = 0.01;
+
+// Company suffixes and filler that say nothing about the merchant
+const NOISE_WORDS = new Set(['pt', 'tbk', 'cv', 'persero', 'the', 'and', 'store', 'shop', 'payment', 'pembayaran', 'ke', 'dari']);
+
+type Comparable = Pick<
+    Transaction,
+    'id' | 'type' | 'amount' | 'currency' | 'amountInBase' | 'description' | 'date' | 'categoryId' | 'externalId' | 'transferId'
+>;
+
+const comparableColumns = {
+    id: transactions.id,
+    type: transactions.type,
+    amount: transactions.amount,
+    currency: transactions.currency,
+    amountInBase: transactions.amountInBase,
+    description: transactions.description,
+    date: transactions.date,
+    categoryId: transactions.categoryId,
+    externalId: transactions.externalId,
+    transferId: transactions.transferId,
+};
+
+/**
+ * Reduce a description to the words that identify the merchant
+ */
+export function normalizeDescription(text: string | null | undefined): string {
+    return (text || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // strip diacritics
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !NOISE_WORDS.has(word))
+        .join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const compact = text.replace(/ /g, '');
+    for (let i = 0; i < compact.length - 1; i++) {
+        const pair = compact.slice(i, i + 2);
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * How alike two descriptions are, 0-1. One containing the other ("Indomaret" and
+ * "Indomaret Point Kemang") counts as a full match.
+ */
+export function descriptionSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+    const left = normalizeDescription(a);
+    const right = normalizeDescription(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const shorter = left.length < right.length ? left : right;
+    const longer = shorter === left ? right : left;
+    if (shorter.length >= 3 && ` ${longer} `.includes(` ${shorter} `)) return 1;
+
+    const leftPairs = bigrams(left);
+    const rightPairs = bigrams(right);
+    let shared = 0;
+    let total = 0;
+    leftPairs.forEach((count, pair) => {
+        shared += Math.min(count, rightPairs.get(pair) || 0);
+        total += count;
+    });
+    rightPairs.forEach(count => {
+        total += count;
+    });
+    return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function amountsMatch(a: Comparable, b: Comparable): boolean {
+    if ((a.currency || 'IDR') === (b.currency || 'IDR')) {
+        return Math.abs(a.amount - b.amount) < 0.005;
+    }
+    const left = a.amountInBase ?? a.amount;
+    const right = b.amountInBase ?? b.amount;
+    return Math.abs(left - right) <= Math.max(left, right) * CROSS_CURRENCY_TOLERANCE;
+}
+
+function daysApart(a: string, b: string): number {
+    return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+/**
+ * Likelihood (0-1) that two transactions record the same spend, or null if they
+ * are not a candidate pair
+ */
+export function duplicateScore(a: Comparable, b: Comparable): number | null {
+    if (a.id === b.id || a.type !== b.type || a.type === 'transfer') return null;
+    if (a.transferId || b.transferId) return null; // transfer fees
+    // Two distinct statement lines are two real transactions
+    if (a.externalId && b.externalId && a.externalId !== b.externalId) return null;
+    if (!amountsMatch(a, b)) return null;
+
+    const days = daysApart(a.date, b.date);
+    if (days > DATE_WINDOW_DAYS) return null;
+
+    let similarity: number;
+    if (!normalizeDescription(a.description) && !normalizeDescription(b.description)) {
+        // Nothing to compare: only a same-category pair is suspicious
+        if (!a.categoryId || a.categoryId !== b.categoryId) return null;
+        similarity = MIN_DESCRIPTION_SIMILARITY;
+    } else {
+        similarity = descriptionSimilarity(a.description, b.description);
+        if (similarity < MIN_DESCRIPTION_SIMILARITY) return null;
+    }
+
+    // Same day keeps the similarity; each day apart lowers it a little
+    const score = similarity * (1 - days / (DATE_WINDOW_DAYS + 1) / 2);
+    return Math.round(score * 100) / 100;
+}
+
+function shiftDate(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Look for duplicates of the given transactions (or of every transaction when no
+ * IDs are given) and record new candidate pairs. Returns the number of pairs found.
+ */
+export async function detectDuplicateTransactions(userId: string, transactionIds?: string[]): Promise<number> {
+    let targets: Comparable[];
+    let pool: Comparable[];
+
+    if (transactionIds) {
+        if (transactionIds.length === 0) return 0;
+        targets = [];
+        for (let i = 0; i < transactionIds.length; i += 500) {
+            targets.push(...await db
+                .select(comparableColumns)
+                .from(transactions)
+                .where(and(eq(transactions.userId, userId), inArray(transactions.id, transactionIds.slice(i, i + 500)))));
+        }
+        if (targets.length === 0) return 0;
+
+        const dates = targets.map(t => t.date).sort();
+        pool = await db
+            .select(comparableColumns)
+            .from(transactions)
+            .where(and(
+                eq(transactions.userId, userId),
+                ne(transactions.type, 'transfer'),
+                gte(transactions.date, shiftDate(dates[0], -DATE_WINDOW_DAYS)),
+                lte(transactions.date, shiftDate(dates[dates.length - 1], DATE_WINDOW_DAYS))
+            ));
+    } else {
+        pool = await db
+            .select(comparableColumns)
+            .from(transactions)
+            .where(and(eq(transactions.userId, userId), ne(transactions.type, 'transfer')));
+        targets = pool;
+    }
+
+    // Walk the pool in date order; only neighbours inside the window can match
+    pool.sort((a, b) => a.date.localeCompare(b.date));
+    const pairs = new Map<string, { transactionId: string; duplicateId: string; score: number }>();
+
+    for (const target of targets) {
+        const windowStart = shiftDate(target.date, -DATE_WINDOW_DAYS);
+        const windowEnd = shiftDate(target.date, DATE_WINDOW_DAYS);
+
+        // Binary search for the first transaction inside the window
+        let low = 0;
+        let high = pool.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (pool[mid].date < windowStart) low = mid + 1;
+            else high = mid;
+        }
+
+        for (let i = low; i < pool.length && pool[i].date <= windowEnd; i++) {
+            const other = pool[i];
+
+            const score = duplicateScore(target, other);
+            if (score === null) continue;
+
+            const [transactionId, duplicateId] = [target.id, other.id].sort();
+            pairs.set(`${transactionId}|${duplicateId}`, { transactionId, duplicateId, score });
+        }
+    }
+
+    const rows = [...pairs.values()];
+    for (let i = 0; i < rows.length; i += 100) {
+        await db
+            .insert(transactionDuplicates)
+            .values(rows.slice(i, i + 100).map(p => ({ id: uuid(), userId, ...p })))
+            .onConflictDoNothing({ target: [transactionDuplicates.transactionId, transactionDuplicates.duplicateId] });
+    }
+
+    return rows.length;
+}
+
+/**
+ * Check the given transactions for duplicates once the response has been sent.
+ * Call from route handlers after creating or editing transactions.
+ */
+export function scheduleDuplicateCheck(userId: string, transactionIds: string[]): void {
+    after(async () => {
+        try {
+            await detectDuplicateTransactions(userId, transactionIds);
+        } catch (error) {
+            console.error('Background duplicate check failed:', error);
+        }
+    });
+}
+
+export async function countDuplicateCandidates(userId: string): Promise<number> {
+    const result = await db
+        .select({ count: sql<number>`COUNT(*)` })
+        .from(transactionDuplicates)
+        .where(and(eq(transactionDuplicates.userId, userId), eq(transactionDuplicates.status, 'pending')));
+    return Number(result[0]?.count ?? 0);
+}
+
+/**
+ * Pending candidate pairs with both transactions, most likely first. Pairs that no
+ * longer qualify (a transaction was edited or deleted) are dropped on the way.
+ */
+export async function listDuplicateCandidates(userId: string) {
+    const pairs = await db
+        .select()
+        .from(transactionDuplicates)
+        .where(and(eq(transactionDuplicates.userId, userId), eq(transactionDuplicates.status, 'pending')));
+    if (pairs.length === 0) return [];
+
+    const ids = [...new Set(pairs.flatMap(p => [p.transactionId, p.duplicateId]))];
+    const rows = [];
+    for (let i = 0; i < ids.length; i += 500) {
+        rows.push(...await db
+            .select({
+                ...comparableColumns,
+                accountId: transactions.accountId,
+                receiptId: transactions.receiptId,
+                createdAt: transactions.createdAt,
+                category: {
+                    id: categories.id,
+                    name: categories.name,
+                    icon: categories.icon,
+                    color: categories.color,
+                },
+                accountName: accounts.name,
+            })
+            .from(transactions)
+            .leftJoin(categories, eq(transactions.categoryId, categories.id))
+            .leftJoin(accounts, eq(transactions.accountId, accounts.id))
+            .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids.slice(i, i + 500)))));
+    }
+    const byId = new Map(rows.map(r => [r.id, r]));
+
+    const stale: string[] = [];
+    const candidates = [];
+    for (const pair of pairs) {
+        const a = byId.get(pair.transactionId);
+        const b = byId.get(pair.duplicateId);
+        const score = a && b ? duplicateScore(a, b) : null;
+        if (!a || !b || score === null) {
+            stale.push(pair.id);
+            continue;
+        }
+        // Older entry first: it is usually the one to keep
+        const [first, second] = (a.createdAt || '') <= (b.createdAt || '') ? [a, b] : [b, a];
+        candidates.push({ id: pair.id, score, transactions: [first, second] });
+    }
+
+    if (stale.length > 0) {
+        await db.delete(transactionDuplicates).where(inArray(transactionDuplicates.id, stale));
+    }
+
+    return candidates.sort((x, y) => y.score - x.score || y.transactions[0].date.localeCompare(x.transactions[0].date));
+}
+
+/**
+ * Delete the candidate pairs of transactions that are about to be deleted
+ */
+export async function deleteDuplicateCandidates(transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+    await db.delete(transactionDuplicates).where(or(
+        inArray(transactionDuplicates.transactionId, transactionIds),
+        inArray(transactionDuplicates.duplicateId, transactionIds)
+    ));
+}
+
+/**
+ * Mark a candidate pair as not a duplicate. Returns false if it does not exist.
+ */
+export async function dismissDuplicateCandidate(userId: string, pairId: string): Promise<boolean> {
+    const existing = await db
+        .select({ id: transactionDuplicates.id })
+        .from(transactionDuplicates)
+        .where(and(eq(transactionDuplicates.id, pairId), eq(transactionDuplicates.userId, userId)))
+        .limit(1);
+    if (existing.length === 0) return false;
+
+    await db
+        .update(transactionDuplicates)
+        .set({ status: 'dismissed' })
+        .where(eq(transactionDuplicates.id, pairId));
+    return true;
+}
+
+/**
+ * Keep one transaction of a duplicate pair and delete the other. The kept one takes
+ * over the receipt and anything else it is missing (category, account, merchant,
+ * description, statement ID, splits). When both have a receipt, the removed one's
+ * receipt is deleted with it unless another transaction still uses it. Returns null
+ * unless both are the user's income/expense transactions.
+ */
+export async function mergeDuplicateTransactions(userId: string, keepId: string, removeId: string) {
+    const rows = await db
+        .select()
+        .from(transactions)
+        .where(and(
+            eq(transactions.userId, userId),
+            inArray(transactions.id, [keepId, removeId]),
+            ne(transactions.type, 'transfer')
+        ));
+    const keep = rows.find(r => r.id === keepId);
+    const remove = rows.find(r => r.id === removeId);
+    if (!keep || !remove || keepId === removeId) return null;
+
+    const released = await db.transaction(async (tx) => {
+        await tx
+            .update(transactions)
+            .set({
+                receiptId: keep.receiptId ?? remove.receiptId,
+                categoryId: keep.categoryId ?? remove.categoryId,
+                accountId: keep.accountId ?? remove.accountId,
+                merchantId: keep.merchantId ?? remove.merchantId,
+                description: keep.description || remove.description,
+                externalId: keep.externalId ?? remove.externalId, // so re-importing the statement still matches
+                recurringId: keep.recurringId ?? remove.recurringId,
+            })
+            .where(eq(transactions.id, keepId));
+
+        // Splits only carry over when they add up to the kept amount
+        const keptSplits = await tx
+            .select({ id: transactionSplits.id })
+            .from(transactionSplits)
+            .where(eq(transactionSplits.transactionId, keepId))
+            .limit(1);
+        if (keptSplits.length === 0 && keep.currency === remove.currency && keep.amount === remove.amount) {
+            await tx
+                .update(transactionSplits)
+                .set({ transactionId: keepId })
+                .where(eq(transactionSplits.transactionId, removeId));
+        }
+
+        // Tags are the union of both
+        const removedTags = await tx
+            .select({ tagId: transactionTags.tagId })
+            .from(transactionTags)
+            .where(eq(transactionTags.transactionId, removeId));
+        if (removedTags.length > 0) {
+            await tx
+                .insert(transactionTags)
+                .values(removedTags.map(t => ({ id: uuid(), transactionId: keepId, tagId: t.tagId })))
+                .onConflictDoNothing();
+        }
+
+        await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, removeId));
+        await tx.delete(transactionTags).where(eq(transactionTags.transactionId, removeId));
+        await tx.delete(transactionDuplicates).where(or(
+            eq(transactionDuplicates.transactionId, removeId),
+            eq(transactionDuplicates.duplicateId, removeId)
+        ));
+        await tx.delete(transactions).where(eq(transactions.id, removeId));
+
+        // The kept receipt wins; the other one goes unless something else still points at it
+        const orphanId = keep.receiptId && remove.receiptId !== keep.receiptId ? remove.receiptId : null;
+        if (!orphanId) return [];
+        const stillLinked = await tx
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(eq(transactions.receiptId, orphanId))
+            .limit(1);
+        if (stillLinked.length > 0) return [];
+
+        const orphan = await tx
+            .select({ imageHash: receipts.imageHash, attachmentHash: receipts.attachmentHash })
+            .from(receipts)
+            .where(and(eq(receipts.id, orphanId), eq(receipts.userId, userId)));
+        await tx.delete(receiptItems).where(eq(receiptItems.receiptId, orphanId));
+        await tx.delete(receipts).where(and(eq(receipts.id, orphanId), eq(receipts.userId, userId)));
+        return orphan.flatMap(r => [r.imageHash, r.attachmentHash]);
+    });
+
+    await releaseReceiptImages(released);
+
+    return { keptId: keepId, removedId: removeId, receiptId: keep.receiptId ?? remove.receiptId };
+}
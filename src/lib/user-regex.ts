@@ -0,0 +1,78 @@
+// User-written regular expressions (categorization rules, merchant patterns)
+// These run against every transaction and receipt, so a pattern that can
+// backtrack exponentially would stall the server. A repeated group must match
+// its text one way only: groups holding a repeat, an optional item or an
+// alternation, like (a+)+, (a?)+ or (a|a)+, may not be repeated themselves.
+// Only the start of long text is tested.
+
+// Characters of the text a user pattern is tested against
+export const MAX_PATTERN_INPUT = 500;
+
+// Group openers whose "?" is syntax, not a quantifier: (?:, (?=, (?!, (?<=, (?<!, (?<name>
+const GROUP_PREFIX = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)/;
+
+/**
+ * Whether a group is repeated (*, + or {n,m}) while something inside it repeats,
+ * is optional or alternates. Such groups can match the same text in many ways.
+ */
+export function hasAmbiguousRepeat(pattern: string): boolean {
+    // One entry per open group: whether something inside it repeats, is optional or alternates
+    const groups: boolean[] = [];
+    let closedAmbiguous = false; // the token just before is such a group
+    const markGroup = () => {
+        if (groups.length > 0) groups[groups.length - 1] = true;
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '\\') {
+            i++;
+            closedAmbiguous = false;
+        } else if (char === '[') {
+            // Skip the character class; quantifier characters in it are literals
+            for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+                if (pattern[i] === '\\') i++;
+            }
+            closedAmbiguous = false;
+        } else if (char === '(') {
+            groups.push(false);
+            i += (GROUP_PREFIX.exec(pattern.slice(i))?.[0].length ?? 1) - 1;
+            closedAmbiguous = false;
+        } else if (char === ')') {
+            closedAmbiguous = groups.pop() ?? false;
+            if (closedAmbiguous) markGroup();
+        } else if (char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+            if (closedAmbiguous) return true;
+            // An exact count like \d{3} always matches the same length, so its group stays unambiguous
+            if (!/^\{\d+\}/.test(pattern.slice(i))) markGroup();
+        } else if (char === '?' || char === '|') {
+            // An optional item, a lazy repeat or an alternative; (a|b)? itself is not a repeat
+            markGroup();
+            closedAmbiguous = false;
+        } else {
+            closedAmbiguous = false;
+        }
+    }
+    return false;
+}
+
+/**
+ * Compile a user pattern (case-insensitive). Null when it is not a valid
+ * regular expression or repeats an ambiguous group.
+ */
+export function compileUserRegex(pattern: string): RegExp | null {
+    if (hasAmbiguousRepeat(pattern)) return null;
+    try {
+        return new RegExp(pattern, 'i');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Test a compiled user pattern against the first MAX_PATTERN_INPUT characters of the text
+ */
+export function testUserRegex(regex: RegExp, text: string): boolean {
+    return regex.test(text.slice(0, MAX_PATTERN_INPUT));
+}
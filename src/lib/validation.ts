@@ -1,10 +1,22 @@
 import { z } from 'zod';
+import { compileUserRegex } from '@/lib/user-regex';
 
 /**
  * Input validation schemas for API endpoints
  * Prevents SQL injection, invalid data, and DoS attacks
  */
 
+// Transaction split line (amount in the parent transaction's currency)
+export const transactionSplitSchema = z.object({
+    categoryId: z.string().uuid('Invalid category ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    amount: z.number()
+        .positive('Split amount must be positive')
+        .max(1_000_000_000, 'Split amount too large')
+        .finite('Split amount must be a finite number'),
+    description: z.string().max(200).optional().nullable(),
+});
+
 // Transaction validation
 export const transactionSchema = z.object({
     type: z.enum(['income', 'expense']),
@@ -17,6 +29,8 @@ export const transactionSchema = z.object({
         .regex(/^[A-Z]{3}$/, 'Currency must be uppercase letters'),
     categoryId: z.string().uuid('Invalid category ID').optional().nullable()
         .or(z.literal('').transform(() => null)), // Allow empty string => null
+    accountId: z.string().uuid('Invalid account ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
     description: z.string()
         .max(500, 'Description too long (max 500 characters)')
         .optional()
@@ -29,6 +43,15 @@ export const transactionSchema = z.object({
         }, 'Invalid date'),
     receiptId: z.string().uuid().optional().nullable(),
     recurringId: z.string().uuid().optional().nullable(),
+    splits: z.array(transactionSplitSchema).max(100, 'Too many splits (max 100)').optional(),
+    tagIds: z.array(z.string().uuid('Invalid tag ID')).max(20, 'Too many tags (max 20)').optional(),
+});
+
+// Receipt line item (OCR ReceiptItem shape: price is the line total)
+export const receiptItemSchema = z.object({
+    name: z.string().trim().min(1, 'Item name is required').max(200, 'Item name too long'),
+    price: z.number().min(0).max(1_000_000_000).finite(),
+    quantity: z.number().positive().max(100_000).finite().optional().nullable(),
 });
 
 // Receipt validation
@@ -37,15 +60,421 @@ export const receiptSchema = z.object({
         .min(100, 'Image data too small')
         .max(15_000_000, 'Image too large (max ~10MB after base64)') // ~10MB in base64
         .regex(/^data:image\/(jpeg|jpg|png|webp);base64,/, 'Invalid image format'),
+    // Original PDF of a PDF receipt; imageBase64 then holds its rendered pages
+    attachmentBase64: z.string()
+        .max(15_000_000, 'PDF too large (max ~10MB after base64)')
+        .regex(/^data:application\/pdf;base64,/, 'Invalid attachment format')
+        .optional()
+        .nullable(),
     ocrRawText: z.string().max(50000).optional().nullable(),
     ocrMerchant: z.string().max(200).optional().nullable(),
     ocrDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
     ocrAmount: z.number().positive().optional().nullable(),
     ocrCurrency: z.string().length(3).optional().nullable(),
     ocrConfidence: z.number().min(0).max(1).optional().nullable(),
+    accountId: z.string().uuid().optional().nullable(),
+    items: z.array(receiptItemSchema).max(200, 'Too many items (max 200)').optional(),
     verified: z.boolean().optional().default(false),
 });
 
+// Duplicate check before scanning: fingerprints from lib/image-hash.ts
+export const receiptDuplicateCheckSchema = z.object({
+    images: z.array(z.object({
+        fileHash: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid file hash'),
+        perceptualHash: z.string().regex(/^[a-f0-9]{16}$/, 'Invalid perceptual hash').nullable(),
+    })).min(1, 'At least one image is required').max(100, 'Too many images (max 100)'),
+});
+
+export const receiptMergeSchema = z.object({
+    keepId: z.string().uuid('Invalid receipt ID'),
+    duplicateIds: z.array(z.string().uuid('Invalid receipt ID'))
+        .min(1, 'At least one duplicate is required')
+        .max(50, 'Too many duplicates (max 50)'),
+});
+
+// Duplicate transaction merge: keepId survives, removeId is deleted
+export const transactionMergeSchema = z.object({
+    keepId: z.string().uuid('Invalid transaction ID'),
+    removeId: z.string().uuid('Invalid transaction ID'),
+}).refine(data => data.keepId !== data.removeId, {
+    message: 'Pick two different transactions',
+    path: ['removeId'],
+});
+
+// Account validation
+export const accountSchema = z.object({
+    name: z.string()
+        .min(1, 'Account name is required')
+        .max(100, 'Account name too long (max 100 characters)'),
+    type: z.enum(['bank', 'ewallet', 'cash', 'credit_card']),
+    currency: z.string()
+        .length(3, 'Currency must be 3-letter code (e.g., USD, IDR)')
+        .regex(/^[A-Z]{3}$/, 'Currency must be uppercase letters')
+        .default('IDR'),
+    openingBalance: z.number()
+        .min(-1_000_000_000, 'Opening balance too small')
+        .max(1_000_000_000, 'Opening balance too large')
+        .finite()
+        .default(0),
+    openingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+    icon: z.string().max(20).optional().nullable(),
+    color: z.string().max(20).optional().nullable(),
+    isArchived: z.boolean().optional().default(false),
+});
+
+// Transfer validation (money moving between two of the user's accounts)
+export const transferSchema = z.object({
+    fromAccountId: z.string().uuid('Invalid source account ID'),
+    toAccountId: z.string().uuid('Invalid destination account ID'),
+    amount: z.number()
+        .positive('Amount must be positive')
+        .max(1_000_000_000, 'Amount too large')
+        .finite('Amount must be a finite number'),
+    toAmount: z.number().positive().max(1_000_000_000).finite().optional().nullable(), // FX leg, destination currency
+    fee: z.number().min(0).max(1_000_000_000).finite().optional().default(0), // charged to the source account
+    description: z.string()
+        .max(500, 'Description too long (max 500 characters)')
+        .optional()
+        .nullable(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format'),
+}).refine(data => data.fromAccountId !== data.toAccountId, {
+    message: 'Source and destination accounts must differ',
+    path: ['toAccountId'],
+});
+
+export type TransferInput = z.infer<typeof transferSchema>;
+
+// Bank CSV column mapping (zero-based column indexes, see lib/csv-import.ts)
+const csvColumn = z.number().int().min(0).max(200);
+
+export const csvMappingSchema = z.object({
+    delimiter: z.enum([',', ';', '\t', '|']),
+    skipRows: z.number().int().min(0).max(100).default(0),
+    hasHeader: z.boolean().default(true),
+    dateFormat: z.string().min(2).max(30),
+    decimalSeparator: z.enum(['.', ',']).default('.'),
+    amountMode: z.enum(['signed', 'debit_credit', 'indicator']),
+    columns: z.object({
+        date: csvColumn,
+        description: csvColumn,
+        amount: csvColumn.optional().nullable(),
+        debit: csvColumn.optional().nullable(),
+        credit: csvColumn.optional().nullable(),
+        indicator: csvColumn.optional().nullable(),
+    }),
+    debitIndicator: z.string().max(20).optional().nullable(),
+}).refine(data => data.amountMode === 'debit_credit'
+    ? data.columns.debit != null && data.columns.credit != null
+    : data.columns.amount != null, {
+    message: 'Map the amount column (or both debit and credit columns)',
+    path: ['columns'],
+}).refine(data => data.amountMode !== 'indicator' || data.columns.indicator != null, {
+    message: 'Map the debit/credit indicator column',
+    path: ['columns', 'indicator'],
+});
+
+// Saved CSV mapping profile (one per bank layout)
+export const importProfileSchema = z.object({
+    name: z.string()
+        .min(1, 'Profile name is required')
+        .max(100, 'Profile name too long (max 100 characters)'),
+    mapping: csvMappingSchema,
+    accountId: z.string().uuid('Invalid account ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    currency: z.string().length(3).regex(/^[A-Z]{3}$/).default('IDR'),
+});
+
+const isValidRegex = (pattern: string) => compileUserRegex(pattern) !== null;
+
+const INVALID_REGEX_MESSAGE = 'Invalid regular expression (repeating a group with a repeat, optional item or alternation, like (a+)+ or (a|b)+, is not allowed)';
+
+// Auto-categorization rule (see lib/categorization-rules.ts)
+export const categorizationRuleSchema = z.object({
+    name: z.string()
+        .min(1, 'Rule name is required')
+        .max(100, 'Rule name too long (max 100 characters)'),
+    priority: z.number().int().min(0).max(10_000).default(0),
+    enabled: z.boolean().default(true),
+    matchField: z.enum(['description', 'merchant']).default('description'),
+    matchType: z.enum(['contains', 'regex']).default('contains'),
+    pattern: z.string().max(200, 'Pattern too long (max 200 characters)').optional().nullable()
+        .transform(value => value?.trim() || null),
+    minAmount: z.number().min(0).max(1_000_000_000).optional().nullable(),
+    maxAmount: z.number().min(0).max(1_000_000_000).optional().nullable(),
+    currency: z.string().length(3).regex(/^[A-Z]{3}$/).optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    accountId: z.string().uuid('Invalid account ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    transactionType: z.enum(['income', 'expense']).optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    setCategoryId: z.string().uuid('Invalid category ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    renameTo: z.string().max(500).optional().nullable()
+        .transform(value => value?.trim() || null),
+    addTagId: z.string().uuid('Invalid tag ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+}).refine(data => data.matchType !== 'regex' || !data.pattern || isValidRegex(data.pattern), {
+    message: INVALID_REGEX_MESSAGE,
+    path: ['pattern'],
+}).refine(data => data.minAmount == null || data.maxAmount == null || data.minAmount <= data.maxAmount, {
+    message: 'Minimum amount must not exceed the maximum',
+    path: ['minAmount'],
+}).refine(data => !!data.setCategoryId || !!data.renameTo || !!data.addTagId, {
+    message: 'Choose a category, a new description or a tag',
+    path: ['setCategoryId'],
+});
+
+// Re-apply rules to existing transactions
+export const categorizationRuleApplySchema = z.object({
+    overwrite: z.boolean().optional().default(false), // also recategorize transactions that have a category
+});
+
+// Transaction tag
+export const tagSchema = z.object({
+    name: z.string()
+        .trim()
+        .min(1, 'Tag name is required')
+        .max(50, 'Tag name too long (max 50 characters)'),
+    color: z.string().max(20).optional().nullable(),
+});
+
+// Merchant directory entry (see lib/merchants.ts)
+export const merchantSchema = z.object({
+    name: z.string()
+        .trim()
+        .min(1, 'Merchant name is required')
+        .max(100, 'Merchant name too long (max 100 characters)'),
+    aliases: z.array(z.string().trim().min(1).max(100)).max(50, 'Too many aliases (max 50)').default([]),
+    pattern: z.string().max(200, 'Pattern too long (max 200 characters)').optional().nullable()
+        .transform(value => value?.trim() || null)
+        .refine(value => !value || isValidRegex(value), INVALID_REGEX_MESSAGE),
+    categoryId: z.string().uuid('Invalid category ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    color: z.string().max(20).optional().nullable(),
+});
+
+// Fold duplicate merchants into one
+export const merchantMergeSchema = z.object({
+    keepId: z.string().uuid('Invalid merchant ID'),
+    mergeIds: z.array(z.string().uuid('Invalid merchant ID')).min(1, 'Choose merchants to merge').max(100),
+});
+
+// Bank CSV import request
+export const csvImportSchema = z.object({
+    csv: z.string()
+        .min(1, 'CSV file is empty')
+        .max(5_000_000, 'CSV file too large (max ~5MB)'),
+    mapping: csvMappingSchema,
+    accountId: z.string().uuid('Invalid account ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    categoryId: z.string().uuid('Invalid category ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    currency: z.string().length(3).regex(/^[A-Z]{3}$/).optional(),
+    dryRun: z.boolean().optional().default(false), // preview only, nothing is written
+    skipDuplicates: z.boolean().optional().default(true),
+});
+
+// OFX/QFX and QIF import request (the file formats carry their own layout)
+export const statementImportSchema = z.object({
+    content: z.string()
+        .min(1, 'File is empty')
+        .max(5_000_000, 'File too large (max ~5MB)'),
+    accountId: z.string().uuid('Invalid account ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    categoryId: z.string().uuid('Invalid category ID').optional().nullable()
+        .or(z.literal('').transform(() => null)),
+    currency: z.string().length(3).regex(/^[A-Z]{3}$/).optional(), // QIF only; OFX states its own
+    dateOrder: z.enum(['MDY', 'DMY']).optional().default('MDY'), // QIF only
+    dryRun: z.boolean().optional().default(false),
+    skipDuplicates: z.boolean().optional().default(true),
+});
+
+// Backup archive (see lib/backup.ts). IDs are only used to link rows within the
+// archive; restore assigns new ones.
+const backupId = z.string().min(1).max(100);
+const backupRef = backupId.nullable().optional();
+const backupText = (max: number) => z.string().max(max).nullable().optional();
+const backupCurrency = z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code').nullable().optional();
+const backupDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD format');
+const backupAmount = z.number().finite().min(-1_000_000_000_000).max(1_000_000_000_000);
+
+export const backupArchiveSchema = z.object({
+    format: z.literal('dooweed-backup', 'Not a Dooweed backup file'),
+    version: z.literal(1, 'Unsupported backup version'),
+    createdAt: z.string().max(40).optional(),
+    data: z.object({
+        categories: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(100),
+            type: z.enum(['income', 'expense']),
+            parentId: backupRef,
+            icon: backupText(50),
+            color: backupText(20),
+            createdAt: backupText(40),
+        })).max(1000),
+        accounts: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(100),
+            type: z.enum(['bank', 'ewallet', 'cash', 'credit_card']),
+            currency: backupCurrency,
+            openingBalance: backupAmount.default(0),
+            openingDate: backupDate.nullable().optional(),
+            icon: backupText(20),
+            color: backupText(20),
+            isArchived: z.boolean().nullable().optional(),
+            createdAt: backupText(40),
+        })).max(1000),
+        transactions: z.array(z.object({
+            id: backupId,
+            type: z.enum(['income', 'expense', 'transfer']),
+            amount: backupAmount,
+            currency: backupCurrency,
+            amountInBase: backupAmount.nullable().optional(),
+            categoryId: backupRef,
+            accountId: backupRef,
+            toAccountId: backupRef,
+            toAmount: backupAmount.nullable().optional(),
+            transferId: backupRef,
+            description: backupText(500),
+            date: backupDate,
+            receiptId: backupRef,
+            recurringId: backupRef,
+            externalId: backupText(255),
+            merchantId: backupRef,
+            createdAt: backupText(40),
+        })).max(200_000),
+        transactionSplits: z.array(z.object({
+            id: backupId,
+            transactionId: backupId,
+            categoryId: backupRef,
+            amount: backupAmount,
+            description: backupText(200),
+            createdAt: backupText(40),
+        })).max(200_000).default([]),
+        receipts: z.array(z.object({
+            id: backupId,
+            imageBase64: z.string().max(15_000_000).nullable().optional(), // data URL; null if the image was missing
+            attachmentBase64: z.string().max(15_000_000).nullable().optional(), // original PDF of PDF receipts
+            ocrRawText: backupText(50000),
+            ocrMerchant: backupText(200),
+            ocrDate: backupText(40),
+            ocrAmount: backupAmount.nullable().optional(),
+            ocrCurrency: backupText(3),
+            ocrConfidence: z.number().min(0).max(1).nullable().optional(),
+            fileName: backupText(255),
+            fileHash: backupText(64),
+            merchantId: backupRef,
+            accountId: backupRef,
+            hasQris: z.boolean().nullable().optional(),
+            verified: z.boolean().nullable().optional(),
+            isAutomated: z.boolean().nullable().optional(),
+            createdAt: backupText(40),
+        })).max(20_000),
+        receiptItems: z.array(z.object({
+            id: backupId,
+            receiptId: backupId,
+            name: z.string().min(1).max(200),
+            normalizedName: z.string().max(200),
+            quantity: z.number().finite().default(1),
+            unitPrice: backupAmount,
+            totalPrice: backupAmount,
+            currency: backupCurrency,
+            position: z.number().int().min(0).default(0),
+            createdAt: backupText(40),
+        })).max(200_000).default([]),
+        budgets: z.array(z.object({
+            id: backupId,
+            categoryId: backupRef,
+            amount: backupAmount,
+            currency: backupCurrency,
+            period: z.enum(['weekly', 'monthly', 'yearly']),
+            startDate: backupText(40),
+            createdAt: backupText(40),
+        })).max(1000),
+        recurringTransactions: z.array(z.object({
+            id: backupId,
+            type: z.enum(['income', 'expense']),
+            amount: backupAmount,
+            currency: backupCurrency,
+            categoryId: backupRef,
+            accountId: backupRef,
+            description: backupText(500),
+            frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+            nextDate: backupText(40),
+            endDate: backupText(40),
+            isActive: z.boolean().nullable().optional(),
+            createdAt: backupText(40),
+        })).max(1000),
+        importProfiles: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(100),
+            mapping: csvMappingSchema,
+            accountId: backupRef,
+            currency: backupCurrency,
+            createdAt: backupText(40),
+            updatedAt: backupText(40),
+        })).max(1000).default([]),
+        merchantTemplates: z.array(z.object({
+            id: backupId,
+            fingerprint: z.string().min(1).max(500),
+            merchantName: z.string().min(1).max(200),
+            totalLabel: backupText(200),
+            dateOrder: z.enum(['dmy', 'mdy', 'ymd']).nullable().optional(),
+            categoryId: backupRef,
+            createdAt: backupText(40),
+            updatedAt: backupText(40),
+        })).max(5000).default([]),
+        categorizationRules: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(100),
+            priority: z.number().int().min(0).default(0),
+            enabled: z.boolean().default(true),
+            matchField: z.enum(['description', 'merchant']).default('description'),
+            matchType: z.enum(['contains', 'regex']).default('contains'),
+            pattern: backupText(200),
+            minAmount: backupAmount.nullable().optional(),
+            maxAmount: backupAmount.nullable().optional(),
+            currency: backupCurrency,
+            accountId: backupRef,
+            transactionType: z.enum(['income', 'expense']).nullable().optional(),
+            setCategoryId: backupRef,
+            renameTo: backupText(500),
+            addTagId: backupRef,
+            createdAt: backupText(40),
+            updatedAt: backupText(40),
+        })).max(1000).default([]),
+        tags: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(50),
+            color: backupText(20),
+            createdAt: backupText(40),
+        })).max(10_000).default([]),
+        transactionTags: z.array(z.object({
+            id: backupId,
+            transactionId: backupId,
+            tagId: backupId,
+            createdAt: backupText(40),
+        })).max(200_000).default([]),
+        merchants: z.array(z.object({
+            id: backupId,
+            name: z.string().min(1).max(100),
+            aliases: z.array(z.string().max(100)).max(50).default([]),
+            pattern: backupText(200),
+            categoryId: backupRef,
+            color: backupText(20),
+            createdAt: backupText(40),
+            updatedAt: backupText(40),
+        })).max(10_000).default([]),
+        currencyPreferences: z.object({
+            fallbackOrder: z.array(z.string().max(20)).min(1).max(10),
+            enabledMethods: z.array(z.string().max(20)).max(10),
+            customRates: z.record(z.string(), z.record(z.string(), z.number().positive().finite())).nullable().optional(),
+        }).nullable().optional(),
+    }),
+});
+
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
 // Budget validation
 export const budgetSchema = z.object({
     categoryId: z.string().uuid('Invalid category ID').optional().nullable() // Optional for universal budgets
@@ -64,6 +493,7 @@ export const recurringTransactionSchema = z.object({
     amount: z.number().positive().max(1_000_000_000),
     currency: z.string().length(3).default('IDR'),
     categoryId: z.string().uuid().optional().nullable(),
+    accountId: z.string().uuid().optional().nullable(),
     description: z.string().max(500).optional().nullable(),
     frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
     nextDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),